@@ -1,6 +1,21 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
+/// @dev Minimal BEP-20 / ERC-20 surface used for stablecoin bookings
+interface IERC20 {
+    function balanceOf(address account) external view returns (uint256);
+    function transfer(address to, uint256 value) external returns (bool);
+    function transferFrom(address from, address to, uint256 value) external returns (bool);
+}
+
+/// @dev EIP-2612 — lets the advertiser approve and fund in one transaction
+interface IERC20Permit {
+    function permit(
+        address owner, address spender, uint256 value,
+        uint256 deadline, uint8 v, bytes32 r, bytes32 s
+    ) external;
+}
+
 /**
  * @title  PhysicalWallEscrow
  * @author Wallad Protocol
@@ -9,14 +24,17 @@ pragma solidity ^0.8.20;
  * ┌─────────────────────────────────────────────────────────────────────┐
  * │  FUND FLOW (no platform key, no oracle, no automation required)     │
  * │                                                                     │
- * │  Advertiser ──fundBooking()──► Contract (holds BNB)                 │
+ * │  Advertiser ──fundBooking()──► Contract (holds BNB or a stablecoin) │
+ * │            (or fundBookingWithQuote() with a signed price quote)    │
  * │                                    │                                │
  * │  Installer ──submitProof()─────────┤ (IPFS hash on-chain)          │
  * │                                    │                                │
- * │  Advertiser ──approveProof()───────┴──► Wall Owner receives BNB    │
+ * │  Advertiser ──approveProof()───────┴──► Wall Owner / Installer /    │
+ * │                                         Treasury (fee split)        │
  * │            ──rejectProof()─────────────► Advertiser refunded        │
  * │  (anyone) ──claimAfterTimeout()────────► Wall Owner (auto-release)  │
  * │  Advertiser ──reclaimExpired()─────────► Advertiser (no proof)      │
+ * │  Advertiser ──cancelBooking()──────────► Advertiser (minus fee)     │
  * └─────────────────────────────────────────────────────────────────────┘
  *
  * State Machine per booking:
@@ -26,8 +44,25 @@ pragma solidity ^0.8.20;
  *
  *   ProofSubmitted + window elapsed + no action ─► claimAfterTimeout ─► Approved
  *
+ *   Funded ──► Cancelled   before the first proof, by the advertiser alone
+ *                          (cancellation fee to the wall owner), or at any
+ *                          Funded point with EIP-712 consent from both the
+ *                          advertiser and the wall owner (full refund)
+ *
+ *   Milestone bookings repeat Funded ⇄ ProofSubmitted once per milestone:
+ *   each approval (or timeout) releases a pro-rata share and returns the
+ *   booking to Funded for the next proof; the last one ends in Approved.
+ *   A rejection or missed deadline refunds whatever is still escrowed.
+ *
+ *   With an arbiter set at funding, rejectProof opens a dispute instead:
+ *   ProofSubmitted ──► Disputed ──► Contested ──► Resolved (arbiter's split)
+ *                         │              └──────► Resolved (even split, arbiter silent)
+ *                         └──────► Rejected  (owner didn't contest in time)
+ *
  * @dev Reentrancy protected by zeroing amount before .call{value}.
- *      Struct packed into 4 storage slots for gas efficiency.
+ *      Struct packed into 7 storage slots for gas efficiency.
+ *      Calls relayed by trustedForwarder (ERC-2771) act for the signer of the
+ *      forwarded request, so installers without BNB can still submit proof.
  */
 contract PhysicalWallEscrow {
 
@@ -41,6 +76,15 @@ contract PhysicalWallEscrow {
     error DisputeWindowClosed();
     error ProofDeadlineMissed();
     error ProofDeadlineNotReached();
+    error InvalidTerms();
+    error InvalidFee();
+    error TokenNotAllowed();
+    error FeeOnTransferToken();
+    error InvalidShare();
+    error InvalidSignature();
+    error SignatureExpired();
+    error QuoteRequired();
+    error QuoteMismatch();
 
     // ─── State Machine ───────────────────────────────────────────────────────
     enum BookingState {
@@ -48,18 +92,25 @@ contract PhysicalWallEscrow {
         ProofSubmitted,  // 1 — IPFS proof hash on-chain, dispute window open
         Approved,        // 2 — funds released to wallOwner
         Rejected,        // 3 — funds returned to advertiser
-        Expired          // 4 — installer missed deadline, advertiser refunded
+        Expired,         // 4 — installer missed deadline, advertiser refunded
+        Disputed,        // 5 — advertiser rejected an arbitrated booking; owner may contest
+        Contested,       // 6 — owner contested, awaiting the arbiter
+        Resolved,        // 7 — arbiter split the escrow between owner and advertiser
+        Cancelled        // 8 — cancelled before installation, advertiser refunded
     }
 
     /**
-     * @dev Packed into exactly 4 × 32-byte storage slots:
+     * @dev Packed into 7 × 32-byte storage slots:
      *   Slot 0: advertiser (20B) + amount (12B)        = 32B
      *   Slot 1: wallOwner (20B) + fundedAt (8B) + proofDeadlineSec (4B)  = 32B
      *   Slot 2: installer (20B) + proofSubmittedAt (8B) + state (1B) + disputeWindowSec (3B) = 32B
      *   Slot 3: proofContentHash (32B)
      *   Slot 4: metadataHash (32B)
+     *   Slot 5: platformFeeBps (2B) + installerFeeBps (2B) + token (20B)
+     *           + disputedAt (5B) + milestoneCount (1B) + milestone (1B)
+     *   Slot 6: milestoneIntervalSec (4B) + cancellationFeeBps (2B) + arbiter (20B) + contestedAt (5B)
      *
-     *   Total: 5 slots (160 bytes) — tight for this data density.
+     *   Total: 7 slots (224 bytes) — tight for this data density.
      */
     struct Booking {
         // Slot 0
@@ -82,6 +133,37 @@ contract PhysicalWallEscrow {
 
         // Slot 4
         bytes32  metadataHash;      // keccak256 of off-chain booking JSON (integrity anchor)
+
+        // Slot 5 — fee split committed at funding, applied only on approval
+        uint16   platformFeeBps;    // share of amount sent to treasury
+        uint16   installerFeeBps;   // share of amount sent to installer
+        address  token;             // BEP-20 the amount is held in; address(0) = native BNB
+        uint40   disputedAt;        // 5B  — block.timestamp of the disputed rejection
+        uint8    milestoneCount;    // proofs (and pro-rata releases) the booking is split into
+        uint8    milestone;         // index of the milestone awaiting proof / decision
+
+        // Slot 6
+        uint32   milestoneIntervalSec; // each milestone's proof deadline is this much after the previous one
+        uint16   cancellationFeeBps;   // share paid to the wall owner if the advertiser cancels alone
+        address  arbiter;              // arbiter at funding; address(0) = rejections refund directly
+        uint40   contestedAt;          // 5B — block.timestamp the wall owner contested
+    }
+
+    /**
+     * @notice Price the platform quoted for a campaign, signed by quoteSigner.
+     *         Binds what the advertiser was shown to what they escrow, for one
+     *         booking between one advertiser and one wall owner.
+     */
+    struct PriceQuote {
+        bytes32 bookingId;  // the only booking the quote can fund
+        address advertiser; // the only wallet that can fund it
+        address wallOwner;  // payee the price was quoted for
+        bytes32 wallId;     // keccak256 of the off-chain wall id
+        uint64  startDate;  // campaign start, unix seconds (UTC midnight)
+        uint64  endDate;    // campaign end, exclusive
+        address token;      // currency; address(0) = native BNB
+        uint96  amount;     // exact amount to escrow, in the currency's smallest unit
+        uint64  expiresAt;  // quote is refused after this timestamp
     }
 
     // ─── Constants ───────────────────────────────────────────────────────────
@@ -91,10 +173,87 @@ contract PhysicalWallEscrow {
     /// @notice Time window during which advertiser can reject proof after submission
     uint24 public constant DEFAULT_DISPUTE_WINDOW = 7 days;
 
+    /// @notice Bounds for per-booking terms passed to fundBookingWithTerms
+    uint32 public constant MIN_PROOF_DEADLINE = 1 days;
+    uint32 public constant MAX_PROOF_DEADLINE = 180 days;
+    uint24 public constant MIN_DISPUTE_WINDOW = 1 days;
+    uint24 public constant MAX_DISPUTE_WINDOW = 30 days;
+
+    /// @notice Upper bound on milestones per booking (e.g. install, checks, removal)
+    uint8  public constant MAX_MILESTONES = 12;
+
+    uint16 public constant BPS_DENOMINATOR       = 10_000;
+    uint16 public constant MAX_PLATFORM_FEE_BPS  = 1_000;   // 10%
+    uint16 public constant MAX_INSTALLER_FEE_BPS = 5_000;   // 50%
+    uint16 public constant MAX_CANCELLATION_FEE_BPS = 2_000; // 20%
+
+    /// @notice Time after a disputed rejection for the wall owner to contest it
+    uint32 public constant CONTEST_WINDOW = 3 days;
+
+    /// @notice Time after a contest for the arbiter to rule before anyone may split the escrow evenly
+    uint32 public constant ARBITRATION_TIMEOUT = 30 days;
+
+    /// @notice Wall owner's share when a contested dispute times out
+    uint16 public constant TIMEOUT_SHARE_BPS = 5_000;
+
+    /// @notice EIP-712 struct both parties sign to cancel a booking by mutual consent
+    bytes32 public constant CANCEL_TYPEHASH =
+        keccak256("CancelBooking(bytes32 bookingId,uint256 deadline)");
+
+    /// @notice EIP-712 struct the platform's quote signer signs for a price quote
+    bytes32 public constant QUOTE_TYPEHASH = keccak256(
+        "PriceQuote(bytes32 bookingId,address advertiser,address wallOwner,bytes32 wallId,uint64 startDate,uint64 endDate,address token,uint96 amount,uint64 expiresAt)"
+    );
+
+    bytes32 private constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+
+    /// @dev secp256k1 n / 2 — higher s values are malleable duplicates
+    uint256 private constant HALF_CURVE_ORDER =
+        0x7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0;
+
     // ─── Storage ─────────────────────────────────────────────────────────────
     /// @notice bookingId => Booking
     mapping(bytes32 => Booking) public bookings;
 
+    /// @notice May change the treasury and platform fee (never touches escrowed funds)
+    address public owner;
+
+    /// @notice Receives the platform fee on approved bookings
+    address public treasury;
+
+    /// @notice Platform fee applied to bookings funded from now on
+    uint16  public platformFeeBps;
+
+    /// @notice Installer's share of approved payouts for bookings funded from now on.
+    ///         Set by the platform, not the advertiser, so an advertiser acting as
+    ///         their own installer cannot claw back part of the wall owner's payout
+    uint16  public installerFeeBps;
+
+    /// @notice BEP-20 tokens (e.g. USDT, USDC) accepted by fundBookingWithToken
+    mapping(address => bool) public allowedTokens;
+
+    /// @notice Arbiter committed to bookings funded from now on (EOA or multisig);
+    ///         address(0) = no arbitration
+    address public arbiter;
+
+    /// @notice Cancellation fee applied to bookings funded from now on
+    uint16  public cancellationFeeBps;
+
+    /// @notice Signs price quotes; when set, bookings must be funded through
+    ///         fundBookingWithQuote. address(0) = quotes not required
+    address public quoteSigner;
+
+    /// @notice ERC-2771 forwarder whose calls are attributed to the address it
+    ///         appends to calldata; address(0) = meta-transactions disabled
+    address public trustedForwarder;
+
+    constructor() {
+        owner    = msg.sender;
+        treasury = msg.sender;
+    }
+
     // ─── Events ──────────────────────────────────────────────────────────────
     event BookingFunded(
         bytes32 indexed bookingId,
@@ -102,7 +261,25 @@ contract PhysicalWallEscrow {
         address indexed wallOwner,
         address  installer,
         uint96   amount,
-        bytes32  metadataHash
+        bytes32  metadataHash,
+        address  token
+    );
+
+    /// @dev Emitted alongside BookingFunded so indexers know the deadlines and split in force
+    event BookingTermsSet(
+        bytes32 indexed bookingId,
+        uint32  proofDeadlineSec,
+        uint24  disputeWindowSec,
+        uint64  proofDeadlineAt,
+        uint16  platformFeeBps,
+        uint16  installerFeeBps
+    );
+
+    /// @dev Only emitted for bookings split into more than one milestone
+    event MilestonesSet(
+        bytes32 indexed bookingId,
+        uint8   milestoneCount,
+        uint32  milestoneIntervalSec
     );
 
     event ProofSubmitted(
@@ -111,11 +288,59 @@ contract PhysicalWallEscrow {
         uint64  submittedAt
     );
 
+    /// @dev `amount` is what `recipient` receives; fees are non-zero only on approval.
+    ///      finalState Funded marks a milestone release with more milestones to come.
     event FundsReleased(
         bytes32 indexed bookingId,
         address indexed recipient,
         uint96  amount,
-        BookingState finalState
+        BookingState finalState,
+        uint96  installerFee,
+        uint96  platformFee
+    );
+
+    event TreasuryUpdated(address treasury);
+    event PlatformFeeUpdated(uint16 platformFeeBps);
+    event InstallerFeeUpdated(uint16 installerFeeBps);
+    event TokenAllowed(address indexed token, bool allowed);
+    event ArbiterUpdated(address arbiter);
+    event CancellationFeeUpdated(uint16 cancellationFeeBps);
+    event QuoteSignerUpdated(address quoteSigner);
+    event TrustedForwarderUpdated(address forwarder);
+
+    event BookingQuoted(
+        bytes32 indexed bookingId,
+        bytes32 wallId,
+        uint64  startDate,
+        uint64  endDate
+    );
+
+    event ProofDisputed(
+        bytes32 indexed bookingId,
+        bytes32 rejectionReasonHash,
+        uint64  contestDeadline
+    );
+
+    event DisputeContested(
+        bytes32 indexed bookingId,
+        bytes32 contestReasonHash
+    );
+
+    /// @dev Followed by FundsReleased for the wall owner's and/or the advertiser's share.
+    ///      arbiter is address(0) when the dispute was split after ARBITRATION_TIMEOUT
+    event DisputeResolved(
+        bytes32 indexed bookingId,
+        address indexed arbiter,
+        uint16  wallOwnerShareBps,
+        uint96  advertiserRefund
+    );
+
+    /// @dev Followed by FundsReleased for the advertiser's refund and, if any,
+    ///      the wall owner's cancellation fee
+    event BookingCancelled(
+        bytes32 indexed bookingId,
+        bool    mutualConsent,
+        uint96  cancellationFee
     );
 
     // ─── Modifier ────────────────────────────────────────────────────────────
@@ -124,6 +349,11 @@ contract PhysicalWallEscrow {
         _;
     }
 
+    modifier onlyOwner() {
+        if (_msgSender() != owner) revert Unauthorized();
+        _;
+    }
+
     // =========================================================================
     // WRITE FUNCTIONS
     // =========================================================================
@@ -145,40 +375,185 @@ contract PhysicalWallEscrow {
         address installer,
         bytes32 metadataHash
     ) external payable {
-        if (msg.value == 0)                               revert ZeroValue();
-        if (bookings[bookingId].advertiser != address(0)) revert AlreadyExists();
-        if (wallOwner  == address(0))                     revert Unauthorized();
-        if (installer  == address(0))                     revert Unauthorized();
-        if (msg.value  > type(uint96).max)                revert ZeroValue(); // overflow guard
+        _requireNoQuoteSigner();
+        _fund(
+            bookingId, wallOwner, installer, metadataHash,
+            DEFAULT_PROOF_DEADLINE, DEFAULT_DISPUTE_WINDOW, 1, 0,
+            address(0), msg.value
+        );
+    }
 
-        bookings[bookingId] = Booking({
-            advertiser:       msg.sender,
-            amount:           uint96(msg.value),
-            wallOwner:        wallOwner,
-            fundedAt:         uint64(block.timestamp),
-            proofDeadlineSec: DEFAULT_PROOF_DEADLINE,
-            installer:        installer,
-            proofSubmittedAt: 0,
-            state:            BookingState.Funded,
-            disputeWindowSec: DEFAULT_DISPUTE_WINDOW,
-            proofContentHash: bytes32(0),
-            metadataHash:     metadataHash
-        });
+    /**
+     * @notice Same as fundBooking, but with booking-specific deadlines — e.g. a
+     *         campaign starting in three months needs a longer install window.
+     *
+     * @param proofDeadlineSec  Seconds from funding for the installer to submit proof
+     *                          (MIN_PROOF_DEADLINE … MAX_PROOF_DEADLINE)
+     * @param disputeWindowSec  Seconds after proof for the advertiser to reject
+     *                          (MIN_DISPUTE_WINDOW … MAX_DISPUTE_WINDOW)
+     * @param expectedInstallerFeeBps  The current installerFeeBps; funding reverts if
+     *                          the platform changed it since the advertiser was quoted
+     * @param milestoneCount    Proofs the payout is split into (1 … MAX_MILESTONES);
+     *                          each approval releases an equal share of what is left
+     * @param milestoneIntervalSec  Seconds between consecutive milestone proof deadlines;
+     *                          0 for a single milestone, otherwise longer than the
+     *                          dispute window and at most MAX_PROOF_DEADLINE
+     */
+    function fundBookingWithTerms(
+        bytes32 bookingId,
+        address wallOwner,
+        address installer,
+        bytes32 metadataHash,
+        uint32  proofDeadlineSec,
+        uint24  disputeWindowSec,
+        uint16  expectedInstallerFeeBps,
+        uint8   milestoneCount,
+        uint32  milestoneIntervalSec
+    ) external payable {
+        _requireNoQuoteSigner();
+        _checkTerms(proofDeadlineSec, disputeWindowSec, expectedInstallerFeeBps, milestoneCount, milestoneIntervalSec);
+        _fund(
+            bookingId, wallOwner, installer, metadataHash,
+            proofDeadlineSec, disputeWindowSec,
+            milestoneCount, milestoneIntervalSec,
+            address(0), msg.value
+        );
+    }
 
-        emit BookingFunded(
-            bookingId, msg.sender, wallOwner, installer,
-            uint96(msg.value), metadataHash
+    /**
+     * @notice Same as fundBookingWithTerms, but escrows `amount` of a whitelisted
+     *         BEP-20 (stablecoin) instead of BNB. Requires a prior approve().
+     *
+     * @param token   Token in allowedTokens; payouts are made in the same token
+     * @param amount  Token amount in its smallest unit (respecting its decimals)
+     *
+     * @dev Reverts FeeOnTransferToken if the contract receives less than `amount`.
+     */
+    function fundBookingWithToken(
+        bytes32 bookingId,
+        address wallOwner,
+        address installer,
+        bytes32 metadataHash,
+        uint32  proofDeadlineSec,
+        uint24  disputeWindowSec,
+        uint16  expectedInstallerFeeBps,
+        uint8   milestoneCount,
+        uint32  milestoneIntervalSec,
+        address token,
+        uint96  amount
+    ) external {
+        _requireNoQuoteSigner();
+        if (!allowedTokens[token]) revert TokenNotAllowed();
+        _checkTerms(proofDeadlineSec, disputeWindowSec, expectedInstallerFeeBps, milestoneCount, milestoneIntervalSec);
+        _fund(
+            bookingId, wallOwner, installer, metadataHash,
+            proofDeadlineSec, disputeWindowSec,
+            milestoneCount, milestoneIntervalSec,
+            token, amount
         );
+        _pullToken(token, amount);
     }
 
     /**
-     * @notice Installer submits SHA-256 of IPFS proof manifest.
+     * @notice fundBookingWithToken preceded by an EIP-2612 permit, for tokens
+     *         that support it — no separate approve() transaction.
+     *
+     * @dev A failing permit is ignored so a front-run permit (same signature
+     *      already used) doesn't block funding; transferFrom still needs the
+     *      allowance to be in place.
+     */
+    function fundBookingWithPermit(
+        bytes32 bookingId,
+        address wallOwner,
+        address installer,
+        bytes32 metadataHash,
+        uint32  proofDeadlineSec,
+        uint24  disputeWindowSec,
+        uint16  expectedInstallerFeeBps,
+        uint8   milestoneCount,
+        uint32  milestoneIntervalSec,
+        address token,
+        uint96  amount,
+        uint256 permitDeadline,
+        uint8   v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        _requireNoQuoteSigner();
+        if (!allowedTokens[token]) revert TokenNotAllowed();
+        try IERC20Permit(token).permit(_msgSender(), address(this), amount, permitDeadline, v, r, s) {} catch {}
+
+        _checkTerms(proofDeadlineSec, disputeWindowSec, expectedInstallerFeeBps, milestoneCount, milestoneIntervalSec);
+        _fund(
+            bookingId, wallOwner, installer, metadataHash,
+            proofDeadlineSec, disputeWindowSec,
+            milestoneCount, milestoneIntervalSec,
+            token, amount
+        );
+        _pullToken(token, amount);
+    }
+
+    /**
+     * @notice fundBookingWithTerms / fundBookingWithToken against a price quote
+     *         signed by quoteSigner. The escrowed amount and currency are the
+     *         quote's: BNB bookings must send exactly `quote.amount`, token
+     *         bookings send no BNB and need a prior approve() for it.
+     *
+     * @param quote           Quote shown to the advertiser (see PriceQuote)
+     * @param quoteSignature  65-byte EIP-712 signature of quoteDigest(quote)
+     *
+     * @dev Reverts SignatureExpired after quote.expiresAt, InvalidSignature if
+     *      not signed by the current quoteSigner, QuoteMismatch when the quote
+     *      is for another booking, advertiser or wall owner, or on a wrong
+     *      msg.value. BookingQuoted records the quoted wall and dates.
+     */
+    function fundBookingWithQuote(
+        bytes32 bookingId,
+        address wallOwner,
+        address installer,
+        bytes32 metadataHash,
+        uint32  proofDeadlineSec,
+        uint24  disputeWindowSec,
+        uint16  expectedInstallerFeeBps,
+        uint8   milestoneCount,
+        uint32  milestoneIntervalSec,
+        PriceQuote calldata quote,
+        bytes calldata quoteSignature
+    ) external payable {
+        if (block.timestamp > quote.expiresAt) revert SignatureExpired();
+        if (_recover(quoteDigest(quote), quoteSignature) != quoteSigner) revert InvalidSignature();
+        if (quote.bookingId != bookingId || quote.advertiser != _msgSender() || quote.wallOwner != wallOwner)
+            revert QuoteMismatch();
+
+        address token = quote.token;
+        if (token == address(0)) {
+            if (msg.value != quote.amount) revert QuoteMismatch();
+        } else {
+            if (msg.value != 0) revert QuoteMismatch();
+            if (!allowedTokens[token]) revert TokenNotAllowed();
+        }
+
+        _checkTerms(proofDeadlineSec, disputeWindowSec, expectedInstallerFeeBps, milestoneCount, milestoneIntervalSec);
+        _fund(
+            bookingId, wallOwner, installer, metadataHash,
+            proofDeadlineSec, disputeWindowSec,
+            milestoneCount, milestoneIntervalSec,
+            token, quote.amount
+        );
+        emit BookingQuoted(bookingId, quote.wallId, quote.startDate, quote.endDate);
+        if (token != address(0)) _pullToken(token, quote.amount);
+    }
+
+    /**
+     * @notice Installer submits SHA-256 of IPFS proof manifest for the current
+     *         milestone.
      *
      * @param bookingId        Booking to attach proof to
      * @param proofContentHash SHA-256(manifestBytes) — first 32 bytes of content hash
      *
-     * @dev Full CID reconstructable off-chain:
-     *      CIDv1 = multibase(varint(0x12) + varint(0x20) + proofContentHash)
+     * @dev The manifest is stored as a single raw IPFS block, so its CID is
+     *      reconstructable off-chain from the hash alone:
+     *      CIDv1 = multibase(0x01 ‖ 0x55 raw ‖ 0x12 sha2-256 ‖ 0x20 ‖ proofContentHash)
      *      This pattern avoids storing a variable-length string and saves ~10k gas.
      */
     function submitProof(bytes32 bookingId, bytes32 proofContentHash)
@@ -186,12 +561,9 @@ contract PhysicalWallEscrow {
         inState(bookingId, BookingState.Funded)
     {
         Booking storage b = bookings[bookingId];
-        if (msg.sender != b.installer) revert Unauthorized();
+        if (_msgSender() != b.installer) revert Unauthorized();
 
-        unchecked {
-            if (block.timestamp > uint256(b.fundedAt) + uint256(b.proofDeadlineSec))
-                revert ProofDeadlineMissed();
-        }
+        if (block.timestamp > _proofDeadline(b)) revert ProofDeadlineMissed();
 
         b.proofContentHash = proofContentHash;
         b.proofSubmittedAt = uint64(block.timestamp);
@@ -202,21 +574,22 @@ contract PhysicalWallEscrow {
 
     /**
      * @notice Advertiser approves installation proof.
-     *         Releases escrowed BNB to wallOwner immediately.
+     *         Releases the current milestone's share to wallOwner immediately.
      */
     function approveProof(bytes32 bookingId)
         external
         inState(bookingId, BookingState.ProofSubmitted)
     {
         Booking storage b = bookings[bookingId];
-        if (msg.sender != b.advertiser) revert Unauthorized();
+        if (_msgSender() != b.advertiser) revert Unauthorized();
 
         _release(bookingId, b, b.wallOwner, BookingState.Approved);
     }
 
     /**
      * @notice Advertiser rejects proof within the dispute window.
-     *         Refunds full escrowed amount to advertiser.
+     *         Refunds full escrowed amount to advertiser — or, for arbitrated
+     *         bookings, opens a dispute the wall owner can contest.
      *
      * @param rejectionReasonHash  keccak256(reasonString) stored off-chain
      */
@@ -225,7 +598,7 @@ contract PhysicalWallEscrow {
         inState(bookingId, BookingState.ProofSubmitted)
     {
         Booking storage b = bookings[bookingId];
-        if (msg.sender != b.advertiser) revert Unauthorized();
+        if (_msgSender() != b.advertiser) revert Unauthorized();
 
         unchecked {
             if (block.timestamp > uint256(b.proofSubmittedAt) + uint256(b.disputeWindowSec))
@@ -234,9 +607,93 @@ contract PhysicalWallEscrow {
 
         // Store rejection reason hash in proofContentHash slot (reuse, saves storage)
         b.proofContentHash = rejectionReasonHash;
+
+        if (b.arbiter != address(0)) {
+            b.state      = BookingState.Disputed;
+            b.disputedAt = uint40(block.timestamp);
+            emit ProofDisputed(bookingId, rejectionReasonHash, uint64(block.timestamp) + CONTEST_WINDOW);
+            return;
+        }
+        _release(bookingId, b, b.advertiser, BookingState.Rejected);
+    }
+
+    /**
+     * @notice Wall owner contests a disputed rejection, handing it to the arbiter.
+     *
+     * @param contestReasonHash  keccak256(reasonString) stored off-chain
+     */
+    function contestDispute(bytes32 bookingId, bytes32 contestReasonHash)
+        external
+        inState(bookingId, BookingState.Disputed)
+    {
+        Booking storage b = bookings[bookingId];
+        if (_msgSender() != b.wallOwner) revert Unauthorized();
+
+        unchecked {
+            if (block.timestamp > uint256(b.disputedAt) + CONTEST_WINDOW)
+                revert DisputeWindowClosed();
+        }
+
+        b.state       = BookingState.Contested;
+        b.contestedAt = uint40(block.timestamp);
+        emit DisputeContested(bookingId, contestReasonHash);
+    }
+
+    /**
+     * @notice Refunds the advertiser once an uncontested dispute's window has
+     *         passed.  Callable by anyone.
+     */
+    function finalizeDispute(bytes32 bookingId)
+        external
+        inState(bookingId, BookingState.Disputed)
+    {
+        Booking storage b = bookings[bookingId];
+
+        unchecked {
+            if (block.timestamp <= uint256(b.disputedAt) + CONTEST_WINDOW)
+                revert DisputeWindowOpen();
+        }
+
         _release(bookingId, b, b.advertiser, BookingState.Rejected);
     }
 
+    /**
+     * @notice The booking's arbiter settles a contested dispute.  The wall
+     *         owner's share is paid out like an approval (installer and
+     *         platform fees apply to it); the rest is refunded to the advertiser.
+     *
+     * @param wallOwnerShareBps  Share of the escrow awarded to the wall owner (0 … 10_000)
+     */
+    function resolveDispute(bytes32 bookingId, uint16 wallOwnerShareBps)
+        external
+        inState(bookingId, BookingState.Contested)
+    {
+        Booking storage b = bookings[bookingId];
+        address sender = _msgSender();
+        if (b.arbiter == address(0) || sender != b.arbiter) revert Unauthorized();
+        if (wallOwnerShareBps > BPS_DENOMINATOR)            revert InvalidShare();
+
+        _resolve(bookingId, b, sender, wallOwnerShareBps);
+    }
+
+    /**
+     * @notice Splits a contested escrow evenly once the arbiter has let
+     *         ARBITRATION_TIMEOUT pass without ruling.  Callable by anyone.
+     */
+    function resolveAfterTimeout(bytes32 bookingId)
+        external
+        inState(bookingId, BookingState.Contested)
+    {
+        Booking storage b = bookings[bookingId];
+
+        unchecked {
+            if (block.timestamp <= uint256(b.contestedAt) + ARBITRATION_TIMEOUT)
+                revert DisputeWindowOpen();
+        }
+
+        _resolve(bookingId, b, address(0), TIMEOUT_SHARE_BPS);
+    }
+
     /**
      * @notice Auto-releases funds to wallOwner if advertiser is inactive past
      *         the dispute window.  Callable by anyone — no trust required.
@@ -257,23 +714,122 @@ contract PhysicalWallEscrow {
 
     /**
      * @notice Advertiser reclaims funds if installer never submits proof before
-     *         the proof deadline.
+     *         the current milestone's proof deadline.
      */
     function reclaimExpiredBooking(bytes32 bookingId)
         external
         inState(bookingId, BookingState.Funded)
     {
         Booking storage b = bookings[bookingId];
-        if (msg.sender != b.advertiser) revert Unauthorized();
+        if (_msgSender() != b.advertiser) revert Unauthorized();
 
-        unchecked {
-            if (block.timestamp <= uint256(b.fundedAt) + uint256(b.proofDeadlineSec))
-                revert ProofDeadlineNotReached();
-        }
+        if (block.timestamp <= _proofDeadline(b)) revert ProofDeadlineNotReached();
 
         _release(bookingId, b, b.advertiser, BookingState.Expired);
     }
 
+    /**
+     * @notice Advertiser cancels before the installer has submitted any proof.
+     *         The cancellation fee committed at funding goes to the wall owner;
+     *         the rest is refunded.
+     */
+    function cancelBooking(bytes32 bookingId)
+        external
+        inState(bookingId, BookingState.Funded)
+    {
+        Booking storage b = bookings[bookingId];
+        if (_msgSender() != b.advertiser) revert Unauthorized();
+        if (b.milestone != 0)           revert InvalidState();
+
+        uint96 fee = uint96(uint256(b.amount) * b.cancellationFeeBps / BPS_DENOMINATOR);
+        _cancel(bookingId, b, fee, false);
+    }
+
+    /**
+     * @notice Cancels a Funded booking with EIP-712 CancelBooking signatures
+     *         from both the advertiser and the wall owner, refunding everything
+     *         still escrowed.  Callable by anyone holding both signatures.
+     *
+     * @param deadline  Signed expiry (unix seconds) of both signatures
+     */
+    function cancelBookingWithConsent(
+        bytes32 bookingId,
+        uint256 deadline,
+        bytes calldata advertiserSig,
+        bytes calldata wallOwnerSig
+    )
+        external
+        inState(bookingId, BookingState.Funded)
+    {
+        if (block.timestamp > deadline) revert SignatureExpired();
+
+        Booking storage b = bookings[bookingId];
+        bytes32 digest = cancelDigest(bookingId, deadline);
+        if (_recover(digest, advertiserSig) != b.advertiser) revert InvalidSignature();
+        if (_recover(digest, wallOwnerSig)  != b.wallOwner)  revert InvalidSignature();
+
+        _cancel(bookingId, b, 0, true);
+    }
+
+    // =========================================================================
+    // ADMIN
+    // =========================================================================
+
+    function setTreasury(address newTreasury) external onlyOwner {
+        if (newTreasury == address(0)) revert Unauthorized();
+        treasury = newTreasury;
+        emit TreasuryUpdated(newTreasury);
+    }
+
+    /// @notice Only affects bookings funded after the change
+    function setPlatformFeeBps(uint16 newFeeBps) external onlyOwner {
+        if (newFeeBps > MAX_PLATFORM_FEE_BPS) revert InvalidFee();
+        platformFeeBps = newFeeBps;
+        emit PlatformFeeUpdated(newFeeBps);
+    }
+
+    /// @notice Only affects bookings funded after the change: each booking keeps
+    ///         the arbiter it was funded under, so funded disputes stay with them.
+    ///         address(0) turns arbitration off for new bookings
+    function setArbiter(address newArbiter) external onlyOwner {
+        arbiter = newArbiter;
+        emit ArbiterUpdated(newArbiter);
+    }
+
+    /// @notice Only affects bookings funded after the change
+    function setInstallerFeeBps(uint16 newFeeBps) external onlyOwner {
+        if (newFeeBps > MAX_INSTALLER_FEE_BPS) revert InvalidFee();
+        installerFeeBps = newFeeBps;
+        emit InstallerFeeUpdated(newFeeBps);
+    }
+
+    /// @notice Only affects bookings funded after the change
+    function setCancellationFeeBps(uint16 newFeeBps) external onlyOwner {
+        if (newFeeBps > MAX_CANCELLATION_FEE_BPS) revert InvalidFee();
+        cancellationFeeBps = newFeeBps;
+        emit CancellationFeeUpdated(newFeeBps);
+    }
+
+    /// @notice Require (or, with address(0), stop requiring) signed price quotes
+    ///         for bookings funded from now on
+    function setQuoteSigner(address newSigner) external onlyOwner {
+        quoteSigner = newSigner;
+        emit QuoteSignerUpdated(newSigner);
+    }
+
+    /// @notice Trust `forwarder` to relay meta-transactions (address(0) turns them off)
+    function setTrustedForwarder(address forwarder) external onlyOwner {
+        trustedForwarder = forwarder;
+        emit TrustedForwarderUpdated(forwarder);
+    }
+
+    /// @notice Whitelist a BEP-20 for bookings; existing bookings keep paying out in it
+    function setTokenAllowed(address token, bool allowed) external onlyOwner {
+        if (token == address(0)) revert TokenNotAllowed();
+        allowedTokens[token] = allowed;
+        emit TokenAllowed(token, allowed);
+    }
+
     // =========================================================================
     // VIEW FUNCTIONS
     // =========================================================================
@@ -299,11 +855,72 @@ contract PhysicalWallEscrow {
     {
         Booking storage b = bookings[bookingId];
         if (b.fundedAt == 0) return 0;
+        return _proofDeadline(b);
+    }
+
+    function contestDeadlineAt(bytes32 bookingId)
+        external view returns (uint256)
+    {
+        Booking storage b = bookings[bookingId];
+        if (b.disputedAt == 0) return 0;
+        unchecked {
+            return uint256(b.disputedAt) + CONTEST_WINDOW;
+        }
+    }
+
+    /// @notice When anyone may call resolveAfterTimeout; 0 until contested
+    function arbitrationDeadlineAt(bytes32 bookingId)
+        external view returns (uint256)
+    {
+        Booking storage b = bookings[bookingId];
+        if (b.contestedAt == 0) return 0;
         unchecked {
-            return uint256(b.fundedAt) + uint256(b.proofDeadlineSec);
+            return uint256(b.contestedAt) + ARBITRATION_TIMEOUT;
         }
     }
 
+    /// @notice ERC-2771
+    function isTrustedForwarder(address forwarder) public view returns (bool) {
+        return forwarder != address(0) && forwarder == trustedForwarder;
+    }
+
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(abi.encode(
+            DOMAIN_TYPEHASH,
+            keccak256("PhysicalWallEscrow"),
+            keccak256("1"),
+            block.chainid,
+            address(this)
+        ));
+    }
+
+    /// @notice EIP-712 digest the advertiser and wall owner sign to cancel by consent
+    function cancelDigest(bytes32 bookingId, uint256 deadline)
+        public view returns (bytes32)
+    {
+        return keccak256(abi.encodePacked(
+            "\x19\x01",
+            DOMAIN_SEPARATOR(),
+            keccak256(abi.encode(CANCEL_TYPEHASH, bookingId, deadline))
+        ));
+    }
+
+    /// @notice EIP-712 digest the quote signer signs for a price quote
+    function quoteDigest(PriceQuote calldata quote)
+        public view returns (bytes32)
+    {
+        return keccak256(abi.encodePacked(
+            "\x19\x01",
+            DOMAIN_SEPARATOR(),
+            keccak256(abi.encode(
+                QUOTE_TYPEHASH,
+                quote.bookingId, quote.advertiser, quote.wallOwner,
+                quote.wallId, quote.startDate, quote.endDate,
+                quote.token, quote.amount, quote.expiresAt
+            ))
+        ));
+    }
+
     function canClaimTimeout(bytes32 bookingId)
         external view returns (bool)
     {
@@ -318,9 +935,114 @@ contract PhysicalWallEscrow {
     // INTERNAL
     // =========================================================================
 
+    function _checkTerms(
+        uint32 proofDeadlineSec,
+        uint24 disputeWindowSec,
+        uint16 expectedInstallerFeeBps,
+        uint8  milestoneCount,
+        uint32 milestoneIntervalSec
+    ) internal view {
+        if (proofDeadlineSec < MIN_PROOF_DEADLINE || proofDeadlineSec > MAX_PROOF_DEADLINE) revert InvalidTerms();
+        if (disputeWindowSec < MIN_DISPUTE_WINDOW || disputeWindowSec > MAX_DISPUTE_WINDOW) revert InvalidTerms();
+        if (expectedInstallerFeeBps != installerFeeBps) revert InvalidFee();
+        if (milestoneCount == 0 || milestoneCount > MAX_MILESTONES) revert InvalidTerms();
+        // A milestone must be decidable (dispute window) before the next one falls due
+        if (milestoneCount == 1
+            ? milestoneIntervalSec != 0
+            : milestoneIntervalSec <= disputeWindowSec || milestoneIntervalSec > MAX_PROOF_DEADLINE
+        ) revert InvalidTerms();
+    }
+
+    /// @dev ERC-2771: a call from the trusted forwarder carries the request's
+    ///      signer in its last 20 bytes of calldata; anyone else is msg.sender
+    function _msgSender() internal view returns (address) {
+        if (isTrustedForwarder(msg.sender) && msg.data.length >= 20) {
+            return address(bytes20(msg.data[msg.data.length - 20:]));
+        }
+        return msg.sender;
+    }
+
+    /// @dev The unquoted fund* entry points are closed while quotes are required
+    function _requireNoQuoteSigner() internal view {
+        if (quoteSigner != address(0)) revert QuoteRequired();
+    }
+
+    /// @dev Proof deadline of the milestone currently awaiting proof
+    function _proofDeadline(Booking storage b) internal view returns (uint256) {
+        unchecked {
+            return uint256(b.fundedAt) + uint256(b.proofDeadlineSec)
+                 + uint256(b.milestone) * uint256(b.milestoneIntervalSec);
+        }
+    }
+
+    /**
+     * @dev Shared by every fund* entry point; terms already validated.
+     *      Snapshots the current platform and installer fees so later changes
+     *      never affect it.
+     *      For token bookings the caller pulls `amount` afterwards.
+     */
+    function _fund(
+        bytes32 bookingId,
+        address wallOwner,
+        address installer,
+        bytes32 metadataHash,
+        uint32  proofDeadlineSec,
+        uint24  disputeWindowSec,
+        uint8   milestoneCount,
+        uint32  milestoneIntervalSec,
+        address token,
+        uint256 amount
+    ) internal {
+        if (amount == 0)                                  revert ZeroValue();
+        if (bookings[bookingId].advertiser != address(0)) revert AlreadyExists();
+        if (wallOwner  == address(0))                     revert Unauthorized();
+        if (installer  == address(0))                     revert Unauthorized();
+        if (amount     > type(uint96).max)                revert ZeroValue(); // overflow guard
+
+        address advertiser = _msgSender();
+        bookings[bookingId] = Booking({
+            advertiser:       advertiser,
+            amount:           uint96(amount),
+            wallOwner:        wallOwner,
+            fundedAt:         uint64(block.timestamp),
+            proofDeadlineSec: proofDeadlineSec,
+            installer:        installer,
+            proofSubmittedAt: 0,
+            state:            BookingState.Funded,
+            disputeWindowSec: disputeWindowSec,
+            proofContentHash: bytes32(0),
+            metadataHash:     metadataHash,
+            platformFeeBps:   platformFeeBps,
+            installerFeeBps:  installerFeeBps,
+            token:            token,
+            disputedAt:       0,
+            milestoneCount:   milestoneCount,
+            milestone:        0,
+            milestoneIntervalSec: milestoneIntervalSec,
+            cancellationFeeBps:   cancellationFeeBps,
+            arbiter:              arbiter,
+            contestedAt:          0
+        });
+
+        emit BookingFunded(
+            bookingId, advertiser, wallOwner, installer,
+            uint96(amount), metadataHash, token
+        );
+        emit BookingTermsSet(
+            bookingId, proofDeadlineSec, disputeWindowSec,
+            uint64(block.timestamp) + proofDeadlineSec,
+            platformFeeBps, installerFeeBps
+        );
+        if (milestoneCount > 1) emit MilestonesSet(bookingId, milestoneCount, milestoneIntervalSec);
+    }
+
     /**
      * @dev Zeroes amount BEFORE transfer to prevent reentrancy.
      *      State is set before the external call as an additional guard.
+     *      On approval the committed installer and platform fees are carved
+     *      out of the amount; refunds always return the full remaining amount.
+     *      Approving any milestone but the last releases an equal share of
+     *      what is left and reopens the booking (Funded) for the next proof.
      */
     function _release(
         bytes32 bookingId,
@@ -329,12 +1051,131 @@ contract PhysicalWallEscrow {
         BookingState newState
     ) internal {
         uint96 amt = b.amount;
+
+        uint8 remaining = b.milestoneCount - b.milestone;
+        if (newState == BookingState.Approved && remaining > 1) {
+            uint96 share       = amt / remaining;
+            b.amount           = amt - share;   // CEI: update storage before external calls
+            b.milestone       += 1;
+            b.proofSubmittedAt = 0;
+            b.state            = BookingState.Funded;
+            _payWallOwner(bookingId, b, share, BookingState.Funded);
+            return;
+        }
+
         b.amount   = 0;       // CEI: zero storage before external call
         b.state    = newState;
 
-        emit FundsReleased(bookingId, recipient, amt, newState);
+        if (newState == BookingState.Approved) {
+            _payWallOwner(bookingId, b, amt, newState);
+            return;
+        }
+
+        emit FundsReleased(bookingId, recipient, amt, newState, 0, 0);
+        _send(b.token, recipient, amt);
+    }
+
+    /// @dev Pays `wallOwnerShareBps` of the escrow out like an approval and
+    ///      refunds the rest; `resolver` is address(0) for a timeout split
+    function _resolve(
+        bytes32 bookingId,
+        Booking storage b,
+        address resolver,
+        uint16 wallOwnerShareBps
+    ) internal {
+        uint96 amt = b.amount;
+        b.amount   = 0;       // CEI: zero storage before external calls
+        b.state    = BookingState.Resolved;
+
+        uint96 ownerGross = uint96(uint256(amt) * wallOwnerShareBps / BPS_DENOMINATOR);
+        uint96 refund     = amt - ownerGross;
+
+        emit DisputeResolved(bookingId, resolver, wallOwnerShareBps, refund);
+
+        if (ownerGross > 0) _payWallOwner(bookingId, b, ownerGross, BookingState.Resolved);
+        if (refund > 0) {
+            emit FundsReleased(bookingId, b.advertiser, refund, BookingState.Resolved, 0, 0);
+            _send(b.token, b.advertiser, refund);
+        }
+    }
+
+    /// @dev Refunds everything but `fee`, which goes to the wall owner untouched
+    ///      by installer or platform fees
+    function _cancel(
+        bytes32 bookingId,
+        Booking storage b,
+        uint96 fee,
+        bool mutualConsent
+    ) internal {
+        uint96 amt = b.amount;
+        b.amount   = 0;       // CEI: zero storage before external calls
+        b.state    = BookingState.Cancelled;
+
+        uint96 refund = amt - fee;
+        emit BookingCancelled(bookingId, mutualConsent, fee);
+
+        address token = b.token;
+        if (refund > 0) {
+            emit FundsReleased(bookingId, b.advertiser, refund, BookingState.Cancelled, 0, 0);
+            _send(token, b.advertiser, refund);
+        }
+        if (fee > 0) {
+            emit FundsReleased(bookingId, b.wallOwner, fee, BookingState.Cancelled, 0, 0);
+            _send(token, b.wallOwner, fee);
+        }
+    }
+
+    /// @dev ecrecover over a 65-byte (r, s, v) signature, rejecting malleable
+    ///      high-s values and the zero address
+    function _recover(bytes32 digest, bytes calldata sig) internal pure returns (address signer) {
+        if (sig.length != 65) revert InvalidSignature();
+        bytes32 r = bytes32(sig[0:32]);
+        bytes32 s = bytes32(sig[32:64]);
+        uint8   v = uint8(sig[64]);
+        if (uint256(s) > HALF_CURVE_ORDER) revert InvalidSignature();
+        signer = ecrecover(digest, v, r, s);
+        if (signer == address(0)) revert InvalidSignature();
+    }
+
+    /// @dev Pays `gross` to the wall owner minus the committed installer and platform fees
+    function _payWallOwner(
+        bytes32 bookingId,
+        Booking storage b,
+        uint96 gross,
+        BookingState finalState
+    ) internal {
+        uint96 installerFee = uint96(uint256(gross) * b.installerFeeBps / BPS_DENOMINATOR);
+        uint96 platformFee  = uint96(uint256(gross) * b.platformFeeBps  / BPS_DENOMINATOR);
+        uint96 net          = gross - installerFee - platformFee;
+
+        emit FundsReleased(bookingId, b.wallOwner, net, finalState, installerFee, platformFee);
+
+        address token = b.token;
+        _send(token, b.wallOwner, net);
+        if (installerFee > 0) _send(token, b.installer, installerFee);
+        if (platformFee  > 0) _send(token, treasury,    platformFee);
+    }
+
+    /// @dev Pays out native BNB when token == address(0), else the BEP-20
+    function _send(address token, address to, uint256 value) internal {
+        if (token == address(0)) {
+            (bool ok,) = to.call{value: value}('');
+            if (!ok) revert TransferFailed();
+        } else {
+            _callToken(token, abi.encodeCall(IERC20.transfer, (to, value)));
+        }
+    }
+
+    /// @dev transferFrom the advertiser, rejecting tokens that skim a fee in transit
+    function _pullToken(address token, uint256 amount) internal {
+        uint256 before = IERC20(token).balanceOf(address(this));
+        _callToken(token, abi.encodeCall(IERC20.transferFrom, (_msgSender(), address(this), amount)));
+        if (IERC20(token).balanceOf(address(this)) - before != amount) revert FeeOnTransferToken();
+    }
 
-        (bool ok,) = recipient.call{value: amt}('');
-        if (!ok) revert TransferFailed();
+    /// @dev Accepts tokens that return nothing (e.g. USDT on Ethereum) as well as bool
+    function _callToken(address token, bytes memory data) internal {
+        (bool ok, bytes memory ret) = token.call(data);
+        if (!ok || (ret.length != 0 && !abi.decode(ret, (bool)))) revert TransferFailed();
     }
 }
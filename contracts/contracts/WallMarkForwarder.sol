@@ -0,0 +1,126 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title  WallMarkForwarder
+ * @author Wallad Protocol
+ * @notice ERC-2771 forwarder for gasless calls into PhysicalWallEscrow.
+ *
+ *   Installer ──signs ForwardRequest (EIP-712)──► Relayer
+ *   Relayer   ──execute(request, signature)────► Forwarder (pays the gas)
+ *   Forwarder ──call(data ‖ from)──────────────► Escrow (_msgSender() == from)
+ *
+ * @dev Each signer has a sequential nonce, so a request executes at most once
+ *      and in order. The forwarder holds no funds and trusts no relayer: any
+ *      address may submit a validly signed request. Which calls get relayed
+ *      is the relayer's policy, not the forwarder's.
+ */
+contract WallMarkForwarder {
+
+    error InvalidSignature();
+    error SignatureExpired();
+    error InvalidNonce();
+    error ValueMismatch();
+
+    /// @notice A call `from` wants made on its behalf
+    struct ForwardRequest {
+        address from;      // signer; the target sees it as _msgSender()
+        address to;        // target contract (must trust this forwarder)
+        uint256 value;     // BNB forwarded with the call, paid by the relayer
+        uint256 gas;       // gas the call must be given
+        uint256 nonce;     // must equal nonces[from]
+        uint48  deadline;  // request is refused after this timestamp
+        bytes   data;      // calldata for `to`
+    }
+
+    bytes32 public constant FORWARD_REQUEST_TYPEHASH = keccak256(
+        "ForwardRequest(address from,address to,uint256 value,uint256 gas,uint256 nonce,uint48 deadline,bytes data)"
+    );
+
+    bytes32 private constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+
+    /// @dev secp256k1 n / 2 — higher s values are malleable duplicates
+    uint256 private constant HALF_CURVE_ORDER =
+        0x7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0;
+
+    /// @notice Next nonce each signer must use
+    mapping(address => uint256) public nonces;
+
+    event Forwarded(address indexed from, address indexed to, uint256 nonce);
+
+    /**
+     * @notice Execute a signed request. Reverts with the target's own error
+     *         when the forwarded call fails, so nothing is consumed.
+     */
+    function execute(ForwardRequest calldata req, bytes calldata signature)
+        external payable returns (bytes memory)
+    {
+        if (msg.value != req.value)                      revert ValueMismatch();
+        if (block.timestamp > req.deadline)              revert SignatureExpired();
+        if (req.nonce != nonces[req.from])               revert InvalidNonce();
+        if (_recover(digest(req), signature) != req.from) revert InvalidSignature();
+
+        nonces[req.from] = req.nonce + 1;
+
+        (bool success, bytes memory ret) = req.to.call{gas: req.gas, value: req.value}(
+            abi.encodePacked(req.data, req.from)
+        );
+
+        // A relayer must not be able to make the call fail by sending too little
+        // gas: if less than 1/63 of req.gas is left, the call may have been starved
+        if (gasleft() <= req.gas / 63) {
+            assembly { invalid() }
+        }
+
+        if (!success) {
+            assembly { revert(add(ret, 32), mload(ret)) }
+        }
+        emit Forwarded(req.from, req.to, req.nonce);
+        return ret;
+    }
+
+    /// @notice Whether `execute` would accept the request's signature, nonce and deadline
+    function verify(ForwardRequest calldata req, bytes calldata signature) external view returns (bool) {
+        if (block.timestamp > req.deadline || req.nonce != nonces[req.from]) return false;
+        if (signature.length != 65 || uint256(bytes32(signature[32:64])) > HALF_CURVE_ORDER) return false;
+        address signer = ecrecover(digest(req), uint8(signature[64]), bytes32(signature[0:32]), bytes32(signature[32:64]));
+        return signer != address(0) && signer == req.from;
+    }
+
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(abi.encode(
+            DOMAIN_TYPEHASH,
+            keccak256("WallMarkForwarder"),
+            keccak256("1"),
+            block.chainid,
+            address(this)
+        ));
+    }
+
+    /// @notice EIP-712 digest the signer signs for `req`
+    function digest(ForwardRequest calldata req) public view returns (bytes32) {
+        return keccak256(abi.encodePacked(
+            "\x19\x01",
+            DOMAIN_SEPARATOR(),
+            keccak256(abi.encode(
+                FORWARD_REQUEST_TYPEHASH,
+                req.from, req.to, req.value, req.gas, req.nonce, req.deadline,
+                keccak256(req.data)
+            ))
+        ));
+    }
+
+    /// @dev ecrecover over a 65-byte (r, s, v) signature, rejecting malleable
+    ///      high-s values and the zero address
+    function _recover(bytes32 hash, bytes calldata sig) internal pure returns (address signer) {
+        if (sig.length != 65) revert InvalidSignature();
+        bytes32 r = bytes32(sig[0:32]);
+        bytes32 s = bytes32(sig[32:64]);
+        uint8   v = uint8(sig[64]);
+        if (uint256(s) > HALF_CURVE_ORDER) revert InvalidSignature();
+        signer = ecrecover(hash, v, r, s);
+        if (signer == address(0)) revert InvalidSignature();
+    }
+}
@@ -44,6 +44,72 @@ async function main() {
   console.log(`\n   DEFAULT_PROOF_DEADLINE : ${proofDeadline / BigInt(86400)} days`)
   console.log(`   DEFAULT_DISPUTE_WINDOW  : ${disputeWindow / BigInt(86400)} days`)
 
+  // ── Stablecoin whitelist ─────────────────────────────────────────────────
+  const isLocal = network.name === 'localhost' || network.name === 'hardhat'
+  const tokens: Record<string, string> = {}
+  if (isLocal) {
+    // Mock USDT/USDC with 18 decimals like the Binance-Peg tokens, minted to the test accounts
+    const mockFactory = await ethers.getContractFactory('MockERC20')
+    const signers     = await ethers.getSigners()
+    for (const [symbol, name] of [['USDT', 'Tether USD'], ['USDC', 'USD Coin']]) {
+      const mock = await mockFactory.deploy(name, symbol, 18)
+      await mock.waitForDeployment()
+      for (const s of signers.slice(0, 5)) {
+        await (await mock.mint(s.address, ethers.parseUnits('100000', 18))).wait()
+      }
+      tokens[symbol] = await mock.getAddress()
+    }
+  } else {
+    if (process.env.USDT_ADDRESS) tokens.USDT = process.env.USDT_ADDRESS
+    if (process.env.USDC_ADDRESS) tokens.USDC = process.env.USDC_ADDRESS
+  }
+  for (const [symbol, token] of Object.entries(tokens)) {
+    await (await escrow.setTokenAllowed(token, true)).wait()
+    console.log(`   Allowed ${symbol.padEnd(15)}: ${token}`)
+  }
+
+  // ── Arbiter (optional): rejections on new bookings open contestable disputes
+  const arbiter = process.env.ARBITER_ADDRESS
+  if (arbiter) {
+    await (await escrow.setArbiter(arbiter)).wait()
+    console.log(`   Arbiter                : ${arbiter}`)
+  }
+
+  // ── Installer fee (optional): the installer's share of every booking funded from now on
+  const installerFeeBps = Number(process.env.INSTALLER_FEE_BPS || 0)
+  if (installerFeeBps) {
+    await (await escrow.setInstallerFeeBps(installerFeeBps)).wait()
+    console.log(`   Installer fee (bps)    : ${installerFeeBps}`)
+  }
+
+  // ── Cancellation fee (optional): paid to the wall owner when an advertiser cancels alone
+  const cancellationFeeBps = Number(process.env.CANCELLATION_FEE_BPS || 0)
+  if (cancellationFeeBps) {
+    await (await escrow.setCancellationFeeBps(cancellationFeeBps)).wait()
+    console.log(`   Cancellation fee (bps) : ${cancellationFeeBps}`)
+  }
+
+  // ── Quote signer (optional): bookings must then be funded against a signed price quote
+  const quoteSigner = process.env.QUOTE_SIGNER_ADDRESS
+  if (quoteSigner) {
+    await (await escrow.setQuoteSigner(quoteSigner)).wait()
+    console.log(`   Quote signer           : ${quoteSigner}`)
+  }
+
+  // ── ERC-2771 forwarder: lets the web relayer pay gas for installers' proofs
+  const forwarderFactory = await ethers.getContractFactory('WallMarkForwarder')
+  const forwarder        = await forwarderFactory.deploy()
+  await forwarder.waitForDeployment()
+  const forwarderAddress = await forwarder.getAddress()
+  await (await escrow.setTrustedForwarder(forwarderAddress)).wait()
+  console.log(`   Trusted forwarder      : ${forwarderAddress}`)
+
+  // Locally the relayer signs with Hardhat's account #9 (well-known test key);
+  // elsewhere set RELAYER_PRIVATE_KEY in the web app and fund that address
+  const relayerKey = isLocal
+    ? '0x2a871d0798f97d79848a013d4936a73bf4cc922c825d33c1cf7073dff6d409c6'
+    : null
+
   // ── Write deployment artifact ────────────────────────────────────────────
   const artifact = {
     network:      network.name,
@@ -53,6 +119,11 @@ async function main() {
     blockNumber:  receipt?.blockNumber,
     gasUsed:      receipt?.gasUsed?.toString(),
     deployer:     deployerAddr,
+    tokens,
+    arbiter:      arbiter || null,
+    cancellationFeeBps,
+    quoteSigner:  quoteSigner || null,
+    forwarder:    forwarderAddress,
     deployedAt:   new Date().toISOString(),
   }
 
@@ -64,7 +135,11 @@ async function main() {
 
   // ── Write address to web app .env.local ─────────────────────────────────
   const webEnvPath = path.join(__dirname, '../../web/.env.local')
-  const envContent = `# Auto-generated by deploy script\nNEXT_PUBLIC_ESCROW_ADDRESS=${address}\nNEXT_PUBLIC_CHAIN_ID=${network.config.chainId}\n`
+  const envContent =
+    `# Auto-generated by deploy script\nNEXT_PUBLIC_ESCROW_ADDRESS=${address}\nNEXT_PUBLIC_CHAIN_ID=${network.config.chainId}\n` +
+    Object.entries(tokens).map(([symbol, token]) => `NEXT_PUBLIC_${symbol}_ADDRESS=${token}\n`).join('') +
+    `NEXT_PUBLIC_FORWARDER_ADDRESS=${forwarderAddress}\n` +
+    (relayerKey ? `RELAYER_PRIVATE_KEY=${relayerKey}\n` : '')
   fs.writeFileSync(webEnvPath, envContent)
   console.log(`   Web .env.local updated → ${webEnvPath}`)
 
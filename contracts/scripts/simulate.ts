@@ -0,0 +1,45 @@
+import { ethers, network } from 'hardhat'
+import fs from 'fs'
+import path from 'path'
+
+/**
+ * Drive one booking through fund → submitProof → approve against a running
+ * local node so the web indexer (`npm run indexer` in web/) has events to
+ * ingest. Requires `npm run deploy:local` first.
+ *
+ *   npm run simulate:local
+ */
+async function main() {
+  const artifactPath = path.join(__dirname, '../deployments', `${network.name}.json`)
+  if (!fs.existsSync(artifactPath)) {
+    throw new Error(`No deployment found at ${artifactPath} — run npm run deploy:local first`)
+  }
+  const { address } = JSON.parse(fs.readFileSync(artifactPath, 'utf8'))
+
+  const [, advertiser, installer, wallOwner] = await ethers.getSigners()
+  const escrow = await ethers.getContractAt('PhysicalWallEscrow', address)
+
+  const bookingId    = ethers.keccak256(ethers.toUtf8Bytes(`simulated-${Date.now()}`))
+  const metadataHash = ethers.keccak256(ethers.toUtf8Bytes('simulated-metadata'))
+  const proofHash    = ethers.keccak256(ethers.toUtf8Bytes('simulated-proof'))
+
+  console.log(`Escrow    : ${address}`)
+  console.log(`BookingId : ${bookingId}`)
+
+  let tx = await escrow.connect(advertiser).fundBooking(
+    bookingId, wallOwner.address, installer.address, metadataHash,
+    { value: ethers.parseEther('0.1') }
+  )
+  console.log(`  BookingFunded  → ${(await tx.wait())?.blockNumber}`)
+
+  tx = await escrow.connect(installer).submitProof(bookingId, proofHash)
+  console.log(`  ProofSubmitted → ${(await tx.wait())?.blockNumber}`)
+
+  tx = await escrow.connect(advertiser).approveProof(bookingId)
+  console.log(`  FundsReleased  → ${(await tx.wait())?.blockNumber}`)
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
@@ -1,7 +1,8 @@
 import { ethers } from 'hardhat'
 import { expect } from 'chai'
 import { loadFixture, time } from '@nomicfoundation/hardhat-toolbox/network-helpers'
-import { PhysicalWallEscrow } from '../typechain-types'
+import { anyValue } from '@nomicfoundation/hardhat-chai-matchers/withArgs'
+import { PhysicalWallEscrow, MockERC20, WallMarkForwarder } from '../typechain-types'
 import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers'
 import { keccak256, toUtf8Bytes, encodeBytes32String, ZeroAddress } from 'ethers'
 
@@ -90,7 +91,7 @@ describe('PhysicalWallEscrow', function () {
         )
       ).to.emit(escrow, 'BookingFunded')
         .withArgs(bookingId, advertiser.address, wallOwner.address,
-                  installer.address, ONE_BNB, metaHash)
+                  installer.address, ONE_BNB, metaHash, ZeroAddress)
     })
 
     it('holds BNB in contract', async function () {
@@ -160,6 +161,109 @@ describe('PhysicalWallEscrow', function () {
     })
   })
 
+  // ── fundBookingWithTerms ──────────────────────────────────────────────────
+  describe('fundBookingWithTerms()', function () {
+    const DAY = 24 * 60 * 60
+
+    it('stores the requested deadlines', async function () {
+      const { escrow, advertiser, installer, wallOwner, bookingId, metaHash } =
+        await loadFixture(deployFixture)
+
+      await escrow.connect(advertiser).fundBookingWithTerms(
+        bookingId, wallOwner.address, installer.address, metaHash,
+        90 * DAY, 3 * DAY, 0, 1, 0,
+        { value: ONE_BNB }
+      )
+
+      const b = await escrow.getBooking(bookingId)
+      expect(b.proofDeadlineSec).to.equal(90 * DAY)
+      expect(b.disputeWindowSec).to.equal(3 * DAY)
+      expect(await escrow.proofDeadlineAt(bookingId)).to.equal(BigInt(b.fundedAt) + BigInt(90 * DAY))
+    })
+
+    it('emits BookingTermsSet with the absolute proof deadline', async function () {
+      const { escrow, advertiser, installer, wallOwner, bookingId, metaHash } =
+        await loadFixture(deployFixture)
+
+      const tx = escrow.connect(advertiser).fundBookingWithTerms(
+        bookingId, wallOwner.address, installer.address, metaHash,
+        30 * DAY, 5 * DAY, 0, 1, 0,
+        { value: ONE_BNB }
+      )
+      await expect(tx).to.emit(escrow, 'BookingFunded')
+
+      const fundedAt = (await escrow.getBooking(bookingId)).fundedAt
+      await expect(tx).to.emit(escrow, 'BookingTermsSet')
+        .withArgs(bookingId, 30 * DAY, 5 * DAY, BigInt(fundedAt) + BigInt(30 * DAY), 0, 0)
+    })
+
+    it('fundBooking() emits BookingTermsSet with the defaults', async function () {
+      const { escrow, advertiser, installer, wallOwner, bookingId, metaHash } =
+        await loadFixture(deployFixture)
+
+      await expect(
+        escrow.connect(advertiser).fundBooking(
+          bookingId, wallOwner.address, installer.address, metaHash,
+          { value: ONE_BNB }
+        )
+      ).to.emit(escrow, 'BookingTermsSet')
+    })
+
+    it('lets a long-lead booking submit proof after the default 14 days', async function () {
+      const { escrow, advertiser, installer, wallOwner, bookingId, metaHash } =
+        await loadFixture(deployFixture)
+
+      await escrow.connect(advertiser).fundBookingWithTerms(
+        bookingId, wallOwner.address, installer.address, metaHash,
+        90 * DAY, DISPUTE_WINDOW, 0, 1, 0,
+        { value: ONE_BNB }
+      )
+      await time.increase(60 * DAY)
+
+      await escrow.connect(installer).submitProof(bookingId, makeProofHash('QmLateButOnTime'))
+      expect((await escrow.getBooking(bookingId)).state).to.equal(1)
+    })
+
+    it('uses the custom dispute window for rejection and timeout', async function () {
+      const { escrow, advertiser, installer, wallOwner, bookingId, metaHash } =
+        await loadFixture(deployFixture)
+
+      await escrow.connect(advertiser).fundBookingWithTerms(
+        bookingId, wallOwner.address, installer.address, metaHash,
+        PROOF_DEADLINE, 2 * DAY, 0, 1, 0,
+        { value: ONE_BNB }
+      )
+      await escrow.connect(installer).submitProof(bookingId, makeProofHash('Qm'))
+      await time.increase(2 * DAY + 1)
+
+      await expect(
+        escrow.connect(advertiser).rejectProof(bookingId, makeProofHash('late'))
+      ).to.be.revertedWithCustomError(escrow, 'DisputeWindowClosed')
+      expect(await escrow.canClaimTimeout(bookingId)).to.equal(true)
+    })
+
+    it('reverts on terms outside the contract bounds', async function () {
+      const { escrow, advertiser, installer, wallOwner, bookingId, metaHash } =
+        await loadFixture(deployFixture)
+
+      const cases: [number, number][] = [
+        [DAY - 1,     DISPUTE_WINDOW],   // proof deadline too short
+        [181 * DAY,   DISPUTE_WINDOW],   // proof deadline too long
+        [PROOF_DEADLINE, DAY - 1],       // dispute window too short
+        [PROOF_DEADLINE, 31 * DAY],      // dispute window too long
+      ]
+      for (const [proofDeadline, disputeWindow] of cases) {
+        await expect(
+          escrow.connect(advertiser).fundBookingWithTerms(
+            bookingId, wallOwner.address, installer.address, metaHash,
+            proofDeadline, disputeWindow, 0, 1, 0,
+            { value: ONE_BNB }
+          )
+        ).to.be.revertedWithCustomError(escrow, 'InvalidTerms')
+      }
+    })
+  })
+
   // ── submitProof ───────────────────────────────────────────────────────────
   describe('submitProof()', function () {
     async function fundedFixture() {
@@ -266,7 +370,7 @@ describe('PhysicalWallEscrow', function () {
 
       await expect(escrow.connect(advertiser).approveProof(bookingId))
         .to.emit(escrow, 'FundsReleased')
-        .withArgs(bookingId, wallOwner.address, ONE_BNB, 2)
+        .withArgs(bookingId, wallOwner.address, ONE_BNB, 2, 0, 0)
     })
 
     it('reverts when called by non-advertiser', async function () {
@@ -460,7 +564,1058 @@ describe('PhysicalWallEscrow', function () {
     })
   })
 
+  // ── Fee split ─────────────────────────────────────────────────────────────
+  describe('Platform & installer fees', function () {
+    const PLATFORM_BPS  = 500    //  5%
+    const INSTALLER_BPS = 1_000  // 10%
+
+    async function feeFixture() {
+      const base = await loadFixture(deployFixture)
+      const { escrow, owner, stranger } = base
+      await escrow.connect(owner).setTreasury(stranger.address)
+      await escrow.connect(owner).setPlatformFeeBps(PLATFORM_BPS)
+      await escrow.connect(owner).setInstallerFeeBps(INSTALLER_BPS)
+      return { ...base, treasury: stranger }
+    }
+
+    async function fundWithFees(f: Awaited<ReturnType<typeof feeFixture>>) {
+      const { escrow, advertiser, installer, wallOwner, bookingId, metaHash } = f
+      await escrow.connect(advertiser).fundBookingWithTerms(
+        bookingId, wallOwner.address, installer.address, metaHash,
+        PROOF_DEADLINE, DISPUTE_WINDOW, INSTALLER_BPS, 1, 0,
+        { value: ONE_BNB }
+      )
+      await escrow.connect(installer).submitProof(bookingId, makeProofHash('QmFees'))
+    }
+
+    it('splits an approval between wall owner, installer and treasury', async function () {
+      const f = await loadFixture(feeFixture)
+      const { escrow, advertiser, installer, wallOwner, treasury, bookingId } = f
+      await fundWithFees(f)
+
+      const installerFee = ONE_BNB * BigInt(INSTALLER_BPS) / 10_000n
+      const platformFee  = ONE_BNB * BigInt(PLATFORM_BPS)  / 10_000n
+      const net          = ONE_BNB - installerFee - platformFee
+
+      const tx = escrow.connect(advertiser).approveProof(bookingId)
+      await expect(tx)
+        .to.emit(escrow, 'FundsReleased')
+        .withArgs(bookingId, wallOwner.address, net, 2, installerFee, platformFee)
+      await expect(tx).to.changeEtherBalances(
+        [wallOwner, installer, treasury],
+        [net, installerFee, platformFee]
+      )
+    })
+
+    it('applies the split on claimAfterTimeout too', async function () {
+      const f = await loadFixture(feeFixture)
+      const { escrow, stranger, treasury, bookingId } = f
+      await fundWithFees(f)
+      await time.increase(DISPUTE_WINDOW + 1)
+
+      const platformFee = ONE_BNB * BigInt(PLATFORM_BPS) / 10_000n
+      await expect(escrow.connect(stranger).claimAfterTimeout(bookingId))
+        .to.changeEtherBalance(treasury, platformFee)
+    })
+
+    it('refunds the full amount on rejection (no fees)', async function () {
+      const f = await loadFixture(feeFixture)
+      const { escrow, advertiser, bookingId } = f
+      await fundWithFees(f)
+
+      await expect(escrow.connect(advertiser).rejectProof(bookingId, makeProofHash('bad')))
+        .to.emit(escrow, 'FundsReleased')
+        .withArgs(bookingId, advertiser.address, ONE_BNB, 3, 0, 0)
+    })
+
+    it('commits the platform fee at funding time', async function () {
+      const f = await loadFixture(feeFixture)
+      const { escrow, owner, advertiser, treasury, bookingId } = f
+      await fundWithFees(f)
+
+      await escrow.connect(owner).setPlatformFeeBps(1_000)
+      expect((await escrow.getBooking(bookingId)).platformFeeBps).to.equal(PLATFORM_BPS)
+
+      await expect(escrow.connect(advertiser).approveProof(bookingId))
+        .to.changeEtherBalance(treasury, ONE_BNB * BigInt(PLATFORM_BPS) / 10_000n)
+    })
+
+    it('emits the committed split in BookingTermsSet', async function () {
+      const { escrow, advertiser, installer, wallOwner, bookingId, metaHash } =
+        await loadFixture(feeFixture)
+
+      await expect(
+        escrow.connect(advertiser).fundBookingWithTerms(
+          bookingId, wallOwner.address, installer.address, metaHash,
+          PROOF_DEADLINE, DISPUTE_WINDOW, INSTALLER_BPS, 1, 0,
+          { value: ONE_BNB }
+        )
+      ).to.emit(escrow, 'BookingTermsSet')
+        .withArgs(bookingId, PROOF_DEADLINE, DISPUTE_WINDOW, anyValue, PLATFORM_BPS, INSTALLER_BPS)
+    })
+
+    it('rejects fees above the caps', async function () {
+      const { escrow, owner, advertiser, installer, wallOwner, bookingId, metaHash } =
+        await loadFixture(feeFixture)
+
+      await expect(escrow.connect(owner).setPlatformFeeBps(1_001))
+        .to.be.revertedWithCustomError(escrow, 'InvalidFee')
+      await expect(escrow.connect(owner).setInstallerFeeBps(5_001))
+        .to.be.revertedWithCustomError(escrow, 'InvalidFee')
+      await expect(
+        escrow.connect(advertiser).fundBookingWithTerms(
+          bookingId, wallOwner.address, installer.address, metaHash,
+          PROOF_DEADLINE, DISPUTE_WINDOW, 5_001, 1, 0,
+          { value: ONE_BNB }
+        )
+      ).to.be.revertedWithCustomError(escrow, 'InvalidFee')
+    })
+
+    it('does not let an advertiser redirect the wall owner\'s share to themselves', async function () {
+      const { escrow, owner, advertiser, wallOwner, treasury, bookingId, metaHash } =
+        await loadFixture(feeFixture)
+
+      // Advertiser names themselves installer and asks for the maximum installer share
+      await expect(
+        escrow.connect(advertiser).fundBookingWithTerms(
+          bookingId, wallOwner.address, advertiser.address, metaHash,
+          PROOF_DEADLINE, DISPUTE_WINDOW, 5_000, 1, 0,
+          { value: ONE_BNB }
+        )
+      ).to.be.revertedWithCustomError(escrow, 'InvalidFee')
+
+      // Only the platform's installer fee can be committed, and the owner gets the rest
+      await escrow.connect(advertiser).fundBookingWithTerms(
+        bookingId, wallOwner.address, advertiser.address, metaHash,
+        PROOF_DEADLINE, DISPUTE_WINDOW, INSTALLER_BPS, 1, 0,
+        { value: ONE_BNB }
+      )
+      await escrow.connect(owner).setInstallerFeeBps(5_000)
+      await escrow.connect(advertiser).submitProof(bookingId, makeProofHash('QmSelf'))
+
+      const installerFee = ONE_BNB * BigInt(INSTALLER_BPS) / 10_000n
+      const platformFee  = ONE_BNB * BigInt(PLATFORM_BPS)  / 10_000n
+      await expect(escrow.connect(advertiser).approveProof(bookingId))
+        .to.changeEtherBalances([wallOwner, treasury], [ONE_BNB - installerFee - platformFee, platformFee])
+    })
+
+    it('fundBooking uses the platform installer fee', async function () {
+      const { escrow, advertiser, installer, wallOwner, bookingId, metaHash } =
+        await loadFixture(feeFixture)
+
+      await escrow.connect(advertiser).fundBooking(
+        bookingId, wallOwner.address, installer.address, metaHash, { value: ONE_BNB }
+      )
+      expect((await escrow.getBooking(bookingId)).installerFeeBps).to.equal(INSTALLER_BPS)
+    })
+
+    it('restricts fee configuration to the owner', async function () {
+      const { escrow, stranger } = await loadFixture(feeFixture)
+
+      await expect(escrow.connect(stranger).setPlatformFeeBps(100))
+        .to.be.revertedWithCustomError(escrow, 'Unauthorized')
+      await expect(escrow.connect(stranger).setInstallerFeeBps(100))
+        .to.be.revertedWithCustomError(escrow, 'Unauthorized')
+      await expect(escrow.connect(stranger).setTreasury(stranger.address))
+        .to.be.revertedWithCustomError(escrow, 'Unauthorized')
+    })
+  })
+
+  // ── Arbitration ───────────────────────────────────────────────────────────
+  describe('Arbitration', function () {
+    const CONTEST_WINDOW = 3 * 24 * 60 * 60
+    const ARBITRATION_TIMEOUT = 30 * 24 * 60 * 60
+    const REASON         = makeProofHash('banner misaligned')
+    const CONTEST        = makeProofHash('installed as agreed')
+
+    async function disputeFixture() {
+      const base = await loadFixture(deployFixture)
+      const { escrow, owner, advertiser, installer, wallOwner, stranger, bookingId, metaHash } = base
+      await escrow.connect(owner).setArbiter(stranger.address)
+      await escrow.connect(advertiser).fundBooking(
+        bookingId, wallOwner.address, installer.address, metaHash, { value: ONE_BNB }
+      )
+      await escrow.connect(installer).submitProof(bookingId, makeProofHash('QmArb'))
+      return { ...base, arbiter: stranger }
+    }
+
+    async function contestedFixture() {
+      const f = await loadFixture(disputeFixture)
+      await f.escrow.connect(f.advertiser).rejectProof(f.bookingId, REASON)
+      await f.escrow.connect(f.wallOwner).contestDispute(f.bookingId, CONTEST)
+      return f
+    }
+
+    it('opens a dispute instead of refunding when an arbiter is set', async function () {
+      const { escrow, advertiser, bookingId } = await loadFixture(disputeFixture)
+
+      const tx = escrow.connect(advertiser).rejectProof(bookingId, REASON)
+      await expect(tx).to.emit(escrow, 'ProofDisputed').withArgs(bookingId, REASON, anyValue)
+      await expect(tx).to.not.emit(escrow, 'FundsReleased')
+
+      const b = await escrow.getBooking(bookingId)
+      expect(b.state).to.equal(5) // Disputed
+      expect(b.amount).to.equal(ONE_BNB)
+    })
+
+    it('keeps the direct refund for bookings funded without an arbiter', async function () {
+      const { escrow, owner, advertiser, installer, wallOwner, bookingId, metaHash } =
+        await loadFixture(deployFixture)
+      await escrow.connect(advertiser).fundBooking(
+        bookingId, wallOwner.address, installer.address, metaHash, { value: ONE_BNB }
+      )
+      await escrow.connect(owner).setArbiter(owner.address)   // too late for this booking
+      await escrow.connect(installer).submitProof(bookingId, makeProofHash('QmArb'))
+      expect((await escrow.getBooking(bookingId)).arbiter).to.equal(ethers.ZeroAddress)
+
+      await expect(escrow.connect(advertiser).rejectProof(bookingId, REASON))
+        .to.changeEtherBalance(advertiser, ONE_BNB)
+    })
+
+    it('lets only the wall owner contest, within the window', async function () {
+      const { escrow, advertiser, wallOwner, stranger, bookingId } = await loadFixture(disputeFixture)
+      await escrow.connect(advertiser).rejectProof(bookingId, REASON)
+
+      await expect(escrow.connect(stranger).contestDispute(bookingId, CONTEST))
+        .to.be.revertedWithCustomError(escrow, 'Unauthorized')
+
+      await expect(escrow.connect(wallOwner).contestDispute(bookingId, CONTEST))
+        .to.emit(escrow, 'DisputeContested').withArgs(bookingId, CONTEST)
+      expect((await escrow.getBooking(bookingId)).state).to.equal(6) // Contested
+    })
+
+    it('refunds the advertiser if the owner does not contest in time', async function () {
+      const { escrow, advertiser, wallOwner, stranger, bookingId } = await loadFixture(disputeFixture)
+      await escrow.connect(advertiser).rejectProof(bookingId, REASON)
+
+      await expect(escrow.connect(stranger).finalizeDispute(bookingId))
+        .to.be.revertedWithCustomError(escrow, 'DisputeWindowOpen')
+
+      await time.increase(CONTEST_WINDOW + 1)
+      await expect(escrow.connect(wallOwner).contestDispute(bookingId, CONTEST))
+        .to.be.revertedWithCustomError(escrow, 'DisputeWindowClosed')
+      await expect(escrow.connect(stranger).finalizeDispute(bookingId))
+        .to.emit(escrow, 'FundsReleased')
+        .withArgs(bookingId, advertiser.address, ONE_BNB, 3, 0, 0)
+    })
+
+    it('splits a contested escrow by the arbiter\'s share', async function () {
+      const { escrow, advertiser, wallOwner, arbiter, bookingId } = await loadFixture(contestedFixture)
+      const ownerShare = ONE_BNB * 6_000n / 10_000n
+
+      const tx = escrow.connect(arbiter).resolveDispute(bookingId, 6_000)
+      await expect(tx).to.emit(escrow, 'DisputeResolved')
+        .withArgs(bookingId, arbiter.address, 6_000, ONE_BNB - ownerShare)
+      await expect(tx).to.changeEtherBalances(
+        [wallOwner, advertiser], [ownerShare, ONE_BNB - ownerShare]
+      )
+      expect((await escrow.getBooking(bookingId)).state).to.equal(7) // Resolved
+    })
+
+    it('applies the committed fees to the wall owner\'s share only', async function () {
+      const base = await loadFixture(deployFixture)
+      const { escrow, owner, advertiser, installer, wallOwner, stranger, bookingId, metaHash } = base
+      await escrow.connect(owner).setArbiter(stranger.address)
+      await escrow.connect(owner).setPlatformFeeBps(1_000)
+      await escrow.connect(owner).setInstallerFeeBps(1_000)
+      await escrow.connect(advertiser).fundBookingWithTerms(
+        bookingId, wallOwner.address, installer.address, metaHash,
+        PROOF_DEADLINE, DISPUTE_WINDOW, 1_000, 1, 0, { value: ONE_BNB }
+      )
+      await escrow.connect(installer).submitProof(bookingId, makeProofHash('QmArb'))
+      await escrow.connect(advertiser).rejectProof(bookingId, REASON)
+      await escrow.connect(wallOwner).contestDispute(bookingId, CONTEST)
+
+      // 50% to the owner side: 10% installer fee and 10% platform fee of that half
+      await expect(escrow.connect(stranger).resolveDispute(bookingId, 5_000))
+        .to.changeEtherBalances(
+          [wallOwner, installer, owner, advertiser],
+          [ethers.parseEther('0.4'), ethers.parseEther('0.05'), ethers.parseEther('0.05'), HALF_BNB]
+        )
+    })
+
+    it('restricts resolution to the arbiter and a valid share', async function () {
+      const { escrow, wallOwner, arbiter, bookingId } = await loadFixture(contestedFixture)
+
+      await expect(escrow.connect(wallOwner).resolveDispute(bookingId, 10_000))
+        .to.be.revertedWithCustomError(escrow, 'Unauthorized')
+      await expect(escrow.connect(arbiter).resolveDispute(bookingId, 10_001))
+        .to.be.revertedWithCustomError(escrow, 'InvalidShare')
+    })
+
+    it('cannot resolve a dispute the owner has not contested', async function () {
+      const { escrow, advertiser, arbiter, bookingId } = await loadFixture(disputeFixture)
+      await escrow.connect(advertiser).rejectProof(bookingId, REASON)
+
+      await expect(escrow.connect(arbiter).resolveDispute(bookingId, 5_000))
+        .to.be.revertedWithCustomError(escrow, 'InvalidState')
+    })
+
+    it('keeps the arbiter a booking was funded under', async function () {
+      const { escrow, owner, advertiser, wallOwner, arbiter, bookingId } = await loadFixture(disputeFixture)
+      await escrow.connect(owner).setArbiter(owner.address)
+      expect((await escrow.getBooking(bookingId)).arbiter).to.equal(arbiter.address)
+
+      await escrow.connect(advertiser).rejectProof(bookingId, REASON)
+      await escrow.connect(wallOwner).contestDispute(bookingId, CONTEST)
+
+      await expect(escrow.connect(owner).resolveDispute(bookingId, 5_000))
+        .to.be.revertedWithCustomError(escrow, 'Unauthorized')
+      await expect(escrow.connect(arbiter).resolveDispute(bookingId, 5_000))
+        .to.emit(escrow, 'DisputeResolved')
+    })
+
+    it('still resolves funded disputes after arbitration is turned off', async function () {
+      const { escrow, owner, advertiser, wallOwner, arbiter, bookingId } = await loadFixture(disputeFixture)
+      await escrow.connect(owner).setArbiter(ethers.ZeroAddress)
+
+      // The booking still opens a dispute rather than refunding straight away
+      await expect(escrow.connect(advertiser).rejectProof(bookingId, REASON))
+        .to.emit(escrow, 'ProofDisputed')
+      await escrow.connect(wallOwner).contestDispute(bookingId, CONTEST)
+
+      await expect(escrow.connect(arbiter).resolveDispute(bookingId, 10_000))
+        .to.changeEtherBalance(wallOwner, ONE_BNB)
+    })
+
+    it('splits a contested escrow evenly once the arbiter times out', async function () {
+      const { escrow, advertiser, wallOwner, arbiter, stranger, bookingId } = await loadFixture(contestedFixture)
+      const contestedAt = await time.latest()
+      expect(await escrow.arbitrationDeadlineAt(bookingId)).to.equal(contestedAt + ARBITRATION_TIMEOUT)
+
+      await expect(escrow.connect(stranger).resolveAfterTimeout(bookingId))
+        .to.be.revertedWithCustomError(escrow, 'DisputeWindowOpen')
+
+      await time.increase(ARBITRATION_TIMEOUT + 1)
+      const tx = escrow.connect(stranger).resolveAfterTimeout(bookingId)
+      await expect(tx).to.emit(escrow, 'DisputeResolved')
+        .withArgs(bookingId, ethers.ZeroAddress, 5_000, HALF_BNB)
+      await expect(tx).to.changeEtherBalances([wallOwner, advertiser], [HALF_BNB, HALF_BNB])
+      expect((await escrow.getBooking(bookingId)).state).to.equal(7) // Resolved
+
+      await expect(escrow.connect(arbiter).resolveDispute(bookingId, 10_000))
+        .to.be.revertedWithCustomError(escrow, 'InvalidState')
+    })
+
+    it('only times out contested disputes', async function () {
+      const { escrow, advertiser, stranger, bookingId } = await loadFixture(disputeFixture)
+      await escrow.connect(advertiser).rejectProof(bookingId, REASON)
+      expect(await escrow.arbitrationDeadlineAt(bookingId)).to.equal(0)
+
+      await time.increase(ARBITRATION_TIMEOUT + 1)
+      await expect(escrow.connect(stranger).resolveAfterTimeout(bookingId))
+        .to.be.revertedWithCustomError(escrow, 'InvalidState')
+    })
+
+    it('restricts setArbiter to the owner', async function () {
+      const { escrow, stranger } = await loadFixture(deployFixture)
+      await expect(escrow.connect(stranger).setArbiter(stranger.address))
+        .to.be.revertedWithCustomError(escrow, 'Unauthorized')
+    })
+  })
+
+  // ── Milestone payouts ─────────────────────────────────────────────────────
+  describe('Milestones', function () {
+    const INTERVAL = 30 * 24 * 60 * 60   // 30 days between milestone deadlines
+    const THIRD    = ONE_BNB / 3n
+
+    async function milestoneFixture() {
+      const base = await loadFixture(deployFixture)
+      const { escrow, advertiser, installer, wallOwner, bookingId, metaHash } = base
+      await escrow.connect(advertiser).fundBookingWithTerms(
+        bookingId, wallOwner.address, installer.address, metaHash,
+        PROOF_DEADLINE, DISPUTE_WINDOW, 0, 3, INTERVAL, { value: ONE_BNB }
+      )
+      return base
+    }
+
+    it('emits MilestonesSet for multi-milestone bookings', async function () {
+      const { escrow, advertiser, installer, wallOwner, bookingId, metaHash } =
+        await loadFixture(deployFixture)
+      await expect(escrow.connect(advertiser).fundBookingWithTerms(
+        bookingId, wallOwner.address, installer.address, metaHash,
+        PROOF_DEADLINE, DISPUTE_WINDOW, 0, 3, INTERVAL, { value: ONE_BNB }
+      )).to.emit(escrow, 'MilestonesSet').withArgs(bookingId, 3, INTERVAL)
+    })
+
+    it('releases a pro-rata share per approved milestone', async function () {
+      const { escrow, advertiser, installer, wallOwner, bookingId } = await loadFixture(milestoneFixture)
+
+      await escrow.connect(installer).submitProof(bookingId, makeProofHash('install'))
+      const tx = escrow.connect(advertiser).approveProof(bookingId)
+      await expect(tx).to.emit(escrow, 'FundsReleased')
+        .withArgs(bookingId, wallOwner.address, THIRD, 0, 0, 0)   // finalState Funded
+      await expect(tx).to.changeEtherBalance(wallOwner, THIRD)
+
+      const b = await escrow.getBooking(bookingId)
+      expect(b.state).to.equal(0)
+      expect(b.milestone).to.equal(1)
+      expect(b.amount).to.equal(ONE_BNB - THIRD)
+      expect(b.proofSubmittedAt).to.equal(0)
+    })
+
+    it('pays the remainder on the last milestone and ends Approved', async function () {
+      const { escrow, advertiser, installer, wallOwner, bookingId } = await loadFixture(milestoneFixture)
+
+      for (const label of ['install', 'mid-check']) {
+        await escrow.connect(installer).submitProof(bookingId, makeProofHash(label))
+        await escrow.connect(advertiser).approveProof(bookingId)
+      }
+      await escrow.connect(installer).submitProof(bookingId, makeProofHash('removal'))
+      const rest = ONE_BNB - THIRD - (ONE_BNB - THIRD) / 2n
+
+      await expect(escrow.connect(advertiser).approveProof(bookingId))
+        .to.changeEtherBalance(wallOwner, rest)
+      const b = await escrow.getBooking(bookingId)
+      expect(b.state).to.equal(2) // Approved
+      expect(b.amount).to.equal(0)
+    })
+
+    it('releases a milestone share on timeout too', async function () {
+      const { escrow, installer, wallOwner, stranger, bookingId } = await loadFixture(milestoneFixture)
+      await escrow.connect(installer).submitProof(bookingId, makeProofHash('install'))
+      await time.increase(DISPUTE_WINDOW + 1)
+
+      await expect(escrow.connect(stranger).claimAfterTimeout(bookingId))
+        .to.changeEtherBalance(wallOwner, THIRD)
+      expect((await escrow.getBooking(bookingId)).state).to.equal(0)
+    })
+
+    it('refunds everything still escrowed when a later milestone is rejected', async function () {
+      const { escrow, advertiser, installer, bookingId } = await loadFixture(milestoneFixture)
+      await escrow.connect(installer).submitProof(bookingId, makeProofHash('install'))
+      await escrow.connect(advertiser).approveProof(bookingId)
+      await escrow.connect(installer).submitProof(bookingId, makeProofHash('banner gone'))
+
+      await expect(escrow.connect(advertiser).rejectProof(bookingId, makeProofHash('removed early')))
+        .to.changeEtherBalance(advertiser, ONE_BNB - THIRD)
+      expect((await escrow.getBooking(bookingId)).state).to.equal(3) // Rejected
+    })
+
+    it('moves the proof deadline forward by the interval per milestone', async function () {
+      const { escrow, advertiser, installer, bookingId } = await loadFixture(milestoneFixture)
+      const first = await escrow.proofDeadlineAt(bookingId)
+
+      await escrow.connect(installer).submitProof(bookingId, makeProofHash('install'))
+      await escrow.connect(advertiser).approveProof(bookingId)
+      expect(await escrow.proofDeadlineAt(bookingId)).to.equal(first + BigInt(INTERVAL))
+
+      await time.increaseTo(first + BigInt(INTERVAL) + 1n)
+      await expect(escrow.connect(installer).submitProof(bookingId, makeProofHash('late')))
+        .to.be.revertedWithCustomError(escrow, 'ProofDeadlineMissed')
+      await expect(escrow.connect(advertiser).reclaimExpiredBooking(bookingId))
+        .to.changeEtherBalance(advertiser, ONE_BNB - THIRD)
+    })
+
+    it('rejects invalid milestone terms', async function () {
+      const { escrow, advertiser, installer, wallOwner, bookingId, metaHash } =
+        await loadFixture(deployFixture)
+      const fund = (count: number, interval: number) =>
+        escrow.connect(advertiser).fundBookingWithTerms(
+          bookingId, wallOwner.address, installer.address, metaHash,
+          PROOF_DEADLINE, DISPUTE_WINDOW, 0, count, interval, { value: ONE_BNB }
+        )
+
+      for (const [count, interval] of [[0, 0], [1, INTERVAL], [2, 0], [2, DISPUTE_WINDOW], [13, INTERVAL]]) {
+        await expect(fund(count, interval)).to.be.revertedWithCustomError(escrow, 'InvalidTerms')
+      }
+    })
+  })
+
+  // ── Cancellation ──────────────────────────────────────────────────────────
+  describe('Cancellation', function () {
+    const FEE_BPS = 1_000   // 10% to the wall owner on a unilateral cancel
+
+    async function cancelFixture() {
+      const base = await loadFixture(deployFixture)
+      const { escrow, owner, advertiser, installer, wallOwner, bookingId, metaHash } = base
+      await escrow.connect(owner).setCancellationFeeBps(FEE_BPS)
+      await escrow.connect(advertiser).fundBooking(
+        bookingId, wallOwner.address, installer.address, metaHash, { value: ONE_BNB }
+      )
+      return base
+    }
+
+    async function signCancel(
+      escrow: PhysicalWallEscrow, signer: HardhatEthersSigner, bookingId: string, deadline: bigint
+    ) {
+      const { chainId } = await ethers.provider.getNetwork()
+      return signer.signTypedData(
+        { name: 'PhysicalWallEscrow', version: '1', chainId, verifyingContract: await escrow.getAddress() },
+        { CancelBooking: [{ name: 'bookingId', type: 'bytes32' }, { name: 'deadline', type: 'uint256' }] },
+        { bookingId, deadline }
+      )
+    }
+
+    it('snapshots the cancellation fee at funding', async function () {
+      const { escrow, owner, bookingId } = await loadFixture(cancelFixture)
+      await escrow.connect(owner).setCancellationFeeBps(0)
+      expect((await escrow.getBooking(bookingId)).cancellationFeeBps).to.equal(FEE_BPS)
+    })
+
+    it('refunds the advertiser minus the fee paid to the wall owner', async function () {
+      const { escrow, advertiser, wallOwner, bookingId } = await loadFixture(cancelFixture)
+      const fee = ONE_BNB * BigInt(FEE_BPS) / 10_000n
+
+      const tx = escrow.connect(advertiser).cancelBooking(bookingId)
+      await expect(tx).to.emit(escrow, 'BookingCancelled').withArgs(bookingId, false, fee)
+      await expect(tx).to.changeEtherBalances([advertiser, wallOwner], [ONE_BNB - fee, fee])
+      expect((await escrow.getBooking(bookingId)).state).to.equal(8) // Cancelled
+    })
+
+    it('only lets the advertiser cancel, and only before any proof', async function () {
+      const { escrow, advertiser, installer, wallOwner, bookingId } = await loadFixture(cancelFixture)
+      await expect(escrow.connect(wallOwner).cancelBooking(bookingId))
+        .to.be.revertedWithCustomError(escrow, 'Unauthorized')
+
+      await escrow.connect(installer).submitProof(bookingId, makeProofHash('installed'))
+      await expect(escrow.connect(advertiser).cancelBooking(bookingId))
+        .to.be.revertedWithCustomError(escrow, 'InvalidState')
+    })
+
+    it('refuses a unilateral cancel once a milestone has been paid', async function () {
+      const { escrow, advertiser, installer, wallOwner, bookingId, metaHash } =
+        await loadFixture(deployFixture)
+      await escrow.connect(advertiser).fundBookingWithTerms(
+        bookingId, wallOwner.address, installer.address, metaHash,
+        PROOF_DEADLINE, DISPUTE_WINDOW, 0, 2, 30 * 24 * 60 * 60, { value: ONE_BNB }
+      )
+      await escrow.connect(installer).submitProof(bookingId, makeProofHash('install'))
+      await escrow.connect(advertiser).approveProof(bookingId)
+
+      await expect(escrow.connect(advertiser).cancelBooking(bookingId))
+        .to.be.revertedWithCustomError(escrow, 'InvalidState')
+    })
+
+    it('refunds in full with both parties\' signatures, submitted by anyone', async function () {
+      const { escrow, advertiser, wallOwner, stranger, bookingId } = await loadFixture(cancelFixture)
+      const deadline = BigInt(await time.latest()) + 3600n
+      const advSig   = await signCancel(escrow, advertiser, bookingId, deadline)
+      const ownerSig = await signCancel(escrow, wallOwner,  bookingId, deadline)
+
+      const tx = escrow.connect(stranger).cancelBookingWithConsent(bookingId, deadline, advSig, ownerSig)
+      await expect(tx).to.emit(escrow, 'BookingCancelled').withArgs(bookingId, true, 0)
+      await expect(tx).to.changeEtherBalances([advertiser, wallOwner], [ONE_BNB, 0])
+      expect((await escrow.getBooking(bookingId)).state).to.equal(8)
+    })
+
+    it('rejects swapped, foreign or expired consent signatures', async function () {
+      const { escrow, advertiser, wallOwner, stranger, bookingId } = await loadFixture(cancelFixture)
+      const deadline = BigInt(await time.latest()) + 3600n
+      const advSig   = await signCancel(escrow, advertiser, bookingId, deadline)
+      const ownerSig = await signCancel(escrow, wallOwner,  bookingId, deadline)
+      const badSig   = await signCancel(escrow, stranger,   bookingId, deadline)
+
+      await expect(escrow.cancelBookingWithConsent(bookingId, deadline, ownerSig, advSig))
+        .to.be.revertedWithCustomError(escrow, 'InvalidSignature')
+      await expect(escrow.cancelBookingWithConsent(bookingId, deadline, advSig, badSig))
+        .to.be.revertedWithCustomError(escrow, 'InvalidSignature')
+      await expect(escrow.cancelBookingWithConsent(bookingId, deadline + 1n, advSig, ownerSig))
+        .to.be.revertedWithCustomError(escrow, 'InvalidSignature')
+
+      await time.increaseTo(deadline + 1n)
+      await expect(escrow.cancelBookingWithConsent(bookingId, deadline, advSig, ownerSig))
+        .to.be.revertedWithCustomError(escrow, 'SignatureExpired')
+    })
+
+    it('caps the cancellation fee', async function () {
+      const { escrow, owner, stranger } = await loadFixture(deployFixture)
+      await expect(escrow.connect(owner).setCancellationFeeBps(2_001))
+        .to.be.revertedWithCustomError(escrow, 'InvalidFee')
+      await expect(escrow.connect(stranger).setCancellationFeeBps(100))
+        .to.be.revertedWithCustomError(escrow, 'Unauthorized')
+    })
+  })
+
+  // ── Stablecoin bookings ───────────────────────────────────────────────────
+  describe('BEP-20 payments', function () {
+    const USDT = (n: string) => ethers.parseUnits(n, 18)
+    const USDC = (n: string) => ethers.parseUnits(n, 6)
+
+    async function tokenFixture() {
+      const base = await loadFixture(deployFixture)
+      const { escrow, owner, advertiser } = base
+
+      const factory = await ethers.getContractFactory('MockERC20')
+      const usdt = (await factory.deploy('Tether USD', 'USDT', 18)) as MockERC20
+      const usdc = (await factory.deploy('USD Coin',   'USDC',  6)) as MockERC20
+      await escrow.connect(owner).setTokenAllowed(await usdt.getAddress(), true)
+      await escrow.connect(owner).setTokenAllowed(await usdc.getAddress(), true)
+      await usdt.mint(advertiser.address, USDT('1000'))
+      await usdc.mint(advertiser.address, USDC('1000'))
+
+      return { ...base, usdt, usdc }
+    }
+
+    async function fundWithToken(
+      f: Awaited<ReturnType<typeof tokenFixture>>,
+      token: MockERC20,
+      amount: bigint,
+      installerFeeBps = 0
+    ) {
+      const { escrow, advertiser, installer, wallOwner, bookingId, metaHash } = f
+      await token.connect(advertiser).approve(await escrow.getAddress(), amount)
+      return escrow.connect(advertiser).fundBookingWithToken(
+        bookingId, wallOwner.address, installer.address, metaHash,
+        PROOF_DEADLINE, DISPUTE_WINDOW, installerFeeBps, 1, 0,
+        await token.getAddress(), amount
+      )
+    }
+
+    async function permitSignature(
+      token: MockERC20, owner: HardhatEthersSigner, spender: string, value: bigint, deadline: number
+    ) {
+      const sig = await owner.signTypedData(
+        {
+          name:              await token.name(),
+          version:           '1',
+          chainId:           (await ethers.provider.getNetwork()).chainId,
+          verifyingContract: await token.getAddress(),
+        },
+        {
+          Permit: [
+            { name: 'owner',    type: 'address' },
+            { name: 'spender',  type: 'address' },
+            { name: 'value',    type: 'uint256' },
+            { name: 'nonce',    type: 'uint256' },
+            { name: 'deadline', type: 'uint256' },
+          ],
+        },
+        { owner: owner.address, spender, value, nonce: await token.nonces(owner.address), deadline }
+      )
+      return ethers.Signature.from(sig)
+    }
+
+    it('escrows tokens via approve + transferFrom', async function () {
+      const f = await loadFixture(tokenFixture)
+      const { escrow, advertiser, installer, wallOwner, usdt, bookingId, metaHash } = f
+
+      await expect(fundWithToken(f, usdt, USDT('250')))
+        .to.emit(escrow, 'BookingFunded')
+        .withArgs(bookingId, advertiser.address, wallOwner.address,
+                  installer.address, USDT('250'), metaHash, await usdt.getAddress())
+
+      const b = await escrow.getBooking(bookingId)
+      expect(b.amount).to.equal(USDT('250'))
+      expect(b.token).to.equal(await usdt.getAddress())
+      expect(await usdt.balanceOf(await escrow.getAddress())).to.equal(USDT('250'))
+    })
+
+    it('pays the split out in the booking token on approval', async function () {
+      const f = await loadFixture(tokenFixture)
+      const { escrow, owner, advertiser, installer, wallOwner, stranger, usdc, bookingId } = f
+      await escrow.connect(owner).setTreasury(stranger.address)
+      await escrow.connect(owner).setPlatformFeeBps(200)
+      await escrow.connect(owner).setInstallerFeeBps(1_000)
+
+      await fundWithToken(f, usdc, USDC('100'), 1_000)
+      await escrow.connect(installer).submitProof(bookingId, makeProofHash('QmToken'))
+
+      await expect(escrow.connect(advertiser).approveProof(bookingId))
+        .to.changeTokenBalances(usdc, [wallOwner, installer, stranger], [USDC('88'), USDC('10'), USDC('2')])
+    })
+
+    it('refunds tokens on rejection', async function () {
+      const f = await loadFixture(tokenFixture)
+      const { escrow, advertiser, installer, usdt, bookingId } = f
+      await fundWithToken(f, usdt, USDT('40'))
+      await escrow.connect(installer).submitProof(bookingId, makeProofHash('QmToken'))
+
+      await expect(escrow.connect(advertiser).rejectProof(bookingId, makeProofHash('bad')))
+        .to.changeTokenBalance(usdt, advertiser, USDT('40'))
+    })
+
+    it('funds in one transaction with an EIP-2612 permit', async function () {
+      const f = await loadFixture(tokenFixture)
+      const { escrow, advertiser, installer, wallOwner, usdc, bookingId, metaHash } = f
+      const escrowAddr = await escrow.getAddress()
+      const deadline   = (await time.latest()) + 3600
+      const { v, r, s } = await permitSignature(usdc, advertiser, escrowAddr, USDC('75'), deadline)
+
+      await expect(
+        escrow.connect(advertiser).fundBookingWithPermit(
+          bookingId, wallOwner.address, installer.address, metaHash,
+          PROOF_DEADLINE, DISPUTE_WINDOW, 0, 1, 0,
+          await usdc.getAddress(), USDC('75'), deadline, v, r, s
+        )
+      ).to.changeTokenBalance(usdc, escrowAddr, USDC('75'))
+    })
+
+    it('still funds when the permit was already used (front-run)', async function () {
+      const f = await loadFixture(tokenFixture)
+      const { escrow, advertiser, installer, wallOwner, stranger, usdc, bookingId, metaHash } = f
+      const escrowAddr = await escrow.getAddress()
+      const deadline   = (await time.latest()) + 3600
+      const { v, r, s } = await permitSignature(usdc, advertiser, escrowAddr, USDC('75'), deadline)
+
+      await usdc.connect(stranger).permit(advertiser.address, escrowAddr, USDC('75'), deadline, v, r, s)
+      await expect(
+        escrow.connect(advertiser).fundBookingWithPermit(
+          bookingId, wallOwner.address, installer.address, metaHash,
+          PROOF_DEADLINE, DISPUTE_WINDOW, 0, 1, 0,
+          await usdc.getAddress(), USDC('75'), deadline, v, r, s
+        )
+      ).to.emit(escrow, 'BookingFunded')
+    })
+
+    it('rejects fee-on-transfer tokens', async function () {
+      const f = await loadFixture(tokenFixture)
+      const { escrow, usdt } = f
+      await usdt.setTransferFeeBps(100)
+
+      await expect(fundWithToken(f, usdt, USDT('100')))
+        .to.be.revertedWithCustomError(escrow, 'FeeOnTransferToken')
+    })
+
+    it('rejects tokens that are not whitelisted', async function () {
+      const f = await loadFixture(tokenFixture)
+      const { escrow, owner, usdt } = f
+      await escrow.connect(owner).setTokenAllowed(await usdt.getAddress(), false)
+
+      await expect(fundWithToken(f, usdt, USDT('100')))
+        .to.be.revertedWithCustomError(escrow, 'TokenNotAllowed')
+    })
+
+    it('reverts without sufficient allowance', async function () {
+      const { escrow, advertiser, installer, wallOwner, usdt, bookingId, metaHash } =
+        await loadFixture(tokenFixture)
+
+      await expect(
+        escrow.connect(advertiser).fundBookingWithToken(
+          bookingId, wallOwner.address, installer.address, metaHash,
+          PROOF_DEADLINE, DISPUTE_WINDOW, 0, 1, 0,
+          await usdt.getAddress(), USDT('10')
+        )
+      ).to.be.revertedWithCustomError(escrow, 'TransferFailed')
+    })
+
+    it('restricts the token whitelist to the owner', async function () {
+      const { escrow, stranger, usdt } = await loadFixture(tokenFixture)
+
+      await expect(escrow.connect(stranger).setTokenAllowed(await usdt.getAddress(), true))
+        .to.be.revertedWithCustomError(escrow, 'Unauthorized')
+    })
+  })
+
   // ── View helpers ──────────────────────────────────────────────────────────
+  describe('Price quotes', function () {
+    const WALL_ID = keccak256(toUtf8Bytes('wall-001'))
+    const START   = 1_767_225_600n   // 2026-01-01
+    const END     = 1_769_904_000n   // 2026-02-01
+    const PRICE_QUOTE_TYPES = {
+      PriceQuote: [
+        { name: 'bookingId',  type: 'bytes32' },
+        { name: 'advertiser', type: 'address' },
+        { name: 'wallOwner',  type: 'address' },
+        { name: 'wallId',     type: 'bytes32' },
+        { name: 'startDate',  type: 'uint64'  },
+        { name: 'endDate',    type: 'uint64'  },
+        { name: 'token',      type: 'address' },
+        { name: 'amount',     type: 'uint96'  },
+        { name: 'expiresAt',  type: 'uint64'  },
+      ],
+    }
+
+    async function quoteFixture() {
+      const base   = await loadFixture(deployFixture)
+      const signer = ethers.Wallet.createRandom()
+      await base.escrow.connect(base.owner).setQuoteSigner(signer.address)
+      return { ...base, signer }
+    }
+
+    async function signQuote(
+      f: Awaited<ReturnType<typeof quoteFixture>>,
+      signer: { signTypedData: HardhatEthersSigner['signTypedData'] },
+      overrides: Partial<{
+        bookingId: string; advertiser: string; wallOwner: string; token: string; amount: bigint; expiresAt: bigint
+      }> = {}
+    ) {
+      const { escrow } = f
+      const quote = {
+        bookingId:  f.bookingId,
+        advertiser: f.advertiser.address,
+        wallOwner:  f.wallOwner.address,
+        wallId:    WALL_ID,
+        startDate: START,
+        endDate:   END,
+        token:     ZeroAddress,
+        amount:    ONE_BNB,
+        expiresAt: BigInt(await time.latest()) + 900n,
+        ...overrides,
+      }
+      const { chainId } = await ethers.provider.getNetwork()
+      const signature = await signer.signTypedData(
+        { name: 'PhysicalWallEscrow', version: '1', chainId, verifyingContract: await escrow.getAddress() },
+        PRICE_QUOTE_TYPES,
+        quote
+      )
+      return { quote, signature }
+    }
+
+    function fundWithQuote(
+      f: Awaited<ReturnType<typeof quoteFixture>>,
+      quote: Awaited<ReturnType<typeof signQuote>>['quote'],
+      signature: string,
+      value: bigint
+    ) {
+      const { escrow, advertiser, installer, wallOwner, bookingId, metaHash } = f
+      return escrow.connect(advertiser).fundBookingWithQuote(
+        bookingId, wallOwner.address, installer.address, metaHash,
+        PROOF_DEADLINE, DISPUTE_WINDOW, 0, 1, 0, quote, signature, { value }
+      )
+    }
+
+    it('funds a BNB booking at exactly the quoted amount', async function () {
+      const f = await loadFixture(quoteFixture)
+      const { quote, signature } = await signQuote(f, f.signer)
+
+      await expect(fundWithQuote(f, quote, signature, ONE_BNB))
+        .to.emit(f.escrow, 'BookingQuoted').withArgs(f.bookingId, WALL_ID, START, END)
+      expect((await f.escrow.getBooking(f.bookingId)).amount).to.equal(ONE_BNB)
+      expect(await f.escrow.quoteDigest(quote)).to.equal(
+        ethers.TypedDataEncoder.hash(
+          {
+            name: 'PhysicalWallEscrow', version: '1',
+            chainId: (await ethers.provider.getNetwork()).chainId,
+            verifyingContract: await f.escrow.getAddress(),
+          },
+          PRICE_QUOTE_TYPES,
+          quote
+        )
+      )
+    })
+
+    it('rejects under- and over-payment', async function () {
+      const f = await loadFixture(quoteFixture)
+      const { quote, signature } = await signQuote(f, f.signer)
+
+      await expect(fundWithQuote(f, quote, signature, HALF_BNB))
+        .to.be.revertedWithCustomError(f.escrow, 'QuoteMismatch')
+      await expect(fundWithQuote(f, quote, signature, ONE_BNB + 1n))
+        .to.be.revertedWithCustomError(f.escrow, 'QuoteMismatch')
+    })
+
+    it('rejects expired, tampered or foreign quotes', async function () {
+      const f = await loadFixture(quoteFixture)
+      const { quote, signature } = await signQuote(f, f.signer)
+
+      await expect(fundWithQuote(f, { ...quote, amount: HALF_BNB }, signature, HALF_BNB))
+        .to.be.revertedWithCustomError(f.escrow, 'InvalidSignature')
+
+      const foreign = await signQuote(f, f.stranger)
+      await expect(fundWithQuote(f, foreign.quote, foreign.signature, ONE_BNB))
+        .to.be.revertedWithCustomError(f.escrow, 'InvalidSignature')
+
+      await time.increaseTo(quote.expiresAt + 1n)
+      await expect(fundWithQuote(f, quote, signature, ONE_BNB))
+        .to.be.revertedWithCustomError(f.escrow, 'SignatureExpired')
+    })
+
+    it('rejects a quote signed for another booking, advertiser or wall owner', async function () {
+      const f = await loadFixture(quoteFixture)
+      const { escrow, advertiser, installer, wallOwner, stranger, bookingId, metaHash } = f
+
+      for (const overrides of [
+        { bookingId: makeBookingId(stranger.address, 'other-wall', 1) },
+        { advertiser: stranger.address },
+        { wallOwner: stranger.address },
+      ]) {
+        const { quote, signature } = await signQuote(f, f.signer, overrides)
+        await expect(fundWithQuote(f, quote, signature, ONE_BNB))
+          .to.be.revertedWithCustomError(escrow, 'QuoteMismatch')
+      }
+
+      // Another wallet can't spend the advertiser's quote, nor redirect it to another payee
+      const { quote, signature } = await signQuote(f, f.signer)
+      await expect(escrow.connect(stranger).fundBookingWithQuote(
+        bookingId, wallOwner.address, installer.address, metaHash,
+        PROOF_DEADLINE, DISPUTE_WINDOW, 0, 1, 0, quote, signature, { value: ONE_BNB }
+      )).to.be.revertedWithCustomError(escrow, 'QuoteMismatch')
+      await expect(escrow.connect(advertiser).fundBookingWithQuote(
+        bookingId, stranger.address, installer.address, metaHash,
+        PROOF_DEADLINE, DISPUTE_WINDOW, 0, 1, 0, quote, signature, { value: ONE_BNB }
+      )).to.be.revertedWithCustomError(escrow, 'QuoteMismatch')
+    })
+
+    it('funds a token booking at the quoted amount', async function () {
+      const f = await loadFixture(quoteFixture)
+      const factory = await ethers.getContractFactory('MockERC20')
+      const usdt    = (await factory.deploy('Tether USD', 'USDT', 18)) as MockERC20
+      const amount  = ethers.parseUnits('250', 18)
+      await f.escrow.connect(f.owner).setTokenAllowed(await usdt.getAddress(), true)
+      await usdt.mint(f.advertiser.address, amount)
+      await usdt.connect(f.advertiser).approve(await f.escrow.getAddress(), amount)
+
+      const { quote, signature } = await signQuote(f, f.signer, { token: await usdt.getAddress(), amount })
+      await expect(fundWithQuote(f, quote, signature, 1n))
+        .to.be.revertedWithCustomError(f.escrow, 'QuoteMismatch')
+
+      await expect(fundWithQuote(f, quote, signature, 0n))
+        .to.changeTokenBalances(usdt, [f.advertiser, f.escrow], [-amount, amount])
+    })
+
+    it('requires a quote while a signer is set', async function () {
+      const f = await loadFixture(quoteFixture)
+      const { escrow, owner, advertiser, installer, wallOwner, bookingId, metaHash } = f
+
+      await expect(escrow.connect(advertiser).fundBooking(
+        bookingId, wallOwner.address, installer.address, metaHash, { value: ONE_BNB }
+      )).to.be.revertedWithCustomError(escrow, 'QuoteRequired')
+
+      await expect(escrow.connect(owner).setQuoteSigner(ZeroAddress))
+        .to.emit(escrow, 'QuoteSignerUpdated').withArgs(ZeroAddress)
+      await expect(escrow.connect(advertiser).fundBooking(
+        bookingId, wallOwner.address, installer.address, metaHash, { value: ONE_BNB }
+      )).to.emit(escrow, 'BookingFunded')
+    })
+
+    it('restricts the quote signer to the owner', async function () {
+      const { escrow, stranger } = await loadFixture(deployFixture)
+      await expect(escrow.connect(stranger).setQuoteSigner(stranger.address))
+        .to.be.revertedWithCustomError(escrow, 'Unauthorized')
+    })
+  })
+
+  describe('Meta-transactions (ERC-2771)', function () {
+    const FORWARD_REQUEST_TYPES = {
+      ForwardRequest: [
+        { name: 'from',     type: 'address' },
+        { name: 'to',       type: 'address' },
+        { name: 'value',    type: 'uint256' },
+        { name: 'gas',      type: 'uint256' },
+        { name: 'nonce',    type: 'uint256' },
+        { name: 'deadline', type: 'uint48'  },
+        { name: 'data',     type: 'bytes'   },
+      ],
+    }
+
+    async function forwarderFixture() {
+      const base      = await loadFixture(deployFixture)
+      const relayer   = (await ethers.getSigners())[9]
+      const factory   = await ethers.getContractFactory('WallMarkForwarder')
+      const forwarder = (await factory.deploy()) as WallMarkForwarder
+      await base.escrow.connect(base.owner).setTrustedForwarder(await forwarder.getAddress())
+      await base.escrow.connect(base.advertiser).fundBooking(
+        base.bookingId, base.wallOwner.address, base.installer.address, base.metaHash,
+        { value: ONE_BNB }
+      )
+      return { ...base, forwarder, relayer }
+    }
+
+    async function signRequest(
+      forwarder: WallMarkForwarder,
+      signer: HardhatEthersSigner,
+      to: string,
+      data: string,
+      overrides: Partial<{ nonce: bigint; deadline: bigint }> = {}
+    ) {
+      const request = {
+        from:     signer.address,
+        to,
+        value:    0n,
+        gas:      300_000n,
+        nonce:    await forwarder.nonces(signer.address),
+        deadline: BigInt(await time.latest()) + 900n,
+        data,
+        ...overrides,
+      }
+      const { chainId } = await ethers.provider.getNetwork()
+      const signature = await signer.signTypedData(
+        { name: 'WallMarkForwarder', version: '1', chainId, verifyingContract: await forwarder.getAddress() },
+        FORWARD_REQUEST_TYPES,
+        request
+      )
+      return { request, signature }
+    }
+
+    it('relays an installer\'s proof without costing the installer gas', async function () {
+      const { escrow, forwarder, relayer, installer, bookingId } = await loadFixture(forwarderFixture)
+      const proofHash = makeProofHash('QmRelayed')
+      const data      = escrow.interface.encodeFunctionData('submitProof', [bookingId, proofHash])
+      const { request, signature } = await signRequest(forwarder, installer, await escrow.getAddress(), data)
+
+      expect(await forwarder.verify(request, signature)).to.equal(true)
+      const before = await ethers.provider.getBalance(installer.address)
+      await expect(forwarder.connect(relayer).execute(request, signature))
+        .to.emit(escrow, 'ProofSubmitted').withArgs(bookingId, proofHash, anyValue)
+        .and.to.emit(forwarder, 'Forwarded').withArgs(installer.address, await escrow.getAddress(), 0n)
+
+      expect(await ethers.provider.getBalance(installer.address)).to.equal(before)
+      expect((await escrow.getBooking(bookingId)).state).to.equal(1) // ProofSubmitted
+      expect(await forwarder.nonces(installer.address)).to.equal(1n)
+    })
+
+    it('settles for the advertiser through the forwarder', async function () {
+      const { escrow, forwarder, relayer, installer, advertiser, wallOwner, bookingId } =
+        await loadFixture(forwarderFixture)
+      await escrow.connect(installer).submitProof(bookingId, makeProofHash('QmDirect'))
+
+      const data = escrow.interface.encodeFunctionData('approveProof', [bookingId])
+      const { request, signature } = await signRequest(forwarder, advertiser, await escrow.getAddress(), data)
+      await expect(forwarder.connect(relayer).execute(request, signature))
+        .to.changeEtherBalances([advertiser, wallOwner], [0n, ONE_BNB])
+      expect((await escrow.getBooking(bookingId)).state).to.equal(2) // Approved
+    })
+
+    it('bubbles the escrow\'s revert and keeps the nonce', async function () {
+      const { escrow, forwarder, relayer, stranger, bookingId } = await loadFixture(forwarderFixture)
+      const data = escrow.interface.encodeFunctionData('submitProof', [bookingId, makeProofHash('QmX')])
+      const { request, signature } = await signRequest(forwarder, stranger, await escrow.getAddress(), data)
+
+      await expect(forwarder.connect(relayer).execute(request, signature))
+        .to.be.revertedWithCustomError(escrow, 'Unauthorized')
+      expect(await forwarder.nonces(stranger.address)).to.equal(0n)
+    })
+
+    it('rejects replayed, expired and forged requests', async function () {
+      const { escrow, forwarder, relayer, installer, stranger, bookingId } = await loadFixture(forwarderFixture)
+      const to   = await escrow.getAddress()
+      const data = escrow.interface.encodeFunctionData('submitProof', [bookingId, makeProofHash('QmR')])
+
+      const forged = await signRequest(forwarder, stranger, to, data)
+      await expect(forwarder.connect(relayer).execute({ ...forged.request, from: installer.address }, forged.signature))
+        .to.be.revertedWithCustomError(forwarder, 'InvalidSignature')
+
+      const expired = await signRequest(forwarder, installer, to, data, { deadline: BigInt(await time.latest()) - 1n })
+      expect(await forwarder.verify(expired.request, expired.signature)).to.equal(false)
+      await expect(forwarder.connect(relayer).execute(expired.request, expired.signature))
+        .to.be.revertedWithCustomError(forwarder, 'SignatureExpired')
+
+      const { request, signature } = await signRequest(forwarder, installer, to, data)
+      await forwarder.connect(relayer).execute(request, signature)
+      await expect(forwarder.connect(relayer).execute(request, signature))
+        .to.be.revertedWithCustomError(forwarder, 'InvalidNonce')
+    })
+
+    it('ignores an appended sender from anyone but the trusted forwarder', async function () {
+      const { escrow, stranger, installer, bookingId } = await loadFixture(forwarderFixture)
+      const data = escrow.interface.encodeFunctionData('submitProof', [bookingId, makeProofHash('QmSpoof')])
+
+      await expect(stranger.sendTransaction({
+        to:   await escrow.getAddress(),
+        data: ethers.concat([data, installer.address]),
+      })).to.be.revertedWithCustomError(escrow, 'Unauthorized')
+    })
+
+    it('stops honouring the forwarder once it is unset', async function () {
+      const { escrow, forwarder, relayer, owner, installer, bookingId } = await loadFixture(forwarderFixture)
+      await expect(escrow.connect(owner).setTrustedForwarder(ZeroAddress))
+        .to.emit(escrow, 'TrustedForwarderUpdated').withArgs(ZeroAddress)
+      expect(await escrow.isTrustedForwarder(await forwarder.getAddress())).to.equal(false)
+
+      const data = escrow.interface.encodeFunctionData('submitProof', [bookingId, makeProofHash('QmOff')])
+      const { request, signature } = await signRequest(forwarder, installer, await escrow.getAddress(), data)
+      await expect(forwarder.connect(relayer).execute(request, signature))
+        .to.be.revertedWithCustomError(escrow, 'Unauthorized')
+    })
+
+    it('restricts the trusted forwarder to the owner', async function () {
+      const { escrow, stranger } = await loadFixture(deployFixture)
+      await expect(escrow.connect(stranger).setTrustedForwarder(stranger.address))
+        .to.be.revertedWithCustomError(escrow, 'Unauthorized')
+    })
+  })
+
   describe('View helpers', function () {
     it('disputeWindowEndsAt() returns 0 for unfunded booking', async function () {
       const { escrow, bookingId } = await loadFixture(deployFixture)
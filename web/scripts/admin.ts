@@ -0,0 +1,36 @@
+/**
+ * Grant or revoke the admin role — `npm run admin -- grant|revoke <address>`
+ *
+ * Admins moderate wall listings at /admin. There is no UI for handing out the
+ * role, so the first admin is created here, against DATABASE_URL.
+ */
+
+import './load-env'
+import { prisma } from '@/lib/db'
+
+async function main() {
+  const [command, address] = process.argv.slice(2)
+  if (!['grant', 'revoke', 'list'].includes(command) || (command !== 'list' && !/^0x[0-9a-fA-F]{40}$/.test(address ?? ''))) {
+    console.error('usage: npm run admin -- grant|revoke <0x address>\n       npm run admin -- list')
+    process.exit(1)
+  }
+
+  if (command === 'list') {
+    const admins = await prisma.user.findMany({ where: { isAdmin: true }, select: { walletAddress: true } })
+    admins.forEach((a: { walletAddress: string }) => console.log(a.walletAddress))
+    return
+  }
+
+  const walletAddress = address.toLowerCase()
+  const isAdmin = command === 'grant'
+  await prisma.user.upsert({
+    where:  { walletAddress },
+    create: { walletAddress, isAdmin },
+    update: { isAdmin },
+  })
+  console.log(`${walletAddress} is ${isAdmin ? 'now' : 'no longer'} an admin`)
+}
+
+main()
+  .catch(e => { console.error(e); process.exit(1) })
+  .finally(() => prisma.$disconnect())
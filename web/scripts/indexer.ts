@@ -0,0 +1,168 @@
+/**
+ * Standalone escrow indexer worker — `npm run indexer`
+ *
+ * Reuses the cursor-based sync from `@/lib/indexer` and keeps it running:
+ *   • With INDEXER_WS_URL set, subscribes to BookingFunded / ProofSubmitted /
+ *     FundsReleased via watchContractEvent and syncs as soon as those logs
+ *     reach INDEXER_CONFIRMATIONS depth.
+ *   • Without a live socket, falls back to HTTP polling every INDEXER_POLL_MS.
+ *   • On (re)connect, runs a sync first — the SyncCursor makes that a backfill
+ *     of everything missed while disconnected — then resubscribes.
+ *   • After each sync, sends proof / dispute deadline reminders and webhook
+ *     deliveries that are due.
+ *
+ * Local testing: `npm run node` + `npm run deploy:local` in contracts/, then
+ * NEXT_PUBLIC_CHAIN_ID=31337 INDEXER_WS_URL=ws://127.0.0.1:8545 npm run indexer
+ */
+
+import './load-env'
+import { ESCROW_ABI, ESCROW_ADDRESS, CHAIN_ID } from '@/lib/contract'
+import { getPublicClient, getWebSocketClient }  from '@/lib/chain'
+import { syncEscrow, CONFIRMATIONS }            from '@/lib/indexer'
+import { sendDeadlineReminders }                from '@/lib/notifications'
+import { deliverDueWebhooks }                   from '@/lib/webhooks'
+import { prisma }                               from '@/lib/db'
+
+const WS_URL         = process.env.INDEXER_WS_URL
+const POLL_MS        = Number(process.env.INDEXER_POLL_MS || 10_000)
+// Safety-net sync interval while the socket is healthy
+const HEARTBEAT_MS   = 60_000
+const MAX_BACKOFF_MS = 60_000
+
+const http = getPublicClient()
+
+let syncing     = false
+let syncAgain   = false
+let pollTimer:  ReturnType<typeof setTimeout> | null = null
+let unwatch:    (() => void)[] = []
+let wsLive      = false
+let backoffMs   = 1_000
+let retrying    = false
+let stopping    = false
+// Highest block a subscribed log needs to reach before it can be indexed
+let pendingUntil: bigint | null = null
+
+function log(...args: unknown[]) {
+  console.log(`[indexer ${new Date().toISOString()}]`, ...args)
+}
+
+// ── Sync (serialised — overlapping triggers collapse into one extra pass) ───
+
+async function runSync(): Promise<void> {
+  if (syncing) { syncAgain = true; return }
+  syncing = true
+  try {
+    do {
+      syncAgain = false
+      const res = await syncEscrow(http)
+      if (res.synced || res.rolledBack !== null) {
+        log(`synced ${res.synced} logs in ${res.fromBlock}–${res.toBlock}` +
+          (res.rolledBack !== null ? `, rolled back to ${res.rolledBack}` : ''))
+      }
+    } while (syncAgain)
+
+    const reminders = await sendDeadlineReminders()
+    if (reminders) log(`sent ${reminders} deadline reminder(s)`)
+    const webhooks = await deliverDueWebhooks()
+    if (webhooks.sent || webhooks.failed) log(`webhooks: ${webhooks.sent} delivered, ${webhooks.failed} failed`)
+  } catch (e) {
+    console.error('[indexer] sync failed', e)
+  } finally {
+    syncing = false
+  }
+}
+
+function schedulePoll() {
+  if (stopping) return
+  if (pollTimer) clearTimeout(pollTimer)
+  pollTimer = setTimeout(async () => {
+    await runSync()
+    schedulePoll()
+  }, wsLive ? HEARTBEAT_MS : POLL_MS)
+}
+
+// ── WebSocket subscription ───────────────────────────────────────────────────
+
+function dropSocket(reason: unknown) {
+  if (retrying) return   // both watchers report the same outage
+  retrying = true
+  log('websocket unavailable, polling until reconnect:', reason instanceof Error ? reason.message : reason)
+  unwatch.forEach(fn => fn())
+  unwatch = []
+  wsLive  = false
+  schedulePoll()
+  setTimeout(connect, backoffMs)
+  backoffMs = Math.min(backoffMs * 2, MAX_BACKOFF_MS)
+}
+
+async function connect(): Promise<void> {
+  if (!WS_URL || stopping) return
+  retrying = false
+  try {
+    const ws = getWebSocketClient(WS_URL)
+    await ws.getBlockNumber()   // fail fast if the socket can't open
+
+    // Backfill whatever happened while we were disconnected before subscribing
+    await runSync()
+
+    unwatch.push(ws.watchContractEvent({
+      address: ESCROW_ADDRESS,
+      abi:     ESCROW_ABI,
+      onLogs:  logs => {
+        const newest = logs.reduce((max, l) => (l.blockNumber ?? BigInt(0)) > max ? l.blockNumber! : max, BigInt(0))
+        const target = newest + CONFIRMATIONS
+        pendingUntil = pendingUntil === null || target > pendingUntil ? target : pendingUntil
+        log(`saw ${logs.length} escrow log(s) at block ${newest}, indexing at ${target}`)
+        if (CONFIRMATIONS === BigInt(0)) { pendingUntil = null; void runSync() }
+      },
+      onError: dropSocket,
+    }))
+
+    unwatch.push(ws.watchBlockNumber({
+      onBlockNumber: blockNumber => {
+        if (pendingUntil !== null && blockNumber >= pendingUntil) {
+          pendingUntil = null
+          void runSync()
+        }
+      },
+      onError: dropSocket,
+    }))
+
+    wsLive    = true
+    backoffMs = 1_000
+    log(`subscribed via ${WS_URL}`)
+    schedulePoll()
+  } catch (e) {
+    dropSocket(e)
+  }
+}
+
+// ── Lifecycle ────────────────────────────────────────────────────────────────
+
+async function shutdown() {
+  stopping = true
+  log('shutting down')
+  if (pollTimer) clearTimeout(pollTimer)
+  unwatch.forEach(fn => fn())
+  await prisma.$disconnect()
+  process.exit(0)
+}
+
+async function main() {
+  log(`chain ${CHAIN_ID}, escrow ${ESCROW_ADDRESS}, ${CONFIRMATIONS} confirmations`)
+  process.on('SIGINT',  shutdown)
+  process.on('SIGTERM', shutdown)
+
+  if (WS_URL) {
+    await connect()
+  } else {
+    log(`INDEXER_WS_URL not set — polling every ${POLL_MS}ms`)
+    await runSync()
+    schedulePoll()
+  }
+}
+
+main().catch(e => {
+  console.error(e)
+  process.exit(1)
+})
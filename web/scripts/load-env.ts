@@ -0,0 +1,5 @@
+// Load .env / .env.local the same way `next dev` does. Imported first by
+// standalone scripts, before any module reads process.env at load time.
+import { loadEnvConfig } from '@next/env'
+
+loadEnvConfig(process.cwd())
@@ -0,0 +1,74 @@
+/**
+ * Local catch-all SMTP server — `npm run mail:catchall`
+ *
+ * Stand-in for a real mail server during development: accepts any sender,
+ * recipient and credentials, and writes each message to MAIL_CATCHALL_DIR
+ * (default .mail/) as an .eml file you can open in a mail client. Plain SMTP
+ * only, so point the app at it with SMTP_URL=smtp://localhost:1025.
+ */
+
+import net  from 'net'
+import fs   from 'fs'
+import path from 'path'
+
+const PORT = Number(process.env.MAIL_CATCHALL_PORT || 1025)
+const DIR  = path.resolve(process.env.MAIL_CATCHALL_DIR || '.mail')
+
+let received = 0
+
+function log(...args: unknown[]) {
+  console.log(`[mail ${new Date().toISOString()}]`, ...args)
+}
+
+const server = net.createServer(socket => {
+  let buffer     = ''
+  let inData     = false
+  let data: string[] = []
+  let recipients: string[] = []
+
+  const reply = (line: string) => socket.write(`${line}\r\n`)
+
+  function handle(line: string) {
+    if (inData) {
+      if (line !== '.') { data.push(line.startsWith('..') ? line.slice(1) : line); return }
+      inData = false
+      const file = path.join(DIR, `${Date.now()}-${++received}.eml`)
+      fs.writeFileSync(file, data.join('\r\n') + '\r\n')
+      log(`message for ${recipients.join(', ')} → ${file}`)
+      data = []
+      recipients = []
+      reply('250 OK: queued')
+      return
+    }
+
+    const verb = line.slice(0, 4).toUpperCase()
+    if (verb === 'EHLO')      { reply('250-localhost'); reply('250-AUTH PLAIN LOGIN'); reply('250 8BITMIME') }
+    else if (verb === 'HELO') reply('250 localhost')
+    else if (verb === 'AUTH') reply('235 Authenticated')
+    else if (verb === 'MAIL') reply('250 OK')
+    else if (verb === 'RCPT') { recipients.push(line.slice(8).trim()); reply('250 OK') }
+    else if (verb === 'DATA') { inData = true; reply('354 End data with <CR><LF>.<CR><LF>') }
+    else if (verb === 'RSET') { data = []; recipients = []; reply('250 OK') }
+    else if (verb === 'NOOP') reply('250 OK')
+    else if (verb === 'QUIT') { reply('221 Bye'); socket.end() }
+    else reply('502 Command not implemented')
+  }
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8')
+    let i: number
+    while ((i = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, i)
+      buffer = buffer.slice(i + 2)
+      handle(line)
+    }
+  })
+  socket.on('error', e => log('connection error', e.message))
+  reply('220 localhost WallMark catch-all SMTP')
+})
+
+fs.mkdirSync(DIR, { recursive: true })
+server.listen(PORT, () => log(`listening on smtp://localhost:${PORT}, writing to ${DIR}`))
+
+process.on('SIGINT',  () => server.close(() => process.exit(0)))
+process.on('SIGTERM', () => server.close(() => process.exit(0)))
@@ -1,37 +1,89 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState }            from 'react'
+import { useSearchParams }     from 'next/navigation'
 import { WallMap }             from '@/components/WallMap'
 import { WallCard }            from '@/components/WallCard'
-import type { Wall }           from '@/types'
-import { Search, SlidersHorizontal, MapPin, Loader2 } from 'lucide-react'
+import { useWallSearch, searchQuery, type Bbox, type WallSearchFilters } from '@/hooks/useWallSearch'
+import { useWallClusters, type Viewport } from '@/hooks/useWallClusters'
+import type { MapWall }        from '@/lib/clusters'
+import { Search, SlidersHorizontal, MapPin, Loader2, Bookmark, CheckCircle } from 'lucide-react'
+
+const SORT_OPTIONS: { value: NonNullable<WallSearchFilters['sort']>; label: string }[] = [
+  { value: 'newest',     label: 'Newest' },
+  { value: 'price_asc',  label: 'Price: low to high' },
+  { value: 'price_desc', label: 'Price: high to low' },
+  { value: 'distance',   label: 'Closest to map centre' },
+  { value: 'rating',     label: 'Best rated' },
+]
+
+// Filters opened from a link such as a saved search (/?q=…&tiers=…&bbox=…)
+function filtersFromUrl(params: { get(key: string): string | null }) {
+  const tier = Number(params.get('tiers'))
+  const bbox = params.get('bbox')?.split(',').map(Number)
+  const get  = (key: string) => params.get(key) ?? undefined
+  return {
+    q:       params.get('q') ?? '',
+    tier:    Number.isInteger(tier) && tier >= 1 && tier <= 5 ? tier : null,
+    bounds:  bbox?.length === 4 && bbox.every(Number.isFinite) ? (bbox as Bbox) : undefined,
+    filters: {
+      sort:          'newest',
+      minPrice:      get('minPrice'),
+      maxPrice:      get('maxPrice'),
+      minArea:       get('minArea'),
+      maxArea:       get('maxArea'),
+      availableFrom: get('availableFrom'),
+      availableTo:   get('availableTo'),
+    } as WallSearchFilters,
+  }
+}
 
 export function HomeClient() {
-  const [walls,      setWalls]      = useState<Wall[]>([])
-  const [loading,    setLoading]    = useState(true)
-  const [search,     setSearch]     = useState('')
-  const [tierFilter, setTierFilter] = useState<number | null>(null)
-  const [selected,   setSelected]   = useState<Wall | null>(null)
-
-  useEffect(() => {
-    fetch('/api/walls?status=ACTIVE')
-      .then(r => r.json())
-      .then(data => {
-        setWalls(Array.isArray(data) ? data : data.walls || [])
-        setLoading(false)
-      })
-      .catch(() => setLoading(false))
-  }, [])
-
-  const filtered = walls.filter(w => {
-    const matchSearch = !search ||
-      w.title.toLowerCase().includes(search.toLowerCase()) ||
-      w.city.toLowerCase().includes(search.toLowerCase()) ||
-      w.addressText.toLowerCase().includes(search.toLowerCase())
-    const matchTier = tierFilter === null || w.visibilityTier === tierFilter
-    return matchSearch && matchTier
+  const urlParams                     = useSearchParams()
+  const [initial]                     = useState(() => filtersFromUrl(urlParams))
+  const [search,      setSearch]      = useState(initial.q)
+  const [tierFilter,  setTierFilter]  = useState<number | null>(initial.tier)
+  const [viewport,    setViewport]    = useState<Viewport | undefined>()
+  const [showFilters, setShowFilters] = useState(false)
+  const [filters,     setFilters]     = useState<WallSearchFilters>(initial.filters)
+  const [selected,    setSelected]    = useState<MapWall | null>(null)
+  const [saveForm,    setSaveForm]    = useState<{ name: string; emailDigest: boolean } | null>(null)
+  const [saveState,   setSaveState]   = useState<{ saving: boolean; saved: boolean; error: string }>({
+    saving: false, saved: false, error: '',
   })
 
+  const searchFilters: WallSearchFilters = {
+    ...filters,
+    q:     search,
+    tiers: tierFilter === null ? undefined : [tierFilter],
+  }
+  // The sidebar lists walls in view; the map draws them clustered per tile
+  const { walls, nextCursor, loading, error, loadMore } = useWallSearch({ ...searchFilters, bbox: viewport?.bbox })
+  const { clusters } = useWallClusters(searchFilters, viewport)
+  const setFilter = (patch: Partial<WallSearchFilters>) => setFilters(f => ({ ...f, ...patch }))
+
+  const saveSearch = async () => {
+    if (!saveForm) return
+    setSaveState({ saving: true, saved: false, error: '' })
+    try {
+      const res  = await fetch('/api/saved-searches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...saveForm,
+          query: searchQuery({ ...searchFilters, bbox: viewport?.bbox, sort: undefined }),
+        }),
+      })
+      const data = await res.json()
+      if (res.status === 401) throw new Error('Sign in with your wallet to save searches')
+      if (!res.ok) throw new Error(data.error || 'Failed to save search')
+      setSaveForm(null)
+      setSaveState({ saving: false, saved: true, error: '' })
+    } catch (e) {
+      setSaveState({ saving: false, saved: false, error: e instanceof Error ? e.message : 'Failed to save search' })
+    }
+  }
+
   return (
     <div className="flex h-[calc(100vh-64px)]">
 
@@ -75,22 +127,93 @@ export function HomeClient() {
               </button>
             ))}
             <span className="text-xs text-slate-600 self-center ml-1">Tier</span>
+            <button
+              onClick={() => { setSaveForm(f => (f ? null : { name: search.trim(), emailDigest: false })); setSaveState(st => ({ ...st, saved: false })) }}
+              className={`ml-auto p-1 rounded-md transition-colors ${
+                saveForm ? 'text-brand' : 'text-slate-500 hover:text-slate-300'
+              }`}
+              title="Save this search"
+            >
+              <Bookmark size={15} />
+            </button>
+            <button
+              onClick={() => setShowFilters(v => !v)}
+              className={`p-1 rounded-md transition-colors ${
+                showFilters ? 'text-brand' : 'text-slate-500 hover:text-slate-300'
+              }`}
+              title="More filters"
+            >
+              <SlidersHorizontal size={15} />
+            </button>
           </div>
+
+          {saveForm && (
+            <div className="mt-3 space-y-2 text-xs">
+              <input className="input text-xs" placeholder="Name, e.g. Brooklyn murals" value={saveForm.name}
+                onChange={e => setSaveForm({ ...saveForm, name: e.target.value })} />
+              <label className="flex items-center gap-2 text-slate-400">
+                <input type="checkbox" checked={saveForm.emailDigest}
+                  onChange={e => setSaveForm({ ...saveForm, emailDigest: e.target.checked })} />
+                Email me a digest of new matches
+              </label>
+              <button className="btn-primary text-xs py-1.5 px-3" onClick={saveSearch}
+                disabled={saveState.saving || !saveForm.name.trim()}>
+                {saveState.saving && <Loader2 size={12} className="animate-spin" />}
+                Save search
+              </button>
+              <p className="text-slate-600">Alerts cover new walls in the current map area with these filters.</p>
+            </div>
+          )}
+          {saveState.error && <p className="mt-2 text-xs text-red-400">{saveState.error}</p>}
+          {saveState.saved && (
+            <p className="mt-2 text-xs text-emerald-400 flex items-center gap-1">
+              <CheckCircle size={12} /> Saved — manage alerts from the dashboard
+            </p>
+          )}
+
+          {showFilters && (
+            <div className="mt-3 space-y-2 text-xs">
+              <div className="grid grid-cols-2 gap-2">
+                <input type="number" min={0} step="0.0001" className="input text-xs" placeholder="Min BNB/sqft/day"
+                  value={filters.minPrice ?? ''} onChange={e => setFilter({ minPrice: e.target.value })} />
+                <input type="number" min={0} step="0.0001" className="input text-xs" placeholder="Max BNB/sqft/day"
+                  value={filters.maxPrice ?? ''} onChange={e => setFilter({ maxPrice: e.target.value })} />
+                <input type="number" min={0} className="input text-xs" placeholder="Min sqft"
+                  value={filters.minArea ?? ''} onChange={e => setFilter({ minArea: e.target.value })} />
+                <input type="number" min={0} className="input text-xs" placeholder="Max sqft"
+                  value={filters.maxArea ?? ''} onChange={e => setFilter({ maxArea: e.target.value })} />
+              </div>
+              <div>
+                <label className="label">Free between (end exclusive)</label>
+                <div className="grid grid-cols-2 gap-2">
+                  <input type="date" className="input text-xs"
+                    value={filters.availableFrom ?? ''} onChange={e => setFilter({ availableFrom: e.target.value })} />
+                  <input type="date" className="input text-xs"
+                    value={filters.availableTo ?? ''} onChange={e => setFilter({ availableTo: e.target.value })} />
+                </div>
+              </div>
+              <select className="input text-xs" value={filters.sort}
+                onChange={e => setFilter({ sort: e.target.value as WallSearchFilters['sort'] })}>
+                {SORT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+            </div>
+          )}
         </div>
 
         {/* Wall list */}
         <div className="flex-1 overflow-y-auto p-3 space-y-2">
-          {loading ? (
+          {error && <p className="text-xs text-red-400 px-1">{error}</p>}
+          {loading && walls.length === 0 ? (
             <div className="flex items-center justify-center py-16">
               <Loader2 className="animate-spin text-brand" size={24} />
             </div>
-          ) : filtered.length === 0 ? (
+          ) : walls.length === 0 ? (
             <div className="text-center py-16 text-slate-600">
               <MapPin size={32} className="mx-auto mb-2 opacity-30" />
               <p>No walls found</p>
             </div>
           ) : (
-            filtered.map(wall => (
+            walls.map(wall => (
               <div
                 key={wall.id}
                 onClick={() => setSelected(wall)}
@@ -104,25 +227,29 @@ export function HomeClient() {
               </div>
             ))
           )}
+          {nextCursor && (
+            <button onClick={loadMore} disabled={loading}
+              className="w-full py-2 text-xs text-brand hover:underline flex items-center justify-center gap-1">
+              {loading && <Loader2 size={12} className="animate-spin" />}
+              Load more
+            </button>
+          )}
         </div>
 
         {/* Footer count */}
         <div className="p-3 border-t border-surface-border text-xs text-slate-600 text-center">
-          {filtered.length} wall{filtered.length !== 1 ? 's' : ''} available
+          {walls.length}{nextCursor ? '+' : ''} wall{walls.length !== 1 ? 's' : ''} in this area
         </div>
       </div>
 
       {/* ── Map ─────────────────────────────────────────────────────── */}
       <div className="flex-1 relative">
         <WallMap
-          walls={filtered}
+          clusters={clusters}
           selectedWallId={selected?.id}
           onWallClick={setSelected}
-          center={
-            filtered.length > 0
-              ? [filtered[0].latitude, filtered[0].longitude]
-              : [40.7128, -74.006]
-          }
+          onViewportChange={setViewport}
+          bounds={initial.bounds}
         />
 
         {/* Selected wall popup */}
@@ -0,0 +1,292 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link                      from 'next/link'
+import { useAccount }            from 'wagmi'
+import { ConnectButton }         from '@rainbow-me/rainbowkit'
+import { useSession, useIsAdmin } from '@/hooks/useSession'
+import type { Wall, WallStatus } from '@/types'
+import { ipfsImageUrl }          from '@/lib/ipfs'
+import { cn }                    from '@/lib/utils'
+import { ShieldCheck, Loader2, CheckCircle, XCircle, PauseCircle, ExternalLink, History } from 'lucide-react'
+
+interface HistoryEntry {
+  id:           string
+  action:       string
+  fromStatus:   WallStatus
+  toStatus:     WallStatus
+  reason:       string | null
+  actorAddress: string
+  createdAt:    string
+  wall?:        { title: string; city: string }
+  wallId:       string
+}
+
+type ModerationWall = Wall & { history: HistoryEntry[] }
+
+type Tab = WallStatus | 'LOG'
+
+const TABS: { id: Tab; label: string }[] = [
+  { id: 'PENDING_REVIEW', label: 'Pending review' },
+  { id: 'ACTIVE',         label: 'Active'         },
+  { id: 'SUSPENDED',      label: 'Suspended'      },
+  { id: 'REJECTED',       label: 'Rejected'       },
+  { id: 'LOG',            label: 'Audit log'      },
+]
+
+// Actions that apply in each state; mirrors TRANSITIONS in lib/moderation
+const ACTIONS: Partial<Record<WallStatus, { action: 'APPROVE' | 'REJECT' | 'SUSPEND'; label: string }[]>> = {
+  PENDING_REVIEW: [{ action: 'APPROVE', label: 'Approve' }, { action: 'REJECT', label: 'Reject' }],
+  ACTIVE:         [{ action: 'SUSPEND', label: 'Suspend' }],
+  SUSPENDED:      [{ action: 'APPROVE', label: 'Reinstate' }],
+}
+
+const ACTION_ICONS = { APPROVE: CheckCircle, REJECT: XCircle, SUSPEND: PauseCircle }
+
+const short = (a: string) => `${a.slice(0, 6)}…${a.slice(-4)}`
+
+function parseCorners(json: string | null): [number, number][] | null {
+  if (!json) return null
+  try {
+    const corners = JSON.parse(json)
+    return Array.isArray(corners) && corners.length === 4 ? corners : null
+  } catch {
+    return null
+  }
+}
+
+/** Reference photo with the owner's wall outline drawn over it */
+function CornersOverlay({ wall }: { wall: Wall }) {
+  const corners = parseCorners(wall.wallCornersJson)
+  return (
+    <div className="relative rounded-lg overflow-hidden bg-surface-raised border border-surface-border">
+      <img src={ipfsImageUrl(wall.referencePhotoCid ?? wall.photoCids[0])} alt={wall.title} className="w-full block" />
+      {corners && (
+        <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+          <polygon points={corners.map(([x, y]) => `${x},${y}`).join(' ')}
+            fill="rgba(245,166,35,0.15)" stroke="#F5A623" strokeWidth="0.004" />
+        </svg>
+      )}
+      {!corners && (
+        <span className="absolute bottom-2 left-2 text-xs bg-black/60 text-slate-300 px-2 py-0.5 rounded">
+          No corners recorded
+        </span>
+      )}
+    </div>
+  )
+}
+
+function HistoryList({ entries }: { entries: HistoryEntry[] }) {
+  if (entries.length === 0) return null
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-slate-500 flex items-center gap-1"><History size={12} /> History</p>
+      {entries.map(h => (
+        <p key={h.id} className="text-xs text-slate-500">
+          <span className="text-slate-300">{h.action.toLowerCase()}</span> by {short(h.actorAddress)}
+          {' · '}{new Date(h.createdAt).toLocaleString()}
+          {h.reason && <span className="text-slate-400"> — {h.reason}</span>}
+        </p>
+      ))}
+    </div>
+  )
+}
+
+function WallReview({ wall, onDone }: { wall: ModerationWall; onDone: () => void }) {
+  const [reason, setReason] = useState('')
+  const [busy,   setBusy]   = useState<string | null>(null)
+  const [error,  setError]  = useState('')
+
+  const act = async (action: 'APPROVE' | 'REJECT' | 'SUSPEND') => {
+    setBusy(action)
+    setError('')
+    try {
+      const res  = await fetch(`/api/admin/walls/${wall.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, reason }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Action failed')
+      onDone()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Action failed')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const actions = ACTIONS[wall.status] ?? []
+
+  return (
+    <div className="card grid md:grid-cols-[minmax(0,1fr)_minmax(0,1fr)] gap-5">
+      <CornersOverlay wall={wall} />
+
+      <div className="space-y-3 min-w-0">
+        <div>
+          <Link href={`/walls/${wall.id}`} target="_blank"
+            className="font-semibold text-slate-100 hover:text-brand flex items-center gap-1.5">
+            {wall.title} <ExternalLink size={13} />
+          </Link>
+          <p className="text-xs text-slate-500">{wall.addressText}, {wall.city}, {wall.country}</p>
+          <p className="text-xs text-slate-500 font-mono mt-0.5">
+            owner {short(wall.ownerAddress)} · listed {new Date(wall.createdAt).toLocaleDateString()}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 text-xs">
+          <div className="bg-surface-raised rounded-lg p-2">
+            <p className="text-slate-500">CV estimate</p>
+            <p className="text-slate-200">
+              {wall.widthFt && wall.heightFt ? `${wall.widthFt} × ${wall.heightFt} ft` : '—'}
+            </p>
+            <p className="text-slate-200">{wall.areaSqft ? `${wall.areaSqft.toFixed(1)} sqft` : 'no area'}</p>
+            {wall.cvConfidence !== null && (
+              <p className="text-slate-500">confidence {(wall.cvConfidence * 100).toFixed(0)}%</p>
+            )}
+          </div>
+          <div className="bg-surface-raised rounded-lg p-2">
+            <p className="text-slate-500">Pricing</p>
+            <p className="text-slate-200">{wall.pricePerSqftDay} BNB / sqft / day</p>
+            <p className="text-slate-200">visibility tier {wall.visibilityTier}</p>
+            <p className="text-slate-500">{wall.photoCids.length} photo{wall.photoCids.length === 1 ? '' : 's'}</p>
+          </div>
+        </div>
+
+        {wall.description && <p className="text-sm text-slate-400 line-clamp-4">{wall.description}</p>}
+        {wall.moderationReason && (
+          <p className="text-xs text-yellow-400">Last reason: {wall.moderationReason}</p>
+        )}
+
+        <HistoryList entries={wall.history} />
+
+        {actions.length > 0 && (
+          <div className="space-y-2 pt-1">
+            <textarea className="input text-sm" rows={2} maxLength={500} value={reason}
+              placeholder="Reason (required to reject or suspend; sent to the owner)"
+              onChange={e => setReason(e.target.value)} />
+            <div className="flex gap-2">
+              {actions.map(({ action, label }) => {
+                const Icon = ACTION_ICONS[action]
+                return (
+                  <button key={action} onClick={() => act(action)} disabled={!!busy}
+                    className={cn('text-sm', action === 'APPROVE' ? 'btn-primary' : 'btn-secondary')}>
+                    {busy === action ? <Loader2 size={14} className="animate-spin" /> : <Icon size={14} />}
+                    {label}
+                  </button>
+                )
+              })}
+            </div>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function AdminPage() {
+  const { isConnected } = useAccount()
+  const { address }     = useSession()
+  const isAdmin         = useIsAdmin()
+
+  const [tab,     setTab]     = useState<Tab>('PENDING_REVIEW')
+  const [walls,   setWalls]   = useState<ModerationWall[]>([])
+  const [log,     setLog]     = useState<HistoryEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error,   setError]   = useState('')
+
+  const load = useCallback(() => {
+    setLoading(true)
+    const url = tab === 'LOG' ? '/api/admin/moderation' : `/api/admin/walls?status=${tab}`
+    fetch(url)
+      .then(async r => {
+        const d = await r.json()
+        if (!r.ok) throw new Error(d.error || 'Failed to load')
+        if (tab === 'LOG') setLog(d)
+        else setWalls(d)
+        setError('')
+      })
+      .catch(e => setError(e.message))
+      .finally(() => setLoading(false))
+  }, [tab])
+
+  useEffect(() => {
+    if (isAdmin) load()
+    else setLoading(false)
+  }, [isAdmin, load])
+
+  if (!isConnected || !address) {
+    return (
+      <div className="page-container py-24 flex flex-col items-center gap-6">
+        <ShieldCheck size={48} className="text-slate-600" />
+        <div className="text-center">
+          <h1 className="section-title">Moderation</h1>
+          <p className="text-slate-500 mt-2">Connect and sign in with an admin wallet</p>
+        </div>
+        <ConnectButton />
+      </div>
+    )
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="page-container py-24 text-center space-y-2">
+        <h1 className="section-title">Moderation</h1>
+        <p className="text-slate-500">This wallet is not an admin.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="page-container py-8 space-y-6">
+      <div>
+        <h1 className="section-title">Moderation</h1>
+        <p className="text-sm text-slate-500 mt-1">
+          New listings wait here until approved. Check the outline against the photo and the
+          estimated size before approving; the owner is notified of every decision.
+        </p>
+      </div>
+
+      <div className="flex gap-1 border-b border-surface-border">
+        {TABS.map(t => (
+          <button key={t.id} onClick={() => setTab(t.id)}
+            className={cn('px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors',
+              tab === t.id ? 'border-brand text-brand' : 'border-transparent text-slate-500 hover:text-slate-300')}>
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {loading ? (
+        <div className="flex justify-center py-16"><Loader2 className="animate-spin text-brand" size={28} /></div>
+      ) : tab === 'LOG' ? (
+        log.length === 0 ? <p className="text-sm text-slate-500">No moderation actions yet.</p> : (
+          <div className="card divide-y divide-surface-border p-0">
+            {log.map(h => (
+              <div key={h.id} className="px-4 py-3 text-sm flex flex-wrap gap-x-3 gap-y-1">
+                <span className="text-slate-500 text-xs w-40 shrink-0">{new Date(h.createdAt).toLocaleString()}</span>
+                <span className="text-slate-200 w-24 shrink-0">{h.action.toLowerCase()}</span>
+                <Link href={`/walls/${h.wallId}`} className="text-slate-300 hover:text-brand">
+                  {h.wall?.title ?? h.wallId}
+                </Link>
+                <span className="text-xs text-slate-500">
+                  {h.fromStatus.toLowerCase()} → {h.toStatus.toLowerCase()} · {short(h.actorAddress)}
+                </span>
+                {h.reason && <p className="basis-full text-xs text-slate-400 pl-[10.75rem]">{h.reason}</p>}
+              </div>
+            ))}
+          </div>
+        )
+      ) : walls.length === 0 ? (
+        <p className="text-sm text-slate-500">Nothing here.</p>
+      ) : (
+        <div className="space-y-4">
+          {walls.map(w => <WallReview key={w.id} wall={w} onDone={load} />)}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma }                    from '@/lib/db'
+import { requireAdmin }              from '@/lib/auth'
+
+// GET /api/admin/moderation — the latest 100 moderation actions, newest first (admins only)
+export async function GET(req: NextRequest) {
+  const auth = await requireAdmin(req)
+  if ('error' in auth) return auth.error
+
+  try {
+    const actions = await prisma.moderationAction.findMany({
+      include: {
+        actor: { select: { walletAddress: true } },
+        wall:  { select: { title: true, city: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take:    100,
+    })
+    return NextResponse.json(actions.map(({ actor, ...a }: typeof actions[0]) => ({
+      ...a,
+      actorAddress: actor.walletAddress,
+    })))
+  } catch (e) {
+    console.error('[GET /api/admin/moderation]', e)
+    return NextResponse.json({ error: 'Failed to fetch moderation log' }, { status: 500 })
+  }
+}
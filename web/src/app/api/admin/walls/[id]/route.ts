@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin }              from '@/lib/auth'
+import { moderateWall, validateModeration, ModerationConflictError } from '@/lib/moderation'
+
+// POST /api/admin/walls/[id] — { action: APPROVE | REJECT | SUSPEND, reason } (admins only).
+// Rejecting and suspending need a reason, which is sent to the owner.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireAdmin(req)
+  if ('error' in auth) return auth.error
+
+  try {
+    const { action, reason } = await req.json()
+    const invalid = validateModeration(action, reason)
+    if (invalid) return NextResponse.json({ error: invalid }, { status: 400 })
+
+    const result = await moderateWall(params.id, auth.admin.id, action, reason)
+    return NextResponse.json(result)
+  } catch (e) {
+    if (e instanceof ModerationConflictError) {
+      return NextResponse.json({ error: e.message }, { status: 409 })
+    }
+    console.error('[POST /api/admin/walls/[id]]', e)
+    return NextResponse.json({ error: 'Failed to moderate wall' }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { WallStatus }                from '@prisma/client'
+import { prisma }                    from '@/lib/db'
+import { requireAdmin }              from '@/lib/auth'
+
+const STATUSES: string[] = Object.values(WallStatus)
+const isWallStatus = (s: string): s is WallStatus => STATUSES.includes(s)
+
+// GET /api/admin/walls?status=PENDING_REVIEW — walls in one moderation state (admins only).
+// The pending queue is oldest first; the other states are most recently reviewed first.
+export async function GET(req: NextRequest) {
+  const auth = await requireAdmin(req)
+  if ('error' in auth) return auth.error
+
+  const status = req.nextUrl.searchParams.get('status') || WallStatus.PENDING_REVIEW
+  if (!isWallStatus(status)) {
+    return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 })
+  }
+
+  try {
+    const walls = await prisma.wall.findMany({
+      where:   { status },
+      include: {
+        owner:             { select: { walletAddress: true } },
+        moderationActions: {
+          orderBy: { createdAt: 'desc' },
+          take:    5,
+          include: { actor: { select: { walletAddress: true } } },
+        },
+      },
+      orderBy: status === 'PENDING_REVIEW' ? { createdAt: 'asc' } : { reviewedAt: 'desc' },
+      take:    100,
+    })
+
+    return NextResponse.json(walls.map(({ owner, moderationActions, ...w }: typeof walls[0]) => ({
+      ...w,
+      ownerAddress: owner.walletAddress,
+      history: moderationActions.map(({ actor, ...a }: typeof moderationActions[0]) => ({
+        ...a,
+        actorAddress: actor.walletAddress,
+      })),
+    })))
+  } catch (e) {
+    console.error('[GET /api/admin/walls]', e)
+    return NextResponse.json({ error: 'Failed to fetch walls' }, { status: 500 })
+  }
+}
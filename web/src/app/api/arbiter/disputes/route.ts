@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma }                    from '@/lib/db'
+import { getSession, unauthorized, forbidden } from '@/lib/auth'
+import { getPublicClient }           from '@/lib/chain'
+import { ESCROW_ABI, ESCROW_ADDRESS } from '@/lib/contract'
+import { verifyTxHint }              from '@/lib/indexer'
+import { serializeProofs }           from '@/lib/proofs'
+
+// Access follows the contract: each booking is resolved by the arbiter it was
+// funded under, so a former arbiter keeps the disputes still assigned to them
+async function disputesFor(address: string) {
+  const bookings = await prisma.booking.findMany({
+    where:   { status: { in: ['DISPUTED', 'CONTESTED'] }, chainBookingId: { not: null } },
+    include: {
+      wall:       { include: { owner: { select: { walletAddress: true } } } },
+      advertiser: { select: { walletAddress: true } },
+      installer:  { select: { walletAddress: true } },
+      proofs:     true,
+    },
+    orderBy: { updatedAt: 'asc' },
+  })
+
+  const client   = getPublicClient()
+  const arbiters = await Promise.all(bookings.map(b => client.readContract({
+    address:      ESCROW_ADDRESS,
+    abi:          ESCROW_ABI,
+    functionName: 'getBooking',
+    args:         [b.chainBookingId as `0x${string}`],
+  }).then(onChain => onChain.arbiter.toLowerCase())))
+
+  return bookings.filter((_, i) => arbiters[i] === address)
+}
+
+// GET /api/arbiter/disputes — open disputes assigned to the signed-in arbiter
+export async function GET(req: NextRequest) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const bookings = await disputesFor(session.address)
+    if (bookings.length === 0) {
+      const arbiter = await getPublicClient().readContract({
+        address:      ESCROW_ADDRESS,
+        abi:          ESCROW_ABI,
+        functionName: 'arbiter',
+      })
+      if (arbiter.toLowerCase() !== session.address) {
+        return forbidden('Only the escrow arbiter can view disputes')
+      }
+    }
+
+    return NextResponse.json(
+      bookings.map((b: typeof bookings[0]) => ({
+        ...b,
+        advertiserAddress: b.advertiser.walletAddress,
+        installerAddress:  b.installer?.walletAddress || null,
+        wall: { ...b.wall, ownerAddress: b.wall.owner.walletAddress },
+        startDate:       b.startDate.toISOString(),
+        endDate:         b.endDate.toISOString(),
+        createdAt:       b.createdAt.toISOString(),
+        updatedAt:       b.updatedAt.toISOString(),
+        proofDeadlineAt: b.proofDeadlineAt?.toISOString() || null,
+        disputeDeadline: b.disputeDeadline?.toISOString() || null,
+        contestDeadline: b.contestDeadline?.toISOString() || null,
+        cancelDeadline:  b.cancelDeadline?.toISOString() || null,
+        ...serializeProofs(b.proofs, b.currentMilestone),
+      }))
+    )
+  } catch (e) {
+    console.error('[GET /api/arbiter/disputes]', e)
+    return NextResponse.json({ error: 'Failed to fetch disputes' }, { status: 500 })
+  }
+}
+
+// POST /api/arbiter/disputes — hint a resolveDispute tx hash to the indexer.
+// The arbiter is not a booking participant, so PATCH /api/bookings/[id] won't take it.
+export async function POST(req: NextRequest) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    if ((await disputesFor(session.address)).length === 0) {
+      return forbidden('Only an assigned arbiter can resolve disputes')
+    }
+
+    const { txHash } = await req.json()
+    if (!txHash || !/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+      return NextResponse.json({ error: 'Invalid txHash' }, { status: 400 })
+    }
+
+    const verified = await verifyTxHint(getPublicClient(), txHash)
+    return NextResponse.json({ verified })
+  } catch (e) {
+    console.error('[POST /api/arbiter/disputes]', e)
+    return NextResponse.json({ error: 'Failed to verify resolution' }, { status: 500 })
+  }
+}
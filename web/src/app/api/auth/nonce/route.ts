@@ -0,0 +1,25 @@
+import { NextResponse }      from 'next/server'
+import { generateSiweNonce } from 'viem/siwe'
+import { NONCE_COOKIE, NONCE_TTL_SEC, createNonceToken } from '@/lib/auth'
+
+// GET /api/auth/nonce — issue a SIWE nonce with the issue and expiration times the
+// message must carry, bound to a signed HTTP-only cookie that verify clears
+export async function GET() {
+  const nonce          = generateSiweNonce()
+  const issuedAt       = new Date()
+  const expirationTime = new Date(issuedAt.getTime() + NONCE_TTL_SEC * 1000)
+
+  const res = NextResponse.json({
+    nonce,
+    issuedAt:       issuedAt.toISOString(),
+    expirationTime: expirationTime.toISOString(),
+  })
+  res.cookies.set(NONCE_COOKIE, createNonceToken({ nonce, issuedAt }), {
+    httpOnly: true,
+    secure:   process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path:     '/api/auth',
+    maxAge:   NONCE_TTL_SEC,
+  })
+  return res
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession, clearSessionCookie } from '@/lib/auth'
+
+// GET /api/auth/session — current signed-in wallet (or null)
+export async function GET(req: NextRequest) {
+  const session = getSession(req)
+  return NextResponse.json({ address: session?.address ?? null, expiresAt: session?.expiresAt ?? null })
+}
+
+// DELETE /api/auth/session — sign out
+export async function DELETE() {
+  const res = NextResponse.json({ ok: true })
+  clearSessionCookie(res)
+  return res
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyMessage }             from 'viem'
+import { parseSiweMessage, validateSiweMessage } from 'viem/siwe'
+import { prisma }                    from '@/lib/db'
+import {
+  NONCE_COOKIE, NONCE_TTL_SEC, createSessionToken, setSessionCookie, parseNonceToken, clearNonceCookie,
+} from '@/lib/auth'
+
+// A failed attempt uses the nonce up too, so a captured message can't be retried
+function rejected(error: string): NextResponse {
+  const res = NextResponse.json({ error }, { status: 401 })
+  clearNonceCookie(res)
+  return res
+}
+
+// POST /api/auth/verify — verify a signed SIWE message and start a session
+export async function POST(req: NextRequest) {
+  try {
+    const { message, signature } = await req.json()
+    if (typeof message !== 'string' || typeof signature !== 'string') {
+      return NextResponse.json({ error: 'message and signature are required' }, { status: 400 })
+    }
+
+    const issued = parseNonceToken(req.cookies.get(NONCE_COOKIE)?.value)
+    const parsed = parseSiweMessage(message)
+
+    // Domain and nonce must match what this server issued, the message must
+    // carry the nonce's issue time, and it expires NONCE_TTL_SEC after that
+    const valid = !!issued
+      && parsed.issuedAt?.getTime() === issued.issuedAt.getTime()
+      && !!parsed.expirationTime
+      && parsed.expirationTime.getTime() <= issued.issuedAt.getTime() + NONCE_TTL_SEC * 1000
+      && validateSiweMessage({
+        message: parsed,
+        domain:  req.headers.get('host') ?? undefined,
+        nonce:   issued.nonce,
+      })
+    if (!valid || !parsed.address) {
+      return rejected('Invalid or expired sign-in message')
+    }
+
+    const signed = await verifyMessage({
+      address:   parsed.address,
+      message,
+      signature: signature as `0x${string}`,
+    })
+    if (!signed) return rejected('Signature does not match address')
+
+    const address = parsed.address.toLowerCase()
+    await prisma.user.upsert({
+      where:  { walletAddress: address },
+      create: { walletAddress: address },
+      update: {},
+    })
+
+    const { token, session } = createSessionToken(address)
+    const res = NextResponse.json({ address: session.address, expiresAt: session.expiresAt })
+    setSessionCookie(res, token)
+    clearNonceCookie(res)   // single use
+    return res
+  } catch (e) {
+    console.error('[POST /api/auth/verify]', e)
+    return NextResponse.json({ error: 'Sign-in failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyTypedData }           from 'viem'
+import { prisma }                    from '@/lib/db'
+import { getSession, unauthorized, forbidden, bookingRoles } from '@/lib/auth'
+import { ESCROW_DOMAIN, CANCEL_TYPES } from '@/lib/contract'
+
+// How long a cancellation request stays signable by the other party
+const MAX_CANCEL_TTL_SEC = 7 * 24 * 60 * 60
+
+async function loadBooking(id: string) {
+  return prisma.booking.findUnique({
+    where:   { id },
+    include: {
+      wall:       { include: { owner: { select: { walletAddress: true } } } },
+      advertiser: { select: { walletAddress: true } },
+      installer:  { select: { walletAddress: true } },
+    },
+  })
+}
+
+// POST /api/bookings/[id]/cancel — store the caller's EIP-712 CancelBooking
+// signature. A signature over a different deadline than the one on file starts
+// a new request and drops the other party's signature. The escrow re-checks
+// both signatures, so this only coordinates who has signed what.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const booking = await loadBooking(params.id)
+    if (!booking) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+    const roles = bookingRoles(booking, session.address)
+    if (!roles.includes('advertiser') && !roles.includes('wallOwner')) {
+      return forbidden('Only the advertiser or the wall owner can cancel by consent')
+    }
+    if (booking.status !== 'FUNDED' || !booking.chainBookingId) {
+      return NextResponse.json({ error: 'Only funded bookings awaiting proof can be cancelled' }, { status: 409 })
+    }
+
+    const { signature, deadline } = await req.json()
+    const now = Math.floor(Date.now() / 1000)
+    if (typeof signature !== 'string' || !/^0x[0-9a-fA-F]{130}$/.test(signature)) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 400 })
+    }
+    if (!Number.isInteger(deadline) || deadline <= now || deadline > now + MAX_CANCEL_TTL_SEC) {
+      return NextResponse.json({ error: 'deadline must be within the next 7 days' }, { status: 400 })
+    }
+
+    const signed = await verifyTypedData({
+      address:     session.address as `0x${string}`,
+      domain:      ESCROW_DOMAIN,
+      types:       CANCEL_TYPES,
+      primaryType: 'CancelBooking',
+      message:     { bookingId: booking.chainBookingId as `0x${string}`, deadline: BigInt(deadline) },
+      signature:   signature as `0x${string}`,
+    })
+    if (!signed) {
+      return NextResponse.json({ error: 'Signature does not match your wallet' }, { status: 401 })
+    }
+
+    const sameRequest = booking.cancelDeadline?.getTime() === deadline * 1000
+
+    const updated = await prisma.booking.update({
+      where: { id: params.id },
+      data: {
+        cancelDeadline:      new Date(deadline * 1000),
+        cancelAdvertiserSig: roles.includes('advertiser') ? signature : sameRequest ? booking.cancelAdvertiserSig : null,
+        cancelWallOwnerSig:  roles.includes('wallOwner') ? signature : sameRequest ? booking.cancelWallOwnerSig : null,
+      },
+    })
+
+    return NextResponse.json({
+      cancelDeadline:      updated.cancelDeadline?.toISOString() || null,
+      cancelAdvertiserSig: updated.cancelAdvertiserSig,
+      cancelWallOwnerSig:  updated.cancelWallOwnerSig,
+    })
+  } catch (e) {
+    console.error('[POST /api/bookings/cancel]', e)
+    return NextResponse.json({ error: 'Failed to store cancellation signature' }, { status: 500 })
+  }
+}
+
+// DELETE /api/bookings/[id]/cancel — withdraw a pending cancellation request.
+// Signatures already handed out stay valid on-chain until their deadline.
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const booking = await loadBooking(params.id)
+    if (!booking) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+    const roles = bookingRoles(booking, session.address)
+    if (!roles.includes('advertiser') && !roles.includes('wallOwner')) {
+      return forbidden('Only the advertiser or the wall owner can withdraw a cancellation')
+    }
+
+    await prisma.booking.update({
+      where: { id: params.id },
+      data:  { cancelDeadline: null, cancelAdvertiserSig: null, cancelWallOwnerSig: null },
+    })
+    return NextResponse.json({ ok: true })
+  } catch (e) {
+    console.error('[DELETE /api/bookings/cancel]', e)
+    return NextResponse.json({ error: 'Failed to withdraw cancellation' }, { status: 500 })
+  }
+}
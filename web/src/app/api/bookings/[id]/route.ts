@@ -1,11 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma }                    from '@/lib/db'
+import { getSession, unauthorized, forbidden, bookingRoles, isAdminAddress } from '@/lib/auth'
+import { getPublicClient }           from '@/lib/chain'
+import { applyChainEvents, verifyTxHint } from '@/lib/indexer'
+import { priceIn, signBookingQuote, QuoteError, type SignedQuote } from '@/lib/quote'
+import { serializeProofs }           from '@/lib/proofs'
+import { ESCROW_ABI, ESCROW_ADDRESS } from '@/lib/contract'
+import { findOverlap, overlapMessage, reservationExpiry } from '@/lib/availability'
 
-// GET /api/bookings/[id]
+// The arbiter a funded booking's disputes go to, who reviews it from /review
+async function isBookingArbiter(chainBookingId: string | null, address: string): Promise<boolean> {
+  if (!chainBookingId) return false
+  const onChain = await getPublicClient().readContract({
+    address:      ESCROW_ADDRESS,
+    abi:          ESCROW_ABI,
+    functionName: 'getBooking',
+    args:         [chainBookingId as `0x${string}`],
+  }).catch(() => null)
+  return !!onChain && onChain.arbiter.toLowerCase() === address
+}
+
+// GET /api/bookings/[id] — for the booking's parties, its arbiter and admins
 export async function GET(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
   try {
     const booking = await prisma.booking.findUnique({
       where: { id: params.id },
@@ -13,10 +35,14 @@ export async function GET(
         wall:       { include: { owner: { select: { walletAddress: true } } } },
         advertiser: { select: { walletAddress: true } },
         installer:  { select: { walletAddress: true } },
-        proof:      true,
+        proofs:     true,
       },
     })
     if (!booking) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    const allowed = bookingRoles(booking, session.address).length > 0
+      || await isAdminAddress(session.address)
+      || await isBookingArbiter(booking.chainBookingId, session.address)
+    if (!allowed) return forbidden('Only the booking\'s parties can view it')
 
     return NextResponse.json({
       ...booking,
@@ -27,55 +53,105 @@ export async function GET(
       endDate:         booking.endDate.toISOString(),
       createdAt:       booking.createdAt.toISOString(),
       updatedAt:       booking.updatedAt.toISOString(),
+      proofDeadlineAt: booking.proofDeadlineAt?.toISOString() || null,
       disputeDeadline: booking.disputeDeadline?.toISOString() || null,
-      proof: booking.proof ? {
-        ...booking.proof,
-        submittedAt: booking.proof.submittedAt.toISOString(),
-        decidedAt:   booking.proof.decidedAt?.toISOString() || null,
-      } : null,
+      contestDeadline: booking.contestDeadline?.toISOString() || null,
+      cancelDeadline:  booking.cancelDeadline?.toISOString() || null,
+      ...serializeProofs(booking.proofs, booking.currentMilestone),
     })
   } catch (e) {
     return NextResponse.json({ error: 'Failed to fetch booking' }, { status: 500 })
   }
 }
 
-// PATCH /api/bookings/[id] — update booking state (called by frontend after on-chain events)
+// PATCH /api/bookings/[id] — pick the payment currency, bind on-chain id, store
+// preview/rating, or hint a tx hash. Status, settlement tx hashes and the dispute
+// deadline are never taken from the client: a reported `txHash` only triggers
+// receipt verification by the indexer. Stablecoin amounts are quoted here, not
+// by the client, and returned as a signed `quote` to fund against. Quoting or
+// binding renews the date hold, or fails with 409 if the hold lapsed and someone
+// else has taken the dates meanwhile.
 export async function PATCH(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
   try {
+    const existing = await prisma.booking.findUnique({
+      where:   { id: params.id },
+      include: {
+        wall:       { include: { owner: { select: { walletAddress: true } } } },
+        advertiser: { select: { walletAddress: true } },
+        installer:  { select: { walletAddress: true } },
+      },
+    })
+    if (!existing) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    const roles = bookingRoles(existing, session.address)
+    if (roles.length === 0) {
+      return forbidden('Only booking participants can update this booking')
+    }
+
     const body = await req.json()
-    const {
-      status, chainBookingId, metadataHash,
-      txHashFund, txHashProof, txHashSettle,
-      disputeDeadline, previewCid, warpMatrix,
-    } = body
+    const { chainBookingId, metadataHash, previewCid, warpMatrix, rating, txHash, paymentCurrency } = body
 
-    // When proof is submitted, compute the dispute deadline (7 days from now)
-    const computedDisputeDeadline =
-      status === 'PROOF_SUBMITTED' && !disputeDeadline
-        ? new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
-        : disputeDeadline
-        ? new Date(disputeDeadline)
-        : undefined
+    // Currency, on-chain binding, artwork preview and rating belong to the advertiser
+    if ((paymentCurrency || chainBookingId || metadataHash || previewCid || warpMatrix || rating) && !roles.includes('advertiser')) {
+      return forbidden('Only the advertiser can bind, preview or rate this booking')
+    }
+    if ((paymentCurrency || chainBookingId || metadataHash) && existing.status !== 'PENDING_PAYMENT') {
+      return NextResponse.json({ error: 'Booking is already bound on-chain' }, { status: 409 })
+    }
 
-    const booking = await prisma.booking.update({
+    const paying = !!(paymentCurrency || chainBookingId)
+    if (paying) {
+      const clash = await findOverlap(existing.wallId, existing.startDate, existing.endDate, existing.id)
+      if (clash) return NextResponse.json({ error: overlapMessage(clash) }, { status: 409 })
+    }
+
+    let payment: { paymentToken: string | null; paymentAmount: string | null } | undefined
+    let quote:   SignedQuote | null = null
+    if (paymentCurrency) {
+      const { token, amount } = await priceIn(existing.totalBnb, paymentCurrency)
+      payment = { paymentToken: token, paymentAmount: token ? amount.toString() : null }
+      quote   = await signBookingQuote(existing, token, amount)
+    }
+    if (rating !== undefined && rating !== null) {
+      if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        return NextResponse.json({ error: 'rating must be an integer from 1 to 5' }, { status: 400 })
+      }
+      if (existing.status !== 'APPROVED') {
+        return NextResponse.json({ error: 'Only approved bookings can be rated' }, { status: 409 })
+      }
+    }
+    if (txHash && !/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+      return NextResponse.json({ error: 'Invalid txHash' }, { status: 400 })
+    }
+
+    await prisma.booking.update({
       where: { id: params.id },
       data: {
-        ...(status          && { status }),
+        ...payment,
+        ...(paying          && { reservedUntil: reservationExpiry() }),
         ...(chainBookingId  && { chainBookingId }),
         ...(metadataHash    && { metadataHash }),
-        ...(txHashFund      && { txHashFund }),
-        ...(txHashProof     && { txHashProof }),
-        ...(txHashSettle    && { txHashSettle }),
-        ...(computedDisputeDeadline && { disputeDeadline: computedDisputeDeadline }),
         ...(previewCid      && { previewCid }),
         ...(warpMatrix      && { warpMatrix }),
+        ...(rating          && { rating }),
       },
     })
-    return NextResponse.json({ booking })
+
+    // Catch up on events already indexed for a freshly bound id, then verify the hint
+    if (chainBookingId) await applyChainEvents(chainBookingId)
+    const verified = txHash ? await verifyTxHint(getPublicClient(), txHash) : false
+
+    const booking = await prisma.booking.findUnique({ where: { id: params.id } })
+    return NextResponse.json({ booking, verified, quote })
   } catch (e) {
+    if (e instanceof QuoteError) {
+      return NextResponse.json({ error: e.message }, { status: 400 })
+    }
     console.error('[PATCH /api/bookings]', e)
     return NextResponse.json({ error: 'Failed to update booking' }, { status: 500 })
   }
@@ -1,16 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { BookingStatus, Prisma }   from '@prisma/client'
 import { prisma }                    from '@/lib/db'
-import { calculatePrice, calculateDays, VISIBILITY_MULTIPLIERS } from '@/lib/pricing'
+import { VISIBILITY_MULTIPLIERS }  from '@/lib/pricing'
+import { parsePricingRules, quoteBooking } from '@/lib/pricingRules'
+import { getSession, unauthorized, forbidden, sameAddress } from '@/lib/auth'
+import { deriveBookingTerms, validateBookingTerms } from '@/lib/terms'
+import { serializeProofs }           from '@/lib/proofs'
+import { findOverlap, overlapMessage, reservationExpiry, findBlackout, blackoutMessage } from '@/lib/availability'
+import { rulesOf, checkBookingRules } from '@/lib/bookingRules'
+import { emitBookingWebhooks }       from '@/lib/webhooks'
+import { getInstallerFeeBps }        from '@/lib/chain'
 
-// GET /api/bookings — list bookings for a user
+// Thrown inside the booking transaction to abort it with a 409
+class DatesTakenError extends Error {}
+
+const BOOKING_STATUSES: string[] = Object.values(BookingStatus)
+
+// GET /api/bookings — list the signed-in wallet's bookings as advertiser,
+// installer or wall owner, optionally narrowed by wallId and status
 export async function GET(req: NextRequest) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
   const { searchParams } = req.nextUrl
   const advertiserAddress = searchParams.get('advertiserAddress')
   const installerAddress  = searchParams.get('installerAddress')
+  const ownerAddress      = searchParams.get('ownerAddress')
   const wallId            = searchParams.get('wallId')
+  const status            = searchParams.get('status')
+
+  const roleAddresses = [advertiserAddress, installerAddress, ownerAddress].filter(Boolean)
+  if (roleAddresses.length === 0) {
+    return NextResponse.json({ error: 'Provide advertiserAddress, installerAddress or ownerAddress' }, { status: 400 })
+  }
+  if (!roleAddresses.every(a => sameAddress(a, session.address))) {
+    return forbidden('You can only list your own bookings')
+  }
 
-  if (!advertiserAddress && !installerAddress && !wallId) {
-    return NextResponse.json({ error: 'Provide advertiserAddress, installerAddress, or wallId' }, { status: 400 })
+  const statuses = status ? status.split(',') : []
+  const unknown  = statuses.filter(s => !BOOKING_STATUSES.includes(s))
+  if (unknown.length > 0) {
+    return NextResponse.json({ error: `Unknown status: ${unknown.join(', ')}` }, { status: 400 })
   }
 
   try {
@@ -22,13 +52,17 @@ export async function GET(req: NextRequest) {
         ...(installerAddress && {
           installer: { walletAddress: { equals: installerAddress, mode: 'insensitive' } }
         }),
+        ...(ownerAddress && {
+          wall: { owner: { walletAddress: { equals: ownerAddress, mode: 'insensitive' } } }
+        }),
         ...(wallId && { wallId }),
+        ...(statuses.length > 0 && { status: { in: statuses as BookingStatus[] } }),
       },
       include: {
         wall:      { include: { owner: { select: { walletAddress: true } } } },
         advertiser: { select: { walletAddress: true } },
         installer:  { select: { walletAddress: true } },
-        proof:      true,
+        proofs:     true,
       },
       orderBy: { createdAt: 'desc' },
     })
@@ -43,12 +77,11 @@ export async function GET(req: NextRequest) {
         endDate:         b.endDate.toISOString(),
         createdAt:       b.createdAt.toISOString(),
         updatedAt:       b.updatedAt.toISOString(),
+        proofDeadlineAt: b.proofDeadlineAt?.toISOString() || null,
         disputeDeadline: b.disputeDeadline?.toISOString() || null,
-        proof: b.proof ? {
-          ...b.proof,
-          submittedAt: b.proof.submittedAt.toISOString(),
-          decidedAt:   b.proof.decidedAt?.toISOString() || null,
-        } : null,
+        contestDeadline: b.contestDeadline?.toISOString() || null,
+        cancelDeadline:  b.cancelDeadline?.toISOString() || null,
+        ...serializeProofs(b.proofs, b.currentMilestone),
       }))
     )
   } catch (e) {
@@ -57,31 +90,74 @@ export async function GET(req: NextRequest) {
   }
 }
 
-// POST /api/bookings — create booking record (pre-payment)
+// POST /api/bookings — create booking record (pre-payment). The dates are held
+// for RESERVATION_TTL_MIN; 409 if they overlap a booked or held range or an
+// owner blackout, 400 if they break the wall's booking rules.
 export async function POST(req: NextRequest) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
   try {
     const body = await req.json()
-    const { advertiserAddress, wallId, installerAddress, startDate, endDate, artworkCid } = body
+    const { wallId, installerAddress, startDate, endDate, artworkCid } = body
 
-    if (!advertiserAddress || !wallId || !startDate || !endDate) {
+    if (!wallId || !startDate || !endDate) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
     }
 
+    // The installer's share is a platform setting, so an advertiser naming
+    // themselves installer can't take part of the wall owner's payout
+    if (body.installerFeeBps !== undefined) {
+      return NextResponse.json({ error: 'installerFeeBps is set by the platform, not per booking' }, { status: 400 })
+    }
+    const installerFeeBps = await getInstallerFeeBps()
+
+    // Escrow terms: explicit from the client, otherwise derived from the start date
+    const terms = {
+      ...(body.proofDeadlineSec && body.disputeWindowSec
+        ? { proofDeadlineSec: Number(body.proofDeadlineSec), disputeWindowSec: Number(body.disputeWindowSec) }
+        : deriveBookingTerms(startDate)),
+      installerFeeBps,
+      milestoneCount:       Number(body.milestoneCount ?? 1),
+      milestoneIntervalSec: Number(body.milestoneIntervalSec ?? 0),
+    }
+    const termsError = validateBookingTerms(terms)
+    if (termsError) return NextResponse.json({ error: termsError }, { status: 400 })
+
     // Load wall for pricing
     const wall = await prisma.wall.findUnique({ where: { id: wallId } })
     if (!wall) return NextResponse.json({ error: 'Wall not found' }, { status: 404 })
-    if (!wall.areaSqft) return NextResponse.json({ error: 'Wall dimensions not set' }, { status: 400 })
+    if (wall.status !== 'ACTIVE') {
+      return NextResponse.json({ error: 'This wall is not taking bookings' }, { status: 409 })
+    }
+    const areaSqft = wall.areaSqft
+    if (!areaSqft) return NextResponse.json({ error: 'Wall dimensions not set' }, { status: 400 })
 
-    const days   = calculateDays(new Date(startDate), new Date(endDate))
-    const { totalBnb, totalWei } = calculatePrice(
-      wall.areaSqft, wall.pricePerSqftDay, wall.visibilityTier, days
-    )
+    if (new Date(endDate) <= new Date(startDate)) {
+      return NextResponse.json({ error: 'endDate must be after startDate' }, { status: 400 })
+    }
+
+    const startDay = new Date(startDate).toISOString().slice(0, 10)
+    const endDay   = new Date(endDate).toISOString().slice(0, 10)
+    const rulesError = checkBookingRules(rulesOf(wall), startDay, endDay)
+    if (rulesError) return NextResponse.json({ error: rulesError }, { status: 400 })
+
+    // Priced day by day under the wall's current rules, which are snapshotted
+    const quote  = quoteBooking({ ...wall, areaSqft }, parsePricingRules(wall.pricingRulesJson), startDay, endDay)
     const mult   = VISIBILITY_MULTIPLIERS[wall.visibilityTier]?.mult || 1.0
 
-    // Upsert advertiser user
+    // The advertiser confirmed the total from /api/quote; don't book at a different one
+    if (body.quotedTotalBnb && body.quotedTotalBnb !== quote.totalBnb) {
+      return NextResponse.json(
+        { error: `The price changed to ${quote.totalBnb} BNB since it was quoted — review it and confirm again` },
+        { status: 409 }
+      )
+    }
+
+    // The signed-in wallet is the advertiser
     const advertiser = await prisma.user.upsert({
-      where:  { walletAddress: advertiserAddress.toLowerCase() },
-      create: { walletAddress: advertiserAddress.toLowerCase() },
+      where:  { walletAddress: session.address },
+      create: { walletAddress: session.address },
       update: {},
     })
 
@@ -96,27 +172,44 @@ export async function POST(req: NextRequest) {
       })
     }
 
-    const booking = await prisma.booking.create({
-      data: {
-        advertiserId:    advertiser.id,
-        wallId,
-        installerId:     installer?.id || null,
-        startDate:       new Date(startDate),
-        endDate:         new Date(endDate),
-        areaSqft:        wall.areaSqft,
-        pricePerSqftDay: wall.pricePerSqftDay,
-        visibilityMult:  mult,
-        totalBnb:        totalBnb,
-        chainId:         parseInt(process.env.NEXT_PUBLIC_CHAIN_ID || '97'),
-        status:          'PENDING_PAYMENT',
-        artworkCid:      artworkCid || null,
-      },
-      include: {
-        wall:      { include: { owner: { select: { walletAddress: true } } } },
-        advertiser: { select: { walletAddress: true } },
-        installer:  { select: { walletAddress: true } },
-      },
-    })
+    // Check and hold atomically so two advertisers can't reserve the same days
+    const booking = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const clash = await findOverlap(wallId, new Date(startDate), new Date(endDate), undefined, tx)
+      if (clash) throw new DatesTakenError(overlapMessage(clash))
+      const blackout = await findBlackout(wallId, new Date(startDate), new Date(endDate), tx)
+      if (blackout) throw new DatesTakenError(blackoutMessage(blackout))
+
+      return tx.booking.create({
+        data: {
+          advertiserId:    advertiser.id,
+          wallId,
+          installerId:     installer?.id || null,
+          startDate:       new Date(startDate),
+          endDate:         new Date(endDate),
+          areaSqft,
+          pricePerSqftDay: wall.pricePerSqftDay,
+          visibilityMult:  mult,
+          totalBnb:        quote.totalBnb,
+          pricingRulesJson: quote.snapshot,
+          chainId:         parseInt(process.env.NEXT_PUBLIC_CHAIN_ID || '97'),
+          proofDeadlineSec: terms.proofDeadlineSec,
+          disputeWindowSec: terms.disputeWindowSec,
+          installerFeeBps:  terms.installerFeeBps,
+          milestoneCount:       terms.milestoneCount,
+          milestoneIntervalSec: terms.milestoneIntervalSec,
+          status:          'PENDING_PAYMENT',
+          reservedUntil:   reservationExpiry(),
+          artworkCid:      artworkCid || null,
+        },
+        include: {
+          wall:      { include: { owner: { select: { walletAddress: true } } } },
+          advertiser: { select: { walletAddress: true } },
+          installer:  { select: { walletAddress: true } },
+        },
+      })
+    }, { isolationLevel: 'Serializable' })
+
+    emitBookingWebhooks(booking.id, null).catch(e => console.error('[POST /api/bookings] webhooks', e))
 
     return NextResponse.json({
       booking: {
@@ -128,10 +221,18 @@ export async function POST(req: NextRequest) {
         endDate:    booking.endDate.toISOString(),
         createdAt:  booking.createdAt.toISOString(),
         updatedAt:  booking.updatedAt.toISOString(),
+        proofs:     [],
         proof:      null,
       }
     }, { status: 201 })
   } catch (e) {
+    if (e instanceof DatesTakenError) {
+      return NextResponse.json({ error: e.message }, { status: 409 })
+    }
+    // P2034: a concurrent booking won the serializable transaction
+    if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2034') {
+      return NextResponse.json({ error: 'Those dates were just booked — pick others' }, { status: 409 })
+    }
     console.error('[POST /api/bookings]', e)
     return NextResponse.json({ error: 'Failed to create booking' }, { status: 500 })
   }
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { isValidTile }  from '@/lib/tiles'
+
+// GET /api/dev-tiles/[z]/[x]/[y] — offline stand-in for a raster tile server.
+// Draws a labelled grid square per tile so the map, panning and clustering can
+// be exercised without network access. Point NEXT_PUBLIC_MAP_TILE_URL at
+// /api/dev-tiles/{z}/{x}/{y} to use it.
+export async function GET(
+  _req: Request,
+  { params }: { params: { z: string; x: string; y: string } }
+) {
+  const z = Number(params.z), x = Number(params.x), y = Number(params.y.replace(/\.\w+$/, ''))
+  if (!isValidTile(z, x, y)) return new NextResponse('Invalid tile', { status: 400 })
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256" viewBox="0 0 256 256">
+  <rect width="256" height="256" fill="#1a1a27"/>
+  <path d="M0 0H256V256" fill="none" stroke="#2e2e42" stroke-width="2"/>
+  <path d="M0 128H256M128 0V256" stroke="#23233a" stroke-dasharray="4 6"/>
+  <text x="8" y="20" fill="#5b5b78" font-family="monospace" font-size="12">${z}/${x}/${y}</text>
+</svg>`
+
+  return new NextResponse(svg, {
+    headers: {
+      'Content-Type':  'image/svg+xml',
+      'Cache-Control': 'public, max-age=86400, immutable',
+    },
+  })
+}
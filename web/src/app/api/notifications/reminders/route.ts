@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sendDeadlineReminders }     from '@/lib/notifications'
+
+// GET /api/notifications/reminders — warn about proof and review deadlines that
+// are coming up. Run by Vercel Cron; the `npm run indexer` worker sends them too.
+export async function GET(req: NextRequest) {
+  const secret = req.headers.get('x-sync-secret') ?? req.headers.get('authorization')?.replace(/^Bearer /, '')
+  if (process.env.SYNC_SECRET && secret !== process.env.SYNC_SECRET) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json({ reminders: await sendDeadlineReminders() })
+  } catch (e) {
+    console.error('[GET /api/notifications/reminders]', e)
+    return NextResponse.json({ error: String(e) }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma }                    from '@/lib/db'
+import { getSession, unauthorized }  from '@/lib/auth'
+
+// GET /api/notifications — the signed-in user's latest in-app notifications and unread count
+export async function GET(req: NextRequest) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const mine = { user: { walletAddress: session.address }, inApp: true }
+    const [notifications, unread] = await Promise.all([
+      prisma.notification.findMany({ where: mine, orderBy: { createdAt: 'desc' }, take: 50 }),
+      prisma.notification.count({ where: { ...mine, readAt: null } }),
+    ])
+    return NextResponse.json({ notifications, unread })
+  } catch (e) {
+    console.error('[GET /api/notifications]', e)
+    return NextResponse.json({ error: 'Failed to fetch notifications' }, { status: 500 })
+  }
+}
+
+// PATCH /api/notifications — mark as read: { ids } or { all: true }
+export async function PATCH(req: NextRequest) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const { ids, all } = await req.json()
+    if (!all && !(Array.isArray(ids) && ids.every(id => typeof id === 'string'))) {
+      return NextResponse.json({ error: 'Pass ids or all: true' }, { status: 400 })
+    }
+
+    const { count } = await prisma.notification.updateMany({
+      where: {
+        user:   { walletAddress: session.address },
+        readAt: null,
+        ...(!all && { id: { in: ids } }),
+      },
+      data: { readAt: new Date() },
+    })
+    return NextResponse.json({ updated: count })
+  } catch (e) {
+    console.error('[PATCH /api/notifications]', e)
+    return NextResponse.json({ error: 'Failed to update notifications' }, { status: 500 })
+  }
+}
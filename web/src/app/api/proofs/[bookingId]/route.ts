@@ -1,21 +1,61 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma }                    from '@/lib/db'
+import { getSession, unauthorized, forbidden, bookingRoles } from '@/lib/auth'
+import { keccak256 }                 from 'viem'
 
-// PATCH /api/proofs/[bookingId] — record advertiser decision
+// PATCH /api/proofs/[bookingId] — record advertiser decision on the current
+// milestone's proof, or the wall owner's reason when contesting a disputed rejection
 export async function PATCH(
   req: NextRequest,
   { params }: { params: { bookingId: string } }
 ) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
   try {
+    const booking = await prisma.booking.findUnique({
+      where:   { id: params.bookingId },
+      include: {
+        wall:       { include: { owner: { select: { walletAddress: true } } } },
+        advertiser: { select: { walletAddress: true } },
+        installer:  { select: { walletAddress: true } },
+      },
+    })
+    if (!booking) return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
+    const roles = bookingRoles(booking, session.address)
+    const where = { bookingId_milestone: { bookingId: params.bookingId, milestone: booking.currentMilestone } }
+
     const body = await req.json()
-    const { decision, rejectionReason, rejectionReasonHash } = body
+    const { decision, rejectionReason, rejectionReasonHash, contestReason } = body
+
+    if (contestReason !== undefined) {
+      if (!roles.includes('wallOwner')) {
+        return forbidden('Only the wall owner can contest a rejection')
+      }
+      if (typeof contestReason !== 'string' || !contestReason.trim()) {
+        return NextResponse.json({ error: 'contestReason is required' }, { status: 400 })
+      }
+      const proof = await prisma.proof.update({
+        where,
+        data: {
+          contestReason,
+          contestReasonHash: keccak256(new TextEncoder().encode(contestReason)),
+          contestedAt:       new Date(),
+        },
+      })
+      return NextResponse.json({ proof })
+    }
+
+    if (!roles.includes('advertiser')) {
+      return forbidden('Only the advertiser can record a decision')
+    }
 
     if (!decision || !['approved', 'rejected'].includes(decision)) {
       return NextResponse.json({ error: 'decision must be approved or rejected' }, { status: 400 })
     }
 
     const proof = await prisma.proof.update({
-      where: { bookingId: params.bookingId },
+      where,
       data: {
         decision,
         rejectionReason:     rejectionReason     || null,
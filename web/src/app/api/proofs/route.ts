@@ -1,56 +1,91 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma }                    from '@/lib/db'
+import { getSession, unauthorized, forbidden, bookingRoles } from '@/lib/auth'
+import { cidMatchesContentHash }     from '@/lib/cid'
+import { ESCROW_ADDRESS }            from '@/lib/contract'
+import {
+  parseProofManifest, checkManifestBinding, manifestContentHash, manifestMediaCids, verifyManifestSignature,
+} from '@/lib/proofManifest'
 
-// POST /api/proofs — installer submits proof metadata (after IPFS upload)
+// POST /api/proofs — installer submits the proof manifest (after IPFS upload)
+// for the booking's current milestone; media and GPS are taken from it
 export async function POST(req: NextRequest) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
   try {
     const body = await req.json()
-    const {
-      bookingId, installerAddress, beforePhotoCids, afterPhotoCids,
-      videoCid, gpsLat, gpsLng, gpsAccuracyM,
-      proofPackageCid, proofContentHash,
-    } = body
+    const { bookingId, proofPackageCid } = body
 
-    if (!bookingId || !installerAddress || !proofPackageCid || !proofContentHash) {
+    if (!bookingId || !proofPackageCid || !body.manifest) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
     }
+    const parsed = parseProofManifest(body.manifest)
+    if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 })
+    const { manifest } = parsed
 
-    // Look up installer user
-    const installer = await prisma.user.upsert({
-      where:  { walletAddress: installerAddress.toLowerCase() },
-      create: { walletAddress: installerAddress.toLowerCase(), isInstaller: true },
-      update: { isInstaller: true },
-    })
+    // The escrow stores only the hash; the manifest must be findable from it
+    const proofContentHash = await manifestContentHash(manifest)
+    if (body.proofContentHash && body.proofContentHash.toLowerCase() !== proofContentHash) {
+      return NextResponse.json({ error: 'proofContentHash is not the hash of the canonical manifest' }, { status: 400 })
+    }
+    if (!cidMatchesContentHash(proofPackageCid, proofContentHash)) {
+      return NextResponse.json({ error: 'proofPackageCid does not address the manifest' }, { status: 400 })
+    }
 
-    // Verify booking exists and is in FUNDED state
-    const booking = await prisma.booking.findUnique({ where: { id: bookingId } })
+    // Verify booking exists, the signer installs it, and it is in FUNDED state
+    const booking = await prisma.booking.findUnique({
+      where:   { id: bookingId },
+      include: {
+        wall:       { include: { owner: { select: { walletAddress: true } } } },
+        advertiser: { select: { walletAddress: true } },
+        installer:  { select: { walletAddress: true } },
+      },
+    })
     if (!booking) return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
+    if (!bookingRoles(booking, session.address).includes('installer')) {
+      return forbidden('Only the designated installer can submit proof')
+    }
     if (booking.status !== 'FUNDED') {
       return NextResponse.json({ error: `Booking is in ${booking.status} state` }, { status: 400 })
     }
 
-    const proof = await prisma.proof.create({
-      data: {
-        bookingId,
-        installerId:     installer.id,
-        beforePhotoCids: beforePhotoCids || [],
-        afterPhotoCids:  afterPhotoCids  || [],
-        videoCid:        videoCid || null,
-        gpsLat:          gpsLat  ? parseFloat(gpsLat)  : null,
-        gpsLng:          gpsLng  ? parseFloat(gpsLng)  : null,
-        gpsAccuracyM:    gpsAccuracyM ? parseFloat(gpsAccuracyM) : null,
-        proofPackageCid,
-        proofContentHash,
-      },
+    const mismatch = checkManifestBinding(manifest, {
+      bookingId,
+      chainBookingId: booking.chainBookingId,
+      milestone:      booking.currentMilestone,
+      chainId:        booking.chainId,
+      contract:       ESCROW_ADDRESS,
+      installer:      session.address,
     })
+    if (mismatch) return NextResponse.json({ error: mismatch }, { status: 400 })
+    if (!(await verifyManifestSignature(manifest))) {
+      return NextResponse.json({ error: 'Installer signature does not match the manifest' }, { status: 401 })
+    }
 
-    // Advance booking to PROOF_SUBMITTED
-    await prisma.booking.update({
-      where: { id: bookingId },
-      data: {
-        status:          'PROOF_SUBMITTED',
-        disputeDeadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-      },
+    const installer = await prisma.user.upsert({
+      where:  { walletAddress: session.address },
+      create: { walletAddress: session.address, isInstaller: true },
+      update: { isInstaller: true },
+    })
+
+    // Upsert so a proof whose on-chain submitProof failed can be resubmitted.
+    // Booking status moves to PROOF_SUBMITTED only when the indexer sees the event.
+    const milestone = booking.currentMilestone
+    const data = {
+      installerId:        installer.id,
+      ...manifestMediaCids(manifest),
+      gpsLat:             manifest.gps?.lat ?? null,
+      gpsLng:             manifest.gps?.lng ?? null,
+      gpsAccuracyM:       manifest.gps?.accuracyM ?? null,
+      proofPackageCid,
+      proofContentHash,
+      installerSignature: manifest.signature.value,
+    }
+    const proof = await prisma.proof.upsert({
+      where:  { bookingId_milestone: { bookingId, milestone } },
+      create: { bookingId, milestone, ...data },
+      update: data,
     })
 
     return NextResponse.json({ proof }, { status: 201 })
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma }                    from '@/lib/db'
+import { formatEther }               from 'viem'
+import { parsePricingRules, quoteBooking } from '@/lib/pricingRules'
+import { priceIn, signBookingQuote, QuoteError, type SignedQuote } from '@/lib/quote'
+import { getSession, unauthorized, forbidden, sameAddress } from '@/lib/auth'
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/
+
+const isoDay = (d: Date) => d.toISOString().slice(0, 10)
+
+// GET /api/quote?wallId=…&startDate=YYYY-MM-DD&endDate=YYYY-MM-DD&currency=BNB[&bookingId=…] —
+// price a campaign under the wall's pricing rules, with one line item per day,
+// and the amount in `currency`. A signed quote is bound to a booking's on-chain
+// id, advertiser and wall owner, so one is only returned (as `signedQuote`) with
+// the bookingId of the signed-in advertiser's unpaid booking for these dates; it
+// signs the booking's stored total, which is what the pay page escrows.
+export async function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl
+  const wallId    = searchParams.get('wallId')
+  const startDate = searchParams.get('startDate')
+  const endDate   = searchParams.get('endDate')
+  const currency  = searchParams.get('currency') || 'BNB'
+  const bookingId = searchParams.get('bookingId')
+
+  if (!wallId || !startDate || !endDate) {
+    return NextResponse.json({ error: 'Provide wallId, startDate and endDate' }, { status: 400 })
+  }
+  if (!DAY.test(startDate) || !DAY.test(endDate) || endDate <= startDate) {
+    return NextResponse.json({ error: 'Dates must be YYYY-MM-DD with endDate after startDate' }, { status: 400 })
+  }
+
+  try {
+    const wall = await prisma.wall.findUnique({ where: { id: wallId } })
+    if (!wall) return NextResponse.json({ error: 'Wall not found' }, { status: 404 })
+    if (wall.status !== 'ACTIVE') {
+      return NextResponse.json({ error: 'This wall is not taking bookings' }, { status: 409 })
+    }
+    const areaSqft = wall.areaSqft
+    if (!areaSqft) return NextResponse.json({ error: 'Wall dimensions not set' }, { status: 400 })
+
+    const quote = quoteBooking({ ...wall, areaSqft }, parsePricingRules(wall.pricingRulesJson), startDate, endDate)
+    const { amount } = await priceIn(quote.totalBnb, currency)
+
+    let signedQuote: SignedQuote | null = null
+    if (bookingId) {
+      const session = getSession(req)
+      if (!session) return unauthorized()
+      const booking = await prisma.booking.findUnique({
+        where:   { id: bookingId },
+        include: {
+          advertiser: { select: { walletAddress: true } },
+          wall:       { include: { owner: { select: { walletAddress: true } } } },
+        },
+      })
+      if (!booking) return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
+      if (!sameAddress(booking.advertiser.walletAddress, session.address)) {
+        return forbidden('Only the advertiser can get a signed quote for this booking')
+      }
+      if (booking.wallId !== wallId || isoDay(booking.startDate) !== startDate || isoDay(booking.endDate) !== endDate) {
+        return NextResponse.json({ error: 'bookingId is for a different wall or dates' }, { status: 400 })
+      }
+      if (booking.status !== 'PENDING_PAYMENT') {
+        return NextResponse.json({ error: 'Booking is already funded' }, { status: 409 })
+      }
+      const payment = await priceIn(booking.totalBnb, currency)
+      signedQuote = await signBookingQuote(booking, payment.token, payment.amount)
+    }
+
+    return NextResponse.json({
+      days:      quote.days,
+      lineItems: quote.lineItems.map(li => ({
+        ...li,
+        amountWei: li.amountWei.toString(),
+        amountBnb: formatEther(li.amountWei),
+      })),
+      subtotalWei: quote.subtotalWei.toString(),
+      subtotalBnb: formatEther(quote.subtotalWei),
+      discount:    quote.discount && {
+        ...quote.discount,
+        amountWei: quote.discount.amountWei.toString(),
+        amountBnb: formatEther(quote.discount.amountWei),
+      },
+      totalWei: quote.totalWei.toString(),
+      totalBnb: quote.totalBnb,
+      currency,
+      paymentAmount: amount.toString(),
+      signedQuote,
+    })
+  } catch (e) {
+    if (e instanceof QuoteError) {
+      return NextResponse.json({ error: e.message }, { status: 400 })
+    }
+    console.error('[GET /api/quote]', e)
+    return NextResponse.json({ error: 'Failed to quote booking' }, { status: 500 })
+  }
+}
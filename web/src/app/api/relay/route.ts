@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession, unauthorized }  from '@/lib/auth'
+import { FORWARDER_ADDRESS }         from '@/lib/contract'
+import { relay, relayerEnabled, RelayerError, RelayLimitError } from '@/lib/relayer'
+
+// GET /api/relay — whether gasless escrow calls are available, and the forwarder to sign for
+export async function GET() {
+  return NextResponse.json({ enabled: relayerEnabled(), forwarder: FORWARDER_ADDRESS })
+}
+
+// POST /api/relay — submit the signed-in wallet's ForwardRequest for an escrow
+// proof or settlement call, with the platform paying the gas. Answers 202 with
+// status PENDING when the transaction is sent but not yet mined.
+// Body: { request: { from, to, value, gas, nonce, deadline, data }, signature }
+export async function POST(req: NextRequest) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+  if (!relayerEnabled()) {
+    return NextResponse.json({ error: 'Gasless transactions are not available' }, { status: 503 })
+  }
+
+  try {
+    const { request, signature } = await req.json()
+    const fields = ['from', 'to', 'value', 'gas', 'nonce', 'deadline', 'data']
+    if (!request || typeof signature !== 'string' || !fields.every(f => typeof request[f] === 'string')) {
+      return NextResponse.json({ error: 'Provide request and signature' }, { status: 400 })
+    }
+
+    const result = await relay(request, signature as `0x${string}`, session.address)
+    const status = result.status === 'CONFIRMED' ? 200 : result.status === 'PENDING' ? 202 : 502
+    return NextResponse.json(result, { status })
+  } catch (e) {
+    if (e instanceof RelayLimitError) {
+      return NextResponse.json({ error: e.message }, { status: 429 })
+    }
+    if (e instanceof RelayerError) {
+      return NextResponse.json({ error: e.message }, { status: 400 })
+    }
+    console.error('[POST /api/relay]', e)
+    return NextResponse.json({ error: 'Failed to relay transaction' }, { status: 500 })
+  }
+}
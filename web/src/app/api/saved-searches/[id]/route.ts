@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma }                    from '@/lib/db'
+import { getSession, unauthorized, forbidden, sameAddress } from '@/lib/auth'
+
+async function findOwned(id: string, address: string) {
+  const search = await prisma.savedSearch.findUnique({
+    where:   { id },
+    include: { user: { select: { walletAddress: true } } },
+  })
+  if (!search) return { error: NextResponse.json({ error: 'Not found' }, { status: 404 }) }
+  if (!sameAddress(search.user.walletAddress, address)) return { error: forbidden() }
+  return { search }
+}
+
+// PATCH /api/saved-searches/[id] — rename or toggle the email digest
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const owned = await findOwned(params.id, session.address)
+    if (owned.error) return owned.error
+
+    const { name, emailDigest } = await req.json()
+    if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.length > 80)) {
+      return NextResponse.json({ error: 'Name must be 1–80 characters' }, { status: 400 })
+    }
+
+    const search = await prisma.savedSearch.update({
+      where: { id: params.id },
+      data: {
+        ...(name        !== undefined && { name: name.trim() }),
+        ...(emailDigest !== undefined && { emailDigest: !!emailDigest }),
+      },
+    })
+    return NextResponse.json({ search })
+  } catch (e) {
+    console.error('[PATCH /api/saved-searches/[id]]', e)
+    return NextResponse.json({ error: 'Failed to update saved search' }, { status: 500 })
+  }
+}
+
+// DELETE /api/saved-searches/[id] — also removes its notifications
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const owned = await findOwned(params.id, session.address)
+    if (owned.error) return owned.error
+
+    await prisma.savedSearch.delete({ where: { id: params.id } })
+    return NextResponse.json({ ok: true })
+  } catch (e) {
+    console.error('[DELETE /api/saved-searches/[id]]', e)
+    return NextResponse.json({ error: 'Failed to delete saved search' }, { status: 500 })
+  }
+}
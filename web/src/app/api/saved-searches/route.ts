@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma }                    from '@/lib/db'
+import { getSession, unauthorized }  from '@/lib/auth'
+import { normalizeSavedQuery, MAX_SAVED_SEARCHES } from '@/lib/savedSearches'
+
+// GET /api/saved-searches — the signed-in user's saved searches, with unread match counts
+export async function GET(req: NextRequest) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const searches = await prisma.savedSearch.findMany({
+      where:   { user: { walletAddress: session.address } },
+      include: { _count: { select: { notifications: { where: { readAt: null, inApp: true } } } } },
+      orderBy: { createdAt: 'desc' },
+    })
+    return NextResponse.json(
+      searches.map(({ _count, ...s }: typeof searches[0]) => ({ ...s, unread: _count.notifications }))
+    )
+  } catch (e) {
+    console.error('[GET /api/saved-searches]', e)
+    return NextResponse.json({ error: 'Failed to fetch saved searches' }, { status: 500 })
+  }
+}
+
+// POST /api/saved-searches — save the current wall-search filters as { name, query, emailDigest }
+export async function POST(req: NextRequest) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const { name, query, emailDigest } = await req.json()
+    if (typeof name !== 'string' || !name.trim() || name.length > 80) {
+      return NextResponse.json({ error: 'Name must be 1–80 characters' }, { status: 400 })
+    }
+    const normalized = normalizeSavedQuery(typeof query === 'string' ? query : '')
+    if ('error' in normalized) return NextResponse.json({ error: normalized.error }, { status: 400 })
+
+    const user = await prisma.user.upsert({
+      where:  { walletAddress: session.address },
+      create: { walletAddress: session.address },
+      update: {},
+    })
+    const count = await prisma.savedSearch.count({ where: { userId: user.id } })
+    if (count >= MAX_SAVED_SEARCHES) {
+      return NextResponse.json({ error: `At most ${MAX_SAVED_SEARCHES} saved searches` }, { status: 400 })
+    }
+
+    const search = await prisma.savedSearch.create({
+      data: { userId: user.id, name: name.trim(), query: normalized.query, emailDigest: !!emailDigest },
+    })
+    return NextResponse.json({ search }, { status: 201 })
+  } catch (e) {
+    console.error('[POST /api/saved-searches]', e)
+    return NextResponse.json({ error: 'Failed to save search' }, { status: 500 })
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { matchNewWalls, sendSavedSearchDigests } from '@/lib/savedSearches'
+
+// GET /api/saved-searches/run — match newly listed walls against saved searches,
+// then send due email digests. Run by Vercel Cron, which calls with GET.
+export async function GET(req: NextRequest) {
+  const secret = req.headers.get('x-sync-secret') ?? req.headers.get('authorization')?.replace(/^Bearer /, '')
+  if (process.env.SYNC_SECRET && secret !== process.env.SYNC_SECRET) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { walls, notified } = await matchNewWalls()
+    const digests = await sendSavedSearchDigests()
+    return NextResponse.json({ walls, notified, digests })
+  } catch (e) {
+    console.error('[GET /api/saved-searches/run]', e)
+    return NextResponse.json({ error: String(e) }, { status: 500 })
+  }
+}
@@ -1,89 +1,45 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse }           from 'next/server'
+import { getStorage, putJson, StorageError } from '@/lib/storage'
+import { getSession, unauthorized }          from '@/lib/auth'
 
-const PINATA_JWT     = process.env.PINATA_JWT
-const PINATA_GATEWAY = process.env.NEXT_PUBLIC_PINATA_GATEWAY || 'https://gateway.pinata.cloud'
+const MAX_FILE_BYTES = 50 * 1024 * 1024
 
-// POST /api/upload — upload file or JSON to IPFS via Pinata
+// POST /api/upload — store a file or JSON document with the configured StorageProvider
 export async function POST(req: NextRequest) {
-  if (!PINATA_JWT) {
-    return NextResponse.json({ error: 'PINATA_JWT not configured' }, { status: 500 })
-  }
-
+  if (!getSession(req)) return unauthorized()
   const contentType = req.headers.get('content-type') || ''
 
-  // ── JSON upload ────────────────────────────────────────────────────────
-  if (contentType.includes('application/json')) {
-    try {
-      const body = await req.json()
-      const { json, name } = body
-
-      const res = await fetch('https://api.pinata.cloud/pinning/pinJSONToIPFS', {
-        method:  'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${PINATA_JWT}`,
-        },
-        body: JSON.stringify({
-          pinataContent:  json,
-          pinataOptions:  { cidVersion: 1 },
-          pinataMetadata: { name: name || 'wallmark-json' },
-        }),
-      })
+  try {
+    const storage = getStorage()
 
-      if (!res.ok) {
-        const err = await res.text()
-        return NextResponse.json({ error: `Pinata error: ${err}` }, { status: 502 })
-      }
+    // ── JSON upload ──────────────────────────────────────────────────────
+    if (contentType.includes('application/json')) {
+      const { json, name } = await req.json()
+      if (json === undefined) return NextResponse.json({ error: 'json is required' }, { status: 400 })
 
-      const data = await res.json()
-      return NextResponse.json({
-        cid:     data.IpfsHash,
-        gateway: `${PINATA_GATEWAY}/ipfs/${data.IpfsHash}`,
-      })
-    } catch (e) {
-      return NextResponse.json({ error: 'JSON upload failed' }, { status: 500 })
+      const { cid } = await putJson(json, name || 'wallmark-json')
+      return NextResponse.json({ cid, gateway: storage.gatewayUrl(cid) })
     }
-  }
 
-  // ── File (multipart) upload ────────────────────────────────────────────
-  try {
+    // ── File (multipart) upload ──────────────────────────────────────────
     const formData = await req.formData()
     const file     = formData.get('file') as File | null
     const type     = formData.get('type') as string || 'media'
 
     if (!file) return NextResponse.json({ error: 'No file provided' }, { status: 400 })
 
-    // Size limit: 50MB
-    if (file.size > 50 * 1024 * 1024) {
+    if (file.size > MAX_FILE_BYTES) {
       return NextResponse.json({ error: 'File too large (max 50MB)' }, { status: 400 })
     }
 
-    const pinataForm = new FormData()
-    pinataForm.append('file', file, file.name)
-    pinataForm.append('pinataOptions', JSON.stringify({ cidVersion: 1 }))
-    pinataForm.append('pinataMetadata', JSON.stringify({
-      name: `wallmark-${type}-${Date.now()}`
-    }))
-
-    const res = await fetch('https://api.pinata.cloud/pinning/pinFileToIPFS', {
-      method:  'POST',
-      headers: { Authorization: `Bearer ${PINATA_JWT}` },
-      body:    pinataForm,
-    })
-
-    if (!res.ok) {
-      const err = await res.text()
-      return NextResponse.json({ error: `Pinata error: ${err}` }, { status: 502 })
-    }
-
-    const data = await res.json()
-    return NextResponse.json({
-      cid:     data.IpfsHash,
-      gateway: `${PINATA_GATEWAY}/ipfs/${data.IpfsHash}`,
+    const cid = await storage.put(new Uint8Array(await file.arrayBuffer()), {
+      name:        `wallmark-${type}-${Date.now()}`,
+      contentType: file.type || 'application/octet-stream',
     })
+    return NextResponse.json({ cid, gateway: storage.gatewayUrl(cid) })
   } catch (e) {
     console.error('[POST /api/upload]', e)
+    if (e instanceof StorageError) return NextResponse.json({ error: e.message }, { status: 502 })
     return NextResponse.json({ error: 'Upload failed' }, { status: 500 })
   }
 }
-
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma }                    from '@/lib/db'
+import { getSession, unauthorized }  from '@/lib/auth'
+import { parseNotificationPrefs, normalizeNotificationPrefs } from '@/lib/notificationPrefs'
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// GET /api/users/me — the signed-in user's profile
+export async function GET(req: NextRequest) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const user = await prisma.user.findUnique({ where: { walletAddress: session.address } })
+    return NextResponse.json({
+      walletAddress:     session.address,
+      displayName:       user?.displayName ?? null,
+      email:             user?.email ?? null,
+      isAdmin:           !!user?.isAdmin,
+      notificationPrefs: parseNotificationPrefs(user?.notificationPrefsJson),
+    })
+  } catch (e) {
+    console.error('[GET /api/users/me]', e)
+    return NextResponse.json({ error: 'Failed to fetch profile' }, { status: 500 })
+  }
+}
+
+// PATCH /api/users/me — update { displayName, email, notificationPrefs }; empty strings clear
+// the first two, and notificationPrefs may be partial
+export async function PATCH(req: NextRequest) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const { displayName, email, notificationPrefs } = await req.json()
+    if (email && (typeof email !== 'string' || !EMAIL.test(email) || email.length > 254)) {
+      return NextResponse.json({ error: 'Invalid email address' }, { status: 400 })
+    }
+    if (displayName && (typeof displayName !== 'string' || displayName.length > 60)) {
+      return NextResponse.json({ error: 'Display name must be at most 60 characters' }, { status: 400 })
+    }
+
+    let prefsJson: string | undefined
+    if (notificationPrefs !== undefined) {
+      const current = await prisma.user.findUnique({ where: { walletAddress: session.address } })
+      const merged  = { ...parseNotificationPrefs(current?.notificationPrefsJson) }
+      for (const [category, channels] of Object.entries(notificationPrefs ?? {})) {
+        if (category in merged) Object.assign(merged, { [category]: { ...merged[category as keyof typeof merged], ...(channels as object) } })
+      }
+      prefsJson = JSON.stringify(normalizeNotificationPrefs(merged))
+    }
+
+    const data = {
+      ...(email       !== undefined && { email: email ? email.trim() : null }),
+      ...(displayName !== undefined && { displayName: displayName ? displayName.trim() : null }),
+      ...(prefsJson   !== undefined && { notificationPrefsJson: prefsJson }),
+    }
+    const user = await prisma.user.upsert({
+      where:  { walletAddress: session.address },
+      create: { walletAddress: session.address, ...data },
+      update: data,
+    })
+    return NextResponse.json({
+      walletAddress:     user.walletAddress,
+      displayName:       user.displayName,
+      email:             user.email,
+      isAdmin:           user.isAdmin,
+      notificationPrefs: parseNotificationPrefs(user.notificationPrefsJson),
+    })
+  } catch (e) {
+    console.error('[PATCH /api/users/me]', e)
+    return NextResponse.json({ error: 'Failed to update profile' }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma }                    from '@/lib/db'
+import { occupiedRanges }            from '@/lib/availability'
+import { rulesOf }                   from '@/lib/bookingRules'
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/
+
+// GET /api/walls/[id]/availability?from=YYYY-MM-DD&to=YYYY-MM-DD — booked,
+// held and blacked-out day ranges ([start, end)) on the wall, optionally
+// limited to a window, plus the owner's booking rules
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const from = req.nextUrl.searchParams.get('from')
+  const to   = req.nextUrl.searchParams.get('to')
+  if ((from && !DAY.test(from)) || (to && !DAY.test(to))) {
+    return NextResponse.json({ error: 'from and to must be YYYY-MM-DD' }, { status: 400 })
+  }
+
+  try {
+    const wall = await prisma.wall.findUnique({ where: { id: params.id } })
+    if (!wall) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+    const ranges = await occupiedRanges(params.id, {
+      ...(from && { from: new Date(from) }),
+      ...(to   && { to:   new Date(to) }),
+    })
+    return NextResponse.json({ ranges, rules: rulesOf(wall) })
+  } catch (e) {
+    console.error('[GET /api/walls/availability]', e)
+    return NextResponse.json({ error: 'Failed to fetch availability' }, { status: 500 })
+  }
+}
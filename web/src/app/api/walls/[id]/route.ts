@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma }                    from '@/lib/db'
+import { getSession, unauthorized, forbidden, sameAddress } from '@/lib/auth'
+import { normalizePricingRules, validatePricingRules, hasPricingRules } from '@/lib/pricingRules'
+import { resubmitWall, wallAccess, serializeWall } from '@/lib/moderation'
 
-// GET /api/walls/[id]
+// GET /api/walls/[id] — walls that aren't ACTIVE are 404 except to their owner and admins
 export async function GET(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
@@ -11,30 +14,60 @@ export async function GET(
       where:   { id: params.id },
       include: { owner: { select: { walletAddress: true } } },
     })
-    if (!wall) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    const access = wall && await wallAccess(wall, getSession(req)?.address)
+    if (!wall || !access?.visible) return NextResponse.json({ error: 'Not found' }, { status: 404 })
 
-    return NextResponse.json({ ...wall, ownerAddress: wall.owner.walletAddress })
+    return NextResponse.json(serializeWall(wall, access))
   } catch (e) {
     return NextResponse.json({ error: 'Failed to fetch wall' }, { status: 500 })
   }
 }
 
-// PATCH /api/walls/[id] — partial update (owner only in production; simplified for MVP)
+// PATCH /api/walls/[id] — partial update (wall owner only). Status is left to the
+// moderation queue; editing a rejected wall, or the content of a live one (photos,
+// description, corners, dimensions, visibility tier), resubmits it for review.
+// Price changes don't need review.
 export async function PATCH(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
   try {
+    const existing = await prisma.wall.findUnique({
+      where:   { id: params.id },
+      include: { owner: { select: { id: true, walletAddress: true } } },
+    })
+    if (!existing) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    if (!sameAddress(existing.owner.walletAddress, session.address)) {
+      return forbidden('Only the wall owner can edit this listing')
+    }
+
     const body = await req.json()
     const {
-      status, pricePerSqftDay, visibilityTier, description,
-      photoCids, wallCornersJson, areaSqft, widthFt, heightFt,
+      pricePerSqftDay, visibilityTier, description,
+      photoCids, wallCornersJson, areaSqft, widthFt, heightFt, pricingRules,
     } = body
+    if (body.status !== undefined) {
+      return NextResponse.json({ error: 'Wall status is changed by moderation, not by the owner' }, { status: 400 })
+    }
+
+    // pricingRules: object to replace the wall's rules, null to go back to a flat rate
+    let pricingRulesJson: string | null | undefined
+    if (pricingRules !== undefined) {
+      const rules = normalizePricingRules(pricingRules ?? {})
+      const invalid = validatePricingRules(rules)
+      if (invalid) return NextResponse.json({ error: invalid }, { status: 400 })
+      pricingRulesJson = hasPricingRules(rules) ? JSON.stringify(rules) : null
+    }
+
+    const contentEdited = [description, photoCids, wallCornersJson, areaSqft, widthFt, heightFt, visibilityTier]
+      .some(v => v !== undefined)
 
     const wall = await prisma.wall.update({
       where: { id: params.id },
       data: {
-        ...(status          && { status }),
         ...(pricePerSqftDay && { pricePerSqftDay }),
         ...(visibilityTier  && { visibilityTier: parseInt(visibilityTier) }),
         ...(description     !== undefined && { description }),
@@ -43,8 +76,16 @@ export async function PATCH(
         ...(areaSqft        !== undefined && { areaSqft: parseFloat(areaSqft), dimensionsLocked: true }),
         ...(widthFt         !== undefined && { widthFt:  parseFloat(widthFt)  }),
         ...(heightFt        !== undefined && { heightFt: parseFloat(heightFt) }),
+        ...(pricingRulesJson !== undefined && { pricingRulesJson }),
       },
     })
+
+    const resubmitFrom = wall.status === 'REJECTED' ? 'REJECTED'
+      : wall.status === 'ACTIVE' && contentEdited ? 'ACTIVE'
+      : null
+    if (resubmitFrom && await resubmitWall(wall.id, existing.owner.id, resubmitFrom)) {
+      return NextResponse.json({ wall: { ...wall, status: 'PENDING_REVIEW' } })
+    }
     return NextResponse.json({ wall })
   } catch (e) {
     return NextResponse.json({ error: 'Failed to update wall' }, { status: 500 })
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma }                    from '@/lib/db'
+import { getSession, unauthorized, forbidden, sameAddress } from '@/lib/auth'
+import { rulesOf, validateBookingRules, type Blackout } from '@/lib/bookingRules'
+
+const toDay = (d: Date) => d.toISOString().slice(0, 10)
+
+async function loadRules(wallId: string) {
+  const wall = await prisma.wall.findUnique({
+    where:   { id: wallId },
+    include: {
+      owner:     { select: { walletAddress: true } },
+      blackouts: { orderBy: { startDate: 'asc' } },
+    },
+  })
+  if (!wall) return null
+  return {
+    wall,
+    body: {
+      ...rulesOf(wall),
+      blackouts: wall.blackouts.map((b: { startDate: Date; endDate: Date; reason: string | null }) => ({
+        start: toDay(b.startDate), end: toDay(b.endDate), reason: b.reason,
+      })),
+    },
+  }
+}
+
+// GET /api/walls/[id]/rules — booking rules and blackout ranges
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const found = await loadRules(params.id)
+    if (!found) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    return NextResponse.json(found.body)
+  } catch (e) {
+    console.error('[GET /api/walls/rules]', e)
+    return NextResponse.json({ error: 'Failed to fetch booking rules' }, { status: 500 })
+  }
+}
+
+// PUT /api/walls/[id]/rules — replace the rules and blackouts (wall owner only).
+// Existing bookings are unaffected; the rules apply to bookings created later.
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const found = await loadRules(params.id)
+    if (!found) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    if (!sameAddress(found.wall.owner.walletAddress, session.address)) {
+      return forbidden('Only the wall owner can set booking rules')
+    }
+
+    const body  = await req.json()
+    const rules = rulesOf({
+      minBookingDays: body.minBookingDays ?? null,
+      maxBookingDays: body.maxBookingDays ?? null,
+      leadTimeDays:   Number(body.leadTimeDays ?? 0),
+      startWeekdays:  Array.isArray(body.startWeekdays) ? body.startWeekdays.map(Number) : [],
+      fullMonthsOnly: !!body.fullMonthsOnly,
+    })
+    const blackouts: Blackout[] = Array.isArray(body.blackouts) ? body.blackouts : []
+
+    const invalid = validateBookingRules(rules, blackouts)
+    if (invalid) return NextResponse.json({ error: invalid }, { status: 400 })
+
+    await prisma.$transaction([
+      prisma.wall.update({ where: { id: params.id }, data: rules }),
+      prisma.wallBlackout.deleteMany({ where: { wallId: params.id } }),
+      prisma.wallBlackout.createMany({
+        data: blackouts.map(b => ({
+          wallId:    params.id,
+          startDate: new Date(b.start),
+          endDate:   new Date(b.end),
+          reason:    b.reason?.trim() || null,
+        })),
+      }),
+    ])
+
+    return NextResponse.json((await loadRules(params.id))!.body)
+  } catch (e) {
+    console.error('[PUT /api/walls/rules]', e)
+    return NextResponse.json({ error: 'Failed to save booking rules' }, { status: 500 })
+  }
+}
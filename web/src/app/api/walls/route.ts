@@ -1,17 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { WallStatus }                from '@prisma/client'
 import { prisma }                    from '@/lib/db'
+import { getSession, unauthorized, sameAddress } from '@/lib/auth'
 
-// GET /api/walls — list walls with optional filters
+const STATUSES: string[] = Object.values(WallStatus)
+const isWallStatus = (s: string): s is WallStatus => STATUSES.includes(s)
+
+// GET /api/walls — list walls with optional filters. Only the signed-in owner's
+// own listing (ownerAddress = session address) includes walls that are not ACTIVE.
 export async function GET(req: NextRequest) {
   const { searchParams } = req.nextUrl
-  const status       = searchParams.get('status')       || undefined
   const ownerAddress = searchParams.get('ownerAddress') || undefined
+  const ownListing   = sameAddress(ownerAddress, getSession(req)?.address)
+  const status       = ownListing ? searchParams.get('status') || undefined : WallStatus.ACTIVE
   const city         = searchParams.get('city')         || undefined
 
+  if (status && !isWallStatus(status)) {
+    return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 })
+  }
+
   try {
     const walls = await prisma.wall.findMany({
       where: {
-        ...(status && { status: status as any }),
+        ...(status && isWallStatus(status) && { status }),
         ...(city   && { city: { contains: city, mode: 'insensitive' } }),
         ...(ownerAddress && {
           owner: { walletAddress: { equals: ownerAddress, mode: 'insensitive' } }
@@ -33,22 +44,25 @@ export async function GET(req: NextRequest) {
 
 // POST /api/walls — create a new wall listing
 export async function POST(req: NextRequest) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
   try {
     const body = await req.json()
     const {
-      ownerAddress, title, description, addressText, city, country,
+      title, description, addressText, city, country,
       latitude, longitude, photoCids, referencePhotoCid, wallCornersJson,
       areaSqft, widthFt, heightFt, pricePerSqftDay, visibilityTier,
     } = body
 
-    if (!ownerAddress || !title || !addressText || !city || !pricePerSqftDay) {
+    if (!title || !addressText || !city || !pricePerSqftDay) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
     }
 
-    // Upsert user record
+    // The signed-in wallet becomes the owner
     const owner = await prisma.user.upsert({
-      where:  { walletAddress: ownerAddress.toLowerCase() },
-      create: { walletAddress: ownerAddress.toLowerCase(), isOwner: true },
+      where:  { walletAddress: session.address },
+      create: { walletAddress: session.address, isOwner: true },
       update: { isOwner: true },
     })
 
@@ -71,7 +85,7 @@ export async function POST(req: NextRequest) {
         dimensionsLocked: !!(areaSqft),
         pricePerSqftDay:  pricePerSqftDay,
         visibilityTier:   parseInt(visibilityTier) || 3,
-        status:           'ACTIVE', // auto-approve for MVP; add moderation queue later
+        status:           'PENDING_REVIEW', // listed once an admin approves it (lib/moderation)
       },
     })
 
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseWallSearch, searchWalls, InvalidCursorError } from '@/lib/search'
+
+// GET /api/walls/search — active walls by viewport, radius, filters and text, cursor-paginated
+export async function GET(req: NextRequest) {
+  const parsed = parseWallSearch(req.nextUrl.searchParams)
+  if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 })
+
+  try {
+    return NextResponse.json(await searchWalls(parsed.search))
+  } catch (e) {
+    if (e instanceof InvalidCursorError) return NextResponse.json({ error: e.message }, { status: 400 })
+    console.error('[GET /api/walls/search]', e)
+    return NextResponse.json({ error: 'Search failed' }, { status: 500 })
+  }
+}
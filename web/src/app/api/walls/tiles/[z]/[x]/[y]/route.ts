@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseWallSearch }           from '@/lib/search'
+import { clusterTile }               from '@/lib/clusters'
+import { isValidTile }               from '@/lib/tiles'
+
+// GET /api/walls/tiles/[z]/[x]/[y] — clustered active walls in one map tile.
+// Takes the same filters as /api/walls/search (q, tiers, price, area, dates).
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { z: string; x: string; y: string } }
+) {
+  const z = Number(params.z), x = Number(params.x), y = Number(params.y)
+  if (!isValidTile(z, x, y)) return NextResponse.json({ error: 'Invalid tile' }, { status: 400 })
+
+  const parsed = parseWallSearch(req.nextUrl.searchParams)
+  if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 })
+
+  try {
+    const clusters = await clusterTile(parsed.search, z, x, y)
+    return NextResponse.json(
+      { clusters },
+      { headers: { 'Cache-Control': 'public, max-age=30' } }
+    )
+  } catch (e) {
+    console.error('[GET /api/walls/tiles]', e)
+    return NextResponse.json({ error: 'Failed to load tile' }, { status: 500 })
+  }
+}
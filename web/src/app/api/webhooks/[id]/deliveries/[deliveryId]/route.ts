@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma }                    from '@/lib/db'
+import { getSession, unauthorized, forbidden, sameAddress } from '@/lib/auth'
+import { redeliverWebhook, serializeDelivery } from '@/lib/webhooks'
+
+// POST /api/webhooks/[id]/deliveries/[deliveryId] — send the delivery again now.
+// The same payload is re-signed; a failure restarts the retry schedule.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; deliveryId: string } }
+) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where:   { id: params.deliveryId },
+      include: { endpoint: { include: { user: { select: { walletAddress: true } } } } },
+    })
+    if (!delivery || delivery.endpointId !== params.id) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    if (!sameAddress(delivery.endpoint.user.walletAddress, session.address)) return forbidden()
+
+    await redeliverWebhook(delivery.id)
+    const updated = await prisma.webhookDelivery.findUnique({ where: { id: delivery.id } })
+    return NextResponse.json({ delivery: updated && serializeDelivery(updated) })
+  } catch (e) {
+    console.error('[POST /api/webhooks/[id]/deliveries/[deliveryId]]', e)
+    return NextResponse.json({ error: 'Failed to redeliver' }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma }                    from '@/lib/db'
+import { getSession, unauthorized, forbidden, sameAddress } from '@/lib/auth'
+import { serializeDelivery }         from '@/lib/webhooks'
+
+// GET /api/webhooks/[id]/deliveries — the endpoint's latest 50 deliveries, newest first
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const endpoint = await prisma.webhookEndpoint.findUnique({
+      where:   { id: params.id },
+      include: { user: { select: { walletAddress: true } } },
+    })
+    if (!endpoint) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    if (!sameAddress(endpoint.user.walletAddress, session.address)) return forbidden()
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where:   { endpointId: params.id },
+      orderBy: { createdAt: 'desc' },
+      take:    50,
+    })
+    return NextResponse.json(deliveries.map(serializeDelivery))
+  } catch (e) {
+    console.error('[GET /api/webhooks/[id]/deliveries]', e)
+    return NextResponse.json({ error: 'Failed to fetch deliveries' }, { status: 500 })
+  }
+}
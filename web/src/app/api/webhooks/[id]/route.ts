@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma }                    from '@/lib/db'
+import { getSession, unauthorized, forbidden, sameAddress } from '@/lib/auth'
+import { validateWebhookUrl, validateWebhookEvents, serializeEndpoint } from '@/lib/webhooks'
+
+async function findOwnedEndpoint(id: string, address: string) {
+  const endpoint = await prisma.webhookEndpoint.findUnique({
+    where:   { id },
+    include: { user: { select: { walletAddress: true } } },
+  })
+  if (!endpoint) return { error: NextResponse.json({ error: 'Not found' }, { status: 404 }) }
+  if (!sameAddress(endpoint.user.walletAddress, address)) return { error: forbidden() }
+  return { endpoint }
+}
+
+// PATCH /api/webhooks/[id] — change { url, events, description, active }
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const owned = await findOwnedEndpoint(params.id, session.address)
+    if (owned.error) return owned.error
+
+    const { url, events, description, active } = await req.json()
+    const invalid = (url !== undefined && await validateWebhookUrl(url)) || (events !== undefined && validateWebhookEvents(events))
+    if (invalid) return NextResponse.json({ error: invalid }, { status: 400 })
+
+    const endpoint = await prisma.webhookEndpoint.update({
+      where: { id: params.id },
+      data: {
+        ...(url         !== undefined && { url }),
+        ...(events      !== undefined && { events: Array.from(new Set(events as string[])) }),
+        ...(description !== undefined && { description: description ? String(description).trim().slice(0, 200) : null }),
+        ...(active      !== undefined && { active: !!active }),
+      },
+    })
+    return NextResponse.json({ endpoint: serializeEndpoint(endpoint) })
+  } catch (e) {
+    console.error('[PATCH /api/webhooks/[id]]', e)
+    return NextResponse.json({ error: 'Failed to update webhook' }, { status: 500 })
+  }
+}
+
+// DELETE /api/webhooks/[id] — also removes its delivery log
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const owned = await findOwnedEndpoint(params.id, session.address)
+    if (owned.error) return owned.error
+
+    await prisma.webhookEndpoint.delete({ where: { id: params.id } })
+    return NextResponse.json({ ok: true })
+  } catch (e) {
+    console.error('[DELETE /api/webhooks/[id]]', e)
+    return NextResponse.json({ error: 'Failed to delete webhook' }, { status: 500 })
+  }
+}
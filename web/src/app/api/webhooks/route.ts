@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma }                    from '@/lib/db'
+import { getSession, unauthorized }  from '@/lib/auth'
+import {
+  generateWebhookSecret, validateWebhookUrl, validateWebhookEvents, serializeEndpoint, MAX_WEBHOOK_ENDPOINTS,
+} from '@/lib/webhooks'
+
+// GET /api/webhooks — the signed-in user's webhook endpoints
+export async function GET(req: NextRequest) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where:   { user: { walletAddress: session.address } },
+      orderBy: { createdAt: 'desc' },
+    })
+    return NextResponse.json(endpoints.map(serializeEndpoint))
+  } catch (e) {
+    console.error('[GET /api/webhooks]', e)
+    return NextResponse.json({ error: 'Failed to fetch webhooks' }, { status: 500 })
+  }
+}
+
+// POST /api/webhooks — register { url, events, description }; the response carries the signing secret
+export async function POST(req: NextRequest) {
+  const session = getSession(req)
+  if (!session) return unauthorized()
+
+  try {
+    const { url, events, description } = await req.json()
+    const invalid = (await validateWebhookUrl(url)) ?? validateWebhookEvents(events)
+    if (invalid) return NextResponse.json({ error: invalid }, { status: 400 })
+
+    const user = await prisma.user.upsert({
+      where:  { walletAddress: session.address },
+      create: { walletAddress: session.address },
+      update: {},
+    })
+    const count = await prisma.webhookEndpoint.count({ where: { userId: user.id } })
+    if (count >= MAX_WEBHOOK_ENDPOINTS) {
+      return NextResponse.json({ error: `At most ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints` }, { status: 400 })
+    }
+
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        userId:      user.id,
+        url,
+        events:      Array.from(new Set(events as string[])),
+        description: typeof description === 'string' && description.trim() ? description.trim().slice(0, 200) : null,
+        secret:      generateWebhookSecret(),
+      },
+    })
+    return NextResponse.json({ endpoint }, { status: 201 })
+  } catch (e) {
+    console.error('[POST /api/webhooks]', e)
+    return NextResponse.json({ error: 'Failed to create webhook' }, { status: 500 })
+  }
+}
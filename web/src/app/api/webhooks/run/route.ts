@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deliverDueWebhooks }        from '@/lib/webhooks'
+
+// GET /api/webhooks/run — send webhook deliveries that are due, including retries.
+// Run by Vercel Cron; the chain sync delivers too, so this only tightens retry timing.
+export async function GET(req: NextRequest) {
+  const secret = req.headers.get('x-sync-secret') ?? req.headers.get('authorization')?.replace(/^Bearer /, '')
+  if (process.env.SYNC_SECRET && secret !== process.env.SYNC_SECRET) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json(await deliverDueWebhooks())
+  } catch (e) {
+    console.error('[GET /api/webhooks/run]', e)
+    return NextResponse.json({ error: String(e) }, { status: 500 })
+  }
+}
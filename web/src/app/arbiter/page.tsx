@@ -0,0 +1,219 @@
+'use client'
+
+import { useState, useEffect }  from 'react'
+import Link                      from 'next/link'
+import { useAccount }            from 'wagmi'
+import { ConnectButton }         from '@rainbow-me/rainbowkit'
+import { useArbiter, useResolveDispute } from '@/hooks/useEscrow'
+import type { Booking }          from '@/types'
+import { STATUS_COLORS, STATUS_LABELS } from '@/types'
+import { ipfsImageUrl }          from '@/lib/ipfs'
+import { EXPLORER_BASE }         from '@/lib/contract'
+import { formatBps }             from '@/lib/pricing'
+import { cn }                    from '@/lib/utils'
+import { Scale, Loader2, ExternalLink, AlertTriangle, CheckCircle, ArrowRight } from 'lucide-react'
+
+export default function ArbiterPage() {
+  const { address, isConnected } = useAccount()
+  const { data: arbiter }        = useArbiter()
+
+  const [disputes, setDisputes] = useState<Booking[]>([])
+  const [loading,  setLoading]  = useState(true)
+  const [error,    setError]    = useState('')
+
+  const isArbiter = !!address && !!arbiter && arbiter.toLowerCase() === address.toLowerCase()
+
+  const load = () => {
+    setLoading(true)
+    fetch('/api/arbiter/disputes')
+      .then(async r => {
+        const d = await r.json()
+        if (!r.ok) throw new Error(d.error || 'Failed to load disputes')
+        setDisputes(d)
+        setError('')
+      })
+      .catch(e => setError(e.message))
+      .finally(() => setLoading(false))
+  }
+
+  useEffect(() => {
+    if (isArbiter) load()
+    else setLoading(false)
+  }, [isArbiter])
+
+  if (!isConnected) {
+    return (
+      <div className="page-container py-24 flex flex-col items-center gap-6">
+        <Scale size={48} className="text-slate-600" />
+        <div className="text-center">
+          <h1 className="section-title">Arbiter Console</h1>
+          <p className="text-slate-500 mt-2">Connect the arbiter wallet to review disputes</p>
+        </div>
+        <ConnectButton />
+      </div>
+    )
+  }
+
+  if (!isArbiter) {
+    return (
+      <div className="page-container py-24 text-center space-y-2">
+        <h1 className="section-title">Arbiter Console</h1>
+        <p className="text-slate-500">This wallet is not the escrow arbiter.</p>
+        {arbiter && (
+          <p className="text-xs text-slate-600 font-mono">Current arbiter: {arbiter}</p>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="page-container py-8 space-y-6">
+      <div>
+        <h1 className="section-title">Arbiter Console</h1>
+        <p className="text-sm text-slate-500 mt-1">
+          Contested rejections wait for your split. Disputes the wall owner has not
+          contested are shown for context only.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-xs text-red-400 flex items-start gap-2">
+          <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="animate-spin text-brand" size={28} />
+        </div>
+      ) : disputes.length === 0 ? (
+        <div className="card py-16 text-center text-slate-400">No open disputes</div>
+      ) : (
+        <div className="space-y-4">
+          {disputes.map(b => <DisputeCard key={b.id} booking={b} onResolved={load} />)}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ─── Dispute card ─────────────────────────────────────────────────────────
+
+function DisputeCard({ booking, onResolved }: { booking: Booking; onResolved: () => void }) {
+  const [shareBps, setShareBps] = useState(5_000)
+  const { resolve, hash, isPending, isConfirming, isSuccess, error } = useResolveDispute()
+
+  // Hint the resolution to the indexer, then refresh the list
+  useEffect(() => {
+    if (!isSuccess || !hash) return
+    fetch('/api/arbiter/disputes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ txHash: hash }),
+    }).finally(() => setTimeout(onResolved, 2000))
+  }, [isSuccess, hash])
+
+  const proof      = booking.proof
+  const afterPhoto = proof?.afterPhotoCids?.[0]
+  const contested  = booking.status === 'CONTESTED'
+  const ownerBnb   = (parseFloat(booking.totalBnb) * shareBps / 10_000).toFixed(6)
+  const refundBnb  = (parseFloat(booking.totalBnb) - parseFloat(ownerBnb)).toFixed(6)
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="w-full sm:w-32 h-24 shrink-0 rounded-lg overflow-hidden bg-surface-raised">
+          <img
+            src={afterPhoto ? ipfsImageUrl(afterPhoto) : '/placeholder-wall.jpg'}
+            className="w-full h-full object-cover"
+            onError={e => { (e.target as HTMLImageElement).src = '/placeholder-wall.jpg' }}
+          />
+        </div>
+
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <p className="font-semibold text-slate-100 truncate">{booking.wall.title}</p>
+              <p className="text-xs text-slate-500">
+                {booking.wall.city} · {new Date(booking.startDate).toLocaleDateString()} – {new Date(booking.endDate).toLocaleDateString()}
+              </p>
+            </div>
+            <span className={cn('badge shrink-0 text-xs', STATUS_COLORS[booking.status])}>
+              {STATUS_LABELS[booking.status]}
+            </span>
+          </div>
+          <p className="text-brand font-mono text-sm font-semibold">{booking.totalBnb} BNB</p>
+          <Link href={`/review/${booking.id}`} className="text-xs text-slate-400 hover:text-brand flex items-center gap-1">
+            Full proof <ArrowRight size={12} />
+          </Link>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-xs">
+        <div className="p-3 rounded-lg bg-red-500/5 border border-red-500/20 space-y-1">
+          <p className="text-slate-500 font-medium">Advertiser · {booking.advertiserAddress.slice(0, 8)}…</p>
+          <p className="text-slate-300">{proof?.rejectionReason || 'No reason recorded off-chain'}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-orange-400/5 border border-orange-400/20 space-y-1">
+          <p className="text-slate-500 font-medium">Wall owner · {booking.wall.ownerAddress.slice(0, 8)}…</p>
+          <p className="text-slate-300">
+            {proof?.contestReason || (contested ? 'No reason recorded off-chain' : 'Not contested yet')}
+          </p>
+        </div>
+      </div>
+
+      {contested && (
+        isSuccess ? (
+          <div className="flex items-center gap-2 text-sm text-emerald-400">
+            <CheckCircle size={16} /> Resolved on-chain
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span className="text-slate-400">Wall owner {formatBps(shareBps)} · {ownerBnb} BNB</span>
+                <span className="text-slate-400">Advertiser refund {refundBnb} BNB</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={10_000}
+                step={500}
+                value={shareBps}
+                onChange={e => setShareBps(Number(e.target.value))}
+                className="w-full accent-brand"
+              />
+              <p className="text-[10px] text-slate-600">
+                Installer and platform fees are deducted from the wall owner&apos;s share only.
+              </p>
+            </div>
+
+            {error && (
+              <p className="text-xs text-red-400">{error instanceof Error ? error.message : 'Transaction failed'}</p>
+            )}
+
+            <div className="flex items-center gap-3">
+              <button
+                className="btn-primary text-sm py-2 px-4"
+                onClick={() => resolve(booking.chainBookingId as `0x${string}`, shareBps)}
+                disabled={!booking.chainBookingId || isPending || isConfirming}
+              >
+                {isPending || isConfirming
+                  ? <><Loader2 size={14} className="animate-spin" /> {isPending ? 'Confirm in wallet...' : 'Confirming...'}</>
+                  : <><Scale size={14} /> Resolve Dispute</>
+                }
+              </button>
+              {hash && (
+                <a href={`${EXPLORER_BASE}/tx/${hash}`} target="_blank" rel="noreferrer"
+                  className="text-xs text-brand flex items-center gap-1 hover:underline">
+                  BscScan <ExternalLink size={10} />
+                </a>
+              )}
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  )
+}
@@ -4,12 +4,20 @@ import { useState, useEffect }  from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import { useAccount }            from 'wagmi'
 import { ConnectButton }         from '@rainbow-me/rainbowkit'
-import { calculatePrice, calculateDays, formatBnb, VISIBILITY_MULTIPLIERS } from '@/lib/pricing'
+import { splitPayout, calculateDays, formatBps, VISIBILITY_MULTIPLIERS } from '@/lib/pricing'
+import { formatMultiplier }      from '@/lib/pricingRules'
+import { parseEther }            from 'viem'
 import { AdPreview }             from '@/components/AdPreview'
 import type { Wall }             from '@/types'
 import { ipfsImageUrl }          from '@/lib/ipfs'
 import { Calendar, Upload, Image as ImageIcon, ArrowRight, Loader2, Info } from 'lucide-react'
 import { useBnbPrice }           from '@/hooks/useBnbPrice'
+import { deriveBookingTerms, deriveMilestones, milestoneLabel, validateBookingTerms } from '@/lib/terms'
+import { usePlatformFeeBps, useInstallerFeeBps } from '@/hooks/useEscrow'
+import { useWallAvailability }   from '@/hooks/useWallAvailability'
+import { useQuote }              from '@/hooks/useQuote'
+import { AvailabilityCalendar, isRangeFree } from '@/components/AvailabilityCalendar'
+import { canStartOn, canEndOn, checkBookingRules, earliestStart, WEEKDAY_NAMES } from '@/lib/bookingRules'
 
 type BookStep = 'dates' | 'artwork' | 'preview' | 'confirm'
 
@@ -18,6 +26,9 @@ export default function BookPage() {
   const router               = useRouter()
   const { isConnected, address } = useAccount()
   const { convert }          = useBnbPrice()
+  const { data: platformFeeBps } = usePlatformFeeBps()
+  const { data: installerFeeBps } = useInstallerFeeBps()
+  const { ranges, rules }    = useWallAvailability(id)
 
   const [wall,      setWall]      = useState<Wall | null>(null)
   const [loading,   setLoading]   = useState(true)
@@ -30,6 +41,8 @@ export default function BookPage() {
   const in30      = new Date(today); in30.setDate(today.getDate() + 31)
   const [startDate, setStartDate] = useState(tomorrow.toISOString().split('T')[0])
   const [endDate,   setEndDate]   = useState(in30.toISOString().split('T')[0])
+  const [showDays,  setShowDays]  = useState(false)
+  const { quote }                 = useQuote(id, startDate, endDate)
 
   // Artwork
   const [artworkFile,    setArtworkFile]    = useState<File | null>(null)
@@ -39,6 +52,7 @@ export default function BookPage() {
 
   // Installer
   const [installerAddress, setInstallerAddress] = useState('')
+  const [milestoneCount,   setMilestoneCount]   = useState(1)
 
   // Booking result
   const [bookingId, setBookingId] = useState<string | null>(null)
@@ -59,10 +73,38 @@ export default function BookPage() {
     </div>
   )
 
+  // Longer lead time → longer installation window (clamped to contract bounds)
+  const terms    = {
+    ...deriveBookingTerms(startDate),
+    installerFeeBps: Number(installerFeeBps ?? 0),
+    ...deriveMilestones(startDate, endDate, milestoneCount),
+  }
+  // Too many milestones for a short campaign leaves no room for each dispute window
+  const milestonesValid = validateBookingTerms(terms) === null
+
   const days     = calculateDays(new Date(startDate), new Date(endDate))
-  const pricing  = wall.areaSqft
-    ? calculatePrice(wall.areaSqft, wall.pricePerSqftDay, wall.visibilityTier, days)
+  const datesFree = isRangeFree(ranges, startDate, endDate)
+  const rulesError = checkBookingRules(rules, startDate, endDate)
+  const firstDay  = [tomorrow.toISOString().split('T')[0], earliestStart(rules)].sort()[1]
+  const ruleNotes = [
+    rules.fullMonthsOnly && 'full calendar months only',
+    rules.minBookingDays !== null && `at least ${rules.minBookingDays} days`,
+    rules.maxBookingDays !== null && `at most ${rules.maxBookingDays} days`,
+    rules.leadTimeDays > 0 && `book ${rules.leadTimeDays} day(s) ahead`,
+    !rules.fullMonthsOnly && rules.startWeekdays.length > 0 &&
+      `starts on ${rules.startWeekdays.map(d => WEEKDAY_NAMES[d]).join(' / ')}`,
+  ].filter(Boolean)
+  // Priced by the server under the wall's pricing rules; the split is what the escrow pays out
+  const pricing  = wall.areaSqft && quote
+    ? {
+        totalBnb: quote.totalBnb,
+        split:    splitPayout(parseEther(quote.totalBnb), {
+          platformFeeBps:  Number(platformFeeBps ?? 0),
+          installerFeeBps: terms.installerFeeBps,
+        }),
+      }
     : null
+  const adjustedDays = quote?.lineItems.filter(li => li.multiplierBps !== 10_000) ?? []
 
   const uploadArtwork = async (file: File) => {
     setUploadingArt(true)
@@ -101,12 +143,17 @@ export default function BookPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          advertiserAddress: address,
           wallId:            wall.id,
           installerAddress,
           startDate,
           endDate,
           artworkCid,
+          quotedTotalBnb:    pricing.totalBnb,
+          // The installer fee is the platform's, set on the escrow; the server reads it there
+          proofDeadlineSec:     terms.proofDeadlineSec,
+          disputeWindowSec:     terms.disputeWindowSec,
+          milestoneCount:       terms.milestoneCount,
+          milestoneIntervalSec: terms.milestoneIntervalSec,
         }),
       })
       if (!res.ok) throw new Error((await res.json()).error || 'Booking failed')
@@ -158,7 +205,7 @@ export default function BookPage() {
               <div>
                 <label className="label">Start Date</label>
                 <input type="date" className="input"
-                  min={tomorrow.toISOString().split('T')[0]}
+                  min={firstDay}
                   value={startDate} onChange={e => setStartDate(e.target.value)} />
               </div>
               <div>
@@ -169,6 +216,30 @@ export default function BookPage() {
               </div>
             </div>
 
+            {ruleNotes.length > 0 && (
+              <p className="text-xs text-slate-500 flex items-center gap-1.5">
+                <Info size={12} /> Owner&apos;s rules: {ruleNotes.join(', ')}
+              </p>
+            )}
+
+            <AvailabilityCalendar
+              ranges={ranges}
+              minDate={firstDay}
+              start={startDate}
+              end={endDate}
+              onSelect={(s, e) => { setStartDate(s); setEndDate(e) }}
+              canStart={d => canStartOn(rules, d)}
+              canEnd={(s, e) => canEndOn(rules, s, e)}
+            />
+            {!datesFree && (
+              <p className="text-xs text-red-400">
+                These dates overlap a booked, reserved or unavailable period on this wall — pick a free range.
+              </p>
+            )}
+            {datesFree && rulesError && (
+              <p className="text-xs text-red-400">{rulesError}</p>
+            )}
+
             {/* Installer address */}
             <div>
               <label className="label">Installer Wallet Address</label>
@@ -179,6 +250,28 @@ export default function BookPage() {
               </p>
             </div>
 
+            <div>
+              <label className="label">Installer Fee</label>
+              <p className="text-sm text-slate-300">{formatBps(terms.installerFeeBps)}</p>
+              <p className="text-xs text-slate-600 mt-1">
+                Share of the escrow paid to the installer when you approve. Set by the platform, not per booking.
+              </p>
+            </div>
+
+            <div>
+              <label className="label">Payout Milestones</label>
+              <select className="input" value={milestoneCount} onChange={e => setMilestoneCount(Number(e.target.value))}>
+                <option value={1}>Single payout on installation</option>
+                <option value={2}>Installation + removal</option>
+                <option value={3}>Installation, mid-campaign check, removal</option>
+              </select>
+              <p className={`text-xs mt-1 ${milestonesValid ? 'text-slate-600' : 'text-red-400'}`}>
+                {milestonesValid
+                  ? 'Each milestone needs its own photo proof and releases an equal share of what is left in escrow.'
+                  : 'Campaign is too short for this many milestones — each needs longer than the dispute window.'}
+              </p>
+            </div>
+
             {/* Pricing */}
             {pricing && (
               <div className="p-4 bg-surface-raised rounded-xl border border-surface-border space-y-2">
@@ -196,7 +289,43 @@ export default function BookPage() {
                     Tier {wall.visibilityTier} ({VISIBILITY_MULTIPLIERS[wall.visibilityTier]?.mult}×)
                   </span>
                 </div>
-                
+
+                {/* Seasonal / weekend / last-minute days and the length discount */}
+                {quote && (adjustedDays.length > 0 || quote.discount) && (
+                  <div className="border-t border-surface-border pt-2 space-y-1 text-xs">
+                    <div className="flex justify-between">
+                      <span className="text-slate-500">
+                        {adjustedDays.length > 0 ? `${adjustedDays.length} day(s) at adjusted rates` : 'Subtotal'}
+                      </span>
+                      <span className="text-slate-300 font-mono">{Number(quote.subtotalBnb).toFixed(6)} BNB</span>
+                    </div>
+                    {quote.discount && (
+                      <div className="flex justify-between">
+                        <span className="text-slate-500">
+                          {formatBps(quote.discount.discountBps)} off ({quote.discount.minDays}+ days)
+                        </span>
+                        <span className="text-emerald-400 font-mono">−{Number(quote.discount.amountBnb).toFixed(6)} BNB</span>
+                      </div>
+                    )}
+                    <button type="button" onClick={() => setShowDays(v => !v)} className="text-brand hover:underline">
+                      {showDays ? 'Hide' : 'Show'} daily breakdown
+                    </button>
+                    {showDays && (
+                      <div className="max-h-48 overflow-y-auto space-y-0.5">
+                        {quote.lineItems.map(li => (
+                          <div key={li.date} className="flex justify-between">
+                            <span className="text-slate-500">
+                              {li.date}
+                              {li.labels.length > 0 && ` · ${li.labels.join(', ')} ${formatMultiplier(li.multiplierBps)}`}
+                            </span>
+                            <span className="text-slate-300 font-mono">{Number(li.amountBnb).toFixed(6)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Total with USD translation */}
                 <div className="border-t border-surface-border pt-2 flex flex-col items-end">
                   <div className="flex justify-between w-full font-bold">
@@ -207,12 +336,26 @@ export default function BookPage() {
                     ≈ {convert(pricing.totalBnb)} USD
                   </div>
                 </div>
+
+                {/* Payout split on approval */}
+                <div className="border-t border-surface-border pt-2 space-y-1">
+                  {[
+                    ['Wall owner', pricing.split.wallOwner],
+                    [`Installer (${formatBps(terms.installerFeeBps)})`, pricing.split.installer],
+                    [`Platform fee (${formatBps(Number(platformFeeBps ?? 0))})`, pricing.split.platform],
+                  ].map(([k, v]) => (
+                    <div key={k} className="flex justify-between text-xs">
+                      <span className="text-slate-500">{k}</span>
+                      <span className="text-slate-300 font-mono">{v} BNB</span>
+                    </div>
+                  ))}
+                </div>
               </div>
             )}
 
             <button
               className="btn-primary w-full"
-              disabled={!startDate || !endDate || !installerAddress || !installerAddress.startsWith('0x')}
+              disabled={!startDate || !endDate || !datesFree || !!rulesError || !installerAddress || !installerAddress.startsWith('0x') || installerFeeBps === undefined || !milestonesValid}
               onClick={() => setStep('artwork')}
             >
               Continue to Artwork <ArrowRight size={16} />
@@ -318,6 +461,14 @@ export default function BookPage() {
                 ['Location',  `${wall.city}, ${wall.country}`],
                 ['Dates',     `${startDate} → ${endDate} (${days} days)`],
                 ['Installer', installerAddress],
+                ['Proof due', `${Math.round(terms.proofDeadlineSec / 86400)} days after funding`],
+                ['Dispute window', `${Math.round(terms.disputeWindowSec / 86400)} days`],
+                ['Milestones', Array.from({ length: terms.milestoneCount }, (_, i) => milestoneLabel(i, terms.milestoneCount)).join(' → ')],
+                ...(pricing ? [
+                  ['To wall owner', `${pricing.split.wallOwner} BNB`],
+                  ['To installer',  `${pricing.split.installer} BNB`],
+                  ['Platform fee',  `${pricing.split.platform} BNB`],
+                ] : []),
                 ['Total',     pricing ? `${pricing.totalBnb} BNB` : 'N/A'],
               ].map(([k, v]) => (
                 <div key={k} className="flex justify-between py-2 border-b border-surface-border last:border-0 text-sm">
@@ -339,7 +490,7 @@ export default function BookPage() {
 
             <div className="p-3 bg-brand/5 border border-brand/20 rounded-lg text-xs text-slate-400 space-y-1">
               <p>• Clicking &quot;Proceed to Payment&quot; creates a booking record off-chain.</p>
-              <p>• Next step: you&apos;ll confirm the on-chain <strong className="text-brand">fundBooking()</strong> transaction.</p>
+              <p>• Next step: you&apos;ll confirm the on-chain <strong className="text-brand">fundBookingWithTerms()</strong> transaction.</p>
               <p>• Funds stay locked in the contract until you approve the installation.</p>
             </div>
 
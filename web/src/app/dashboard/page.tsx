@@ -5,15 +5,22 @@ import { useAccount }            from 'wagmi'
 import { ConnectButton }         from '@rainbow-me/rainbowkit'
 import { WallCard }              from '@/components/WallCard'
 import { BookingStatus }         from '@/components/BookingStatus'
+import { BookingRulesEditor }    from '@/components/BookingRulesEditor'
+import { PricingRulesEditor }    from '@/components/PricingRulesEditor'
+import { SavedSearches }         from '@/components/SavedSearches'
+import { NotificationSettings }  from '@/components/NotificationSettings'
+import { Webhooks }              from '@/components/Webhooks'
 import type { Wall, Booking }    from '@/types'
 import { STATUS_COLORS, STATUS_LABELS } from '@/types'
 import { ipfsImageUrl }          from '@/lib/ipfs'
 import { EXPLORER_BASE }         from '@/lib/contract'
-import { Loader2, Wallet, Building, Package, ExternalLink, ArrowRight } from 'lucide-react'
+import { formatBps }             from '@/lib/pricing'
+import { useCancelBooking, useCancelWithConsent, useSignCancellation, useCancellationFeeBps } from '@/hooks/useEscrow'
+import { Loader2, Wallet, Building, Package, ExternalLink, ArrowRight, XCircle, CheckCircle, CalendarCog, Tag, Bell, Webhook } from 'lucide-react'
 import Link                      from 'next/link'
 import { cn }                    from '@/lib/utils'
 
-type Tab = 'my-walls' | 'my-bookings' | 'my-installs'
+type Tab = 'my-walls' | 'my-bookings' | 'my-installs' | 'alerts' | 'webhooks'
 
 export default function DashboardPage() {
   const { address, isConnected } = useAccount()
@@ -22,8 +29,15 @@ export default function DashboardPage() {
   const [walls,      setWalls]      = useState<Wall[]>([])
   const [bookings,   setBookings]   = useState<Booking[]>([])
   const [installs,   setInstalls]   = useState<Booking[]>([])
+  const [ownerBookings, setOwnerBookings] = useState<Booking[]>([])
+  const [wallPanel,     setWallPanel]     = useState<{ wallId: string; kind: 'rules' | 'pricing' } | null>(null)
   const [loading,    setLoading]    = useState(true)
 
+  // The navbar bell links to /dashboard?tab=alerts
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).get('tab') === 'alerts') setTab('alerts')
+  }, [])
+
   useEffect(() => {
     if (!address) return
     setLoading(true)
@@ -32,10 +46,12 @@ export default function DashboardPage() {
       fetch(`/api/walls?ownerAddress=${address}`).then(r => r.json()),
       fetch(`/api/bookings?advertiserAddress=${address}`).then(r => r.json()),
       fetch(`/api/bookings?installerAddress=${address}`).then(r => r.json()),
-    ]).then(([wallData, bookData, installData]) => {
+      fetch(`/api/bookings?ownerAddress=${address}&status=FUNDED,DISPUTED,CONTESTED`).then(r => r.json()),
+    ]).then(([wallData, bookData, installData, ownerData]) => {
       setWalls(Array.isArray(wallData) ? wallData : wallData.walls || [])
       setBookings(Array.isArray(bookData) ? bookData : bookData.bookings || [])
       setInstalls(Array.isArray(installData) ? installData : installData.bookings || [])
+      setOwnerBookings(Array.isArray(ownerData) ? ownerData : ownerData.bookings || [])
       setLoading(false)
     }).catch(() => setLoading(false))
   }, [address])
@@ -57,6 +73,8 @@ export default function DashboardPage() {
     { id: 'my-bookings' as Tab, label: 'My Bookings',    icon: Package,  count: bookings.length  },
     { id: 'my-walls'    as Tab, label: 'My Walls',        icon: Building, count: walls.length     },
     { id: 'my-installs' as Tab, label: 'My Installs',     icon: Package,  count: installs.length  },
+    { id: 'alerts'      as Tab, label: 'Alerts',          icon: Bell,     count: 0                },
+    { id: 'webhooks'    as Tab, label: 'Webhooks',        icon: Webhook,  count: 0                },
   ]
 
   return (
@@ -124,6 +142,7 @@ export default function DashboardPage() {
           {/* ── My Walls ────────────────────────────────────────── */}
           {tab === 'my-walls' && (
             <div className="space-y-4">
+              {ownerBookings.map(b => <BookingCard key={b.id} booking={b} role="wallOwner" />)}
               {walls.length === 0 ? (
                 <EmptyState
                   message="No walls listed"
@@ -132,7 +151,35 @@ export default function DashboardPage() {
                 />
               ) : (
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {walls.map(w => <WallCard key={w.id} wall={w} />)}
+                  {walls.map(w => (
+                    <div key={w.id} className="space-y-2">
+                      <WallCard wall={w} />
+                      {w.moderationReason && (w.status === 'REJECTED' || w.status === 'SUSPENDED') && (
+                        <p className="text-xs text-yellow-400">
+                          {w.status === 'REJECTED' ? 'Not approved' : 'Suspended'}: {w.moderationReason}
+                        </p>
+                      )}
+                      <div className="flex gap-4">
+                        {([['rules', 'Booking rules', CalendarCog], ['pricing', 'Pricing rules', Tag]] as const).map(([kind, label, Icon]) => (
+                          <button key={kind}
+                            onClick={() => setWallPanel(p => p?.wallId === w.id && p.kind === kind ? null : { wallId: w.id, kind })}
+                            className="text-xs text-slate-500 hover:text-brand flex items-center gap-1">
+                            <Icon size={12} /> {label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {wallPanel && (
+                <div className="card space-y-3">
+                  <h3 className="font-semibold text-slate-100">
+                    {wallPanel.kind === 'rules' ? 'Booking rules' : 'Pricing rules'} — {walls.find(w => w.id === wallPanel.wallId)?.title}
+                  </h3>
+                  {wallPanel.kind === 'rules'
+                    ? <BookingRulesEditor key={wallPanel.wallId} wallId={wallPanel.wallId} onClose={() => setWallPanel(null)} />
+                    : <PricingRulesEditor key={wallPanel.wallId} wallId={wallPanel.wallId} onClose={() => setWallPanel(null)} />}
                 </div>
               )}
             </div>
@@ -151,6 +198,16 @@ export default function DashboardPage() {
               )}
             </div>
           )}
+
+          {/* ── Alerts ──────────────────────────────────────────── */}
+          {tab === 'alerts' && (
+            <div className="grid lg:grid-cols-[1fr_22rem] gap-6 items-start">
+              <SavedSearches />
+              <NotificationSettings />
+            </div>
+          )}
+
+          {tab === 'webhooks' && <Webhooks />}
         </>
       )}
     </div>
@@ -159,7 +216,7 @@ export default function DashboardPage() {
 
 // ─── Booking card ──────────────────────────────────────────────────────────
 
-function BookingCard({ booking, role }: { booking: Booking; role: 'advertiser' | 'installer' }) {
+function BookingCard({ booking, role }: { booking: Booking; role: 'advertiser' | 'installer' | 'wallOwner' }) {
   const actionHref =
     role === 'installer' && booking.status === 'FUNDED'
       ? `/installer/${booking.id}`
@@ -172,63 +229,243 @@ function BookingCard({ booking, role }: { booking: Booking; role: 'advertiser' |
       ? 'Submit Proof'
       : booking.status === 'PROOF_SUBMITTED' && role === 'advertiser'
       ? 'Review Proof'
+      : booking.status === 'DISPUTED' && role === 'wallOwner'
+      ? 'Contest Rejection'
       : 'View Details'
 
   const actionHighlight =
     (role === 'installer' && booking.status === 'FUNDED') ||
-    (role === 'advertiser' && booking.status === 'PROOF_SUBMITTED')
+    (role === 'advertiser' && booking.status === 'PROOF_SUBMITTED') ||
+    (role === 'wallOwner' && booking.status === 'DISPUTED')
+
+  const cancellable =
+    (role === 'advertiser' || role === 'wallOwner') &&
+    booking.status === 'FUNDED' && !!booking.chainBookingId
 
   return (
-    <div className="card flex flex-col sm:flex-row gap-4">
-      {/* Wall thumbnail */}
-      <div className="w-full sm:w-24 h-20 shrink-0 rounded-lg overflow-hidden bg-surface-raised">
-        <img
-          src={booking.wall.photoCids?.[0] ? ipfsImageUrl(booking.wall.photoCids[0]) : '/placeholder-wall.jpg'}
-          className="w-full h-full object-cover"
-          onError={e => { (e.target as HTMLImageElement).src = '/placeholder-wall.jpg' }}
-        />
-      </div>
+    <div className="card space-y-3">
+      <div className="flex flex-col sm:flex-row gap-4">
+        {/* Wall thumbnail */}
+        <div className="w-full sm:w-24 h-20 shrink-0 rounded-lg overflow-hidden bg-surface-raised">
+          <img
+            src={booking.wall.photoCids?.[0] ? ipfsImageUrl(booking.wall.photoCids[0]) : '/placeholder-wall.jpg'}
+            className="w-full h-full object-cover"
+            onError={e => { (e.target as HTMLImageElement).src = '/placeholder-wall.jpg' }}
+          />
+        </div>
 
-      {/* Info */}
-      <div className="flex-1 min-w-0 space-y-1">
-        <div className="flex items-start justify-between gap-2">
-          <div>
-            <p className="font-semibold text-slate-100 truncate">{booking.wall.title}</p>
-            <p className="text-xs text-slate-500">{booking.wall.city} · {new Date(booking.startDate).toLocaleDateString()} – {new Date(booking.endDate).toLocaleDateString()}</p>
+        {/* Info */}
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <p className="font-semibold text-slate-100 truncate">{booking.wall.title}</p>
+              <p className="text-xs text-slate-500">{booking.wall.city} · {new Date(booking.startDate).toLocaleDateString()} – {new Date(booking.endDate).toLocaleDateString()}</p>
+            </div>
+            <span className={cn('badge shrink-0 text-xs', STATUS_COLORS[booking.status])}>
+              {STATUS_LABELS[booking.status]}
+            </span>
+          </div>
+
+          <div className="flex items-center gap-4 text-xs text-slate-500">
+            <span className="text-brand font-mono font-semibold">{booking.totalBnb} BNB</span>
+            {booking.txHashFund && (
+              <a
+                href={`${EXPLORER_BASE}/tx/${booking.txHashFund}`}
+                target="_blank" rel="noreferrer"
+                className="flex items-center gap-1 hover:text-brand"
+              >
+                Escrow tx <ExternalLink size={10} />
+              </a>
+            )}
           </div>
-          <span className={cn('badge shrink-0 text-xs', STATUS_COLORS[booking.status])}>
-            {STATUS_LABELS[booking.status]}
-          </span>
         </div>
 
-        <div className="flex items-center gap-4 text-xs text-slate-500">
-          <span className="text-brand font-mono font-semibold">{booking.totalBnb} BNB</span>
-          {booking.txHashFund && (
-            <a
-              href={`${EXPLORER_BASE}/tx/${booking.txHashFund}`}
-              target="_blank" rel="noreferrer"
-              className="flex items-center gap-1 hover:text-brand"
-            >
-              Escrow tx <ExternalLink size={10} />
-            </a>
-          )}
+        {/* Action */}
+        <div className="flex items-center">
+          <Link
+            href={actionHref}
+            className={cn(
+              'text-sm px-4 py-2 rounded-lg font-medium flex items-center gap-1.5 transition-colors',
+              actionHighlight
+                ? 'bg-brand text-black hover:bg-brand-dim'
+                : 'bg-surface-raised text-slate-400 hover:text-slate-200 border border-surface-border'
+            )}
+          >
+            {actionLabel} <ArrowRight size={14} />
+          </Link>
         </div>
       </div>
 
-      {/* Action */}
-      <div className="flex items-center">
-        <Link
-          href={actionHref}
-          className={cn(
-            'text-sm px-4 py-2 rounded-lg font-medium flex items-center gap-1.5 transition-colors',
-            actionHighlight
-              ? 'bg-brand text-black hover:bg-brand-dim'
-              : 'bg-surface-raised text-slate-400 hover:text-slate-200 border border-surface-border'
-          )}
-        >
-          {actionLabel} <ArrowRight size={14} />
-        </Link>
+      {cancellable && <CancelPanel booking={booking} role={role as 'advertiser' | 'wallOwner'} />}
+    </div>
+  )
+}
+
+// ─── Cancellation ─────────────────────────────────────────────────────────
+// The advertiser may cancel alone before the first proof (cancellation fee to
+// the wall owner). Either side may propose a free cancellation; it goes through
+// once the other side signs the same EIP-712 consent and submits both.
+
+const CANCEL_REQUEST_TTL_SEC = 3 * 24 * 60 * 60
+
+function CancelPanel({ booking, role }: { booking: Booking; role: 'advertiser' | 'wallOwner' }) {
+  const [open,    setOpen]    = useState(false)
+  const [request, setRequest] = useState({
+    cancelDeadline:      booking.cancelDeadline,
+    cancelAdvertiserSig: booking.cancelAdvertiserSig,
+    cancelWallOwnerSig:  booking.cancelWallOwnerSig,
+  })
+  const [apiError, setApiError] = useState('')
+
+  const bookingId = booking.chainBookingId as `0x${string}`
+  const unilateral = role === 'advertiser' && booking.currentMilestone === 0
+
+  const { data: feeBps } = useCancellationFeeBps(open && unilateral ? bookingId : undefined)
+  const { sign, isPending: isSigning } = useSignCancellation()
+  const direct  = useCancelBooking()
+  const consent = useCancelWithConsent()
+
+  const hash      = direct.hash ?? consent.hash
+  const isSuccess = direct.isSuccess || consent.isSuccess
+  const busy      = isSigning || direct.isPending || direct.isConfirming || consent.isPending || consent.isConfirming
+  const txError   = direct.error ?? consent.error
+
+  useEffect(() => {
+    if (!isSuccess || !hash) return
+    fetch(`/api/bookings/${booking.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ txHash: hash }),
+    })
+  }, [isSuccess, hash])
+
+  const deadline  = request.cancelDeadline ? Math.floor(new Date(request.cancelDeadline).getTime() / 1000) : 0
+  const live      = deadline > Date.now() / 1000
+  const mySig     = live ? (role === 'advertiser' ? request.cancelAdvertiserSig : request.cancelWallOwnerSig) : null
+  const theirSig  = live ? (role === 'advertiser' ? request.cancelWallOwnerSig : request.cancelAdvertiserSig) : null
+  const otherSide = role === 'advertiser' ? 'wall owner' : 'advertiser'
+
+  const postSignature = async (signature: `0x${string}`, at: number) => {
+    const res  = await fetch(`/api/bookings/${booking.id}/cancel`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ signature, deadline: at }),
+    })
+    const data = await res.json()
+    if (!res.ok) throw new Error(data.error || 'Failed to store signature')
+    setRequest(data)
+  }
+
+  const propose = async () => {
+    setApiError('')
+    try {
+      const at = Math.floor(Date.now() / 1000) + CANCEL_REQUEST_TTL_SEC
+      await postSignature(await sign(bookingId, BigInt(at)), at)
+    } catch (e) {
+      setApiError(e instanceof Error ? e.message : 'Signing failed')
+    }
+  }
+
+  const acceptAndSubmit = async () => {
+    setApiError('')
+    try {
+      const signature = (mySig ?? await sign(bookingId, BigInt(deadline))) as `0x${string}`
+      const [advertiserSig, wallOwnerSig] = role === 'advertiser'
+        ? [signature, theirSig as `0x${string}`]
+        : [theirSig as `0x${string}`, signature]
+      consent.cancel(bookingId, BigInt(deadline), advertiserSig, wallOwnerSig)
+    } catch (e) {
+      setApiError(e instanceof Error ? e.message : 'Signing failed')
+    }
+  }
+
+  const withdraw = async () => {
+    await fetch(`/api/bookings/${booking.id}/cancel`, { method: 'DELETE' })
+    setRequest({ cancelDeadline: null, cancelAdvertiserSig: null, cancelWallOwnerSig: null })
+  }
+
+  if (isSuccess) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-emerald-400 border-t border-surface-border pt-3">
+        <CheckCircle size={16} /> Cancelled on-chain — the advertiser has been refunded
       </div>
+    )
+  }
+
+  // A pending request from the other side is always surfaced, even when collapsed
+  if (!open && !theirSig) {
+    return (
+      <div className="border-t border-surface-border pt-3">
+        <button onClick={() => setOpen(true)} className="text-xs text-slate-500 hover:text-red-400 flex items-center gap-1">
+          <XCircle size={12} /> Cancel booking
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="border-t border-surface-border pt-3 space-y-3 text-xs">
+      {theirSig && (
+        <div className="p-3 rounded-lg bg-orange-400/5 border border-orange-400/20 space-y-2">
+          <p className="text-slate-300">
+            The {otherSide} asked to cancel this booking with a full refund to the advertiser
+            (until {new Date(deadline * 1000).toLocaleString()}).
+          </p>
+          <button className="btn-primary text-xs py-1.5 px-3" onClick={acceptAndSubmit} disabled={busy}>
+            {busy ? <Loader2 size={12} className="animate-spin" /> : <CheckCircle size={12} />}
+            Agree &amp; cancel
+          </button>
+        </div>
+      )}
+
+      {!theirSig && mySig && (
+        <div className="flex items-center justify-between gap-3 text-slate-400">
+          <span>Waiting for the {otherSide} to agree (until {new Date(deadline * 1000).toLocaleString()})</span>
+          <button onClick={withdraw} className="text-slate-500 hover:text-slate-200">Withdraw</button>
+        </div>
+      )}
+
+      {!theirSig && !mySig && (
+        <div className="flex flex-wrap items-center gap-3">
+          <button className="btn-secondary text-xs py-1.5 px-3" onClick={propose} disabled={busy}>
+            {isSigning && <Loader2 size={12} className="animate-spin" />}
+            Propose free cancellation
+          </button>
+          <span className="text-slate-500">Needs the {otherSide}&apos;s signature too; the advertiser is refunded in full.</span>
+        </div>
+      )}
+
+      {unilateral && (
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            className="text-xs py-1.5 px-3 rounded-lg border border-red-500/40 text-red-400 hover:bg-red-500/10 flex items-center gap-1.5"
+            onClick={() => direct.cancel(bookingId)}
+            disabled={busy}
+          >
+            {direct.isPending || direct.isConfirming
+              ? <Loader2 size={12} className="animate-spin" />
+              : <XCircle size={12} />}
+            Cancel now
+          </button>
+          <span className="text-slate-500">
+            {feeBps === undefined
+              ? 'Loading cancellation fee…'
+              : feeBps === 0
+              ? 'No cancellation fee applies.'
+              : `${formatBps(feeBps)} cancellation fee goes to the wall owner; the rest is refunded.`}
+          </span>
+        </div>
+      )}
+
+      {(apiError || txError) && (
+        <p className="text-red-400">{apiError || (txError instanceof Error ? txError.message : 'Transaction failed')}</p>
+      )}
+      {hash && (
+        <a href={`${EXPLORER_BASE}/tx/${hash}`} target="_blank" rel="noreferrer"
+          className="text-brand flex items-center gap-1 hover:underline">
+          BscScan <ExternalLink size={10} />
+        </a>
+      )}
     </div>
   )
 }
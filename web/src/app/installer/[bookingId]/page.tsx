@@ -2,13 +2,19 @@
 
 import { useState, useEffect }  from 'react'
 import { useParams, useRouter } from 'next/navigation'
-import { useAccount }            from 'wagmi'
-import { useSubmitProof }        from '@/hooks/useEscrow'
+import { useAccount, useSignTypedData } from 'wagmi'
+import { useSubmitProof, useRelayedCall } from '@/hooks/useEscrow'
 import type { Booking }          from '@/types'
 import { ipfsImageUrl }          from '@/lib/ipfs'
 import { sha256Hex }             from '@/lib/ipfs'
 import { Upload, Camera, MapPin, Video, CheckCircle, Loader2, ExternalLink, AlertTriangle } from 'lucide-react'
-import { EXPLORER_BASE }         from '@/lib/contract'
+import { EXPLORER_BASE, ESCROW_ADDRESS } from '@/lib/contract'
+import { milestoneLabel }        from '@/lib/terms'
+import { cidMatchesContentHash } from '@/lib/cid'
+import {
+  PROOF_MANIFEST_VERSION, manifestContentHash, proofAttestation,
+  type ProofManifestV1, type UnsignedProofManifestV1, type ProofMedia,
+} from '@/lib/proofManifest'
 
 export default function InstallerPage() {
   const { bookingId }          = useParams<{ bookingId: string }>()
@@ -33,7 +39,13 @@ export default function InstallerPage() {
   const [afterCids,  setAfterCids]  = useState<string[]>([])
   const [videoCid,   setVideoCid]   = useState<string | null>(null)
 
-  const { submitProof, hash, isPending, isConfirming, isSuccess, error: txError } = useSubmitProof()
+  const direct  = useSubmitProof()
+  const relayed = useRelayedCall()
+  const [gasless, setGasless] = useState(true)
+  const viaRelayer = relayed.enabled && gasless
+  const { hash, isPending, isSuccess, error: txError } = viaRelayer ? relayed : direct
+  const isConfirming = viaRelayer ? false : direct.isConfirming
+  const { signTypedDataAsync } = useSignTypedData()
 
   useEffect(() => {
     fetch(`/api/bookings/${bookingId}`)
@@ -42,39 +54,50 @@ export default function InstallerPage() {
       .catch(() => setLoading(false))
   }, [bookingId])
 
+  // Once mined, hint the tx to the indexer so the booking advances without waiting for the cron
   useEffect(() => {
-    if (isSuccess && booking) {
-      setTimeout(() => router.push('/dashboard'), 2000)
+    if (!isSuccess || !hash || !booking) return
+    fetch(`/api/bookings/${booking.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ txHash: hash }),
+    }).finally(() => setTimeout(() => router.push('/dashboard'), 2000))
+  }, [isSuccess, hash, booking, router])
+
+  // Upload one file and describe it for the manifest
+  const uploadMedia = async (file: File, role: ProofMedia['role']): Promise<ProofMedia> => {
+    const fd = new FormData()
+    fd.append('file', file)
+    fd.append('type', 'proof-media')
+    const [res, sha256] = await Promise.all([
+      fetch('/api/upload', { method: 'POST', body: fd }),
+      file.arrayBuffer().then(sha256Hex),
+    ])
+    if (!res.ok) throw new Error(`Upload failed for ${file.name}`)
+    const { cid } = await res.json()
+    return {
+      role,
+      cid,
+      sha256,
+      mimeType:   file.type || 'application/octet-stream',
+      size:       file.size,
+      capturedAt: file.lastModified ? new Date(file.lastModified).toISOString() : null,
     }
-  }, [isSuccess, booking, router])
+  }
 
   const uploadFiles = async () => {
     setUploading(true)
     setError('')
     try {
-      const uploadSingle = async (file: File): Promise<string> => {
-        const fd = new FormData()
-        fd.append('file', file)
-        fd.append('type', 'proof-media')
-        const res = await fetch('/api/upload', { method: 'POST', body: fd })
-        if (!res.ok) throw new Error(`Upload failed for ${file.name}`)
-        const { cid } = await res.json()
-        return cid
-      }
-
-      const [bCids, aCids] = await Promise.all([
-        Promise.all(beforeFiles.map(uploadSingle)),
-        Promise.all(afterFiles.map(uploadSingle)),
+      const [before, after, video] = await Promise.all([
+        Promise.all(beforeFiles.map(f => uploadMedia(f, 'before'))),
+        Promise.all(afterFiles.map(f => uploadMedia(f, 'after'))),
+        videoFile ? uploadMedia(videoFile, 'video').then(m => [m]) : Promise.resolve([]),
       ])
-      setBeforeCids(bCids)
-      setAfterCids(aCids)
-
-      if (videoFile) {
-        const vCid = await uploadSingle(videoFile)
-        setVideoCid(vCid)
-      }
-
-      return { bCids, aCids, vCid: videoFile ? videoCid : null }
+      setBeforeCids(before.map(m => m.cid))
+      setAfterCids(after.map(m => m.cid))
+      setVideoCid(video[0]?.cid ?? null)
+      return [...before, ...after, ...video]
     } finally {
       setUploading(false)
     }
@@ -86,68 +109,72 @@ export default function InstallerPage() {
       setError('Please upload at least 1 before and 1 after photo.')
       return
     }
+    if (!booking.chainBookingId) {
+      setError('No on-chain booking ID found')
+      return
+    }
 
     setError('')
 
     try {
-      // 1. Upload media files to IPFS
-      const uploaded = await uploadFiles()
-      if (!uploaded) return
-
-      const bCids = uploaded.bCids
-      const aCids = uploaded.aCids
-
-      // 2. Build proof manifest
-      const manifest = {
-        bookingId:       booking.id,
-        chainBookingId:  booking.chainBookingId,
-        installer:       address,
-        beforePhotoCids: bCids,
-        afterPhotoCids:  aCids,
-        videoCid:        uploaded.vCid || null,
-        gpsLat:          useGPS ? parseFloat(gpsLat) : null,
-        gpsLng:          useGPS ? parseFloat(gpsLng) : null,
-        submittedAt:     new Date().toISOString(),
+      // 1. Upload media files to IPFS, hashing each one
+      const media = await uploadFiles()
+
+      // 2. Build the proof manifest and sign its EIP-712 attestation
+      const unsigned: UnsignedProofManifestV1 = {
+        version:        PROOF_MANIFEST_VERSION,
+        bookingId:      booking.id,
+        chainBookingId: booking.chainBookingId,
+        milestone:      booking.currentMilestone,
+        chainId:        booking.chainId,
+        contract:       ESCROW_ADDRESS,
+        installer:      address,
+        media,
+        gps: useGPS
+          ? { lat: parseFloat(gpsLat), lng: parseFloat(gpsLng), accuracyM: null, capturedAt: null }
+          : null,
+        device: {
+          userAgent: navigator.userAgent.slice(0, 512),
+          platform:  navigator.platform || null,
+          timezone:  Intl.DateTimeFormat().resolvedOptions().timeZone || null,
+        },
+        submittedAt: new Date().toISOString(),
       }
+      const value = await signTypedDataAsync(await proofAttestation(unsigned))
+      const manifest: ProofManifestV1 = { ...unsigned, signature: { scheme: 'eip712', signer: address, value } }
 
-      // 3. Upload manifest to IPFS and compute SHA-256
-      const manifestStr  = JSON.stringify(manifest)
-      const manifestBuf  = new TextEncoder().encode(manifestStr).buffer
-      const contentHash  = await sha256Hex(manifestBuf) as `0x${string}`
-
-      // Upload manifest JSON
-      const manifestFd = new FormData()
-      manifestFd.append('json',  manifestStr)
-      manifestFd.append('name',  `proof-${booking.id}`)
+      // 3. Upload the manifest; the server stores its canonical form, whose hash goes on-chain
+      const contentHash = await manifestContentHash(manifest) as `0x${string}`
       const manRes = await fetch('/api/upload', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ json: manifest, name: `proof-${booking.id}` }),
+        body: JSON.stringify({ json: manifest, name: `proof-${booking.id}-m${booking.currentMilestone}` }),
       })
       if (!manRes.ok) throw new Error('Manifest upload failed')
       const { cid: manifestCid } = await manRes.json()
+      if (!cidMatchesContentHash(manifestCid, contentHash)) {
+        throw new Error('Stored manifest does not match its hash')
+      }
 
       // 4. Submit proof to DB
       const proofRes = await fetch('/api/proofs', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          bookingId:       booking.id,
-          installerAddress: address,
-          beforePhotoCids: bCids,
-          afterPhotoCids:  aCids,
-          videoCid:        uploaded.vCid,
-          gpsLat:          useGPS ? parseFloat(gpsLat) : null,
-          gpsLng:          useGPS ? parseFloat(gpsLng) : null,
-          proofPackageCid: manifestCid,
+          bookingId:        booking.id,
+          manifest,
+          proofPackageCid:  manifestCid,
           proofContentHash: contentHash,
         }),
       })
-      if (!proofRes.ok) throw new Error('Failed to save proof')
+      if (!proofRes.ok) throw new Error((await proofRes.json()).error || 'Failed to save proof')
 
-      // 5. Submit hash on-chain
-      if (!booking.chainBookingId) throw new Error('No on-chain booking ID found')
-      submitProof(booking.chainBookingId as `0x${string}`, contentHash)
+      // 5. Submit hash on-chain, through the relayer when the platform pays the gas
+      if (viaRelayer) {
+        await relayed.relay('submitProof', [booking.chainBookingId, contentHash])
+      } else {
+        direct.submitProof(booking.chainBookingId as `0x${string}`, contentHash)
+      }
 
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Submission failed')
@@ -158,12 +185,27 @@ export default function InstallerPage() {
   if (!booking) return <div className="page-container py-16 text-center text-red-400">Booking not found</div>
 
   const isInstaller = address?.toLowerCase() === booking.installerAddress?.toLowerCase()
+  const milestone   = milestoneLabel(booking.currentMilestone, booking.milestoneCount)
 
   return (
     <div className="page-container py-8 max-w-2xl mx-auto">
-      <h1 className="section-title mb-2">Submit Installation Proof</h1>
+      <h1 className="section-title mb-2">Submit {milestone} Proof</h1>
       <p className="text-slate-500 mb-6">{booking.wall.title} — {booking.wall.city}</p>
 
+      {booking.milestoneCount > 1 && (
+        <div className="card mb-5 flex items-center justify-between text-sm">
+          <span className="text-slate-400">
+            Milestone {booking.currentMilestone + 1} of {booking.milestoneCount}:{' '}
+            <strong className="text-slate-200">{milestone}</strong>
+          </span>
+          {booking.proofDeadlineAt && (
+            <span className="text-xs text-slate-500">
+              Due {new Date(booking.proofDeadlineAt).toLocaleDateString()}
+            </span>
+          )}
+        </div>
+      )}
+
       {!address ? (
         <div className="card text-center py-8 text-slate-500">Connect wallet to submit proof</div>
       ) : !isInstaller ? (
@@ -250,6 +292,18 @@ export default function InstallerPage() {
             )}
           </div>
 
+          {relayed.enabled && (
+            <label className="card flex items-center justify-between gap-3 text-sm cursor-pointer">
+              <span>
+                <span className="text-slate-200">Gasless submission</span>
+                <span className="block text-xs text-slate-500">
+                  Sign the proof transaction and WallMark pays the BNB gas for you
+                </span>
+              </span>
+              <input type="checkbox" checked={gasless} onChange={e => setGasless(e.target.checked)} className="rounded" />
+            </label>
+          )}
+
           {/* Errors */}
           {(error || txError) && (
             <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400 flex items-start gap-2">
@@ -286,7 +340,7 @@ export default function InstallerPage() {
               {uploading
                 ? <><Loader2 size={16} className="animate-spin" /> Uploading to IPFS...</>
                 : isPending || isConfirming
-                ? <><Loader2 size={16} className="animate-spin" /> {isPending ? 'Confirm in wallet...' : 'Confirming...'}</>
+                ? <><Loader2 size={16} className="animate-spin" /> {isPending ? (viaRelayer ? 'Relaying...' : 'Confirm in wallet...') : 'Confirming...'}</>
                 : <>Submit Proof On-Chain</>
               }
             </button>
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage }                from '@/lib/storage'
+
+// GET /ipfs/[cid] — a minimal gateway over the configured StorageProvider, so
+// NEXT_PUBLIC_IPFS_GATEWAY can point at the app when running offline.
+// Uploads are user-supplied and served from the app origin, so only media and
+// JSON keep their type; anything else is sent as a download
+const INLINE_TYPES = new Set([
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif',
+  'video/mp4', 'video/webm', 'video/quicktime',
+  'application/json',
+])
+
+export async function GET(_req: NextRequest, { params }: { params: { cid: string } }) {
+  try {
+    const storage = getStorage()
+    const object  = await storage.get(params.cid)
+    if (!object) {
+      return NextResponse.json({ error: `Not found in ${storage.name} storage` }, { status: 404 })
+    }
+
+    const type   = object.contentType.split(';')[0].trim().toLowerCase()
+    const inline = INLINE_TYPES.has(type)
+    return new NextResponse(new Uint8Array(object.bytes), {
+      headers: {
+        'Content-Type':            inline ? type : 'application/octet-stream',
+        'X-Content-Type-Options':  'nosniff',
+        'Content-Security-Policy': 'sandbox',
+        ...(!inline && { 'Content-Disposition': `attachment; filename="${params.cid}"` }),
+        // Content-addressed, so a CID's bytes never change
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      },
+    })
+  } catch (e) {
+    console.error('[GET /ipfs/[cid]]', e)
+    return NextResponse.json({ error: 'Failed to read content' }, { status: 500 })
+  }
+}
@@ -3,12 +3,20 @@
 import { useState, useEffect }  from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import { useAccount, useChainId, useSwitchChain } from 'wagmi'
-import { useFundBooking }       from '@/hooks/useEscrow'
+import {
+  useFundBooking, useFundBookingWithToken, useFundBookingWithQuote, useApproveToken, useSignPermit,
+  useTokenState, usePlatformFeeBps, type PermitSignature,
+} from '@/hooks/useEscrow'
 import { deriveBookingId, buildMetadataHash } from '@/lib/bookingId'
+import { deriveBookingTerms }   from '@/lib/terms'
 import { EXPLORER_BASE, CHAIN_ID } from '@/lib/contract'
 import type { Booking }         from '@/types'
 import { Shield, ExternalLink, Loader2, CheckCircle, AlertTriangle } from 'lucide-react'
-import { formatBnb }            from '@/lib/pricing'
+import { parseEther, formatUnits } from 'viem'
+import { splitPayout, formatBps, bnbToToken } from '@/lib/pricing'
+import { PAYMENT_TOKENS, findPaymentToken, type PaymentCurrency } from '@/lib/tokens'
+import { useBnbPrice }          from '@/hooks/useBnbPrice'
+import type { SignedQuote }     from '@/lib/quote'
 
 export default function PayPage() {
   const { bookingId }          = useParams<{ bookingId: string }>()
@@ -22,7 +30,29 @@ export default function PayPage() {
   const [error,    setError]    = useState('')
   const [txHash,   setTxHash]   = useState<string | null>(null)
 
-  const { fund, hash, isPending, isConfirming, isSuccess, error: txError } = useFundBooking()
+  const [currency, setCurrency] = useState<PaymentCurrency>('BNB')
+  const token                   = findPaymentToken(currency)
+  // Token funding queued behind an approve() tx (tokens without EIP-2612)
+  const [queuedFund, setQueuedFund] = useState<(() => void) | null>(null)
+  // Signed by the server when the escrow requires quotes; fixes the amount on-chain
+  const [signedQuote, setSignedQuote] = useState<SignedQuote | null>(null)
+
+  const bnbFund    = useFundBooking()
+  const tokenFund  = useFundBookingWithToken()
+  const quoteFund  = useFundBookingWithQuote()
+  const approval   = useApproveToken()
+  const permit     = useSignPermit()
+  const funding    = signedQuote ? quoteFund : currency === 'BNB' ? bnbFund : tokenFund
+  const { hash, isPending, isConfirming, isSuccess } = funding
+  const txError    = funding.error || approval.error || permit.error
+
+  const { data: platformFeeBps } = usePlatformFeeBps()
+  const { usdPrice }             = useBnbPrice()
+  const { data: tokenState }     = useTokenState(token?.address ?? null, address)
+  const decimals       = tokenState?.[0]?.result
+  const tokenName      = tokenState?.[1]?.result
+  const permitNonce    = tokenState?.[2]?.status === 'success' ? tokenState[2].result : undefined
+  const allowance      = tokenState?.[3]?.result ?? BigInt(0)
 
   useEffect(() => {
     fetch(`/api/bookings/${bookingId}`)
@@ -31,30 +61,58 @@ export default function PayPage() {
       .catch(() => setLoading(false))
   }, [bookingId])
 
-  // Sync tx hash to DB when tx is submitted
   useEffect(() => {
-    if (!hash || !booking) return
-    setTxHash(hash)
+    if (hash) setTxHash(hash)
+  }, [hash])
+
+  // Once mined, hint the tx to the indexer (it verifies the receipt itself), then redirect
+  useEffect(() => {
+    if (!isSuccess || !hash || !booking) return
     fetch(`/api/bookings/${booking.id}`, {
       method: 'PATCH',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ txHashFund: hash, status: 'FUNDED' }),
-    })
-  }, [hash, booking])
+      body: JSON.stringify({ txHash: hash }),
+    }).finally(() => setTimeout(() => router.push('/dashboard'), 2000))
+  }, [isSuccess, hash, booking, router])
 
-  // Redirect to dashboard when confirmed
   useEffect(() => {
-    if (isSuccess && booking) {
-      // Update booking with chainBookingId
-      setTimeout(() => router.push('/dashboard'), 2000)
-    }
-  }, [isSuccess, booking, router])
+    if (!approval.isSuccess || !queuedFund) return
+    queuedFund()
+    setQueuedFund(null)
+  }, [approval.isSuccess, queuedFund])
+
+  useEffect(() => {
+    if (approval.error) setQueuedFund(null)
+  }, [approval.error])
 
   const handlePay = async () => {
     if (!booking || !address) return
     setError('')
 
     try {
+      // Terms were fixed when the booking was created; older bookings derive them now
+      const terms = {
+        ...(booking.proofDeadlineSec && booking.disputeWindowSec
+          ? { proofDeadlineSec: booking.proofDeadlineSec, disputeWindowSec: booking.disputeWindowSec }
+          : deriveBookingTerms(booking.startDate)),
+        installerFeeBps: booking.installerFeeBps ?? 0,
+        milestoneCount:       booking.milestoneCount ?? 1,
+        milestoneIntervalSec: booking.milestoneIntervalSec ?? 0,
+      }
+
+      // Lock the payment currency; the server quotes stablecoin amounts itself
+      const quoteRes = await fetch(`/api/bookings/${booking.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paymentCurrency: currency }),
+      })
+      if (!quoteRes.ok) throw new Error((await quoteRes.json()).error || 'Could not quote payment')
+      const { booking: quoted, quote } = await quoteRes.json() as { booking: Booking; quote: SignedQuote | null }
+      const paymentToken  = quoted.paymentToken as `0x${string}` | null
+      const paymentAmount = paymentToken ? BigInt(quoted.paymentAmount!) : parseEther(booking.totalBnb)
+      setBooking({ ...booking, paymentToken, paymentAmount: quoted.paymentAmount })
+      setSignedQuote(quote)
+
       // Derive deterministic bookingId (bytes32)
       const chainBid = deriveBookingId(
         address as `0x${string}`,
@@ -76,23 +134,52 @@ export default function PayPage() {
         visibilityTier:  booking.wall.visibilityTier,
         visibilityMult:  booking.visibilityMult,
         totalBnb:        booking.totalBnb,
+        pricingRules:    booking.pricingRulesJson,
+        paymentToken,
+        paymentAmount:   paymentAmount.toString(),
+        ...terms,
       })
 
-      // Save chainBookingId to DB
-      await fetch(`/api/bookings/${booking.id}`, {
+      // Save chainBookingId to DB — fails if the date hold lapsed and was taken
+      const bindRes = await fetch(`/api/bookings/${booking.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ chainBookingId: chainBid, metadataHash: metaHash }),
       })
+      if (!bindRes.ok) throw new Error((await bindRes.json()).error || 'Could not reserve these dates')
 
-      // Send the transaction
-      fund(
-        chainBid as `0x${string}`,
-        booking.wall.ownerAddress as `0x${string}`,
-        (booking.installerAddress || booking.wall.ownerAddress) as `0x${string}`,
-        metaHash as `0x${string}`,
-        booking.totalBnb
-      )
+      const wallOwner = booking.wall.ownerAddress as `0x${string}`
+      const installer = (booking.installerAddress || booking.wall.ownerAddress) as `0x${string}`
+
+      // Send the transaction — against the signed quote when there is one (no permit path)
+      if (quote) {
+        const fundQuoted = () => quoteFund.fund(chainBid, wallOwner, installer, metaHash, terms, quote)
+        if (!paymentToken || allowance >= paymentAmount) {
+          fundQuoted()
+        } else {
+          setQueuedFund(() => fundQuoted)
+          approval.approve(paymentToken, paymentAmount)
+        }
+        return
+      }
+
+      if (!paymentToken) {
+        bnbFund.fund(chainBid, wallOwner, installer, metaHash, booking.totalBnb, terms)
+        return
+      }
+
+      const fundWithToken = (sig?: PermitSignature) =>
+        tokenFund.fund(chainBid, wallOwner, installer, metaHash, terms, paymentToken, paymentAmount, sig)
+
+      if (allowance >= paymentAmount) {
+        fundWithToken()
+      } else if (permitNonce !== undefined && tokenName) {
+        const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600)
+        fundWithToken(await permit.sign(paymentToken, tokenName, address, paymentAmount, permitNonce, deadline))
+      } else {
+        setQueuedFund(() => () => fundWithToken())
+        approval.approve(paymentToken, paymentAmount)
+      }
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Transaction failed')
     }
@@ -100,6 +187,22 @@ export default function PayPage() {
 
   const wrongChain = chainId !== CHAIN_ID
 
+  // Amount in the chosen currency: the server quote once taken, else an estimate
+  const payAmount = !booking ? null
+    : !token?.address ? parseEther(booking.totalBnb)
+    : booking.paymentToken === token.address.toLowerCase() && booking.paymentAmount ? BigInt(booking.paymentAmount)
+    : decimals !== undefined && usdPrice ? bnbToToken(parseEther(booking.totalBnb), usdPrice, decimals)
+    : null
+  const payDecimals = token?.address ? decimals : 18
+
+  // Payout on approval — the platform fee is whatever the contract commits at funding
+  const fees = { platformFeeBps: Number(platformFeeBps ?? 0), installerFeeBps: booking?.installerFeeBps ?? 0 }
+  const split = payAmount !== null && payDecimals !== undefined ? splitPayout(payAmount, fees, payDecimals) : null
+  const payTotal = payAmount !== null && payDecimals !== undefined
+    ? `${Number(formatUnits(payAmount, payDecimals)).toFixed(6)} ${currency}`
+    : '…'
+  const approving = approval.isPending || approval.isConfirming || permit.isPending
+
   if (loading) return (
     <div className="page-container py-16 text-center">
       <Loader2 className="animate-spin text-brand mx-auto" size={32} />
@@ -137,6 +240,10 @@ export default function PayPage() {
           ['Area',      `${booking.areaSqft} sqft`],
           ['Installer', booking.installerAddress ? booking.installerAddress.slice(0,10)+'...' : 'Same as owner'],
           ['Wall Owner',booking.wall.ownerAddress.slice(0,10)+'...'],
+          ...(booking.proofDeadlineSec && booking.disputeWindowSec ? [
+            ['Proof due', `${Math.round(booking.proofDeadlineSec / 86400)} days after funding`],
+            ['Dispute window', `${Math.round(booking.disputeWindowSec / 86400)} days after proof`],
+          ] : []),
         ].map(([k,v]) => (
           <div key={k} className="flex justify-between text-sm">
             <span className="text-slate-500">{k}</span>
@@ -145,18 +252,66 @@ export default function PayPage() {
         ))}
         <div className="flex justify-between pt-3 border-t border-surface-border font-bold">
           <span className="text-slate-300">Total Escrow</span>
-          <span className="text-brand text-xl">{booking.totalBnb} BNB</span>
+          <span className="text-brand text-xl">{currency === 'BNB' ? `${booking.totalBnb} BNB` : payTotal}</span>
         </div>
+        {currency !== 'BNB' && (
+          <p className="text-xs text-slate-500 text-right">
+            {booking.totalBnb} BNB at {usdPrice ? `$${usdPrice.toFixed(2)}` : '…'} / BNB — final amount quoted when you fund
+          </p>
+        )}
+        {split && (
+          <div className="space-y-1 pt-2">
+            <p className="text-xs text-slate-500">Paid out on approval</p>
+            {[
+              ['Wall owner', split.wallOwner],
+              [`Installer (${formatBps(fees.installerFeeBps)})`, split.installer],
+              [`Platform fee (${formatBps(fees.platformFeeBps)})`, split.platform],
+            ].map(([k, v]) => (
+              <div key={k} className="flex justify-between text-xs">
+                <span className="text-slate-500">{k}</span>
+                <span className="text-slate-300 font-mono">{v} {currency}</span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
+      {/* Currency selector */}
+      {PAYMENT_TOKENS.length > 1 && (
+        <div className="card mb-6">
+          <label className="label">Pay with</label>
+          <div className="flex gap-2">
+            {PAYMENT_TOKENS.map(t => (
+              <button
+                key={t.symbol}
+                className={`flex-1 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                  currency === t.symbol
+                    ? 'border-brand bg-brand/10 text-brand'
+                    : 'border-surface-border text-slate-400 hover:border-brand/50'
+                }`}
+                disabled={!!txHash || approving}
+                onClick={() => setCurrency(t.symbol)}
+              >
+                {t.symbol}
+              </button>
+            ))}
+          </div>
+          {currency !== 'BNB' && permitNonce === undefined && payAmount !== null && allowance < payAmount && (
+            <p className="text-xs text-slate-500 mt-2">
+              {currency} needs a one-time approve() transaction before funding.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Escrow explanation */}
       <div className="flex items-start gap-3 p-4 bg-brand/5 border border-brand/20 rounded-xl mb-6">
         <Shield size={20} className="text-brand shrink-0 mt-0.5" />
         <div className="text-sm text-slate-400 space-y-1">
           <p><strong className="text-slate-300">How escrow works:</strong></p>
-          <p>Your BNB is locked in the smart contract — not held by any platform.</p>
-          <p>It&apos;s released to the wall owner <em>only after you approve</em> the installation proof.</p>
-          <p>If the installer ghosts, you reclaim after 14 days automatically.</p>
+          <p>Your {currency} is locked in the smart contract — not held by any platform.</p>
+          <p>It&apos;s split between the wall owner, installer and platform <em>only after you approve</em> the installation proof.</p>
+          <p>If the installer misses the proof deadline, you can reclaim your funds.</p>
         </div>
       </div>
 
@@ -207,11 +362,13 @@ export default function PayPage() {
         <button
           className="btn-primary w-full py-4 text-base"
           onClick={handlePay}
-          disabled={isPending || isConfirming}
+          disabled={isPending || isConfirming || approving || !!queuedFund}
         >
-          {isPending || isConfirming
+          {approving || queuedFund
+            ? <><Loader2 size={18} className="animate-spin" /> {approval.isConfirming ? `Approving ${currency}...` : 'Confirm in wallet...'}</>
+            : isPending || isConfirming
             ? <><Loader2 size={18} className="animate-spin" /> {isPending ? 'Confirm in wallet...' : 'Confirming...'}</>
-            : <><Shield size={18} /> Fund Escrow — {booking.totalBnb} BNB</>
+            : <><Shield size={18} /> Fund Escrow — {currency === 'BNB' ? `${booking.totalBnb} BNB` : payTotal}</>
           }
         </button>
       )}
@@ -1,9 +1,10 @@
 'use client'
 
-import { RainbowKitProvider, darkTheme } from '@rainbow-me/rainbowkit'
+import { RainbowKitProvider, RainbowKitAuthenticationProvider, darkTheme } from '@rainbow-me/rainbowkit'
 import { WagmiProvider } from 'wagmi'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { wagmiConfig } from '@/lib/wagmi'
+import { useSession, useSiweAdapter } from '@/hooks/useSession'
 import '@rainbow-me/rainbowkit/styles.css'
 import { useState } from 'react'
 
@@ -24,18 +25,30 @@ export function Providers({ children }: { children: React.ReactNode }) {
   return (
     <WagmiProvider config={wagmiConfig}>
       <QueryClientProvider client={queryClient}>
-        <RainbowKitProvider
-          theme={darkTheme({
-            accentColor:          '#F5A623',
-            accentColorForeground: 'black',
-            borderRadius:         'medium',
-            fontStack:            'system',
-          })}
-          modalSize="compact"
-        >
-          {children}
-        </RainbowKitProvider>
+        <AuthenticatedRainbowKit>{children}</AuthenticatedRainbowKit>
       </QueryClientProvider>
     </WagmiProvider>
   )
 }
+
+// SIWE sign-in runs inside the query client so session state can be cached
+function AuthenticatedRainbowKit({ children }: { children: React.ReactNode }) {
+  const adapter    = useSiweAdapter()
+  const { status } = useSession()
+
+  return (
+    <RainbowKitAuthenticationProvider adapter={adapter} status={status}>
+      <RainbowKitProvider
+        theme={darkTheme({
+          accentColor:          '#F5A623',
+          accentColorForeground: 'black',
+          borderRadius:         'medium',
+          fontStack:            'system',
+        })}
+        modalSize="compact"
+      >
+        {children}
+      </RainbowKitProvider>
+    </RainbowKitAuthenticationProvider>
+  )
+}
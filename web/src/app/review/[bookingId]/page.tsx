@@ -3,15 +3,18 @@
 import { useState, useEffect }  from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import { useAccount }            from 'wagmi'
-import { useApproveProof, useRejectProof, useClaimAfterTimeout, useOnChainBooking, useCanClaimTimeout } from '@/hooks/useEscrow'
+import { useApproveProof, useRejectProof, useClaimAfterTimeout, useContestDispute, useFinalizeDispute, useResolveAfterTimeout, useOnChainBooking, useCanClaimTimeout, useArbitrationDeadlineAt } from '@/hooks/useEscrow'
 import type { Booking }          from '@/types'
-import { ipfsImageUrl }          from '@/lib/ipfs'
-import { keccak256 }             from 'viem'
+import { ipfsImageUrl, ipfsUrl } from '@/lib/ipfs'
+import { keccak256, zeroAddress } from 'viem'
 import { EXPLORER_BASE }         from '@/lib/contract'
 import { BookingStatus }         from '@/components/BookingStatus'
-import { CheckCircle, XCircle, Clock, ExternalLink, Loader2, AlertTriangle, Shield, Image as ImageIcon, Video, Star } from 'lucide-react'
+import { CheckCircle, XCircle, Clock, ExternalLink, Loader2, AlertTriangle, Shield, Image as ImageIcon, Video, Star, Scale } from 'lucide-react'
 import { formatBnb }             from '@/lib/pricing'
 import { timeUntil }             from '@/lib/utils'
+import { milestoneLabel }        from '@/lib/terms'
+import { verifyProofPackage, fetchIpfsBytes, type ProofPackageVerification } from '@/lib/cid'
+import { verifyProofRecord }     from '@/lib/proofManifest'
 
 export default function ReviewPage() {
   const { bookingId }          = useParams<{ bookingId: string }>()
@@ -24,16 +27,24 @@ export default function ReviewPage() {
   const [error,    setError]    = useState('')
   const [rejectReason, setRejectReason] = useState('')
   const [showRejectForm, setShowRejectForm] = useState(false)
+  const [contestReason, setContestReason]   = useState('')
   const [photoIdx, setPhotoIdx] = useState(0)
+  const [verification, setVerification] = useState<ProofPackageVerification | null>(null)
+  const [signatureError, setSignatureError] = useState<string | null>(null)
+  const [verifying,    setVerifying]    = useState(false)
 
   const { approve, hash: approveHash, isPending: approvePending, isConfirming: approveConfirming, isSuccess: approveSuccess, error: approveError } = useApproveProof()
   const { reject,  hash: rejectHash,  isPending: rejectPending,  isConfirming: rejectConfirming,  isSuccess: rejectSuccess,  error: rejectError  } = useRejectProof()
   const { claim,   hash: claimHash,   isPending: claimPending,   isConfirming: claimConfirming,   isSuccess: claimSuccess,   error: claimError   } = useClaimAfterTimeout()
+  const { contest, hash: contestHash, isPending: contestPending, isConfirming: contestConfirming, isSuccess: contestSuccess, error: contestError } = useContestDispute()
+  const { finalize, hash: finalizeHash, isPending: finalizePending, isConfirming: finalizeConfirming, isSuccess: finalizeSuccess, error: finalizeError } = useFinalizeDispute()
+  const { resolveAfterTimeout, hash: splitHash, isPending: splitPending, isConfirming: splitConfirming, isSuccess: splitSuccess, error: splitError } = useResolveAfterTimeout()
 
   // Read on-chain state for the booking
   const chainBid = booking?.chainBookingId as `0x${string}` | undefined
   const { data: onChainBooking } = useOnChainBooking(chainBid)
   const { data: canClaim       } = useCanClaimTimeout(chainBid)
+  const { data: arbitrationDeadline } = useArbitrationDeadlineAt(chainBid)
 
   useEffect(() => {
     fetch(`/api/bookings/${bookingId}`)
@@ -42,47 +53,74 @@ export default function ReviewPage() {
       .catch(() => setLoading(false))
   }, [bookingId])
 
-  // Sync chain state back to DB after any successful tx
+  // After any successful tx, hint it to the indexer — it derives the new status from the receipt
   useEffect(() => {
     if (!booking) return
-    const hash = approveHash || rejectHash || claimHash
-    if (!hash) return
-
-    const newStatus = approveSuccess ? 'APPROVED' : rejectSuccess ? 'REJECTED' : claimSuccess ? 'APPROVED' : null
-    if (!newStatus) return
+    const hash = approveHash || rejectHash || claimHash || contestHash || finalizeHash || splitHash
+    if (!hash || !(approveSuccess || rejectSuccess || claimSuccess || contestSuccess || finalizeSuccess || splitSuccess)) return
 
     fetch(`/api/bookings/${booking.id}`, {
       method: 'PATCH',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ 
-        txHashSettle: hash, 
-        status: newStatus,
-        rating: approveSuccess ? rating : null 
-      }),
-    }).then(() => {
+      body: JSON.stringify({ txHash: hash }),
+    }).then(async () => {
+      if (approveSuccess) {
+        await fetch(`/api/bookings/${booking.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ rating }),
+        })
+      }
       if (rejectSuccess && booking.proof) {
-        fetch(`/api/proofs/${booking.id}`, {
+        await fetch(`/api/proofs/${booking.id}`, {
           method: 'PATCH',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ decision: 'rejected', rejectionReason: rejectReason }),
         })
       }
+      if (contestSuccess) {
+        await fetch(`/api/proofs/${booking.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ contestReason }),
+        })
+      }
       setTimeout(() => router.push('/dashboard'), 2500)
     })
-  }, [approveSuccess, rejectSuccess, claimSuccess])
+  }, [approveSuccess, rejectSuccess, claimSuccess, contestSuccess, finalizeSuccess, splitSuccess])
+
+  // Compare the manifest with the hash the installer committed on-chain, then
+  // check its installer signature and that the stored proof still matches it
+  const handleVerify = async () => {
+    const chainHash = onChainBooking?.proofContentHash
+    const proof     = booking?.proof
+    if (!proof || !chainHash) return
+    setVerifying(true)
+    try {
+      if (/^0x0+$/.test(chainHash)) {
+        setVerification({ ok: false, cidMatches: false, fetchedHash: null, contentMatches: false, error: 'No proof hash on-chain yet' })
+        setSignatureError(null)
+        return
+      }
+      let manifestBytes: Uint8Array | null = null
+      const result = await verifyProofPackage(proof.proofPackageCid, chainHash, async cid => {
+        manifestBytes = await fetchIpfsBytes(cid)
+        return manifestBytes
+      })
+      setVerification(result)
+      setSignatureError(
+        !manifestBytes              ? null
+        : !proof.installerSignature ? 'This proof predates signed manifests'
+        : await verifyProofRecord(manifestBytes, proof, proof.installerAddress)
+      )
+    } finally {
+      setVerifying(false)
+    }
+  }
 
   const handleApprove = () => {
     if (!booking?.chainBookingId) return
     approve(booking.chainBookingId as `0x${string}`)
-
-    // Optimistic DB update for the rating (handled formally in the useEffect sync)
-    fetch(`/api/bookings/${booking.id}`, {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ 
-        rating: rating 
-      }),
-    })
   }
 
   const handleReject = () => {
@@ -100,20 +138,47 @@ export default function ReviewPage() {
     claim(booking.chainBookingId as `0x${string}`)
   }
 
+  const handleContest = () => {
+    if (!booking?.chainBookingId || !contestReason.trim()) {
+      setError('Please explain why the rejection is wrong.')
+      return
+    }
+    const reasonHash = keccak256(new TextEncoder().encode(contestReason)) as `0x${string}`
+    contest(booking.chainBookingId as `0x${string}`, reasonHash)
+  }
+
+  const handleFinalize = () => {
+    if (!booking?.chainBookingId) return
+    finalize(booking.chainBookingId as `0x${string}`)
+  }
+
+  const handleSplit = () => {
+    if (!booking?.chainBookingId) return
+    resolveAfterTimeout(booking.chainBookingId as `0x${string}`)
+  }
+
   if (loading) return <div className="page-container py-16 text-center"><Loader2 className="animate-spin text-brand mx-auto" /></div>
   if (!booking) return <div className="page-container py-16 text-center text-red-400">Booking not found</div>
 
   const proof         = booking.proof
   const isAdvertiser  = address?.toLowerCase() === booking.advertiserAddress?.toLowerCase()
+  const isWallOwner   = address?.toLowerCase() === booking.wall.ownerAddress?.toLowerCase()
   const allPhotos     = proof ? [...(proof.beforePhotoCids || []), ...(proof.afterPhotoCids || [])] : []
   const disputeEnd    = booking.disputeDeadline ? new Date(booking.disputeDeadline) : null
   const windowOpen    = disputeEnd ? disputeEnd > new Date() : true
-
-  const txHash        = approveHash || rejectHash || claimHash
-  const isPending     = approvePending || rejectPending || claimPending
-  const isConfirming  = approveConfirming || rejectConfirming || claimConfirming
-  const isSuccess     = approveSuccess || rejectSuccess || claimSuccess
-  const txError       = approveError || rejectError || claimError
+  const contestEnd    = booking.contestDeadline ? new Date(booking.contestDeadline) : null
+  const contestOpen   = contestEnd ? contestEnd > new Date() : true
+  const arbitrated    = !!onChainBooking && onChainBooking.arbiter !== zeroAddress
+  // The booking's arbiter let ARBITRATION_TIMEOUT pass; anyone may split the escrow
+  const arbitrationLapsed = !!arbitrationDeadline && Number(arbitrationDeadline) * 1000 < Date.now()
+  const multiMilestone = booking.milestoneCount > 1
+  const lastMilestone = booking.currentMilestone >= booking.milestoneCount - 1
+
+  const txHash        = approveHash || rejectHash || claimHash || contestHash || finalizeHash || splitHash
+  const isPending     = approvePending || rejectPending || claimPending || contestPending || finalizePending || splitPending
+  const isConfirming  = approveConfirming || rejectConfirming || claimConfirming || contestConfirming || finalizeConfirming || splitConfirming
+  const isSuccess     = approveSuccess || rejectSuccess || claimSuccess || contestSuccess || finalizeSuccess || splitSuccess
+  const txError       = approveError || rejectError || claimError || contestError || finalizeError || splitError
 
   return (
     <div className="page-container py-8">
@@ -124,6 +189,11 @@ export default function ReviewPage() {
           <div>
             <h1 className="section-title">Review Installation Proof</h1>
             <p className="text-slate-500 mt-1">{booking.wall.title} — {booking.wall.city}</p>
+            {multiMilestone && proof && (
+              <p className="text-xs text-slate-500 mt-1">
+                Milestone {proof.milestone + 1} of {booking.milestoneCount}: {milestoneLabel(proof.milestone, booking.milestoneCount)}
+              </p>
+            )}
           </div>
 
           {!proof ? (
@@ -223,7 +293,7 @@ export default function ReviewPage() {
                       <span className="text-slate-500 shrink-0">{k}</span>
                       {k === 'IPFS Manifest' ? (
                         <a
-                          href={`https://gateway.pinata.cloud/ipfs/${v}`}
+                          href={ipfsUrl(v)}
                           target="_blank" rel="noreferrer"
                           className="text-brand text-xs font-mono hover:underline flex items-center gap-1"
                         >
@@ -239,14 +309,43 @@ export default function ReviewPage() {
 
                 {/* On-chain verification */}
                 {booking.chainBookingId && (
-                  <div className="flex items-center gap-2 p-3 bg-emerald-400/5 border border-emerald-400/20 rounded-lg text-xs text-slate-400">
-                    <Shield size={13} className="text-emerald-400 shrink-0" />
-                    Proof hash recorded on BNB Chain.{' '}
-                    {booking.txHashProof && (
-                      <a href={`${EXPLORER_BASE}/tx/${booking.txHashProof}`} target="_blank" rel="noreferrer"
-                        className="text-emerald-400 hover:underline flex items-center gap-1">
-                        Verify on-chain <ExternalLink size={10} />
-                      </a>
+                  <div className="p-3 bg-emerald-400/5 border border-emerald-400/20 rounded-lg text-xs text-slate-400 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Shield size={13} className="text-emerald-400 shrink-0" />
+                      Proof hash recorded on BNB Chain.{' '}
+                      {booking.txHashProof && (
+                        <a href={`${EXPLORER_BASE}/tx/${booking.txHashProof}`} target="_blank" rel="noreferrer"
+                          className="text-emerald-400 hover:underline flex items-center gap-1">
+                          View tx <ExternalLink size={10} />
+                        </a>
+                      )}
+                      <button onClick={handleVerify} disabled={verifying || !onChainBooking}
+                        className="ml-auto text-emerald-400 hover:underline flex items-center gap-1 disabled:opacity-50">
+                        {verifying && <Loader2 size={10} className="animate-spin" />}
+                        Verify on-chain
+                      </button>
+                    </div>
+                    {verification && (
+                      verification.ok ? (
+                        <p className="flex items-center gap-1.5 text-emerald-400">
+                          <CheckCircle size={12} /> The manifest and its CID match the hash in the escrow.
+                        </p>
+                      ) : (
+                        <p className="flex items-center gap-1.5 text-red-400">
+                          <XCircle size={12} /> {verification.error}
+                        </p>
+                      )
+                    )}
+                    {verification?.fetchedHash && (
+                      signatureError === null ? (
+                        <p className="flex items-center gap-1.5 text-emerald-400">
+                          <CheckCircle size={12} /> Signed by the installer; the proof details match what they signed.
+                        </p>
+                      ) : (
+                        <p className="flex items-center gap-1.5 text-red-400">
+                          <XCircle size={12} /> {signatureError}
+                        </p>
+                      )
                     )}
                   </div>
                 )}
@@ -275,6 +374,42 @@ export default function ReviewPage() {
             </div>
           )}
 
+          {/* Arbitration */}
+          {(booking.status === 'DISPUTED' || booking.status === 'CONTESTED' || booking.status === 'RESOLVED') && proof && (
+            <div className="card border border-orange-400/30 bg-orange-400/5 space-y-2 text-xs">
+              <div className="flex items-center gap-2">
+                <Scale size={14} className="text-orange-400" />
+                <span className="text-sm font-medium text-slate-200">Dispute</span>
+              </div>
+              {proof.rejectionReason && (
+                <p className="text-slate-400"><span className="text-slate-500">Advertiser:</span> {proof.rejectionReason}</p>
+              )}
+              {proof.contestReason && (
+                <p className="text-slate-400"><span className="text-slate-500">Wall owner:</span> {proof.contestReason}</p>
+              )}
+              {booking.status === 'DISPUTED' && contestEnd && (
+                <p className={contestOpen ? 'text-orange-400' : 'text-red-400'}>
+                  {contestOpen
+                    ? `Owner can contest — ${timeUntil(BigInt(Math.floor(contestEnd.getTime() / 1000)))}`
+                    : 'Contest window closed — refund can be finalized'}
+                </p>
+              )}
+              {booking.status === 'CONTESTED' && (
+                <p className={arbitrationLapsed ? 'text-red-400' : 'text-orange-400'}>
+                  {arbitrationLapsed
+                    ? 'The arbiter did not rule in time — the escrow can be split evenly'
+                    : `Awaiting the arbiter's decision${arbitrationDeadline ? ` — ${timeUntil(arbitrationDeadline)}` : ''}.`}
+                </p>
+              )}
+              {booking.status === 'RESOLVED' && booking.resolutionShareBps !== null && (
+                <p className="text-cyan-400">
+                  {booking.resolutionShareBps / 100}% was awarded to the wall owner,
+                  the rest was refunded.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* On-chain state */}
           {onChainBooking && (
             <div className="card text-xs space-y-1">
@@ -285,7 +420,7 @@ export default function ReviewPage() {
               </div>
               <div className="flex justify-between">
                 <span className="text-slate-600">State</span>
-                <span className="text-slate-300">{['Funded','ProofSubmitted','Approved','Rejected','Expired'][onChainBooking.state]}</span>
+                <span className="text-slate-300">{['Funded','ProofSubmitted','Approved','Rejected','Expired','Disputed','Contested','Resolved'][onChainBooking.state]}</span>
               </div>
             </div>
           )}
@@ -316,14 +451,21 @@ export default function ReviewPage() {
             <div className="card text-center space-y-2">
               <CheckCircle size={36} className="text-emerald-400 mx-auto" />
               <p className="text-sm font-medium text-slate-200">
-                {approveSuccess ? 'Approved! Funds released.' : rejectSuccess ? 'Rejected. Refund sent.' : 'Auto-released.'}
+                {approveSuccess ? (lastMilestone ? 'Approved! Funds released.' : 'Approved! Milestone share released.')
+                  : rejectSuccess ? (arbitrated ? 'Rejected. The wall owner may contest before the refund.' : 'Rejected. Refund sent.')
+                  : contestSuccess ? 'Contested. The arbiter will decide.'
+                  : finalizeSuccess ? 'Dispute closed. Refund sent.'
+                  : splitSuccess ? 'Dispute split evenly. Funds released.'
+                  : 'Auto-released.'}
               </p>
               <p className="text-xs text-slate-500">Redirecting to dashboard...</p>
             </div>
           ) : booking.status === 'PROOF_SUBMITTED' && isAdvertiser ? (
             <div className="space-y-4">
               <p className="text-xs text-slate-500 text-center">
-                Review the proof above. You have final authority to release funds or request a refund.
+                {arbitrated
+                  ? 'Review the proof above. A rejection can be contested by the wall owner and settled by the arbiter.'
+                  : 'Review the proof above. You have final authority to release funds or request a refund.'}
               </p>
 
               {/* Interactive Rating Selector */}
@@ -360,7 +502,7 @@ export default function ReviewPage() {
                   ? <><Loader2 size={15} className="animate-spin" /> Confirm in wallet...</>
                   : isConfirming && !rejectConfirming
                   ? <><Loader2 size={15} className="animate-spin" /> Confirming...</>
-                  : <><CheckCircle size={15} /> Approve & Release Funds</>
+                  : <><CheckCircle size={15} /> {lastMilestone ? 'Approve & Release Funds' : 'Approve & Release Milestone Share'}</>
                 }
               </button>
 
@@ -400,6 +542,58 @@ export default function ReviewPage() {
                 </div>
               )}
             </div>
+          ) : booking.status === 'DISPUTED' && isWallOwner && contestOpen ? (
+            <div className="space-y-2 p-3 bg-orange-400/5 border border-orange-400/20 rounded-xl">
+              <label className="label text-xs">Why was the installation correct? <span className="text-red-400">*</span></label>
+              <textarea
+                className="input text-sm min-h-[80px] resize-none"
+                placeholder="e.g. Banner matches the agreed placement, see after photos..."
+                value={contestReason}
+                onChange={e => setContestReason(e.target.value)}
+              />
+              <button
+                className="btn-primary w-full py-2 text-sm"
+                onClick={handleContest}
+                disabled={!contestReason.trim() || isPending || isConfirming}
+              >
+                {contestPending || contestConfirming
+                  ? <Loader2 size={13} className="animate-spin" />
+                  : <><Scale size={13} /> Contest & Send to Arbiter</>
+                }
+              </button>
+            </div>
+          ) : booking.status === 'DISPUTED' && !contestOpen ? (
+            <div className="space-y-2">
+              <p className="text-xs text-slate-500 text-center">
+                The wall owner did not contest. Anyone can finalize the refund.
+              </p>
+              <button
+                className="btn-secondary w-full py-3"
+                onClick={handleFinalize}
+                disabled={isPending || isConfirming}
+              >
+                {finalizePending || finalizeConfirming
+                  ? <Loader2 size={15} className="animate-spin" />
+                  : <><XCircle size={15} /> Finalize Refund</>
+                }
+              </button>
+            </div>
+          ) : booking.status === 'CONTESTED' && arbitrationLapsed ? (
+            <div className="space-y-2">
+              <p className="text-xs text-slate-500 text-center">
+                The arbiter did not rule in time. Anyone can split the escrow 50/50.
+              </p>
+              <button
+                className="btn-secondary w-full py-3"
+                onClick={handleSplit}
+                disabled={isPending || isConfirming}
+              >
+                {splitPending || splitConfirming
+                  ? <Loader2 size={15} className="animate-spin" />
+                  : <><Scale size={15} /> Split Escrow Evenly</>
+                }
+              </button>
+            </div>
           ) : canClaim ? (
             <div className="space-y-2">
               <p className="text-xs text-slate-500 text-center">
@@ -4,19 +4,22 @@ import Link             from 'next/link'
 import { useAccount }   from 'wagmi'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
 import { MapPin, Maximize2, Star, Calendar, Wallet, Shield, Clock, Info } from 'lucide-react'
-import type { Wall }    from '@/types'
+import type { WallView } from '@/types'
 import { ipfsImageUrl } from '@/lib/ipfs'
 import { VISIBILITY_MULTIPLIERS } from '@/lib/pricing'
 import { shortenAddress } from '@/lib/utils'
 import { useState }     from 'react'
 import { useBnbPrice }  from '@/hooks/useBnbPrice'
+import { useWallAvailability } from '@/hooks/useWallAvailability'
+import { AvailabilityCalendar } from '@/components/AvailabilityCalendar'
 
-interface WallDetailProps { wall: any } // Accommodating aggregated rating fields
+interface WallDetailProps { wall: WallView & { avgRating?: number } }
 
 export function WallDetail({ wall }: WallDetailProps) {
   const { isConnected, address } = useAccount()
   const { convert } = useBnbPrice()
   const [imgIdx, setImgIdx]      = useState(0)
+  const { ranges }               = useWallAvailability(wall.id)
 
   const visInfo = VISIBILITY_MULTIPLIERS[wall.visibilityTier]
   const photos  = wall.photoCids?.length
@@ -168,6 +171,15 @@ export function WallDetail({ wall }: WallDetailProps) {
               ))}
             </div>
           </div>
+
+          {/* Availability */}
+          <div className="card space-y-4">
+            <h2 className="font-semibold text-slate-100 flex items-center gap-2">
+              <Calendar size={18} className="text-brand" />
+              Availability
+            </h2>
+            <AvailabilityCalendar ranges={ranges} minDate={new Date().toISOString().slice(0, 10)} />
+          </div>
         </div>
 
         {/* ── Right: booking panel ─────────────────────────────────── */}
@@ -183,6 +195,15 @@ export function WallDetail({ wall }: WallDetailProps) {
                 <p className="text-sm text-yellow-400 font-medium">
                   This wall is currently {wall.status.toLowerCase().replace('_', ' ')}.
                 </p>
+                {isOwner && wall.status === 'PENDING_REVIEW' && (
+                  <p className="text-xs text-slate-400 mt-2">It becomes bookable once an admin approves it.</p>
+                )}
+                {isOwner && wall.moderationReason && wall.status !== 'PENDING_REVIEW' && (
+                  <p className="text-xs text-slate-400 mt-2">Reason: {wall.moderationReason}</p>
+                )}
+                {isOwner && wall.status === 'REJECTED' && (
+                  <p className="text-xs text-slate-400 mt-1">Editing the listing sends it back for review.</p>
+                )}
               </div>
             ) : !isConnected ? (
               <div className="space-y-4">
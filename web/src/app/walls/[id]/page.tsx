@@ -1,25 +1,18 @@
 import { notFound }  from 'next/navigation'
 import { prisma }    from '@/lib/db'
+import { getServerSession }           from '@/lib/auth'
+import { wallAccess, serializeWall } from '@/lib/moderation'
 import { WallDetail } from './WallDetail'
 
 export default async function WallPage({ params }: { params: { id: string } }) {
   const wall = await prisma.wall.findUnique({
     where: { id: params.id },
-    include: { owner: true },
+    include: { owner: { select: { walletAddress: true } } },
   })
-
   if (!wall) notFound()
 
-  const serialized = {
-    ...wall,
-    areaSqft:  wall.areaSqft  ?? null,
-    widthFt:   wall.widthFt   ?? null,
-    heightFt:  wall.heightFt  ?? null,
-    cvConfidence: wall.cvConfidence ?? null,
-    ownerAddress: wall.owner.walletAddress,
-    createdAt: wall.createdAt.toISOString(),
-    updatedAt: wall.updatedAt.toISOString(),
-  }
+  const access = await wallAccess(wall, getServerSession()?.address)
+  if (!access.visible) notFound()
 
-  return <WallDetail wall={serialized as any} />
+  return <WallDetail wall={serializeWall(wall, access)} />
 }
@@ -120,7 +120,6 @@ export default function NewWallPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          ownerAddress: address,
           title,
           description,
           addressText,
@@ -0,0 +1,128 @@
+'use client'
+
+import { useState }          from 'react'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import type { OccupiedRange } from '@/lib/availability'
+import { cn }                from '@/lib/utils'
+
+interface AvailabilityCalendarProps {
+  ranges:    OccupiedRange[]
+  minDate?:  string                                  // YYYY-MM-DD; earlier days are disabled
+  start?:    string                                  // selected range, end exclusive
+  end?:      string
+  onSelect?: (start: string, end: string) => void    // omit for a read-only calendar
+  canStart?: (day: string) => boolean                // e.g. the wall's booking rules
+  canEnd?:   (start: string, end: string) => boolean
+}
+
+const WEEKDAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa']
+
+const TAKEN_TITLES: Record<OccupiedRange['kind'], string> = {
+  booked:   'Booked',
+  held:     'Reserved — awaiting payment',
+  blackout: 'Not available for booking',
+}
+
+// Days are YYYY-MM-DD strings in UTC, which compare correctly as strings
+const dayKey = (y: number, m: number, d: number) =>
+  new Date(Date.UTC(y, m, d)).toISOString().slice(0, 10)
+
+export function isDayTaken(ranges: OccupiedRange[], day: string): OccupiedRange | undefined {
+  return ranges.find(r => r.start <= day && day < r.end)
+}
+
+/** True when no booked or held range overlaps [start, end) */
+export function isRangeFree(ranges: OccupiedRange[], start: string, end: string): boolean {
+  return !ranges.some(r => r.start < end && r.end > start)
+}
+
+/**
+ * Month calendar that greys out booked days and tints held ones (unpaid
+ * bookings still within their reservation) and blackouts. With `onSelect`, the
+ * first click picks the start day and the second the end day; ranges crossing
+ * a taken day, or refused by `canStart` / `canEnd`, are not selectable.
+ */
+export function AvailabilityCalendar({
+  ranges, minDate, start, end, onSelect, canStart, canEnd,
+}: AvailabilityCalendarProps) {
+  const initial = new Date(start ?? minDate ?? Date.now())
+  const [month,  setMonth]  = useState({ y: initial.getUTCFullYear(), m: initial.getUTCMonth() })
+  const [anchor, setAnchor] = useState<string | null>(null)
+
+  const firstWeekday = new Date(Date.UTC(month.y, month.m, 1)).getUTCDay()
+  const daysInMonth  = new Date(Date.UTC(month.y, month.m + 1, 0)).getUTCDate()
+  const title = new Date(Date.UTC(month.y, month.m, 1))
+    .toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+
+  const shift = (delta: number) =>
+    setMonth(({ y, m }) => ({ y: y + Math.floor((m + delta) / 12), m: (m + delta + 12) % 12 }))
+
+  const pick = (day: string) => {
+    if (!onSelect) return
+    if (anchor && day > anchor && isRangeFree(ranges, anchor, day) && (canEnd?.(anchor, day) ?? true)) {
+      onSelect(anchor, day)
+      setAnchor(null)
+    } else if (!isDayTaken(ranges, day) && (canStart?.(day) ?? true)) {
+      setAnchor(day)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <button type="button" onClick={() => shift(-1)} className="p-1 text-slate-400 hover:text-slate-200">
+          <ChevronLeft size={16} />
+        </button>
+        <p className="text-sm font-semibold text-slate-200">{title}</p>
+        <button type="button" onClick={() => shift(1)} className="p-1 text-slate-400 hover:text-slate-200">
+          <ChevronRight size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-xs">
+        {WEEKDAYS.map(d => <div key={d} className="text-slate-600 font-medium py-1">{d}</div>)}
+        {Array.from({ length: firstWeekday }, (_, i) => <div key={`pad-${i}`} />)}
+
+        {Array.from({ length: daysInMonth }, (_, i) => {
+          const day      = dayKey(month.y, month.m, i + 1)
+          const taken    = isDayTaken(ranges, day)
+          const blocked  = (!!minDate && day < minDate) || (!anchor && !!canStart && !canStart(day))
+          const selected = anchor ? day === anchor : !!start && !!end && start <= day && day < end
+          const isEnd    = !anchor && day === end
+
+          return (
+            <button
+              key={day}
+              type="button"
+              disabled={!onSelect || blocked || (!!taken && !anchor)}
+              onClick={() => pick(day)}
+              title={taken && TAKEN_TITLES[taken.kind]}
+              className={cn(
+                'py-1.5 rounded-md transition-colors',
+                taken?.kind === 'booked'   ? 'bg-surface-raised text-slate-600 line-through' :
+                taken?.kind === 'held'     ? 'bg-yellow-400/10 text-slate-500' :
+                taken?.kind === 'blackout' ? 'bg-red-500/10 text-slate-600' :
+                blocked                    ? 'text-slate-700' :
+                selected                   ? 'bg-brand text-black font-semibold' :
+                isEnd                      ? 'ring-1 ring-brand text-brand' :
+                'text-slate-300',
+                onSelect && !blocked && !taken && !selected && 'hover:bg-brand/20'
+              )}
+            >
+              {i + 1}
+            </button>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center gap-4 text-[10px] text-slate-500">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-surface-raised" /> Booked</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-yellow-400/10" /> Reserved</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-red-500/10" /> Unavailable</span>
+        {onSelect && (
+          <span>{anchor ? 'Now pick the end date' : 'Click a start date, then an end date'}</span>
+        )}
+      </div>
+    </div>
+  )
+}
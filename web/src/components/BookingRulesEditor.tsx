@@ -0,0 +1,164 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, Plus, Trash2, CheckCircle } from 'lucide-react'
+import {
+  DEFAULT_BOOKING_RULES, WEEKDAY_NAMES, validateBookingRules,
+  type BookingRules, type Blackout,
+} from '@/lib/bookingRules'
+import { cn }                  from '@/lib/utils'
+
+interface BookingRulesEditorProps {
+  wallId:   string
+  onClose?: () => void
+}
+
+const numOrNull = (v: string) => (v === '' ? null : Number(v))
+
+/**
+ * Owner form for a wall's booking rules and blackout ranges, saved through
+ * PUT /api/walls/[id]/rules. Blackout end dates are exclusive.
+ */
+export function BookingRulesEditor({ wallId, onClose }: BookingRulesEditorProps) {
+  const [rules,     setRules]     = useState<BookingRules>(DEFAULT_BOOKING_RULES)
+  const [blackouts, setBlackouts] = useState<Blackout[]>([])
+  const [loading,   setLoading]   = useState(true)
+  const [saving,    setSaving]    = useState(false)
+  const [saved,     setSaved]     = useState(false)
+  const [error,     setError]     = useState('')
+
+  useEffect(() => {
+    fetch(`/api/walls/${wallId}/rules`)
+      .then(r => r.json())
+      .then(data => {
+        if (data.error) throw new Error(data.error)
+        const { blackouts: list, ...r } = data
+        setRules(r)
+        setBlackouts(list || [])
+      })
+      .catch(e => setError(e instanceof Error ? e.message : 'Failed to load booking rules'))
+      .finally(() => setLoading(false))
+  }, [wallId])
+
+  const update = (patch: Partial<BookingRules>) => { setRules(r => ({ ...r, ...patch })); setSaved(false) }
+  const updateBlackout = (i: number, patch: Partial<Blackout>) => {
+    setBlackouts(list => list.map((b, j) => (j === i ? { ...b, ...patch } : b)))
+    setSaved(false)
+  }
+  const toggleWeekday = (d: number) => update({
+    startWeekdays: rules.startWeekdays.includes(d)
+      ? rules.startWeekdays.filter(x => x !== d)
+      : [...rules.startWeekdays, d].sort(),
+  })
+
+  const invalid = validateBookingRules(rules, blackouts)
+
+  const save = async () => {
+    setSaving(true)
+    setError('')
+    try {
+      const res  = await fetch(`/api/walls/${wallId}/rules`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...rules, blackouts }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to save booking rules')
+      setSaved(true)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save booking rules')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return <div className="flex justify-center py-6"><Loader2 className="animate-spin text-brand" size={20} /></div>
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className="label">Min days</label>
+          <input type="number" min={1} className="input" placeholder="Any"
+            value={rules.minBookingDays ?? ''} onChange={e => update({ minBookingDays: numOrNull(e.target.value) })} />
+        </div>
+        <div>
+          <label className="label">Max days</label>
+          <input type="number" min={1} className="input" placeholder="Any"
+            value={rules.maxBookingDays ?? ''} onChange={e => update({ maxBookingDays: numOrNull(e.target.value) })} />
+        </div>
+        <div>
+          <label className="label">Lead time (days)</label>
+          <input type="number" min={0} className="input"
+            value={rules.leadTimeDays} onChange={e => update({ leadTimeDays: Number(e.target.value) })} />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-slate-300">
+        <input type="checkbox" checked={rules.fullMonthsOnly}
+          onChange={e => update({ fullMonthsOnly: e.target.checked })} />
+        Full calendar months only (bookings run from the 1st to the 1st)
+      </label>
+
+      {!rules.fullMonthsOnly && (
+        <div>
+          <label className="label">Allowed start days</label>
+          <div className="flex flex-wrap gap-1.5">
+            {WEEKDAY_NAMES.map((name, d) => (
+              <button key={name} type="button" onClick={() => toggleWeekday(d)}
+                className={cn(
+                  'px-2.5 py-1 rounded-md text-xs border transition-colors',
+                  rules.startWeekdays.includes(d)
+                    ? 'bg-brand text-black border-brand font-semibold'
+                    : 'border-surface-border text-slate-400 hover:text-slate-200'
+                )}>
+                {name.slice(0, 3)}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-600 mt-1">None selected means any day.</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label className="label">Blackout dates</label>
+        {blackouts.map((b, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input type="date" className="input" value={b.start}
+              onChange={e => updateBlackout(i, { start: e.target.value })} />
+            <span className="text-slate-500">→</span>
+            <input type="date" className="input" value={b.end}
+              onChange={e => updateBlackout(i, { end: e.target.value })} />
+            <input className="input" placeholder="Reason (optional)" value={b.reason ?? ''}
+              onChange={e => updateBlackout(i, { reason: e.target.value })} />
+            <button type="button" className="text-slate-500 hover:text-red-400 p-1"
+              onClick={() => { setBlackouts(list => list.filter((_, j) => j !== i)); setSaved(false) }}>
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+        <button type="button" className="text-xs text-brand flex items-center gap-1 hover:underline"
+          onClick={() => setBlackouts(list => [...list, { start: '', end: '', reason: '' }])}>
+          <Plus size={12} /> Add blackout
+        </button>
+      </div>
+
+      {(error || invalid) && <p className="text-xs text-red-400">{error || invalid}</p>}
+
+      <div className="flex items-center gap-3">
+        <button className="btn-primary text-xs py-1.5 px-3" onClick={save} disabled={saving || !!invalid}>
+          {saving && <Loader2 size={12} className="animate-spin" />}
+          Save rules
+        </button>
+        {onClose && (
+          <button className="text-xs text-slate-500 hover:text-slate-200" onClick={onClose}>Close</button>
+        )}
+        {saved && (
+          <span className="text-xs text-emerald-400 flex items-center gap-1"><CheckCircle size={12} /> Saved</span>
+        )}
+      </div>
+    </div>
+  )
+}
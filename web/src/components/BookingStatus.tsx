@@ -24,23 +24,29 @@ const STATUS_ORDER: Record<string, number> = {
   APPROVED:        3,
   REJECTED:        3,
   EXPIRED:         3,
+  DISPUTED:        2,
+  CONTESTED:       2,
+  RESOLVED:        3,
+  CANCELLED:       3,
 }
 
 export function BookingStatus({ booking, showTimeline = true }: BookingStatusProps) {
   const currentOrder = STATUS_ORDER[booking.status] ?? 0
-  const isTerminal   = ['APPROVED', 'REJECTED', 'EXPIRED'].includes(booking.status)
+  const isTerminal   = ['APPROVED', 'REJECTED', 'EXPIRED', 'RESOLVED', 'CANCELLED'].includes(booking.status)
 
   return (
     <div className="space-y-4">
       {/* Status badge */}
       <div className="flex items-center gap-3">
         <span className={cn('badge text-sm px-3 py-1', STATUS_COLORS[booking.status])}>
-          {booking.status === 'FUNDED' || booking.status === 'PROOF_SUBMITTED'
+          {['FUNDED', 'PROOF_SUBMITTED', 'DISPUTED', 'CONTESTED'].includes(booking.status)
             ? <Loader2 size={12} className="animate-spin" />
             : booking.status === 'APPROVED'
             ? <CheckCircle size={12} />
-            : booking.status === 'REJECTED' || booking.status === 'EXPIRED'
+            : booking.status === 'REJECTED' || booking.status === 'EXPIRED' || booking.status === 'CANCELLED'
             ? <XCircle size={12} />
+            : booking.status === 'RESOLVED'
+            ? <AlertCircle size={12} />
             : <Clock size={12} />
           }
           {STATUS_LABELS[booking.status]}
@@ -51,6 +57,11 @@ export function BookingStatus({ booking, showTimeline = true }: BookingStatusPro
             Window closes {new Date(booking.disputeDeadline).toLocaleDateString()}
           </span>
         )}
+        {booking.contestDeadline && booking.status === 'DISPUTED' && (
+          <span className="text-xs text-slate-500">
+            Owner can contest until {new Date(booking.contestDeadline).toLocaleDateString()}
+          </span>
+        )}
       </div>
 
       {/* Timeline */}
@@ -61,7 +72,9 @@ export function BookingStatus({ booking, showTimeline = true }: BookingStatusPro
             const done    = i < currentOrder || (isTerminal && i <= currentOrder)
             const active  = i === currentOrder && !isTerminal
             const rejected = booking.status === 'REJECTED' && i === 3
-            const expired  = booking.status === 'EXPIRED'  && i === 3
+            const expired  = (booking.status === 'EXPIRED' || booking.status === 'CANCELLED') && i === 3
+            const resolved = booking.status === 'RESOLVED' && i === 3
+            const disputed = (booking.status === 'DISPUTED' || booking.status === 'CONTESTED') && i === 2
 
             return (
               <div key={step.status} className="relative flex items-start gap-3 pb-4 last:pb-0">
@@ -89,7 +102,9 @@ export function BookingStatus({ booking, showTimeline = true }: BookingStatusPro
                     'text-slate-600'
                   )}>
                     {rejected ? 'Rejected — Refunded'
-                     : expired ? 'Expired — Refunded'
+                     : expired ? `${booking.status === 'CANCELLED' ? 'Cancelled' : 'Expired'} — Refunded`
+                     : resolved ? `Resolved — ${(booking.resolutionShareBps ?? 0) / 100}% to wall owner`
+                     : disputed ? (booking.status === 'CONTESTED' ? 'Contested — with the arbiter' : 'Rejected — open to contest')
                      : step.label}
                   </p>
 
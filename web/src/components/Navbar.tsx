@@ -4,16 +4,25 @@ import Link                    from 'next/link'
 import { ConnectButton }       from '@rainbow-me/rainbowkit'
 import { useAccount }          from 'wagmi'
 import { usePathname }         from 'next/navigation'
-import { LayoutDashboard, Map, Plus } from 'lucide-react'
+import { LayoutDashboard, Map, Plus, Scale, ShieldCheck } from 'lucide-react'
 import { cn }                  from '@/lib/utils'
+import { useArbiter }          from '@/hooks/useEscrow'
+import { useIsAdmin }          from '@/hooks/useSession'
+import { NotificationBell }    from '@/components/NotificationBell'
 
 export function Navbar() {
-  const { isConnected } = useAccount()
+  const { isConnected, address } = useAccount()
   const pathname        = usePathname()
+  const { data: arbiter } = useArbiter()
+  const isAdmin         = useIsAdmin()
 
   const links = [
     { href: '/',          label: 'Map',       icon: Map             },
     { href: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
+    ...(address && arbiter?.toLowerCase() === address.toLowerCase()
+      ? [{ href: '/arbiter', label: 'Arbiter', icon: Scale }]
+      : []),
+    ...(isAdmin ? [{ href: '/admin', label: 'Admin', icon: ShieldCheck }] : []),
   ]
 
   return (
@@ -55,6 +64,7 @@ export function Navbar() {
 
         {/* Right side */}
         <div className="flex items-center gap-3">
+          <NotificationBell />
           {isConnected && (
             <Link href="/walls/new" className="btn-primary text-sm py-2 px-4">
               <Plus size={15} />
@@ -0,0 +1,112 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import Link                    from 'next/link'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Bell }                from 'lucide-react'
+import { cn }                  from '@/lib/utils'
+import { useSession }          from '@/hooks/useSession'
+
+interface Notification {
+  id:        string
+  title:     string
+  body:      string | null
+  link:      string | null
+  readAt:    string | null
+  createdAt: string
+}
+
+const NOTIFICATIONS_KEY = ['notifications'] as const
+const POLL_MS = 60_000
+
+async function fetchNotifications(): Promise<{ notifications: Notification[]; unread: number }> {
+  const res = await fetch('/api/notifications')
+  if (!res.ok) return { notifications: [], unread: 0 }
+  return res.json()
+}
+
+/** Navbar bell with the unread count and the latest in-app notifications */
+export function NotificationBell() {
+  const { address } = useSession()
+  const queryClient = useQueryClient()
+  const [open, setOpen] = useState(false)
+  const ref = useRef<HTMLDivElement>(null)
+
+  const { data } = useQuery({
+    queryKey:        [...NOTIFICATIONS_KEY, address],
+    queryFn:         fetchNotifications,
+    enabled:         !!address,
+    refetchInterval: POLL_MS,
+  })
+
+  // Close when clicking outside the dropdown
+  useEffect(() => {
+    if (!open) return
+    const onClick = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', onClick)
+    return () => document.removeEventListener('mousedown', onClick)
+  }, [open])
+
+  if (!address) return null
+
+  const markRead = async (body: { ids: string[] } | { all: true }) => {
+    await fetch('/api/notifications', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_KEY })
+  }
+
+  const notifications = data?.notifications ?? []
+  const unread        = data?.unread ?? 0
+
+  return (
+    <div className="relative" ref={ref}>
+      <button onClick={() => setOpen(o => !o)} title="Notifications"
+        className="relative p-2 rounded-lg text-slate-400 hover:text-slate-200 hover:bg-surface-raised">
+        <Bell size={17} />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full
+                           bg-brand text-black text-[10px] font-bold flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-h-[28rem] overflow-y-auto rounded-xl
+                        bg-surface border border-surface-border shadow-xl">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-surface-border">
+            <span className="text-sm font-semibold text-slate-200">Notifications</span>
+            {unread > 0 && (
+              <button className="text-xs text-brand hover:underline" onClick={() => markRead({ all: true })}>
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-slate-500 text-center">Nothing yet</p>
+          ) : notifications.map(n => (
+            <Link key={n.id} href={n.link || '/dashboard'}
+              onClick={() => { setOpen(false); if (!n.readAt) markRead({ ids: [n.id] }) }}
+              className={cn('block px-4 py-3 border-b border-surface-border last:border-0 hover:bg-surface-raised',
+                !n.readAt && 'bg-brand/5')}>
+              <p className={cn('text-sm', n.readAt ? 'text-slate-400' : 'text-slate-100 font-medium')}>{n.title}</p>
+              {n.body && <p className="text-xs text-slate-500 mt-0.5 line-clamp-2">{n.body}</p>}
+              <p className="text-xs text-slate-600 mt-1">{new Date(n.createdAt).toLocaleString()}</p>
+            </Link>
+          ))}
+
+          <Link href="/dashboard?tab=alerts" onClick={() => setOpen(false)}
+            className="block px-4 py-2 text-xs text-center text-slate-500 hover:text-brand border-t border-surface-border">
+            Notification settings
+          </Link>
+        </div>
+      )}
+    </div>
+  )
+}
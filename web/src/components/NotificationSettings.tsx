@@ -0,0 +1,123 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, CheckCircle } from 'lucide-react'
+import {
+  NOTIFICATION_CATEGORIES, CATEGORY_LABELS, DEFAULT_NOTIFICATION_PREFS,
+  type NotificationPrefs, type NotificationCategory, type ChannelPrefs,
+} from '@/lib/notificationPrefs'
+
+/**
+ * Dashboard card for the notification email address and, per category,
+ * whether notifications show in the app and/or go out by email.
+ */
+export function NotificationSettings() {
+  const [email,       setEmail]       = useState('')
+  const [prefs,       setPrefs]       = useState<NotificationPrefs>(DEFAULT_NOTIFICATION_PREFS)
+  const [loading,     setLoading]     = useState(true)
+  const [savingEmail, setSavingEmail] = useState(false)
+  const [emailSaved,  setEmailSaved]  = useState(false)
+  const [error,       setError]       = useState('')
+
+  useEffect(() => {
+    fetch('/api/users/me')
+      .then(r => r.json())
+      .then(me => {
+        if (me.error) throw new Error(me.error)
+        setEmail(me.email || '')
+        if (me.notificationPrefs) setPrefs(me.notificationPrefs)
+      })
+      .catch(e => setError(e instanceof Error ? e.message : 'Failed to load settings'))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const patch = async (body: object) => {
+    const res  = await fetch('/api/users/me', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const data = await res.json()
+    if (!res.ok) throw new Error(data.error || 'Failed to save')
+    return data
+  }
+
+  const saveEmail = async () => {
+    setSavingEmail(true)
+    setError('')
+    try {
+      await patch({ email })
+      setEmailSaved(true)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save email')
+    } finally {
+      setSavingEmail(false)
+    }
+  }
+
+  const toggle = async (category: NotificationCategory, channel: keyof ChannelPrefs) => {
+    const before = prefs
+    const value  = !prefs[category][channel]
+    setPrefs({ ...prefs, [category]: { ...prefs[category], [channel]: value } })
+    setError('')
+    try {
+      const data = await patch({ notificationPrefs: { [category]: { [channel]: value } } })
+      setPrefs(data.notificationPrefs)
+    } catch (e) {
+      setPrefs(before)
+      setError(e instanceof Error ? e.message : 'Failed to save preferences')
+    }
+  }
+
+  if (loading) {
+    return <div className="card flex justify-center py-8"><Loader2 className="animate-spin text-brand" size={22} /></div>
+  }
+
+  return (
+    <div className="card space-y-4">
+      <div className="space-y-2">
+        <label className="label">Notification email</label>
+        <div className="flex gap-2">
+          <input type="email" className="input" placeholder="you@example.com" value={email}
+            onChange={e => { setEmail(e.target.value); setEmailSaved(false) }} />
+          <button className="btn-secondary text-sm" onClick={saveEmail} disabled={savingEmail}>
+            {savingEmail && <Loader2 size={12} className="animate-spin" />}
+            Save
+          </button>
+        </div>
+        {emailSaved && (
+          <p className="text-xs text-emerald-400 flex items-center gap-1"><CheckCircle size={12} /> Saved</p>
+        )}
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-slate-500">
+            <th className="text-left font-normal pb-2">Notify me about</th>
+            <th className="font-normal pb-2 w-16">In app</th>
+            <th className="font-normal pb-2 w-16">Email</th>
+          </tr>
+        </thead>
+        <tbody>
+          {NOTIFICATION_CATEGORIES.map(c => (
+            <tr key={c} className="border-t border-surface-border">
+              <td className="py-2 text-slate-300">{CATEGORY_LABELS[c]}</td>
+              {(['inApp', 'email'] as const).map(channel => (
+                <td key={channel} className="py-2 text-center">
+                  <input type="checkbox" className="accent-brand" checked={prefs[c][channel]}
+                    onChange={() => toggle(c, channel)} />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <p className="text-xs text-slate-600">
+        Booking updates and reminders are emailed as they happen. Saved-search matches are
+        emailed as a digest, and only for searches with the digest switched on.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,174 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, Plus, Trash2, CheckCircle } from 'lucide-react'
+import {
+  EMPTY_PRICING_RULES, parsePricingRules, validatePricingRules,
+  type PricingRules, type SeasonRule, type LengthDiscount,
+} from '@/lib/pricingRules'
+
+interface PricingRulesEditorProps {
+  wallId:   string
+  onClose?: () => void
+}
+
+// The form shows multipliers (1.25) and percentages (10); rules store basis points
+const toBps   = (v: string, unit: number) => Math.round(Number(v) * unit)
+const fromBps = (bps: number, unit: number) => String(bps / unit)
+
+/**
+ * Owner form for a wall's seasonal, weekend, long-booking and last-minute
+ * pricing, saved through PATCH /api/walls/[id]. Applies to new bookings only.
+ */
+export function PricingRulesEditor({ wallId, onClose }: PricingRulesEditorProps) {
+  const [rules,   setRules]   = useState<PricingRules>(EMPTY_PRICING_RULES)
+  const [loading, setLoading] = useState(true)
+  const [saving,  setSaving]  = useState(false)
+  const [saved,   setSaved]   = useState(false)
+  const [error,   setError]   = useState('')
+
+  useEffect(() => {
+    fetch(`/api/walls/${wallId}`)
+      .then(r => r.json())
+      .then(data => {
+        if (data.error) throw new Error(data.error)
+        setRules(parsePricingRules(data.pricingRulesJson))
+      })
+      .catch(e => setError(e instanceof Error ? e.message : 'Failed to load pricing rules'))
+      .finally(() => setLoading(false))
+  }, [wallId])
+
+  const update = (patch: Partial<PricingRules>) => { setRules(r => ({ ...r, ...patch })); setSaved(false) }
+  const updateSeason = (i: number, patch: Partial<SeasonRule>) =>
+    update({ seasons: rules.seasons.map((s, j) => (j === i ? { ...s, ...patch } : s)) })
+  const updateTier = (i: number, patch: Partial<LengthDiscount>) =>
+    update({ lengthDiscounts: rules.lengthDiscounts.map((t, j) => (j === i ? { ...t, ...patch } : t)) })
+
+  const invalid = validatePricingRules({
+    ...rules,
+    lengthDiscounts: [...rules.lengthDiscounts].sort((a, b) => a.minDays - b.minDays),
+  })
+
+  const save = async () => {
+    setSaving(true)
+    setError('')
+    try {
+      const res  = await fetch(`/api/walls/${wallId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pricingRules: rules }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to save pricing rules')
+      setRules(parsePricingRules(data.wall.pricingRulesJson))
+      setSaved(true)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save pricing rules')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return <div className="flex justify-center py-6"><Loader2 className="animate-spin text-brand" size={20} /></div>
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="space-y-2">
+        <label className="label">Seasons (every year, end date exclusive)</label>
+        {rules.seasons.map((s, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input className="input" placeholder="Label, e.g. Holidays" value={s.label}
+              onChange={e => updateSeason(i, { label: e.target.value })} />
+            <input className="input w-24" placeholder="MM-DD" value={s.start}
+              onChange={e => updateSeason(i, { start: e.target.value })} />
+            <span className="text-slate-500">→</span>
+            <input className="input w-24" placeholder="MM-DD" value={s.end}
+              onChange={e => updateSeason(i, { end: e.target.value })} />
+            <input type="number" step="0.05" min={0} className="input w-24" value={fromBps(s.multiplierBps, 10_000)}
+              onChange={e => updateSeason(i, { multiplierBps: toBps(e.target.value, 10_000) })} />
+            <span className="text-slate-500">×</span>
+            <button type="button" className="text-slate-500 hover:text-red-400 p-1"
+              onClick={() => update({ seasons: rules.seasons.filter((_, j) => j !== i) })}>
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+        <button type="button" className="text-xs text-brand flex items-center gap-1 hover:underline"
+          onClick={() => update({ seasons: [...rules.seasons, { label: '', start: '12-01', end: '01-01', multiplierBps: 12_500 }] })}>
+          <Plus size={12} /> Add season
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className="label">Weekend multiplier</label>
+          <input type="number" step="0.05" min={0} className="input" placeholder="None"
+            value={rules.weekendMultiplierBps === null ? '' : fromBps(rules.weekendMultiplierBps, 10_000)}
+            onChange={e => update({ weekendMultiplierBps: e.target.value === '' ? null : toBps(e.target.value, 10_000) })} />
+        </div>
+        <div>
+          <label className="label">Last minute within (days)</label>
+          <input type="number" min={1} className="input" placeholder="None"
+            value={rules.lastMinute?.withinDays ?? ''}
+            onChange={e => update({
+              lastMinute: e.target.value === ''
+                ? null
+                : { withinDays: Number(e.target.value), multiplierBps: rules.lastMinute?.multiplierBps ?? 10_000 },
+            })} />
+        </div>
+        <div>
+          <label className="label">Last-minute multiplier</label>
+          <input type="number" step="0.05" min={0} className="input" disabled={!rules.lastMinute}
+            value={rules.lastMinute ? fromBps(rules.lastMinute.multiplierBps, 10_000) : ''}
+            onChange={e => rules.lastMinute && update({
+              lastMinute: { ...rules.lastMinute, multiplierBps: toBps(e.target.value, 10_000) },
+            })} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="label">Long-booking discounts</label>
+        {rules.lengthDiscounts.map((t, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <span className="text-slate-500">From</span>
+            <input type="number" min={2} className="input w-24" value={t.minDays}
+              onChange={e => updateTier(i, { minDays: Number(e.target.value) })} />
+            <span className="text-slate-500">days:</span>
+            <input type="number" step="0.5" min={0} className="input w-24" value={fromBps(t.discountBps, 100)}
+              onChange={e => updateTier(i, { discountBps: toBps(e.target.value, 100) })} />
+            <span className="text-slate-500">% off</span>
+            <button type="button" className="text-slate-500 hover:text-red-400 p-1"
+              onClick={() => update({ lengthDiscounts: rules.lengthDiscounts.filter((_, j) => j !== i) })}>
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+        <button type="button" className="text-xs text-brand flex items-center gap-1 hover:underline"
+          onClick={() => update({ lengthDiscounts: [...rules.lengthDiscounts, { minDays: 30, discountBps: 1_000 }] })}>
+          <Plus size={12} /> Add discount
+        </button>
+      </div>
+
+      <p className="text-xs text-slate-600">
+        Matching multipliers stack day by day; the largest qualifying discount comes off the total.
+      </p>
+
+      {(error || invalid) && <p className="text-xs text-red-400">{error || invalid}</p>}
+
+      <div className="flex items-center gap-3">
+        <button className="btn-primary text-xs py-1.5 px-3" onClick={save} disabled={saving || !!invalid}>
+          {saving && <Loader2 size={12} className="animate-spin" />}
+          Save pricing
+        </button>
+        {onClose && (
+          <button className="text-xs text-slate-500 hover:text-slate-200" onClick={onClose}>Close</button>
+        )}
+        {saved && (
+          <span className="text-xs text-emerald-400 flex items-center gap-1"><CheckCircle size={12} /> Saved</span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link                    from 'next/link'
+import { Loader2, Trash2, Bell, Mail } from 'lucide-react'
+import { cn }                  from '@/lib/utils'
+
+interface SavedSearch {
+  id:          string
+  name:        string
+  query:       string
+  emailDigest: boolean
+  unread:      number
+  createdAt:   string
+}
+
+interface Notification {
+  id:        string
+  title:     string
+  body:      string | null
+  link:      string | null
+  readAt:    string | null
+  createdAt: string
+}
+
+// "q=mural&tiers=4,5&minArea=200" → "“mural” · tiers 4,5 · ≥ 200 sqft"
+function describeQuery(query: string): string {
+  const p = new URLSearchParams(query)
+  const parts: string[] = []
+  if (p.get('q'))     parts.push(`“${p.get('q')}”`)
+  if (p.get('bbox'))  parts.push('map area')
+  if (p.get('radiusKm')) parts.push(`within ${p.get('radiusKm')} km`)
+  if (p.get('tiers')) parts.push(`tiers ${p.get('tiers')}`)
+  if (p.get('minPrice') || p.get('maxPrice')) {
+    parts.push(`${p.get('minPrice') || '0'}–${p.get('maxPrice') || '∞'} BNB/sqft/day`)
+  }
+  if (p.get('minArea')) parts.push(`≥ ${p.get('minArea')} sqft`)
+  if (p.get('maxArea')) parts.push(`≤ ${p.get('maxArea')} sqft`)
+  if (p.get('availableFrom')) parts.push(`free ${p.get('availableFrom')} → ${p.get('availableTo')}`)
+  return parts.join(' · ') || 'All walls'
+}
+
+/**
+ * Dashboard panel for saved searches and the latest in-app notifications.
+ * The email address and channel preferences live in NotificationSettings.
+ */
+export function SavedSearches() {
+  const [searches,      setSearches]      = useState<SavedSearch[]>([])
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [loading,       setLoading]       = useState(true)
+  const [error,         setError]         = useState('')
+
+  useEffect(() => {
+    Promise.all([
+      fetch('/api/saved-searches').then(r => r.json()),
+      fetch('/api/notifications').then(r => r.json()),
+    ]).then(([searchData, notificationData]) => {
+      if (searchData.error) throw new Error(searchData.error)
+      setSearches(searchData)
+      setNotifications(notificationData.notifications || [])
+    })
+      .catch(e => setError(e instanceof Error ? e.message : 'Failed to load alerts'))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const toggleDigest = async (s: SavedSearch) => {
+    const res = await fetch(`/api/saved-searches/${s.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ emailDigest: !s.emailDigest }),
+    })
+    if (res.ok) setSearches(list => list.map(x => (x.id === s.id ? { ...x, emailDigest: !s.emailDigest } : x)))
+  }
+
+  const remove = async (s: SavedSearch) => {
+    const res = await fetch(`/api/saved-searches/${s.id}`, { method: 'DELETE' })
+    if (res.ok) setSearches(list => list.filter(x => x.id !== s.id))
+  }
+
+  const markAllRead = async () => {
+    const res = await fetch('/api/notifications', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ all: true }),
+    })
+    if (!res.ok) return
+    const now = new Date().toISOString()
+    setNotifications(list => list.map(n => ({ ...n, readAt: n.readAt ?? now })))
+    setSearches(list => list.map(s => ({ ...s, unread: 0 })))
+  }
+
+  if (loading) {
+    return <div className="flex justify-center py-16"><Loader2 className="animate-spin text-brand" size={28} /></div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-xs text-slate-600">
+        Searches with the email digest on send one email with all new matches, at most once a day.
+      </p>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="space-y-2">
+        <h2 className="font-semibold text-slate-200">Saved searches</h2>
+        {searches.length === 0 ? (
+          <p className="text-sm text-slate-500">
+            Filter the <Link href="/" className="text-brand hover:underline">map</Link> and press the bookmark to save a search.
+          </p>
+        ) : searches.map(s => (
+          <div key={s.id} className="card flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <Link href={`/?${s.query}`} className="font-medium text-slate-100 hover:text-brand">
+                {s.name}
+              </Link>
+              {s.unread > 0 && (
+                <span className="ml-2 text-xs px-1.5 py-0.5 rounded-full bg-brand text-black">{s.unread} new</span>
+              )}
+              <p className="text-xs text-slate-500 truncate">{describeQuery(s.query)}</p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <button onClick={() => toggleDigest(s)} title={s.emailDigest ? 'Email digest on' : 'Email digest off'}
+                className={cn('p-1.5 rounded-md', s.emailDigest ? 'text-brand' : 'text-slate-600 hover:text-slate-300')}>
+                <Mail size={15} />
+              </button>
+              <button onClick={() => remove(s)} title="Delete" className="p-1.5 text-slate-600 hover:text-red-400">
+                <Trash2 size={15} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-slate-200">Notifications</h2>
+          {notifications.some(n => !n.readAt) && (
+            <button className="text-xs text-brand hover:underline" onClick={markAllRead}>Mark all read</button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="text-sm text-slate-500 flex items-center gap-2"><Bell size={14} /> Nothing yet</p>
+        ) : notifications.map(n => (
+          <Link key={n.id} href={n.link || '#'}
+            className={cn('card block hover:border-brand/40', !n.readAt && 'border-brand/40')}>
+            <p className="text-sm font-medium text-slate-100">{n.title}</p>
+            {n.body && <p className="text-xs text-slate-500 mt-0.5">{n.body}</p>}
+            <p className="text-xs text-slate-600 mt-1">{new Date(n.createdAt).toLocaleString()}</p>
+          </Link>
+        ))}
+      </div>
+    </div>
+  )
+}
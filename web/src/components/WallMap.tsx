@@ -1,30 +1,105 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { MapPin }               from 'lucide-react'
-import type { Wall }            from '@/types'
+import type { MapWall, WallCluster } from '@/lib/clusters'
+import type { Viewport }        from '@/hooks/useWallClusters'
+import type { Bbox }            from '@/hooks/useWallSearch'
 
 interface WallMapProps {
-  walls:         Wall[]
+  walls?:        MapWall[]          // one marker each; ignored when clusters are given
+  clusters?:     WallCluster[]      // from /api/walls/tiles
   selectedWallId?: string
-  onWallClick?:  (wall: Wall) => void
+  onWallClick?:  (wall: MapWall) => void
   center?:       [number, number]
   zoom?:         number
+  bounds?:       Bbox               // initial view; overrides center and zoom
+  onViewportChange?: (viewport: Viewport) => void   // on load and after every pan or zoom
 }
 
+// Any {z}/{x}/{y} raster source; /api/dev-tiles/{z}/{x}/{y} works offline
+const TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png'
+const TILE_ATTRIBUTION = process.env.NEXT_PUBLIC_MAP_TILE_URL
+  ? ''
+  : '&copy; <a href="https://openstreetmap.org">OpenStreetMap</a>'
+
 // Dynamically imported to avoid SSR issues with Leaflet
 let MapContainer: React.ComponentType<any>
 let TileLayer:    React.ComponentType<any>
 let Marker:       React.ComponentType<any>
 let Popup:        React.ComponentType<any>
 let L: any
+let useMapEvents: (handlers: Record<string, () => void>) => any
+let useMap:       () => any
+
+const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v))
+
+// Reports the visible bounds; must render inside the MapContainer
+function ViewportWatcher({ onChange }: { onChange: (viewport: Viewport) => void }) {
+  const map    = useMap()
+  const report = useCallback(() => {
+    const b = map.getBounds()
+    onChange({
+      bbox: [
+        clamp(b.getWest(), -180, 180), clamp(b.getSouth(), -90, 90),
+        clamp(b.getEast(), -180, 180), clamp(b.getNorth(), -90, 90),
+      ],
+      zoom: map.getZoom(),
+    })
+  }, [map, onChange])
+  useMapEvents({ moveend: report })
+  useEffect(report, [report])
+  return null
+}
+
+const formatPrice = (p: string) => String(Number(p))
+
+// Bubble for several walls: count plus price range; clicking zooms in on them
+function ClusterMarker({ cluster }: { cluster: WallCluster }) {
+  const map  = useMap()
+  const size = Math.round(32 + 8 * Math.log10(cluster.count))
+  const range = cluster.minPrice === cluster.maxPrice
+    ? formatPrice(cluster.minPrice)
+    : `${formatPrice(cluster.minPrice)}–${formatPrice(cluster.maxPrice)}`
+
+  const icon = L.divIcon({
+    className: '',
+    iconSize:  [size, size],
+    html: `<div style="width:${size}px;height:${size}px" class="rounded-full bg-brand/90 border-2 border-black/40
+             text-black flex flex-col items-center justify-center leading-none shadow-lg shadow-black/50">
+             <span class="font-bold text-sm">${cluster.count}</span>
+             <span class="text-[9px] mt-0.5">${range}</span>
+           </div>`,
+  })
+
+  const zoomIn = () => {
+    const [minLng, minLat, maxLng, maxLat] = cluster.bounds
+    if (minLng === maxLng && minLat === maxLat) {
+      map.setView([minLat, minLng], map.getZoom() + 3)
+    } else {
+      map.fitBounds([[minLat, minLng], [maxLat, maxLng]], { padding: [40, 40] })
+    }
+  }
+
+  return (
+    <Marker
+      position={[cluster.lat, cluster.lng]}
+      icon={icon}
+      title={`${cluster.count} walls, ${range} BNB / sqft / day`}
+      eventHandlers={{ click: zoomIn }}
+    />
+  )
+}
 
 export function WallMap({
   walls,
+  clusters,
   selectedWallId,
   onWallClick,
   center = [20, 0], // Changed from NYC to a global center
   zoom   = 2,        // Changed from 12 to 2 (World View)
+  bounds,
+  onViewportChange,
 }: WallMapProps) {
   const [isClient,  setIsClient]  = useState(false)
   const [MapComponents, setMapComponents] = useState<any>(null)
@@ -43,6 +118,9 @@ export function WallMap({
 
       return import('react-leaflet')
     }).then((rl) => {
+      useMapEvents = rl.useMapEvents
+      useMap       = rl.useMap
+      Marker       = rl.Marker
       setMapComponents({
         MapContainer: rl.MapContainer,
         TileLayer:    rl.TileLayer,
@@ -70,6 +148,7 @@ export function WallMap({
     <MC
       center={center}
       zoom={zoom}
+      bounds={bounds && [[bounds[1], bounds[0]], [bounds[3], bounds[2]]]}
       minZoom={2}
       maxBounds={[[-90, -180], [90, 180]]}
       maxBoundsViscosity={1.0}
@@ -77,11 +156,13 @@ export function WallMap({
       style={{ background: '#1a1a27' }}
     >
       <TL
-        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-        attribution='&copy; <a href="https://openstreetmap.org">OpenStreetMap</a>'
+        url={TILE_URL}
+        attribution={TILE_ATTRIBUTION}
         noWrap={true}
       />
-      {walls.map((wall) => (
+      {onViewportChange && <ViewportWatcher onChange={onViewportChange} />}
+      {clusters?.filter(c => c.count > 1).map(c => <ClusterMarker key={c.key} cluster={c} />)}
+      {(clusters ? clusters.flatMap(c => (c.wall ? [c.wall] : [])) : walls ?? []).map((wall) => (
         <MK
           key={wall.id}
           position={[wall.latitude, wall.longitude]}
@@ -0,0 +1,267 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, Trash2, Plus, RotateCw, ChevronDown, ChevronRight, Copy, Webhook } from 'lucide-react'
+import { cn }                  from '@/lib/utils'
+
+// Mirrors WEBHOOK_EVENTS in lib/webhooks, which is server-only
+const EVENT_LABELS: Record<string, string> = {
+  'booking.created': 'Booking created (awaiting payment)',
+  'booking.funded':  'Escrow funded',
+  'proof.submitted': 'Installation proof submitted',
+  'booking.settled': 'Booking settled (approved, refunded, resolved…)',
+  'wall.approved':   'Wall listed',
+}
+
+interface Endpoint {
+  id:          string
+  url:         string
+  events:      string[]
+  description: string | null
+  active:      boolean
+  secretHint:  string
+  createdAt:   string
+}
+
+interface Delivery {
+  id:             string
+  eventId:        string
+  eventType:      string
+  payload:        string
+  status:         'PENDING' | 'SUCCEEDED' | 'FAILED'
+  attempts:       number
+  nextAttemptAt:  string | null
+  lastAttemptAt:  string | null
+  responseStatus: number | null
+  error:          string | null
+  createdAt:      string
+}
+
+const STATUS_STYLES: Record<Delivery['status'], string> = {
+  PENDING:   'text-amber-400',
+  SUCCEEDED: 'text-emerald-400',
+  FAILED:    'text-red-400',
+}
+
+function DeliveryLog({ endpointId }: { endpointId: string }) {
+  const [deliveries, setDeliveries] = useState<Delivery[] | null>(null)
+  const [open,       setOpen]       = useState<string | null>(null)
+  const [resending,  setResending]  = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch(`/api/webhooks/${endpointId}/deliveries`)
+      .then(r => r.json())
+      .then(data => setDeliveries(Array.isArray(data) ? data : []))
+      .catch(() => setDeliveries([]))
+  }, [endpointId])
+
+  const redeliver = async (d: Delivery) => {
+    setResending(d.id)
+    try {
+      const res  = await fetch(`/api/webhooks/${endpointId}/deliveries/${d.id}`, { method: 'POST' })
+      const data = await res.json()
+      if (res.ok) setDeliveries(list => list && list.map(x => (x.id === d.id ? data.delivery : x)))
+    } finally {
+      setResending(null)
+    }
+  }
+
+  if (!deliveries) return <Loader2 size={16} className="animate-spin text-slate-500 mx-auto my-3" />
+  if (deliveries.length === 0) return <p className="text-xs text-slate-500 py-2">No deliveries yet</p>
+
+  return (
+    <div className="divide-y divide-surface-border">
+      {deliveries.map(d => (
+        <div key={d.id} className="py-2 text-xs">
+          <div className="flex items-center gap-3">
+            <button onClick={() => setOpen(open === d.id ? null : d.id)} className="text-slate-500 hover:text-slate-200">
+              {open === d.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+            </button>
+            <span className="font-mono text-slate-300 w-32 shrink-0">{d.eventType}</span>
+            <span className={cn('w-20 shrink-0', STATUS_STYLES[d.status])}>{d.status.toLowerCase()}</span>
+            <span className="text-slate-500 flex-1 truncate">
+              {d.responseStatus !== null ? `HTTP ${d.responseStatus}` : d.error ?? '—'}
+              {' · '}{d.attempts} attempt{d.attempts === 1 ? '' : 's'}
+              {d.status === 'PENDING' && d.nextAttemptAt && ` · next ${new Date(d.nextAttemptAt).toLocaleTimeString()}`}
+            </span>
+            <span className="text-slate-600 shrink-0">{new Date(d.createdAt).toLocaleString()}</span>
+            <button onClick={() => redeliver(d)} disabled={resending === d.id} title="Redeliver"
+              className="p-1 text-slate-500 hover:text-brand disabled:opacity-50">
+              <RotateCw size={13} className={cn(resending === d.id && 'animate-spin')} />
+            </button>
+          </div>
+          {open === d.id && (
+            <div className="mt-2 ml-6 space-y-2">
+              <pre className="bg-black/30 rounded-md p-2 overflow-x-auto text-slate-400">
+                {JSON.stringify(JSON.parse(d.payload), null, 2)}
+              </pre>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Dashboard panel for outbound webhooks: register endpoints, pick events,
+ * and inspect or resend deliveries.
+ */
+export function Webhooks() {
+  const [endpoints, setEndpoints] = useState<Endpoint[]>([])
+  const [loading,   setLoading]   = useState(true)
+  const [adding,    setAdding]    = useState(false)
+  const [url,       setUrl]       = useState('')
+  const [events,    setEvents]    = useState<string[]>(Object.keys(EVENT_LABELS))
+  const [saving,    setSaving]    = useState(false)
+  const [secret,    setSecret]    = useState<{ id: string; value: string } | null>(null)
+  const [logFor,    setLogFor]    = useState<string | null>(null)
+  const [error,     setError]     = useState('')
+
+  useEffect(() => {
+    fetch('/api/webhooks')
+      .then(r => r.json())
+      .then(data => {
+        if (data.error) throw new Error(data.error)
+        setEndpoints(data)
+      })
+      .catch(e => setError(e instanceof Error ? e.message : 'Failed to load webhooks'))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const create = async () => {
+    setSaving(true)
+    setError('')
+    try {
+      const res  = await fetch('/api/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, events }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to add webhook')
+      const { secret: value, ...endpoint } = data.endpoint
+      setEndpoints(list => [{ ...endpoint, secretHint: `…${value.slice(-4)}` }, ...list])
+      setSecret({ id: endpoint.id, value })
+      setAdding(false)
+      setUrl('')
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to add webhook')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const update = async (ep: Endpoint, body: Partial<Endpoint>) => {
+    const res  = await fetch(`/api/webhooks/${ep.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const data = await res.json()
+    if (!res.ok) return setError(data.error || 'Failed to update webhook')
+    setEndpoints(list => list.map(x => (x.id === ep.id ? data.endpoint : x)))
+  }
+
+  const remove = async (ep: Endpoint) => {
+    if (!confirm(`Delete the webhook for ${ep.url}? Its delivery log is deleted too.`)) return
+    const res = await fetch(`/api/webhooks/${ep.id}`, { method: 'DELETE' })
+    if (res.ok) setEndpoints(list => list.filter(x => x.id !== ep.id))
+  }
+
+  const toggleEvent = (list: string[], e: string) =>
+    list.includes(e) ? list.filter(x => x !== e) : [...list, e]
+
+  if (loading) {
+    return <div className="flex justify-center py-16"><Loader2 className="animate-spin text-brand" size={28} /></div>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-500">
+          Signed JSON POSTs for bookings you are part of and walls you own.
+        </p>
+        {!adding && (
+          <button className="btn-secondary text-sm" onClick={() => setAdding(true)}>
+            <Plus size={14} /> Add endpoint
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {adding && (
+        <div className="card space-y-3">
+          <div>
+            <label className="label">Endpoint URL</label>
+            <input className="input" placeholder="https://example.com/wallmark" value={url}
+              onChange={e => setUrl(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <label className="label">Events</label>
+            {Object.entries(EVENT_LABELS).map(([e, label]) => (
+              <label key={e} className="flex items-center gap-2 text-sm text-slate-300">
+                <input type="checkbox" className="accent-brand" checked={events.includes(e)}
+                  onChange={() => setEvents(list => toggleEvent(list, e))} />
+                <span className="font-mono text-xs text-slate-400 w-28">{e}</span> {label}
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button className="btn-primary text-sm" onClick={create} disabled={saving || !url || !events.length}>
+              {saving && <Loader2 size={12} className="animate-spin" />}
+              Add
+            </button>
+            <button className="btn-secondary text-sm" onClick={() => setAdding(false)}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {endpoints.length === 0 && !adding ? (
+        <p className="text-sm text-slate-500 flex items-center gap-2"><Webhook size={14} /> No endpoints yet</p>
+      ) : endpoints.map(ep => (
+        <div key={ep.id} className={cn('card space-y-3', !ep.active && 'opacity-60')}>
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <p className="font-mono text-sm text-slate-100 truncate">{ep.url}</p>
+              <p className="text-xs text-slate-500 mt-0.5">
+                {ep.events.join(', ')} · secret {ep.secretHint}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <label className="flex items-center gap-1.5 text-xs text-slate-400">
+                <input type="checkbox" className="accent-brand" checked={ep.active}
+                  onChange={() => update(ep, { active: !ep.active })} />
+                Active
+              </label>
+              <button onClick={() => remove(ep)} title="Delete" className="p-1.5 text-slate-600 hover:text-red-400">
+                <Trash2 size={15} />
+              </button>
+            </div>
+          </div>
+
+          {secret?.id === ep.id && (
+            <div className="rounded-lg border border-brand/40 bg-brand/5 p-3 space-y-1">
+              <p className="text-xs text-slate-300">Signing secret — copy it now, it is not shown again:</p>
+              <div className="flex items-center gap-2">
+                <code className="text-xs text-brand break-all">{secret.value}</code>
+                <button onClick={() => navigator.clipboard.writeText(secret.value)} title="Copy"
+                  className="p-1 text-slate-500 hover:text-brand">
+                  <Copy size={13} />
+                </button>
+              </div>
+            </div>
+          )}
+
+          <button className="text-xs text-slate-400 hover:text-brand flex items-center gap-1"
+            onClick={() => setLogFor(logFor === ep.id ? null : ep.id)}>
+            {logFor === ep.id ? <ChevronDown size={13} /> : <ChevronRight size={13} />}
+            Delivery log
+          </button>
+          {logFor === ep.id && <DeliveryLog endpointId={ep.id} />}
+        </div>
+      ))}
+    </div>
+  )
+}
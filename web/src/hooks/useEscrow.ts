@@ -1,13 +1,22 @@
 'use client'
 
+import { useState, useEffect } from 'react'
 import {
   useWriteContract,
   useReadContract,
+  useReadContracts,
+  useSignTypedData,
   useWaitForTransactionReceipt,
   useAccount,
 } from 'wagmi'
-import { parseEther } from 'viem'
-import { ESCROW_ABI, ESCROW_ADDRESS } from '@/lib/contract'
+import { encodeFunctionData, parseEther, parseSignature, zeroAddress, type EncodeFunctionDataParameters } from 'viem'
+import {
+  ESCROW_ABI, ESCROW_ADDRESS, ERC20_ABI, CHAIN_ID, ESCROW_DOMAIN, CANCEL_TYPES,
+  FORWARDER_ABI, FORWARDER_ADDRESS, FORWARDER_DOMAIN, FORWARD_REQUEST_TYPES,
+} from '@/lib/contract'
+import type { BookingTerms }          from '@/lib/terms'
+import type { SignedQuote }           from '@/lib/quote'
+import type { RelayableFunction }     from '@/lib/relayer'
 
 // ─── Fund a booking ──────────────────────────────────────────────────────────
 
@@ -21,19 +30,166 @@ export function useFundBooking() {
     wallOwner:    `0x${string}`,
     installer:    `0x${string}`,
     metadataHash: `0x${string}`,
-    totalBnb:     string
+    totalBnb:     string,
+    terms:        BookingTerms
   ) =>
     writeContract({
       address:      ESCROW_ADDRESS,
       abi:          ESCROW_ABI,
-      functionName: 'fundBooking',
-      args:         [bookingId, wallOwner, installer, metadataHash],
+      functionName: 'fundBookingWithTerms',
+      args:         [
+        bookingId, wallOwner, installer, metadataHash,
+        terms.proofDeadlineSec, terms.disputeWindowSec, terms.installerFeeBps,
+        terms.milestoneCount, terms.milestoneIntervalSec,
+      ],
       value:        parseEther(totalBnb),
     })
 
   return { fund, hash, isPending, isConfirming, isSuccess, error }
 }
 
+// ─── Fund a booking with a stablecoin ────────────────────────────────────────
+
+export interface PermitSignature {
+  deadline: bigint
+  v:        number
+  r:        `0x${string}`
+  s:        `0x${string}`
+}
+
+export function useFundBookingWithToken() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract()
+  const { isSuccess, isLoading: isConfirming } =
+    useWaitForTransactionReceipt({ hash })
+
+  // With a permit the approval travels in the same tx; otherwise approve() first
+  const fund = (
+    bookingId:    `0x${string}`,
+    wallOwner:    `0x${string}`,
+    installer:    `0x${string}`,
+    metadataHash: `0x${string}`,
+    terms:        BookingTerms,
+    token:        `0x${string}`,
+    amount:       bigint,
+    permit?:      PermitSignature
+  ) => {
+    const base = [
+      bookingId, wallOwner, installer, metadataHash,
+      terms.proofDeadlineSec, terms.disputeWindowSec, terms.installerFeeBps,
+      terms.milestoneCount, terms.milestoneIntervalSec,
+      token, amount,
+    ] as const
+    return permit
+      ? writeContract({
+          address:      ESCROW_ADDRESS,
+          abi:          ESCROW_ABI,
+          functionName: 'fundBookingWithPermit',
+          args:         [...base, permit.deadline, permit.v, permit.r, permit.s],
+        })
+      : writeContract({
+          address:      ESCROW_ADDRESS,
+          abi:          ESCROW_ABI,
+          functionName: 'fundBookingWithToken',
+          args:         base,
+        })
+  }
+
+  return { fund, hash, isPending, isConfirming, isSuccess, error }
+}
+
+// ─── Fund a booking against a signed price quote ─────────────────────────────
+
+/** Required once the escrow has a quoteSigner; the quote fixes currency and amount */
+export function useFundBookingWithQuote() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract()
+  const { isSuccess, isLoading: isConfirming } =
+    useWaitForTransactionReceipt({ hash })
+
+  const fund = (
+    bookingId:    `0x${string}`,
+    wallOwner:    `0x${string}`,
+    installer:    `0x${string}`,
+    metadataHash: `0x${string}`,
+    terms:        BookingTerms,
+    quote:        SignedQuote
+  ) =>
+    writeContract({
+      address:      ESCROW_ADDRESS,
+      abi:          ESCROW_ABI,
+      functionName: 'fundBookingWithQuote',
+      args:         [
+        bookingId, wallOwner, installer, metadataHash,
+        terms.proofDeadlineSec, terms.disputeWindowSec, terms.installerFeeBps,
+        terms.milestoneCount, terms.milestoneIntervalSec,
+        {
+          bookingId:  quote.bookingId,
+          advertiser: quote.advertiser,
+          wallOwner:  quote.wallOwner,
+          wallId:    quote.wallId,
+          startDate: BigInt(quote.startDate),
+          endDate:   BigInt(quote.endDate),
+          token:     quote.token,
+          amount:    BigInt(quote.amount),
+          expiresAt: BigInt(quote.expiresAt),
+        },
+        quote.signature,
+      ],
+      // Token quotes are pulled with transferFrom; only BNB travels as value
+      value:        quote.token === zeroAddress ? BigInt(quote.amount) : BigInt(0),
+    })
+
+  return { fund, hash, isPending, isConfirming, isSuccess, error }
+}
+
+export function useApproveToken() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract()
+  const { isSuccess, isLoading: isConfirming } =
+    useWaitForTransactionReceipt({ hash })
+
+  const approve = (token: `0x${string}`, amount: bigint) =>
+    writeContract({
+      address:      token,
+      abi:          ERC20_ABI,
+      functionName: 'approve',
+      args:         [ESCROW_ADDRESS, amount],
+    })
+
+  return { approve, hash, isPending, isConfirming, isSuccess, error }
+}
+
+/** Signs an EIP-2612 permit letting the escrow pull `value` of `token` */
+export function useSignPermit() {
+  const { signTypedDataAsync, isPending, error } = useSignTypedData()
+
+  const sign = async (
+    token:    `0x${string}`,
+    name:     string,
+    owner:    `0x${string}`,
+    value:    bigint,
+    nonce:    bigint,
+    deadline: bigint
+  ): Promise<PermitSignature> => {
+    const signature = await signTypedDataAsync({
+      domain: { name, version: '1', chainId: CHAIN_ID, verifyingContract: token },
+      types: {
+        Permit: [
+          { name: 'owner',    type: 'address' },
+          { name: 'spender',  type: 'address' },
+          { name: 'value',    type: 'uint256' },
+          { name: 'nonce',    type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      },
+      primaryType: 'Permit',
+      message: { owner, spender: ESCROW_ADDRESS, value, nonce, deadline },
+    })
+    const { v, r, s, yParity } = parseSignature(signature)
+    return { deadline, v: Number(v ?? BigInt(yParity + 27)), r, s }
+  }
+
+  return { sign, isPending, error }
+}
+
 // ─── Submit proof ────────────────────────────────────────────────────────────
 
 export function useSubmitProof() {
@@ -91,6 +247,78 @@ export function useRejectProof() {
   return { reject, hash, isPending, isConfirming, isSuccess, error }
 }
 
+// ─── Contest a disputed rejection (wall owner) ───────────────────────────────
+
+export function useContestDispute() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract()
+  const { isSuccess, isLoading: isConfirming } =
+    useWaitForTransactionReceipt({ hash })
+
+  const contest = (bookingId: `0x${string}`, contestReasonHash: `0x${string}`) =>
+    writeContract({
+      address:      ESCROW_ADDRESS,
+      abi:          ESCROW_ABI,
+      functionName: 'contestDispute',
+      args:         [bookingId, contestReasonHash],
+    })
+
+  return { contest, hash, isPending, isConfirming, isSuccess, error }
+}
+
+// ─── Finalize an uncontested dispute ─────────────────────────────────────────
+
+export function useFinalizeDispute() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract()
+  const { isSuccess, isLoading: isConfirming } =
+    useWaitForTransactionReceipt({ hash })
+
+  const finalize = (bookingId: `0x${string}`) =>
+    writeContract({
+      address:      ESCROW_ADDRESS,
+      abi:          ESCROW_ABI,
+      functionName: 'finalizeDispute',
+      args:         [bookingId],
+    })
+
+  return { finalize, hash, isPending, isConfirming, isSuccess, error }
+}
+
+// ─── Split a contested dispute the arbiter never ruled on ─────────────────────
+
+export function useResolveAfterTimeout() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract()
+  const { isSuccess, isLoading: isConfirming } =
+    useWaitForTransactionReceipt({ hash })
+
+  const resolveAfterTimeout = (bookingId: `0x${string}`) =>
+    writeContract({
+      address:      ESCROW_ADDRESS,
+      abi:          ESCROW_ABI,
+      functionName: 'resolveAfterTimeout',
+      args:         [bookingId],
+    })
+
+  return { resolveAfterTimeout, hash, isPending, isConfirming, isSuccess, error }
+}
+
+// ─── Resolve a contested dispute (arbiter) ───────────────────────────────────
+
+export function useResolveDispute() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract()
+  const { isSuccess, isLoading: isConfirming } =
+    useWaitForTransactionReceipt({ hash })
+
+  const resolve = (bookingId: `0x${string}`, wallOwnerShareBps: number) =>
+    writeContract({
+      address:      ESCROW_ADDRESS,
+      abi:          ESCROW_ABI,
+      functionName: 'resolveDispute',
+      args:         [bookingId, wallOwnerShareBps],
+    })
+
+  return { resolve, hash, isPending, isConfirming, isSuccess, error }
+}
+
 // ─── Claim after timeout ─────────────────────────────────────────────────────
 
 export function useClaimAfterTimeout() {
@@ -127,6 +355,146 @@ export function useReclaimExpired() {
   return { reclaim, hash, isPending, isConfirming, isSuccess, error }
 }
 
+// ─── Cancel before installation ──────────────────────────────────────────────
+
+export function useCancelBooking() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract()
+  const { isSuccess, isLoading: isConfirming } =
+    useWaitForTransactionReceipt({ hash })
+
+  const cancel = (bookingId: `0x${string}`) =>
+    writeContract({
+      address:      ESCROW_ADDRESS,
+      abi:          ESCROW_ABI,
+      functionName: 'cancelBooking',
+      args:         [bookingId],
+    })
+
+  return { cancel, hash, isPending, isConfirming, isSuccess, error }
+}
+
+/** Signs the EIP-712 CancelBooking consent checked by cancelBookingWithConsent */
+export function useSignCancellation() {
+  const { signTypedDataAsync, isPending, error } = useSignTypedData()
+
+  const sign = (bookingId: `0x${string}`, deadline: bigint) =>
+    signTypedDataAsync({
+      domain:      ESCROW_DOMAIN,
+      types:       CANCEL_TYPES,
+      primaryType: 'CancelBooking',
+      message:     { bookingId, deadline },
+    })
+
+  return { sign, isPending, error }
+}
+
+export function useCancelWithConsent() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract()
+  const { isSuccess, isLoading: isConfirming } =
+    useWaitForTransactionReceipt({ hash })
+
+  const cancel = (
+    bookingId:     `0x${string}`,
+    deadline:      bigint,
+    advertiserSig: `0x${string}`,
+    wallOwnerSig:  `0x${string}`
+  ) =>
+    writeContract({
+      address:      ESCROW_ADDRESS,
+      abi:          ESCROW_ABI,
+      functionName: 'cancelBookingWithConsent',
+      args:         [bookingId, deadline, advertiserSig, wallOwnerSig],
+    })
+
+  return { cancel, hash, isPending, isConfirming, isSuccess, error }
+}
+
+// ─── Gasless calls through the platform relayer (ERC-2771) ───────────────────
+
+const RELAY_GAS          = 300_000n
+const RELAY_DEADLINE_SEC = 10 * 60
+
+/**
+ * Signs a ForwardRequest for an escrow call and has /api/relay submit it, so
+ * the connected wallet needs no BNB. `enabled` stays false unless the server
+ * runs a relayer; fall back to the direct hooks above then.
+ */
+export function useRelayedCall() {
+  const { address } = useAccount()
+  const { signTypedDataAsync } = useSignTypedData()
+  const [enabled,   setEnabled]   = useState(false)
+  const [hash,      setHash]      = useState<`0x${string}`>()
+  const [isPending, setIsPending] = useState(false)
+  const [isSuccess, setIsSuccess] = useState(false)
+  const [error,     setError]     = useState<Error | null>(null)
+
+  const { refetch: readNonce } = useReadContract({
+    address:      FORWARDER_ADDRESS,
+    abi:          FORWARDER_ABI,
+    functionName: 'nonces',
+    args:         address ? [address] : undefined,
+    query:        { enabled: !!address && FORWARDER_ADDRESS !== zeroAddress },
+  })
+
+  useEffect(() => {
+    fetch('/api/relay')
+      .then(r => r.json())
+      .then(d => setEnabled(!!d.enabled))
+      .catch(() => setEnabled(false))
+  }, [])
+
+  const relay = async (functionName: RelayableFunction, args: readonly unknown[]) => {
+    if (!address) return
+    setIsPending(true)
+    setError(null)
+    try {
+      const { data: nonce } = await readNonce()
+      if (nonce === undefined) throw new Error('Could not read the forwarder nonce')
+
+      const message = {
+        from:     address,
+        to:       ESCROW_ADDRESS,
+        value:    0n,
+        gas:      RELAY_GAS,
+        nonce,
+        deadline: Math.floor(Date.now() / 1000) + RELAY_DEADLINE_SEC,
+        data:     encodeFunctionData({ abi: ESCROW_ABI, functionName, args } as EncodeFunctionDataParameters),
+      }
+      const signature = await signTypedDataAsync({
+        domain:      FORWARDER_DOMAIN,
+        types:       FORWARD_REQUEST_TYPES,
+        primaryType: 'ForwardRequest',
+        message,
+      })
+
+      const res  = await fetch('/api/relay', {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({
+          request: {
+            ...message,
+            value:    message.value.toString(),
+            gas:      message.gas.toString(),
+            nonce:    message.nonce.toString(),
+            deadline: message.deadline.toString(),
+          },
+          signature,
+        }),
+      })
+      const body = await res.json()
+      if (body.txHash) setHash(body.txHash)
+      if (!res.ok) throw new Error(body.error || 'Relayed transaction failed')
+      setIsSuccess(true)
+    } catch (e) {
+      setError(e instanceof Error ? e : new Error('Relayed transaction failed'))
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  return { enabled, relay, hash, isPending, isSuccess, error }
+}
+
 // ─── Read booking state from chain ───────────────────────────────────────────
 
 export function useOnChainBooking(bookingId: `0x${string}` | undefined) {
@@ -164,3 +532,72 @@ export function useDisputeWindowEndsAt(bookingId: `0x${string}` | undefined) {
     query: { enabled: !!bookingId },
   })
 }
+
+/** When anyone may split a contested dispute evenly; 0 until contested */
+export function useArbitrationDeadlineAt(bookingId: `0x${string}` | undefined) {
+  return useReadContract({
+    address:      ESCROW_ADDRESS,
+    abi:          ESCROW_ABI,
+    functionName: 'arbitrationDeadlineAt',
+    args:         bookingId ? [bookingId] : undefined,
+    query: { enabled: !!bookingId },
+  })
+}
+
+/** Cancellation fee (bps) committed to a booking at funding */
+export function useCancellationFeeBps(bookingId: `0x${string}` | undefined) {
+  return useReadContract({
+    address:      ESCROW_ADDRESS,
+    abi:          ESCROW_ABI,
+    functionName: 'getBooking',
+    args:         bookingId ? [bookingId] : undefined,
+    query: {
+      enabled: !!bookingId,
+      select:  b => b.cancellationFeeBps,
+    },
+  })
+}
+
+/** Platform fee (bps) the contract will commit to bookings funded now */
+export function usePlatformFeeBps() {
+  return useReadContract({
+    address:      ESCROW_ADDRESS,
+    abi:          ESCROW_ABI,
+    functionName: 'platformFeeBps',
+  })
+}
+
+/** Installer fee (bps) the contract expects bookings funded now to commit to */
+export function useInstallerFeeBps() {
+  return useReadContract({
+    address:      ESCROW_ADDRESS,
+    abi:          ESCROW_ABI,
+    functionName: 'installerFeeBps',
+  })
+}
+
+/**
+ * decimals, name, EIP-2612 nonce and escrow allowance of a payment token for
+ * `owner`. The nonce read fails on tokens without permit support.
+ */
+export function useTokenState(token: `0x${string}` | null, owner: `0x${string}` | undefined) {
+  const contract = { address: token ?? undefined, abi: ERC20_ABI } as const
+  return useReadContracts({
+    contracts: [
+      { ...contract, functionName: 'decimals' },
+      { ...contract, functionName: 'name' },
+      { ...contract, functionName: 'nonces',    args: owner ? [owner] : undefined },
+      { ...contract, functionName: 'allowance', args: owner ? [owner, ESCROW_ADDRESS] : undefined },
+    ],
+    query: { enabled: !!token && !!owner },
+  })
+}
+
+/** Address allowed to resolve contested disputes (zero = arbitration off) */
+export function useArbiter() {
+  return useReadContract({
+    address:      ESCROW_ADDRESS,
+    abi:          ESCROW_ABI,
+    functionName: 'arbiter',
+  })
+}
@@ -0,0 +1,35 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+export interface QuoteResponse {
+  days:      number
+  lineItems: { date: string; multiplierBps: number; labels: string[]; amountWei: string; amountBnb: string }[]
+  subtotalBnb: string
+  discount:  { minDays: number; discountBps: number; amountBnb: string } | null
+  totalBnb:  string
+}
+
+/** Day-by-day price of a campaign under the wall's pricing rules, from /api/quote */
+export function useQuote(wallId: string | undefined, startDate: string, endDate: string) {
+  const [quote,   setQuote]   = useState<QuoteResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!wallId || !startDate || !endDate || endDate <= startDate) {
+      setQuote(null)
+      return
+    }
+    let stale = false
+    setLoading(true)
+    const qs = new URLSearchParams({ wallId, startDate, endDate })
+    fetch(`/api/quote?${qs}`)
+      .then(r => r.json())
+      .then(data => { if (!stale) setQuote(data.error ? null : data) })
+      .catch(() => console.error('Failed to fetch quote'))
+      .finally(() => { if (!stale) setLoading(false) })
+    return () => { stale = true }
+  }, [wallId, startDate, endDate])
+
+  return { quote, loading }
+}
@@ -0,0 +1,101 @@
+'use client'
+
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAccount }               from 'wagmi'
+import { createSiweMessage }        from 'viem/siwe'
+import { createAuthenticationAdapter } from '@rainbow-me/rainbowkit'
+import type { AuthenticationStatus }   from '@rainbow-me/rainbowkit'
+import { useMemo }                  from 'react'
+
+const SESSION_KEY = ['auth', 'session'] as const
+
+async function fetchSession(): Promise<{ address: string | null }> {
+  const res = await fetch('/api/auth/session')
+  if (!res.ok) return { address: null }
+  return res.json()
+}
+
+// ─── Current SIWE session ────────────────────────────────────────────────────
+
+/**
+ * Server session for the connected wallet. A session issued to a different
+ * address (user switched accounts) counts as signed out.
+ */
+export function useSession() {
+  const { address } = useAccount()
+  const { data, isLoading } = useQuery({ queryKey: SESSION_KEY, queryFn: fetchSession })
+
+  const signedIn =
+    !!data?.address && !!address && data.address.toLowerCase() === address.toLowerCase()
+
+  const status: AuthenticationStatus =
+    isLoading ? 'loading' : signedIn ? 'authenticated' : 'unauthenticated'
+
+  return { address: signedIn ? data!.address : null, status }
+}
+
+/** Whether the signed-in user holds the admin role (moderation console) */
+export function useIsAdmin(): boolean {
+  const { address } = useSession()
+  const { data } = useQuery({
+    queryKey: [...SESSION_KEY, 'admin', address],
+    queryFn:  async () => {
+      const res = await fetch('/api/users/me')
+      return res.ok ? !!(await res.json()).isAdmin : false
+    },
+    enabled: !!address,
+  })
+  return !!address && !!data
+}
+
+// ─── RainbowKit adapter ──────────────────────────────────────────────────────
+
+/**
+ * Wires RainbowKit's "Sign message" step to our /api/auth endpoints.
+ */
+export function useSiweAdapter() {
+  const queryClient = useQueryClient()
+
+  return useMemo(() => {
+    // Issue and expiration times the server bound to the latest nonce
+    const issued: { issuedAt?: Date; expirationTime?: Date } = {}
+
+    return createAuthenticationAdapter<string>({
+      getNonce: async () => {
+        const res = await fetch('/api/auth/nonce')
+        const { nonce, issuedAt, expirationTime } = await res.json()
+        issued.issuedAt       = new Date(issuedAt)
+        issued.expirationTime = new Date(expirationTime)
+        return nonce
+      },
+
+      createMessage: ({ nonce, address, chainId }) =>
+        createSiweMessage({
+          domain:         window.location.host,
+          uri:            window.location.origin,
+          address,
+          chainId,
+          nonce,
+          issuedAt:       issued.issuedAt,
+          expirationTime: issued.expirationTime,
+          version:        '1',
+          statement:      'Sign in to WallMark. This does not cost gas.',
+        }),
+
+      verify: async ({ message, signature }) => {
+        const res = await fetch('/api/auth/verify', {
+          method:  'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body:    JSON.stringify({ message, signature }),
+        })
+        await queryClient.invalidateQueries({ queryKey: SESSION_KEY })
+        return res.ok
+      },
+
+      signOut: async () => {
+        await fetch('/api/auth/session', { method: 'DELETE' })
+        await queryClient.invalidateQueries({ queryKey: SESSION_KEY })
+      },
+    })
+  }, [queryClient])
+}
@@ -0,0 +1,27 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { OccupiedRange }  from '@/lib/availability'
+import { DEFAULT_BOOKING_RULES, type BookingRules } from '@/lib/bookingRules'
+
+/** Taken day ranges and booking rules of a wall, from /api/walls/[id]/availability */
+export function useWallAvailability(wallId: string | undefined) {
+  const [ranges,  setRanges]  = useState<OccupiedRange[]>([])
+  const [rules,   setRules]   = useState<BookingRules>(DEFAULT_BOOKING_RULES)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (!wallId) return
+    setLoading(true)
+    fetch(`/api/walls/${wallId}/availability`)
+      .then(r => r.json())
+      .then(data => {
+        setRanges(data.ranges || [])
+        setRules(data.rules  || DEFAULT_BOOKING_RULES)
+      })
+      .catch(() => console.error('Failed to fetch wall availability'))
+      .finally(() => setLoading(false))
+  }, [wallId])
+
+  return { ranges, rules, loading }
+}
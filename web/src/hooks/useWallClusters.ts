@@ -0,0 +1,65 @@
+'use client'
+
+import { useState, useEffect }  from 'react'
+import { searchQuery, type Bbox, type WallSearchFilters } from './useWallSearch'
+import { tilesCovering, MAX_TILE_ZOOM } from '@/lib/tiles'
+import type { WallCluster }     from '@/lib/clusters'
+
+export interface Viewport {
+  bbox: Bbox
+  zoom: number
+}
+
+const DEBOUNCE_MS  = 300
+const TILE_TTL_MS  = 30_000   // matches the endpoint's Cache-Control
+
+// Tiles already fetched, keyed by filters and z/x/y; shared across mounts
+const tileCache = new Map<string, { at: number; clusters: WallCluster[] }>()
+
+async function fetchTile(query: string, t: { z: number; x: number; y: number }): Promise<WallCluster[]> {
+  const key = `${query}|${t.z}/${t.x}/${t.y}`
+  const hit = tileCache.get(key)
+  if (hit && Date.now() - hit.at < TILE_TTL_MS) return hit.clusters
+
+  const res  = await fetch(`/api/walls/tiles/${t.z}/${t.x}/${t.y}?${query}`)
+  const data = await res.json()
+  if (!res.ok) throw new Error(data.error || 'Failed to load map tile')
+  tileCache.set(key, { at: Date.now(), clusters: data.clusters })
+  return data.clusters
+}
+
+/**
+ * Clustered walls for the map viewport from /api/walls/tiles. Refetches the
+ * covering tiles once the map has stopped moving; tiles seen before under the
+ * same filters come from memory.
+ */
+export function useWallClusters(filters: WallSearchFilters, viewport: Viewport | undefined) {
+  const query = searchQuery({ ...filters, bbox: undefined, sort: undefined })
+  const [clusters, setClusters] = useState<WallCluster[]>([])
+  const [loading,  setLoading]  = useState(false)
+
+  const bboxKey = viewport?.bbox.join(',')
+  const zoom    = viewport?.zoom
+
+  // Keyed by value, so a new viewport object for the same view doesn't refetch
+  useEffect(() => {
+    if (bboxKey === undefined || zoom === undefined) return
+    const bbox = bboxKey.split(',').map(Number) as Bbox
+    let stale = false
+    const timer = setTimeout(() => {
+      // Step out a zoom level while the viewport would need too many tiles
+      let z = Math.max(0, Math.min(MAX_TILE_ZOOM, Math.round(zoom)))
+      let tiles = tilesCovering(bbox, z)
+      while (!tiles) tiles = tilesCovering(bbox, --z)
+
+      setLoading(true)
+      Promise.all(tiles.map(t => fetchTile(query, t)))
+        .then(perTile => { if (!stale) setClusters(perTile.flat()) })
+        .catch(e => console.error('Failed to load map clusters', e))
+        .finally(() => { if (!stale) setLoading(false) })
+    }, DEBOUNCE_MS)
+    return () => { stale = true; clearTimeout(timer) }
+  }, [query, bboxKey, zoom])
+
+  return { clusters, loading }
+}
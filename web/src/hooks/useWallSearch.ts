@@ -0,0 +1,90 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { Wall }           from '@/types'
+
+export type Bbox = [number, number, number, number]   // minLng, minLat, maxLng, maxLat
+
+export interface WallSearchFilters {
+  bbox?:          Bbox
+  q?:             string
+  tiers?:         number[]
+  minPrice?:      string
+  maxPrice?:      string
+  minArea?:       string
+  maxArea?:       string
+  availableFrom?: string
+  availableTo?:   string
+  sort?:          'price_asc' | 'price_desc' | 'distance' | 'newest' | 'rating'
+}
+
+export type WallSearchHit = Wall & { distanceKm: number | null; rating: number | null }
+
+const DEBOUNCE_MS = 300
+
+/** Query string for /api/walls/search (and the cluster tiles, which take the same filters) */
+export function searchQuery(f: WallSearchFilters): string {
+  const qs = new URLSearchParams()
+  if (f.bbox)          qs.set('bbox', f.bbox.map(n => n.toFixed(5)).join(','))
+  if (f.q?.trim())     qs.set('q', f.q.trim())
+  if (f.tiers?.length) qs.set('tiers', f.tiers.join(','))
+  for (const key of ['minPrice', 'maxPrice', 'minArea', 'maxArea', 'sort'] as const) {
+    if (f[key]) qs.set(key, f[key]!)
+  }
+  // Dates only filter once both ends are picked
+  if (f.availableFrom && f.availableTo) {
+    qs.set('availableFrom', f.availableFrom)
+    qs.set('availableTo',   f.availableTo)
+  }
+  return qs.toString()
+}
+
+/**
+ * Walls from /api/walls/search for the current filters. Refetches (debounced,
+ * since map panning fires in bursts) whenever they change; `loadMore` appends
+ * the next page.
+ */
+export function useWallSearch(filters: WallSearchFilters) {
+  const query = searchQuery(filters)
+  const [walls,      setWalls]      = useState<WallSearchHit[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading,    setLoading]    = useState(true)
+  const [error,      setError]      = useState('')
+
+  useEffect(() => {
+    let stale = false
+    const timer = setTimeout(() => {
+      setLoading(true)
+      fetch(`/api/walls/search?${query}`)
+        .then(r => r.json())
+        .then(data => {
+          if (stale) return
+          if (data.error) throw new Error(data.error)
+          setWalls(data.walls)
+          setNextCursor(data.nextCursor)
+          setError('')
+        })
+        .catch(e => { if (!stale) setError(e instanceof Error ? e.message : 'Search failed') })
+        .finally(() => { if (!stale) setLoading(false) })
+    }, DEBOUNCE_MS)
+    return () => { stale = true; clearTimeout(timer) }
+  }, [query])
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return
+    setLoading(true)
+    try {
+      const res  = await fetch(`/api/walls/search?${query}&cursor=${encodeURIComponent(nextCursor)}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Search failed')
+      setWalls(list => [...list, ...data.walls])
+      setNextCursor(data.nextCursor)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Search failed')
+    } finally {
+      setLoading(false)
+    }
+  }, [query, nextCursor])
+
+  return { walls, nextCursor, loading, error, loadMore }
+}
@@ -0,0 +1,186 @@
+/**
+ * Sign-In-With-Ethereum session layer (server-side only).
+ *
+ * Flow:
+ *   1. GET  /api/auth/nonce   → random nonce and its issue time, also stored in
+ *                               an HTTP-only cookie signed with SESSION_SECRET
+ *   2. Wallet signs an EIP-4361 message with that nonce, issue time and an
+ *      expiration NONCE_TTL_SEC later
+ *   3. POST /api/auth/verify  → message checked against the cookie, signature
+ *                               checked with viem, session cookie issued and
+ *                               the nonce cookie cleared
+ *
+ * The session cookie is `base64url(payload).hmac` signed with SESSION_SECRET,
+ * so no session table is needed and route handlers can authorize statelessly.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse }   from 'next/server'
+import { cookies }                     from 'next/headers'
+import { prisma }                      from '@/lib/db'
+
+export const SESSION_COOKIE = 'wm_session'
+export const NONCE_COOKIE   = 'wm_siwe_nonce'
+
+export const SESSION_TTL_SEC = 7 * 24 * 60 * 60   // 7 days
+export const NONCE_TTL_SEC   = 10 * 60            // 10 minutes
+
+const SESSION_SECRET = process.env.SESSION_SECRET
+
+export interface Session {
+  address:   string   // lowercase 0x address of the signer
+  expiresAt: number   // unix seconds
+}
+
+// ── Token encoding ───────────────────────────────────────────────────────────
+
+function sign(payload: string): string {
+  if (!SESSION_SECRET) throw new Error('SESSION_SECRET not configured')
+  return createHmac('sha256', SESSION_SECRET).update(payload).digest('base64url')
+}
+
+export function createSessionToken(address: string): { token: string; session: Session } {
+  const session: Session = {
+    address:   address.toLowerCase(),
+    expiresAt: Math.floor(Date.now() / 1000) + SESSION_TTL_SEC,
+  }
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url')
+  return { token: `${payload}.${sign(payload)}`, session }
+}
+
+function parseSessionToken(token: string): Session | null {
+  const [payload, mac] = token.split('.')
+  if (!payload || !mac) return null
+
+  const expected = Buffer.from(sign(payload))
+  const actual   = Buffer.from(mac)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString()) as Session
+    if (!session.address || session.expiresAt < Math.floor(Date.now() / 1000)) return null
+    return session
+  } catch {
+    return null
+  }
+}
+
+// ── SIWE nonces ──────────────────────────────────────────────────────────────
+
+export interface IssuedNonce {
+  nonce:    string
+  issuedAt: Date
+}
+
+/** Cookie value binding a nonce to the time it was issued: `nonce.ms.hmac` */
+export function createNonceToken({ nonce, issuedAt }: IssuedNonce): string {
+  const payload = `${nonce}.${issuedAt.getTime()}`
+  return `${payload}.${sign(payload)}`
+}
+
+/** The nonce a cookie was issued for, or null when tampered or older than NONCE_TTL_SEC */
+export function parseNonceToken(token: string | undefined): IssuedNonce | null {
+  const [nonce, ms, mac] = token?.split('.') ?? []
+  if (!nonce || !ms || !mac) return null
+
+  const expected = Buffer.from(sign(`${nonce}.${ms}`))
+  const actual   = Buffer.from(mac)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  const issuedAt = new Date(Number(ms))
+  const age      = Date.now() - issuedAt.getTime()
+  if (Number.isNaN(age) || age < 0 || age > NONCE_TTL_SEC * 1000) return null
+  return { nonce, issuedAt }
+}
+
+export function clearNonceCookie(res: NextResponse): void {
+  res.cookies.set(NONCE_COOKIE, '', { httpOnly: true, path: '/api/auth', maxAge: 0 })
+}
+
+// ── Request helpers ──────────────────────────────────────────────────────────
+
+/**
+ * Read and verify the session cookie. Returns null when absent, tampered or expired.
+ */
+export function getSession(req: NextRequest): Session | null {
+  const token = req.cookies.get(SESSION_COOKIE)?.value
+  return token ? parseSessionToken(token) : null
+}
+
+/** getSession for server components, which have no request object */
+export function getServerSession(): Session | null {
+  const token = cookies().get(SESSION_COOKIE)?.value
+  return token ? parseSessionToken(token) : null
+}
+
+export function setSessionCookie(res: NextResponse, token: string): void {
+  res.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure:   process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path:     '/',
+    maxAge:   SESSION_TTL_SEC,
+  })
+}
+
+export function clearSessionCookie(res: NextResponse): void {
+  res.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 })
+}
+
+export function unauthorized(): NextResponse {
+  return NextResponse.json({ error: 'Sign in with your wallet first' }, { status: 401 })
+}
+
+export function forbidden(message = 'Not allowed for this wallet'): NextResponse {
+  return NextResponse.json({ error: message }, { status: 403 })
+}
+
+// ── Authorization ────────────────────────────────────────────────────────────
+
+export function sameAddress(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase()
+}
+
+export type BookingRole = 'advertiser' | 'installer' | 'wallOwner'
+
+/**
+ * Resolve which roles a wallet holds on a booking. When no installer was set
+ * the wall owner installs (mirrors the fallback used when funding the escrow).
+ */
+export function bookingRoles(
+  booking: {
+    advertiser: { walletAddress: string }
+    installer:  { walletAddress: string } | null
+    wall:       { owner: { walletAddress: string } }
+  },
+  address: string
+): BookingRole[] {
+  const roles: BookingRole[] = []
+  const installer = booking.installer?.walletAddress ?? booking.wall.owner.walletAddress
+  if (sameAddress(booking.advertiser.walletAddress, address)) roles.push('advertiser')
+  if (sameAddress(installer, address))                        roles.push('installer')
+  if (sameAddress(booking.wall.owner.walletAddress, address)) roles.push('wallOwner')
+  return roles
+}
+
+/**
+ * The signed-in user when they hold the admin role, else the 401 / 403 to
+ * return. The role is read from the DB on every request, so revoking it
+ * takes effect immediately.
+ */
+export async function requireAdmin(
+  req: NextRequest
+): Promise<{ admin: { id: string; walletAddress: string } } | { error: NextResponse }> {
+  const session = getSession(req)
+  if (!session) return { error: unauthorized() }
+  const user = await prisma.user.findUnique({ where: { walletAddress: session.address } })
+  if (!user?.isAdmin) return { error: forbidden('Admins only') }
+  return { admin: { id: user.id, walletAddress: user.walletAddress } }
+}
+
+/** Whether `address` belongs to an admin, read from the DB like requireAdmin */
+export async function isAdminAddress(address: string | null | undefined): Promise<boolean> {
+  if (!address) return false
+  const user = await prisma.user.findUnique({ where: { walletAddress: address.toLowerCase() } })
+  return !!user?.isAdmin
+}
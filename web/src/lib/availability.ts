@@ -0,0 +1,129 @@
+/**
+ * Wall availability (server-side only).
+ *
+ * A wall is occupied over [startDate, endDate) of every booking whose escrow is
+ * live or was paid out, and is held for RESERVATION_TTL_MIN while a booking sits
+ * in PENDING_PAYMENT so the advertiser can fund it without being raced. The
+ * owner's blackout ranges are unavailable too. Ranges are half-open days,
+ * matching calculateDays: a campaign may start on the day another one ends.
+ */
+
+import type { Prisma } from '@prisma/client'
+import { prisma }      from '@/lib/db'
+
+// The shared client or a transaction client
+type Db = Pick<Prisma.TransactionClient, 'booking' | 'wallBlackout'>
+
+/** Statuses whose dates are taken for good (refunded bookings free them again). */
+export const OCCUPYING_STATUSES = [
+  'FUNDED', 'PROOF_SUBMITTED', 'APPROVED', 'DISPUTED', 'CONTESTED', 'RESOLVED',
+] as const
+
+/** How long an unpaid booking holds its dates, renewed whenever payment resumes. */
+export const RESERVATION_TTL_MIN = Number(process.env.BOOKING_RESERVATION_MINUTES || 30)
+
+export interface OccupiedRange {
+  start: string              // YYYY-MM-DD, inclusive
+  end:   string              // YYYY-MM-DD, exclusive
+  kind:  'booked' | 'held' | 'blackout'
+}
+
+export function reservationExpiry(from = new Date()): Date {
+  return new Date(from.getTime() + RESERVATION_TTL_MIN * 60 * 1000)
+}
+
+function occupyingWhere(wallId: string, excludeBookingId?: string): Prisma.BookingWhereInput {
+  return {
+    wallId,
+    ...(excludeBookingId && { id: { not: excludeBookingId } }),
+    OR: [
+      { status: { in: [...OCCUPYING_STATUSES] } },
+      { status: 'PENDING_PAYMENT', reservedUntil: { gt: new Date() } },
+    ],
+  }
+}
+
+const toDay = (d: Date) => d.toISOString().slice(0, 10)
+
+/**
+ * Occupied and held ranges on a wall, optionally limited to those touching
+ * [from, to). Pass a transaction client as `db` to read inside a transaction.
+ */
+export async function occupiedRanges(
+  wallId: string,
+  window: { from?: Date; to?: Date } = {},
+  db: Db = prisma
+): Promise<OccupiedRange[]> {
+  const inWindow = {
+    ...(window.to   && { startDate: { lt: window.to } }),
+    ...(window.from && { endDate:   { gt: window.from } }),
+  }
+  const [bookings, blackouts]: [
+    { status: string; startDate: Date; endDate: Date }[],
+    { startDate: Date; endDate: Date }[],
+  ] = await Promise.all([
+    db.booking.findMany({
+      where:   { ...occupyingWhere(wallId), ...inWindow },
+      select:  { status: true, startDate: true, endDate: true },
+    }),
+    db.wallBlackout.findMany({
+      where:   { wallId, ...inWindow },
+      select:  { startDate: true, endDate: true },
+    }),
+  ])
+
+  return [
+    ...bookings.map(b => ({
+      start: toDay(b.startDate),
+      end:   toDay(b.endDate),
+      kind:  (b.status === 'PENDING_PAYMENT' ? 'held' : 'booked') as OccupiedRange['kind'],
+    })),
+    ...blackouts.map(b => ({
+      start: toDay(b.startDate),
+      end:   toDay(b.endDate),
+      kind:  'blackout' as const,
+    })),
+  ].sort((a, b) => a.start.localeCompare(b.start))
+}
+
+/**
+ * First booking occupying or holding any day of [start, end) on the wall,
+ * ignoring `excludeBookingId` (the booking being re-checked). Null when free.
+ */
+export async function findOverlap(
+  wallId: string,
+  start: Date,
+  end: Date,
+  excludeBookingId?: string,
+  db: Db = prisma
+): Promise<{ id: string; startDate: Date; endDate: Date } | null> {
+  return db.booking.findFirst({
+    where: {
+      ...occupyingWhere(wallId, excludeBookingId),
+      startDate: { lt: end },
+      endDate:   { gt: start },
+    },
+    select: { id: true, startDate: true, endDate: true },
+  })
+}
+
+/** First owner blackout touching [start, end) on the wall, or null */
+export async function findBlackout(
+  wallId: string,
+  start: Date,
+  end: Date,
+  db: Db = prisma
+): Promise<{ startDate: Date; endDate: Date; reason: string | null } | null> {
+  return db.wallBlackout.findFirst({
+    where:  { wallId, startDate: { lt: end }, endDate: { gt: start } },
+    select: { startDate: true, endDate: true, reason: true },
+  })
+}
+
+export function blackoutMessage(b: { startDate: Date; endDate: Date; reason: string | null }): string {
+  return `Wall is unavailable from ${toDay(b.startDate)} to ${toDay(b.endDate)}${b.reason ? ` (${b.reason})` : ''}`
+}
+
+export function overlapMessage(clash: { startDate: Date; endDate: Date }): string {
+  return `Wall is already booked from ${toDay(clash.startDate)} to ${toDay(clash.endDate)}`
+}
@@ -3,6 +3,7 @@ import {
   encodePacked,
   encodeAbiParameters,
   parseAbiParameters,
+  zeroAddress,
 } from 'viem'
 
 /**
@@ -41,6 +42,14 @@ export function buildMetadataHash(meta: {
   visibilityTier:  number
   visibilityMult:  number
   totalBnb:        string
+  pricingRules:    string | null   // Booking.pricingRulesJson; null = flat rate
+  paymentToken:    string | null   // null = native BNB
+  paymentAmount:   string          // escrowed amount in the payment currency's smallest unit
+  proofDeadlineSec: number
+  disputeWindowSec: number
+  installerFeeBps:  number
+  milestoneCount:   number
+  milestoneIntervalSec: number
 }): { json: string; hash: `0x${string}` } {
   // Canonical form: sorted keys, no whitespace
   const json = JSON.stringify({
@@ -56,6 +65,15 @@ export function buildMetadataHash(meta: {
     visibilityTier:  meta.visibilityTier,
     visibilityMult:  meta.visibilityMult,
     totalBnb:        meta.totalBnb,
+    // Omitted for flat-rate bookings so their hashes match those built before pricing rules
+    ...(meta.pricingRules && { pricingRules: meta.pricingRules }),
+    paymentToken:    (meta.paymentToken ?? zeroAddress).toLowerCase(),
+    paymentAmount:   meta.paymentAmount,
+    proofDeadlineSec: meta.proofDeadlineSec,
+    disputeWindowSec: meta.disputeWindowSec,
+    installerFeeBps:  meta.installerFeeBps,
+    milestoneCount:   meta.milestoneCount,
+    milestoneIntervalSec: meta.milestoneIntervalSec,
   })
 
   const hash = keccak256(new TextEncoder().encode(json)) as `0x${string}`
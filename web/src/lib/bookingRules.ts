@@ -0,0 +1,123 @@
+/**
+ * Owner-defined booking rules for a wall, shared by POST /api/bookings (which
+ * enforces them) and the date pickers (which only offer compliant dates).
+ * Dates are YYYY-MM-DD in UTC; end dates are exclusive, as everywhere else.
+ * Blackout ranges are enforced with availability (lib/availability).
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const MAX_LEAD_TIME_DAYS = 365
+export const MAX_BOOKING_DAYS   = 730
+
+export interface BookingRules {
+  minBookingDays: number | null
+  maxBookingDays: number | null
+  leadTimeDays:   number
+  startWeekdays:  number[]   // 0 = Sunday … 6 = Saturday; empty = any day
+  fullMonthsOnly: boolean
+}
+
+export interface Blackout {
+  start:   string            // YYYY-MM-DD, inclusive
+  end:     string            // YYYY-MM-DD, exclusive
+  reason?: string | null
+}
+
+export const DEFAULT_BOOKING_RULES: BookingRules = {
+  minBookingDays: null,
+  maxBookingDays: null,
+  leadTimeDays:   0,
+  startWeekdays:  [],
+  fullMonthsOnly: false,
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const toDay   = (d: Date) => d.toISOString().slice(0, 10)
+const utcDate = (day: string) => new Date(`${day}T00:00:00Z`)
+
+/** Pick the rule columns off a wall row (or API payload) */
+export function rulesOf(wall: Partial<BookingRules>): BookingRules {
+  return {
+    minBookingDays: wall.minBookingDays ?? null,
+    maxBookingDays: wall.maxBookingDays ?? null,
+    leadTimeDays:   wall.leadTimeDays   ?? 0,
+    startWeekdays:  wall.startWeekdays  ?? [],
+    fullMonthsOnly: wall.fullMonthsOnly ?? false,
+  }
+}
+
+/** Earliest start day the lead time allows, counted from `today` (UTC) */
+export function earliestStart(rules: BookingRules, today: Date = new Date()): string {
+  const base = utcDate(toDay(today))
+  return toDay(new Date(base.getTime() + rules.leadTimeDays * DAY_MS))
+}
+
+/** Whether a campaign may start on `day` (lead time, weekday and month rules) */
+export function canStartOn(rules: BookingRules, day: string, today: Date = new Date()): boolean {
+  if (day < earliestStart(rules, today)) return false
+  if (rules.fullMonthsOnly) return day.endsWith('-01')
+  return rules.startWeekdays.length === 0 || rules.startWeekdays.includes(utcDate(day).getUTCDay())
+}
+
+/** Whether [start, end) has a permitted length */
+export function canEndOn(rules: BookingRules, start: string, end: string): boolean {
+  const days = Math.round((utcDate(end).getTime() - utcDate(start).getTime()) / DAY_MS)
+  if (days < 1) return false
+  if (rules.minBookingDays !== null && days < rules.minBookingDays) return false
+  if (rules.maxBookingDays !== null && days > rules.maxBookingDays) return false
+  return !rules.fullMonthsOnly || end.endsWith('-01')
+}
+
+/**
+ * Check a requested campaign against the rules. Returns an error message, or
+ * null when the dates are acceptable.
+ */
+export function checkBookingRules(
+  rules: BookingRules,
+  start: string,
+  end:   string,
+  today: Date = new Date()
+): string | null {
+  if (start < earliestStart(rules, today)) {
+    return `This wall must be booked at least ${rules.leadTimeDays} day(s) ahead`
+  }
+  if (rules.fullMonthsOnly && (!start.endsWith('-01') || !end.endsWith('-01'))) {
+    return 'This wall is only rented in full calendar months (1st to 1st)'
+  }
+  if (!canStartOn(rules, start, today)) {
+    return `Campaigns on this wall start on ${rules.startWeekdays.map(d => WEEKDAY_NAMES[d]).join(' or ')}`
+  }
+  if (!canEndOn(rules, start, end)) {
+    return rules.minBookingDays !== null && rules.maxBookingDays !== null
+      ? `Bookings must run ${rules.minBookingDays}–${rules.maxBookingDays} days`
+      : rules.minBookingDays !== null
+      ? `Bookings must run at least ${rules.minBookingDays} days`
+      : `Bookings may run at most ${rules.maxBookingDays} days`
+  }
+  return null
+}
+
+/** Validate rules submitted by the wall owner. Returns an error message or null. */
+export function validateBookingRules(rules: BookingRules, blackouts: Blackout[] = []): string | null {
+  const { minBookingDays: min, maxBookingDays: max } = rules
+  for (const v of [min, max]) {
+    if (v !== null && (!Number.isInteger(v) || v < 1 || v > MAX_BOOKING_DAYS)) {
+      return `Booking length limits must be 1–${MAX_BOOKING_DAYS} days`
+    }
+  }
+  if (min !== null && max !== null && min > max) return 'Minimum length exceeds the maximum'
+  if (!Number.isInteger(rules.leadTimeDays) || rules.leadTimeDays < 0 || rules.leadTimeDays > MAX_LEAD_TIME_DAYS) {
+    return `Lead time must be 0–${MAX_LEAD_TIME_DAYS} days`
+  }
+  if (rules.startWeekdays.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+    return 'Start weekdays must be 0 (Sunday) to 6 (Saturday)'
+  }
+  for (const b of blackouts) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(b.start) || !/^\d{4}-\d{2}-\d{2}$/.test(b.end) || b.end <= b.start) {
+      return 'Each blackout needs a start date before its end date'
+    }
+  }
+  return null
+}
@@ -0,0 +1,33 @@
+/**
+ * RFC 8785 JSON Canonicalization Scheme (JCS).
+ *
+ * Object keys are sorted by UTF-16 code units and no whitespace is emitted;
+ * strings and numbers use the ECMAScript serialization JCS is defined by, so
+ * `JSON.stringify` already gets those right. The same value always produces
+ * the same bytes, in any language with a JCS implementation.
+ */
+
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return JSON.stringify(value)
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new TypeError('Cannot canonicalize a non-finite number')
+    return JSON.stringify(value)
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(v => canonicalize(v === undefined ? null : v)).join(',')}]`
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(',')}}`
+  }
+  throw new TypeError(`Cannot canonicalize a ${typeof value}`)
+}
+
+/** UTF-8 bytes of the canonical form */
+export function canonicalBytes(value: unknown): Uint8Array {
+  return new TextEncoder().encode(canonicalize(value))
+}
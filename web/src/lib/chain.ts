@@ -0,0 +1,60 @@
+import {
+  createPublicClient, createWalletClient, http, webSocket,
+  type Account, type Chain, type PublicClient,
+} from 'viem'
+import { bscTestnet, bsc, hardhat } from 'viem/chains'
+import { CHAIN_ID, ESCROW_ABI, ESCROW_ADDRESS } from '@/lib/contract'
+
+function chainConfig(): { chain: Chain; rpcUrl: string } {
+  switch (CHAIN_ID) {
+    case 56:
+      return { chain: bsc, rpcUrl: process.env.BSC_MAINNET_RPC || 'https://bsc-dataseed.binance.org/' }
+    case 31337:
+      return { chain: hardhat, rpcUrl: process.env.LOCAL_RPC || 'http://127.0.0.1:8545' }
+    default:
+      return { chain: bscTestnet, rpcUrl: process.env.BSC_TESTNET_RPC || 'https://data-seed-prebsc-1-s1.binance.org:8545/' }
+  }
+}
+
+/**
+ * Server-side read client for the configured escrow chain.
+ * RPC URLs can be overridden per network via env (BSC_MAINNET_RPC / BSC_TESTNET_RPC,
+ * LOCAL_RPC for a Hardhat node on chainId 31337).
+ */
+export function getPublicClient(): PublicClient {
+  const { chain, rpcUrl } = chainConfig()
+  return createPublicClient({ chain, transport: http(rpcUrl) }) as PublicClient
+}
+
+/**
+ * WebSocket client for log subscriptions. Reconnects are left to the caller
+ * so it can backfill the gap before resubscribing.
+ */
+export function getWebSocketClient(url: string): PublicClient {
+  const { chain } = chainConfig()
+  return createPublicClient({ chain, transport: webSocket(url, { reconnect: false }) }) as PublicClient
+}
+
+/** Server-side client that sends transactions from `account`, e.g. the relayer */
+export function getWalletClient(account: Account) {
+  const { chain, rpcUrl } = chainConfig()
+  return createWalletClient({ account, chain, transport: http(rpcUrl) })
+}
+
+// The installer fee changes rarely; funding checks it against the contract anyway
+const INSTALLER_FEE_TTL_MS = 60_000
+let installerFee: { at: number; bps: Promise<number> } | null = null
+
+/** The escrow's platform-wide installer fee, read at most once a minute */
+export function getInstallerFeeBps(): Promise<number> {
+  if (!installerFee || Date.now() - installerFee.at > INSTALLER_FEE_TTL_MS) {
+    const bps = getPublicClient().readContract({
+      address:      ESCROW_ADDRESS,
+      abi:          ESCROW_ABI,
+      functionName: 'installerFeeBps',
+    })
+    installerFee = { at: Date.now(), bps }
+    bps.catch(() => { if (installerFee?.bps === bps) installerFee = null })   // don't cache a failed read
+  }
+  return installerFee.bps
+}
@@ -0,0 +1,123 @@
+/**
+ * Local CID computation and checks (client-safe).
+ *
+ * Content small enough to be a single IPFS block is addressed by CIDv1 over
+ * the bytes themselves (raw codec, sha2-256), so its CID can be computed here
+ * and compared with what a storage provider returns. Proof manifests are
+ * always that small, which makes the on-chain `proofContentHash` (SHA-256 of
+ * the manifest bytes) and the manifest CID two encodings of the same digest.
+ */
+
+import { CID }        from 'multiformats/cid'
+import * as raw       from 'multiformats/codecs/raw'
+import * as Digest    from 'multiformats/hashes/digest'
+import { sha256 }     from 'multiformats/hashes/sha2'
+import { ipfsUrl }    from '@/lib/ipfs'
+
+/**
+ * Largest file a provider stores as one raw block. Above this Pinata, Kubo and
+ * web3.storage chunk into a UnixFS DAG, whose root CID we don't rebuild.
+ */
+export const MAX_RAW_BLOCK_BYTES = 256 * 1024
+
+const DAG_JSON_CODE = 0x0129
+const JSON_CODE     = 0x0200
+// Codecs whose block is the document itself, so the CID digest hashes its bytes
+const SINGLE_BLOCK_CODECS = [raw.code, DAG_JSON_CODE, JSON_CODE]
+
+const toHex = (bytes: Uint8Array) =>
+  '0x' + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+
+function parseCid(cid: string): CID | null {
+  try {
+    return CID.parse(cid)
+  } catch {
+    return null
+  }
+}
+
+/** CIDv1 (raw, sha2-256) of `bytes` */
+export async function rawCid(bytes: Uint8Array): Promise<string> {
+  return CID.create(1, raw.code, await sha256.digest(bytes)).toString()
+}
+
+/** The CID a provider must return for `bytes`, or null when it builds a DAG we can't predict */
+export async function expectedCid(bytes: Uint8Array): Promise<string | null> {
+  return bytes.length <= MAX_RAW_BLOCK_BYTES ? rawCid(bytes) : null
+}
+
+/** Whether two CID strings name the same content, whatever their multibase */
+export function sameCid(a: string, b: string): boolean {
+  const x = parseCid(a)
+  const y = parseCid(b)
+  return !!x && !!y && x.toV1().equals(y.toV1())
+}
+
+/** CIDv1 (raw) for a 0x-prefixed SHA-256 content hash, as recorded by `submitProof` */
+export function cidFromContentHash(contentHash: string): string {
+  const hex = contentHash.replace(/^0x/, '')
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) throw new Error('contentHash must be 32 bytes of hex')
+  const bytes = Uint8Array.from(hex.match(/../g)!.map(h => parseInt(h, 16)))
+  return CID.create(1, raw.code, Digest.create(sha256.code, bytes)).toString()
+}
+
+/**
+ * The 0x SHA-256 a single-block CID commits to, or null when the CID is
+ * malformed, not sha2-256, or a DAG root (e.g. dag-pb) rather than the content.
+ */
+export function contentHashOfCid(cid: string): string | null {
+  const parsed = parseCid(cid)
+  if (!parsed || parsed.multihash.code !== sha256.code) return null
+  if (!SINGLE_BLOCK_CODECS.includes(parsed.code)) return null
+  return toHex(parsed.multihash.digest)
+}
+
+/** Whether `cid` addresses exactly the content hashed to `contentHash` */
+export function cidMatchesContentHash(cid: string, contentHash: string): boolean {
+  return contentHashOfCid(cid)?.toLowerCase() === contentHash.toLowerCase()
+}
+
+export interface ProofPackageVerification {
+  ok:             boolean
+  /** The CID encodes `proofContentHash` */
+  cidMatches:     boolean
+  /** SHA-256 of the bytes served for the CID, when they could be fetched */
+  fetchedHash:    string | null
+  /** Those bytes hash to `proofContentHash` */
+  contentMatches: boolean
+  error?:         string
+}
+
+/**
+ * Check a proof manifest against the hash recorded on-chain: the CID must
+ * encode `proofContentHash`, and the bytes the gateway serves for it must
+ * hash to it too (a gateway is not trusted to return what the CID names).
+ */
+export async function verifyProofPackage(
+  cid:              string,
+  proofContentHash: string,
+  fetchBytes:       (cid: string) => Promise<Uint8Array> = fetchIpfsBytes
+): Promise<ProofPackageVerification> {
+  const cidMatches = cidMatchesContentHash(cid, proofContentHash)
+
+  let fetchedHash: string | null = null
+  let error: string | undefined
+  try {
+    fetchedHash = toHex((await sha256.digest(await fetchBytes(cid))).digest)
+  } catch (e) {
+    error = e instanceof Error ? e.message : 'Could not fetch the manifest'
+  }
+
+  const contentMatches = fetchedHash !== null && fetchedHash.toLowerCase() === proofContentHash.toLowerCase()
+  if (!error && !cidMatches)     error = 'The manifest CID does not encode the on-chain hash'
+  if (!error && !contentMatches) error = 'The manifest content does not match the on-chain hash'
+
+  return { ok: cidMatches && contentMatches, cidMatches, fetchedHash, contentMatches, error }
+}
+
+/** Bytes for `cid` from the configured gateway */
+export async function fetchIpfsBytes(cid: string): Promise<Uint8Array> {
+  const res = await fetch(ipfsUrl(cid))
+  if (!res.ok) throw new Error(`Gateway returned ${res.status}`)
+  return new Uint8Array(await res.arrayBuffer())
+}
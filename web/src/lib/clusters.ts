@@ -0,0 +1,107 @@
+/**
+ * Server-side marker clustering for the map (GET /api/walls/tiles/[z]/[x]/[y]).
+ *
+ * Each tile is split into a CLUSTER_GRID × CLUSTER_GRID grid and the walls
+ * matching the search filters are aggregated per cell, so the map draws at
+ * most a few dozen bubbles per tile however many walls are listed. From
+ * SINGLE_WALL_ZOOM on, walls come back one per entry.
+ */
+
+import { prisma }                from '@/lib/db'
+import { filterSql, type WallSearch } from '@/lib/search'
+import { tileBounds }            from '@/lib/tiles'
+
+export const CLUSTER_GRID     = 8    // cells per tile side — 32px cells on 256px tiles
+export const SINGLE_WALL_ZOOM = 16
+
+/** The fields the map needs to draw and label one wall */
+export interface MapWall {
+  id:              string
+  title:           string
+  addressText:     string
+  latitude:        number
+  longitude:       number
+  pricePerSqftDay: string
+  areaSqft:        number | null
+}
+
+export interface WallCluster {
+  key:      string                             // stable across refetches of the same tile
+  lat:      number                             // mean position of the walls in the cell
+  lng:      number
+  count:    number
+  minPrice: string                             // BNB per sqft per day
+  maxPrice: string
+  bounds:   [number, number, number, number]   // minLng, minLat, maxLng, maxLat of its walls
+  wall:     MapWall | null                     // set when count is 1
+}
+
+/** One grid cell as clusterTile's query returns it */
+interface ClusterRow {
+  cell:     string
+  count:    number
+  lat:      number
+  lng:      number
+  minLat:   number
+  maxLat:   number
+  minLng:   number
+  maxLng:   number
+  minPrice: string
+  maxPrice: string
+  wall:     MapWall | null
+}
+
+type ClusterFilters = Omit<WallSearch, 'bbox' | 'near' | 'radiusKm' | 'sort' | 'cursor' | 'limit'>
+
+/** Clusters of active walls matching `filters` in tile z/x/y */
+export async function clusterTile(filters: ClusterFilters, z: number, x: number, y: number): Promise<WallCluster[]> {
+  const params: unknown[] = []
+  const p = (v: unknown) => { params.push(v); return `$${params.length}` }
+
+  const [west, south, east, north] = tileBounds(z, x, y)
+  const where = filterSql(filters, p)
+  // Half-open so a wall on a tile edge is counted once
+  where.push(`w."longitude" >= ${p(west)} AND w."longitude" < ${p(east)}`)
+  where.push(`w."latitude" > ${p(south)} AND w."latitude" <= ${p(north)}`)
+
+  const cell = z >= SINGLE_WALL_ZOOM
+    ? `w."id"`
+    : `floor((w."longitude" - ${p(west)}) / ${p((east - west) / CLUSTER_GRID)})::int || ':' ||
+       floor((${p(north)} - w."latitude") / ${p((north - south) / CLUSTER_GRID)})::int`
+
+  const rows = await prisma.$queryRawUnsafe<ClusterRow[]>(`
+    SELECT ${cell}                                         AS "cell",
+           count(*)::int                                   AS "count",
+           avg(w."latitude")::float8                       AS "lat",
+           avg(w."longitude")::float8                      AS "lng",
+           min(w."latitude")                               AS "minLat",
+           max(w."latitude")                               AS "maxLat",
+           min(w."longitude")                              AS "minLng",
+           max(w."longitude")                              AS "maxLng",
+           min(w."pricePerSqftDay"::numeric)::text         AS "minPrice",
+           max(w."pricePerSqftDay"::numeric)::text         AS "maxPrice",
+           CASE WHEN count(*) = 1 THEN json_build_object(
+             'id',              min(w."id"),
+             'title',           min(w."title"),
+             'addressText',     min(w."addressText"),
+             'latitude',        min(w."latitude"),
+             'longitude',       min(w."longitude"),
+             'pricePerSqftDay', min(w."pricePerSqftDay"),
+             'areaSqft',        min(w."areaSqft")
+           ) END                                           AS "wall"
+    FROM "Wall" w
+    WHERE ${where.join('\n      AND ')}
+    GROUP BY 1
+  `, ...params)
+
+  return rows.map(r => ({
+    key:      `${z}/${x}/${y}/${r.cell}`,
+    lat:      r.lat,
+    lng:      r.lng,
+    count:    r.count,
+    minPrice: r.minPrice,
+    maxPrice: r.maxPrice,
+    bounds:   [r.minLng, r.minLat, r.maxLng, r.maxLat],
+    wall:     r.wall,
+  }))
+}
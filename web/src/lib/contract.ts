@@ -6,6 +6,11 @@ export const ESCROW_ADDRESS =
 
 export const CHAIN_ID = Number(process.env.NEXT_PUBLIC_CHAIN_ID || 97)
 
+// ERC-2771 forwarder trusted by the escrow; zero address = no gasless relaying
+export const FORWARDER_ADDRESS =
+  (process.env.NEXT_PUBLIC_FORWARDER_ADDRESS as `0x${string}`) ||
+  '0x0000000000000000000000000000000000000000'
+
 export const ESCROW_ABI = [
   // ── Write functions ──────────────────────────────────────────────────────
   {
@@ -20,6 +25,98 @@ export const ESCROW_ABI = [
     ],
     outputs: [],
   },
+  {
+    name: 'fundBookingWithTerms',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'bookingId',        type: 'bytes32' },
+      { name: 'wallOwner',        type: 'address' },
+      { name: 'installer',        type: 'address' },
+      { name: 'metadataHash',     type: 'bytes32' },
+      { name: 'proofDeadlineSec', type: 'uint32'  },
+      { name: 'disputeWindowSec', type: 'uint24'  },
+      { name: 'installerFeeBps',  type: 'uint16'  },
+      { name: 'milestoneCount',       type: 'uint8'   },
+      { name: 'milestoneIntervalSec', type: 'uint32'  },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'fundBookingWithToken',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'bookingId',        type: 'bytes32' },
+      { name: 'wallOwner',        type: 'address' },
+      { name: 'installer',        type: 'address' },
+      { name: 'metadataHash',     type: 'bytes32' },
+      { name: 'proofDeadlineSec', type: 'uint32'  },
+      { name: 'disputeWindowSec', type: 'uint24'  },
+      { name: 'installerFeeBps',  type: 'uint16'  },
+      { name: 'milestoneCount',       type: 'uint8'   },
+      { name: 'milestoneIntervalSec', type: 'uint32'  },
+      { name: 'token',            type: 'address' },
+      { name: 'amount',           type: 'uint96'  },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'fundBookingWithPermit',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'bookingId',        type: 'bytes32' },
+      { name: 'wallOwner',        type: 'address' },
+      { name: 'installer',        type: 'address' },
+      { name: 'metadataHash',     type: 'bytes32' },
+      { name: 'proofDeadlineSec', type: 'uint32'  },
+      { name: 'disputeWindowSec', type: 'uint24'  },
+      { name: 'installerFeeBps',  type: 'uint16'  },
+      { name: 'milestoneCount',       type: 'uint8'   },
+      { name: 'milestoneIntervalSec', type: 'uint32'  },
+      { name: 'token',            type: 'address' },
+      { name: 'amount',           type: 'uint96'  },
+      { name: 'permitDeadline',   type: 'uint256' },
+      { name: 'v',                type: 'uint8'   },
+      { name: 'r',                type: 'bytes32' },
+      { name: 's',                type: 'bytes32' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'fundBookingWithQuote',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'bookingId',        type: 'bytes32' },
+      { name: 'wallOwner',        type: 'address' },
+      { name: 'installer',        type: 'address' },
+      { name: 'metadataHash',     type: 'bytes32' },
+      { name: 'proofDeadlineSec', type: 'uint32'  },
+      { name: 'disputeWindowSec', type: 'uint24'  },
+      { name: 'installerFeeBps',  type: 'uint16'  },
+      { name: 'milestoneCount',       type: 'uint8'   },
+      { name: 'milestoneIntervalSec', type: 'uint32'  },
+      {
+        name: 'quote',
+        type: 'tuple',
+        components: [
+          { name: 'bookingId',  type: 'bytes32' },
+          { name: 'advertiser', type: 'address' },
+          { name: 'wallOwner',  type: 'address' },
+          { name: 'wallId',    type: 'bytes32' },
+          { name: 'startDate', type: 'uint64'  },
+          { name: 'endDate',   type: 'uint64'  },
+          { name: 'token',     type: 'address' },
+          { name: 'amount',    type: 'uint96'  },
+          { name: 'expiresAt', type: 'uint64'  },
+        ],
+      },
+      { name: 'quoteSignature',   type: 'bytes'   },
+    ],
+    outputs: [],
+  },
   {
     name: 'submitProof',
     type: 'function',
@@ -47,6 +144,40 @@ export const ESCROW_ABI = [
     ],
     outputs: [],
   },
+  {
+    name: 'contestDispute',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'bookingId',         type: 'bytes32' },
+      { name: 'contestReasonHash', type: 'bytes32' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'finalizeDispute',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'bookingId', type: 'bytes32' }],
+    outputs: [],
+  },
+  {
+    name: 'resolveAfterTimeout',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'bookingId', type: 'bytes32' }],
+    outputs: [],
+  },
+  {
+    name: 'resolveDispute',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'bookingId',         type: 'bytes32' },
+      { name: 'wallOwnerShareBps', type: 'uint16'  },
+    ],
+    outputs: [],
+  },
   {
     name: 'claimAfterTimeout',
     type: 'function',
@@ -61,6 +192,25 @@ export const ESCROW_ABI = [
     inputs: [{ name: 'bookingId', type: 'bytes32' }],
     outputs: [],
   },
+  {
+    name: 'cancelBooking',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'bookingId', type: 'bytes32' }],
+    outputs: [],
+  },
+  {
+    name: 'cancelBookingWithConsent',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'bookingId',     type: 'bytes32' },
+      { name: 'deadline',      type: 'uint256' },
+      { name: 'advertiserSig', type: 'bytes'   },
+      { name: 'wallOwnerSig',  type: 'bytes'   },
+    ],
+    outputs: [],
+  },
 
   // ── View functions ───────────────────────────────────────────────────────
   {
@@ -83,6 +233,16 @@ export const ESCROW_ABI = [
           { name: 'disputeWindowSec', type: 'uint24'  },
           { name: 'proofContentHash', type: 'bytes32' },
           { name: 'metadataHash',     type: 'bytes32' },
+          { name: 'platformFeeBps',   type: 'uint16'  },
+          { name: 'installerFeeBps',  type: 'uint16'  },
+          { name: 'token',            type: 'address' },
+          { name: 'disputedAt',       type: 'uint40'  },
+          { name: 'milestoneCount',   type: 'uint8'   },
+          { name: 'milestone',        type: 'uint8'   },
+          { name: 'milestoneIntervalSec', type: 'uint32' },
+          { name: 'cancellationFeeBps',   type: 'uint16' },
+          { name: 'arbiter',              type: 'address' },
+          { name: 'contestedAt',          type: 'uint40' },
         ],
       },
     ],
@@ -101,6 +261,20 @@ export const ESCROW_ABI = [
     inputs:  [{ name: 'bookingId', type: 'bytes32' }],
     outputs: [{ type: 'uint256' }],
   },
+  {
+    name: 'contestDeadlineAt',
+    type: 'function',
+    stateMutability: 'view',
+    inputs:  [{ name: 'bookingId', type: 'bytes32' }],
+    outputs: [{ type: 'uint256' }],
+  },
+  {
+    name: 'arbitrationDeadlineAt',
+    type: 'function',
+    stateMutability: 'view',
+    inputs:  [{ name: 'bookingId', type: 'bytes32' }],
+    outputs: [{ type: 'uint256' }],
+  },
   {
     name: 'canClaimTimeout',
     type: 'function',
@@ -108,6 +282,41 @@ export const ESCROW_ABI = [
     inputs:  [{ name: 'bookingId', type: 'bytes32' }],
     outputs: [{ type: 'bool' }],
   },
+  {
+    name: 'platformFeeBps',
+    type: 'function',
+    stateMutability: 'view',
+    inputs:  [],
+    outputs: [{ type: 'uint16' }],
+  },
+  {
+    name: 'installerFeeBps',
+    type: 'function',
+    stateMutability: 'view',
+    inputs:  [],
+    outputs: [{ type: 'uint16' }],
+  },
+  {
+    name: 'treasury',
+    type: 'function',
+    stateMutability: 'view',
+    inputs:  [],
+    outputs: [{ type: 'address' }],
+  },
+  {
+    name: 'arbiter',
+    type: 'function',
+    stateMutability: 'view',
+    inputs:  [],
+    outputs: [{ type: 'address' }],
+  },
+  {
+    name: 'allowedTokens',
+    type: 'function',
+    stateMutability: 'view',
+    inputs:  [{ name: 'token', type: 'address' }],
+    outputs: [{ type: 'bool' }],
+  },
   {
     name: 'DEFAULT_PROOF_DEADLINE',
     type: 'function',
@@ -122,6 +331,41 @@ export const ESCROW_ABI = [
     inputs:  [],
     outputs: [{ type: 'uint24' }],
   },
+  {
+    name: 'MAX_MILESTONES',
+    type: 'function',
+    stateMutability: 'view',
+    inputs:  [],
+    outputs: [{ type: 'uint8' }],
+  },
+  {
+    name: 'CONTEST_WINDOW',
+    type: 'function',
+    stateMutability: 'view',
+    inputs:  [],
+    outputs: [{ type: 'uint32' }],
+  },
+  {
+    name: 'cancellationFeeBps',
+    type: 'function',
+    stateMutability: 'view',
+    inputs:  [],
+    outputs: [{ type: 'uint16' }],
+  },
+  {
+    name: 'quoteSigner',
+    type: 'function',
+    stateMutability: 'view',
+    inputs:  [],
+    outputs: [{ type: 'address' }],
+  },
+  {
+    name: 'trustedForwarder',
+    type: 'function',
+    stateMutability: 'view',
+    inputs:  [],
+    outputs: [{ type: 'address' }],
+  },
 
   // ── Events ───────────────────────────────────────────────────────────────
   {
@@ -134,6 +378,28 @@ export const ESCROW_ABI = [
       { name: 'installer',    type: 'address', indexed: false },
       { name: 'amount',       type: 'uint96',  indexed: false },
       { name: 'metadataHash', type: 'bytes32', indexed: false },
+      { name: 'token',        type: 'address', indexed: false },
+    ],
+  },
+  {
+    name: 'BookingTermsSet',
+    type: 'event',
+    inputs: [
+      { name: 'bookingId',        type: 'bytes32', indexed: true  },
+      { name: 'proofDeadlineSec', type: 'uint32',  indexed: false },
+      { name: 'disputeWindowSec', type: 'uint24',  indexed: false },
+      { name: 'proofDeadlineAt',  type: 'uint64',  indexed: false },
+      { name: 'platformFeeBps',   type: 'uint16',  indexed: false },
+      { name: 'installerFeeBps',  type: 'uint16',  indexed: false },
+    ],
+  },
+  {
+    name: 'MilestonesSet',
+    type: 'event',
+    inputs: [
+      { name: 'bookingId',            type: 'bytes32', indexed: true  },
+      { name: 'milestoneCount',       type: 'uint8',   indexed: false },
+      { name: 'milestoneIntervalSec', type: 'uint32',  indexed: false },
     ],
   },
   {
@@ -145,14 +411,62 @@ export const ESCROW_ABI = [
       { name: 'submittedAt',      type: 'uint64',  indexed: false },
     ],
   },
+  {
+    name: 'ProofDisputed',
+    type: 'event',
+    inputs: [
+      { name: 'bookingId',           type: 'bytes32', indexed: true  },
+      { name: 'rejectionReasonHash', type: 'bytes32', indexed: false },
+      { name: 'contestDeadline',     type: 'uint64',  indexed: false },
+    ],
+  },
+  {
+    name: 'DisputeContested',
+    type: 'event',
+    inputs: [
+      { name: 'bookingId',         type: 'bytes32', indexed: true  },
+      { name: 'contestReasonHash', type: 'bytes32', indexed: false },
+    ],
+  },
+  {
+    name: 'DisputeResolved',
+    type: 'event',
+    inputs: [
+      { name: 'bookingId',         type: 'bytes32', indexed: true  },
+      { name: 'arbiter',           type: 'address', indexed: true  },
+      { name: 'wallOwnerShareBps', type: 'uint16',  indexed: false },
+      { name: 'advertiserRefund',  type: 'uint96',  indexed: false },
+    ],
+  },
+  {
+    name: 'BookingCancelled',
+    type: 'event',
+    inputs: [
+      { name: 'bookingId',       type: 'bytes32', indexed: true  },
+      { name: 'mutualConsent',   type: 'bool',    indexed: false },
+      { name: 'cancellationFee', type: 'uint96',  indexed: false },
+    ],
+  },
+  {
+    name: 'BookingQuoted',
+    type: 'event',
+    inputs: [
+      { name: 'bookingId', type: 'bytes32', indexed: true  },
+      { name: 'wallId',    type: 'bytes32', indexed: false },
+      { name: 'startDate', type: 'uint64',  indexed: false },
+      { name: 'endDate',   type: 'uint64',  indexed: false },
+    ],
+  },
   {
     name: 'FundsReleased',
     type: 'event',
     inputs: [
-      { name: 'bookingId',  type: 'bytes32', indexed: true  },
-      { name: 'recipient',  type: 'address', indexed: true  },
-      { name: 'amount',     type: 'uint96',  indexed: false },
-      { name: 'finalState', type: 'uint8',   indexed: false },
+      { name: 'bookingId',    type: 'bytes32', indexed: true  },
+      { name: 'recipient',    type: 'address', indexed: true  },
+      { name: 'amount',       type: 'uint96',  indexed: false },
+      { name: 'finalState',   type: 'uint8',   indexed: false },
+      { name: 'installerFee', type: 'uint96',  indexed: false },
+      { name: 'platformFee',  type: 'uint96',  indexed: false },
     ],
   },
 
@@ -166,6 +480,122 @@ export const ESCROW_ABI = [
   { name: 'DisputeWindowClosed',     type: 'error', inputs: [] },
   { name: 'ProofDeadlineMissed',     type: 'error', inputs: [] },
   { name: 'ProofDeadlineNotReached', type: 'error', inputs: [] },
+  { name: 'InvalidTerms',            type: 'error', inputs: [] },
+  { name: 'InvalidFee',              type: 'error', inputs: [] },
+  { name: 'TokenNotAllowed',         type: 'error', inputs: [] },
+  { name: 'FeeOnTransferToken',      type: 'error', inputs: [] },
+  { name: 'InvalidShare',            type: 'error', inputs: [] },
+  { name: 'InvalidSignature',        type: 'error', inputs: [] },
+  { name: 'SignatureExpired',        type: 'error', inputs: [] },
+  { name: 'QuoteRequired',           type: 'error', inputs: [] },
+  { name: 'QuoteMismatch',           type: 'error', inputs: [] },
+] as const
+
+// Subset of BEP-20 / EIP-2612 used to pay for bookings in stablecoins
+export const ERC20_ABI = [
+  {
+    name: 'approve',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'spender', type: 'address' },
+      { name: 'value',   type: 'uint256' },
+    ],
+    outputs: [{ type: 'bool' }],
+  },
+  {
+    name: 'allowance',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'owner',   type: 'address' },
+      { name: 'spender', type: 'address' },
+    ],
+    outputs: [{ type: 'uint256' }],
+  },
+  {
+    name: 'balanceOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs:  [{ name: 'account', type: 'address' }],
+    outputs: [{ type: 'uint256' }],
+  },
+  {
+    name: 'decimals',
+    type: 'function',
+    stateMutability: 'view',
+    inputs:  [],
+    outputs: [{ type: 'uint8' }],
+  },
+  {
+    name: 'name',
+    type: 'function',
+    stateMutability: 'view',
+    inputs:  [],
+    outputs: [{ type: 'string' }],
+  },
+  {
+    // Only present on EIP-2612 tokens — a successful read means permit is supported
+    name: 'nonces',
+    type: 'function',
+    stateMutability: 'view',
+    inputs:  [{ name: 'owner', type: 'address' }],
+    outputs: [{ type: 'uint256' }],
+  },
+] as const
+
+const FORWARD_REQUEST_COMPONENTS = [
+  { name: 'from',     type: 'address' },
+  { name: 'to',       type: 'address' },
+  { name: 'value',    type: 'uint256' },
+  { name: 'gas',      type: 'uint256' },
+  { name: 'nonce',    type: 'uint256' },
+  { name: 'deadline', type: 'uint48'  },
+  { name: 'data',     type: 'bytes'   },
+] as const
+
+// WallMarkForwarder — relays signed ForwardRequests into the escrow
+export const FORWARDER_ABI = [
+  {
+    name: 'execute',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'req',       type: 'tuple', components: FORWARD_REQUEST_COMPONENTS },
+      { name: 'signature', type: 'bytes' },
+    ],
+    outputs: [{ type: 'bytes' }],
+  },
+  {
+    name: 'verify',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'req',       type: 'tuple', components: FORWARD_REQUEST_COMPONENTS },
+      { name: 'signature', type: 'bytes' },
+    ],
+    outputs: [{ type: 'bool' }],
+  },
+  {
+    name: 'nonces',
+    type: 'function',
+    stateMutability: 'view',
+    inputs:  [{ name: 'owner', type: 'address' }],
+    outputs: [{ type: 'uint256' }],
+  },
+  {
+    name: 'Forwarded',
+    type: 'event',
+    inputs: [
+      { name: 'from',  type: 'address', indexed: true  },
+      { name: 'to',    type: 'address', indexed: true  },
+      { name: 'nonce', type: 'uint256', indexed: false },
+    ],
+  },
+  { name: 'InvalidSignature', type: 'error', inputs: [] },
+  { name: 'SignatureExpired', type: 'error', inputs: [] },
+  { name: 'InvalidNonce',     type: 'error', inputs: [] },
+  { name: 'ValueMismatch',    type: 'error', inputs: [] },
 ] as const
 
 // BookingState enum mirror
@@ -175,10 +605,72 @@ export const BookingState = {
   Approved:       2,
   Rejected:       3,
   Expired:        4,
+  Disputed:       5,
+  Contested:      6,
+  Resolved:       7,
+  Cancelled:      8,
 } as const
 
 export type BookingStateValue = (typeof BookingState)[keyof typeof BookingState]
 
+// EIP-712 domain of the escrow, for cancellation consent and price quotes
+export const ESCROW_DOMAIN = {
+  name:              'PhysicalWallEscrow',
+  version:           '1',
+  chainId:           CHAIN_ID,
+  verifyingContract: ESCROW_ADDRESS,
+} as const
+
+// Consent both the advertiser and the wall owner sign for cancelBookingWithConsent
+export const CANCEL_TYPES = {
+  CancelBooking: [
+    { name: 'bookingId', type: 'bytes32' },
+    { name: 'deadline',  type: 'uint256' },
+  ],
+} as const
+
+// Price quote signed by the platform's quote signer, checked by fundBookingWithQuote
+export const QUOTE_TYPES = {
+  PriceQuote: [
+    { name: 'bookingId',  type: 'bytes32' },
+    { name: 'advertiser', type: 'address' },
+    { name: 'wallOwner',  type: 'address' },
+    { name: 'wallId',    type: 'bytes32' },
+    { name: 'startDate', type: 'uint64'  },
+    { name: 'endDate',   type: 'uint64'  },
+    { name: 'token',     type: 'address' },
+    { name: 'amount',    type: 'uint96'  },
+    { name: 'expiresAt', type: 'uint64'  },
+  ],
+} as const
+
+// Installer's attestation of a proof manifest (lib/proofManifest). contentHash
+// is the manifest hashed without its signature; GPS is in degrees × 1e7.
+export const PROOF_TYPES = {
+  ProofAttestation: [
+    { name: 'bookingId',   type: 'bytes32'   },
+    { name: 'milestone',   type: 'uint8'     },
+    { name: 'contentHash', type: 'bytes32'   },
+    { name: 'mediaHashes', type: 'bytes32[]' },
+    { name: 'hasGps',      type: 'bool'      },
+    { name: 'gpsLatE7',    type: 'int32'     },
+    { name: 'gpsLngE7',    type: 'int32'     },
+    { name: 'timestamp',   type: 'uint64'    },
+  ],
+} as const
+
+export const FORWARDER_DOMAIN = {
+  name:              'WallMarkForwarder',
+  version:           '1',
+  chainId:           CHAIN_ID,
+  verifyingContract: FORWARDER_ADDRESS,
+} as const
+
+// A call the signer wants the relayer to make for them through the forwarder
+export const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: FORWARD_REQUEST_COMPONENTS,
+} as const
+
 export const EXPLORER_BASE =
   CHAIN_ID === 56
     ? 'https://bscscan.com'
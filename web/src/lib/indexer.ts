@@ -0,0 +1,433 @@
+/**
+ * Escrow event indexer.
+ *
+ * Booking status, settlement tx hashes and the proof / dispute deadlines are derived
+ * exclusively from the escrow's logs (funding, terms, proof, dispute and release —
+ * including cancellation refunds) stored
+ * in ChainEvent. Nothing the browser sends can move a booking between states;
+ * a client-reported tx hash is only a hint that makes us fetch and verify that
+ * receipt sooner than the next scheduled sync.
+ *
+ * Sync progress is kept in a SyncCursor per (chainId, contract). Only blocks at
+ * least INDEXER_CONFIRMATIONS deep are scanned; if the hash of the cursor block
+ * has changed since it was scanned, events past the fork point are rolled back
+ * and the affected bookings re-derived before scanning resumes.
+ */
+
+import { parseEther, parseEventLogs, zeroAddress, type Log, type PublicClient } from 'viem'
+import type { Prisma, ChainEvent }                  from '@prisma/client'
+import { prisma }                                      from '@/lib/db'
+import { ESCROW_ABI, ESCROW_ADDRESS, CHAIN_ID, BookingState } from '@/lib/contract'
+import { DEFAULT_DISPUTE_WINDOW_SEC }                 from '@/lib/terms'
+import { notifyBookingChange }                        from '@/lib/notifications'
+import { emitBookingWebhooks }                        from '@/lib/webhooks'
+
+export const ESCROW_EVENTS = [
+  'BookingFunded', 'BookingTermsSet', 'MilestonesSet', 'ProofSubmitted',
+  'ProofDisputed', 'DisputeContested', 'DisputeResolved', 'FundsReleased',
+] as const
+
+const LOG_BATCH = BigInt(2000)
+
+// How far back a rollback may rewind when searching for the fork point
+const MAX_REORG_DEPTH = BigInt(256)
+
+/** First block worth scanning — set to the escrow deployment block. */
+export const START_BLOCK   = BigInt(process.env.INDEXER_START_BLOCK || '0')
+/** Blocks an event must be buried under before it is indexed. */
+export const CONFIRMATIONS = BigInt(process.env.INDEXER_CONFIRMATIONS || '3')
+
+type BookingStatusValue =
+  | 'PENDING_PAYMENT' | 'FUNDED' | 'PROOF_SUBMITTED'
+  | 'APPROVED' | 'REJECTED' | 'EXPIRED'
+  | 'DISPUTED' | 'CONTESTED' | 'RESOLVED' | 'CANCELLED'
+
+export interface ChainEventRow {
+  txHash:      string
+  blockNumber: bigint
+  logIndex:    number
+  eventName:   string
+  rawData:     Record<string, any>
+}
+
+export interface DerivedBookingState {
+  status:          BookingStatusValue
+  txHashFund:      string | null
+  txHashProof:     string | null
+  txHashSettle:    string | null
+  proofDeadlineAt: Date   | null
+  disputeDeadline: Date   | null
+  contestDeadline: Date   | null
+  platformFeeBps:  number | null
+  resolutionShareBps: number | null
+  currentMilestone: number
+}
+
+/** What the BookingFunded event must agree with for the DB booking to count as funded. */
+export interface ExpectedFunding {
+  advertiser:   string
+  wallOwner:    string
+  metadataHash: string | null
+  amount:       bigint          // wei for BNB bookings, token units otherwise
+  token:        string | null   // null = native BNB
+}
+
+// ── Ingestion ────────────────────────────────────────────────────────────────
+
+// BigInt is not JSON-serialisable, so event args are stored with bigint → string
+function jsonArgs(args: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(args).map(([k, v]) => [k, typeof v === 'bigint' ? v.toString() : v])
+  )
+}
+
+/**
+ * Decode raw logs emitted by the escrow and persist them as ChainEvent rows.
+ * Idempotent on (chainId, txHash, logIndex). Returns the bookingIds touched.
+ */
+export async function recordEscrowLogs(logs: Log[]): Promise<Set<string>> {
+  const decoded = parseEventLogs({ abi: ESCROW_ABI, logs, eventName: [...ESCROW_EVENTS] })
+  const touched = new Set<string>()
+
+  for (const log of decoded) {
+    if (log.address.toLowerCase() !== ESCROW_ADDRESS.toLowerCase()) continue
+    if (log.transactionHash === null || log.blockNumber === null || log.logIndex === null) continue
+    if (log.removed) continue
+
+    const bookingIdHex = log.args.bookingId
+    await prisma.chainEvent.upsert({
+      where:  { chainId_txHash_logIndex: { chainId: CHAIN_ID, txHash: log.transactionHash, logIndex: log.logIndex } },
+      create: {
+        chainId:      CHAIN_ID,
+        contractAddr: ESCROW_ADDRESS,
+        txHash:       log.transactionHash,
+        blockNumber:  log.blockNumber,
+        logIndex:     log.logIndex,
+        blockHash:    log.blockHash,
+        eventName:    log.eventName,
+        bookingIdHex,
+        rawData:      jsonArgs(log.args) as Prisma.InputJsonValue,
+      },
+      update: {},
+    })
+    touched.add(bookingIdHex)
+  }
+
+  return touched
+}
+
+// ── Derivation ───────────────────────────────────────────────────────────────
+
+// rawData is always the object jsonArgs() stored
+function toEventRow(e: ChainEvent): ChainEventRow {
+  return {
+    txHash:      e.txHash,
+    blockNumber: e.blockNumber,
+    logIndex:    e.logIndex,
+    eventName:   e.eventName,
+    rawData:     e.rawData as Record<string, any>,
+  }
+}
+
+function fundingMatches(args: Record<string, any>, expected: ExpectedFunding): boolean {
+  return (
+    String(args.advertiser).toLowerCase()   === expected.advertiser.toLowerCase() &&
+    String(args.wallOwner).toLowerCase()    === expected.wallOwner.toLowerCase() &&
+    String(args.metadataHash).toLowerCase() === (expected.metadataHash ?? '').toLowerCase() &&
+    String(args.token ?? zeroAddress).toLowerCase() === (expected.token ?? zeroAddress).toLowerCase() &&
+    BigInt(args.amount) === expected.amount
+  )
+}
+
+/**
+ * Fold a booking's chain events (any order) into its DB state.
+ * Events that are not valid transitions from the current state are ignored,
+ * and a BookingFunded that does not match the DB booking funds nothing.
+ */
+export function deriveBookingState(events: ChainEventRow[], expected: ExpectedFunding): DerivedBookingState {
+  const state: DerivedBookingState = {
+    status:          'PENDING_PAYMENT',
+    txHashFund:      null,
+    txHashProof:     null,
+    txHashSettle:    null,
+    proofDeadlineAt: null,
+    disputeDeadline: null,
+    contestDeadline: null,
+    platformFeeBps:  null,
+    resolutionShareBps: null,
+    currentMilestone: 0,
+  }
+  let disputeWindowSec     = DEFAULT_DISPUTE_WINDOW_SEC
+  let milestoneIntervalSec = 0
+  let firstProofDeadline: number | null = null   // unix seconds, milestone 0
+
+  const ordered = [...events].sort((a, b) =>
+    a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1
+  )
+
+  for (const ev of ordered) {
+    switch (ev.eventName) {
+      case 'BookingFunded':
+        if (state.status !== 'PENDING_PAYMENT' || !fundingMatches(ev.rawData, expected)) break
+        state.status     = 'FUNDED'
+        state.txHashFund = ev.txHash
+        break
+
+      case 'BookingTermsSet':
+        // Only the terms emitted by the accepted funding tx apply
+        if (state.status !== 'FUNDED' || ev.txHash !== state.txHashFund) break
+        disputeWindowSec      = Number(ev.rawData.disputeWindowSec)
+        firstProofDeadline    = Number(ev.rawData.proofDeadlineAt)
+        state.proofDeadlineAt = new Date(firstProofDeadline * 1000)
+        state.platformFeeBps  = Number(ev.rawData.platformFeeBps ?? 0)
+        break
+
+      case 'MilestonesSet':
+        if (state.status !== 'FUNDED' || ev.txHash !== state.txHashFund) break
+        milestoneIntervalSec = Number(ev.rawData.milestoneIntervalSec)
+        break
+
+      case 'ProofSubmitted':
+        if (state.status !== 'FUNDED') break
+        state.status          = 'PROOF_SUBMITTED'
+        state.txHashProof     = ev.txHash
+        state.disputeDeadline = new Date((Number(ev.rawData.submittedAt) + disputeWindowSec) * 1000)
+        break
+
+      case 'ProofDisputed':
+        if (state.status !== 'PROOF_SUBMITTED') break
+        state.status          = 'DISPUTED'
+        state.contestDeadline = new Date(Number(ev.rawData.contestDeadline) * 1000)
+        break
+
+      case 'DisputeContested':
+        if (state.status !== 'DISPUTED') break
+        state.status = 'CONTESTED'
+        break
+
+      case 'DisputeResolved':
+        // Settlement itself is marked by the FundsReleased logs that follow
+        if (state.status !== 'CONTESTED') break
+        state.resolutionShareBps = Number(ev.rawData.wallOwnerShareBps)
+        break
+
+      case 'FundsReleased': {
+        // A resolution or a cancellation with a fee emits one FundsReleased per
+        // side; the first settles the booking
+        if (!['FUNDED', 'PROOF_SUBMITTED', 'DISPUTED', 'CONTESTED'].includes(state.status)) break
+        const finalState = Number(ev.rawData.finalState)
+        if (finalState === BookingState.Funded) {
+          // Milestone release — back to FUNDED, awaiting the next milestone's proof
+          if (state.status !== 'PROOF_SUBMITTED') break
+          state.status           = 'FUNDED'
+          state.currentMilestone += 1
+          state.disputeDeadline  = null
+          if (firstProofDeadline !== null) {
+            state.proofDeadlineAt = new Date((firstProofDeadline + state.currentMilestone * milestoneIntervalSec) * 1000)
+          }
+          break
+        }
+        state.status       =
+          finalState === BookingState.Approved ? 'APPROVED' :
+          finalState === BookingState.Rejected ? 'REJECTED' :
+          finalState === BookingState.Resolved ? 'RESOLVED' :
+          finalState === BookingState.Cancelled ? 'CANCELLED' : 'EXPIRED'
+        state.txHashSettle = ev.txHash
+        break
+      }
+    }
+  }
+
+  return state
+}
+
+/**
+ * Recompute and store the DB state of the booking bound to `bookingIdHex`
+ * from every ChainEvent recorded for it, notifying the parties and queueing
+ * webhooks when the status moves. No-op if no booking is bound yet.
+ */
+export async function applyChainEvents(bookingIdHex: string): Promise<void> {
+  const booking = await prisma.booking.findUnique({
+    where:   { chainBookingId: bookingIdHex },
+    include: {
+      advertiser: { select: { walletAddress: true } },
+      wall:       { include: { owner: { select: { walletAddress: true } } } },
+    },
+  })
+  if (!booking) return
+
+  const events = (await prisma.chainEvent.findMany({
+    where: { chainId: CHAIN_ID, contractAddr: ESCROW_ADDRESS, bookingIdHex },
+  })).map(toEventRow)
+
+  const derived = deriveBookingState(events, {
+    advertiser:   booking.advertiser.walletAddress,
+    wallOwner:    booking.wall.owner.walletAddress,
+    metadataHash: booking.metadataHash,
+    amount:       booking.paymentToken ? BigInt(booking.paymentAmount ?? 0) : parseEther(booking.totalBnb),
+    token:        booking.paymentToken,
+  })
+
+  if (derived.status === 'PENDING_PAYMENT' && events.some(e => e.eventName === 'BookingFunded')) {
+    console.warn(`[indexer] BookingFunded for ${bookingIdHex} does not match booking ${booking.id}`)
+  }
+
+  await prisma.booking.update({ where: { id: booking.id }, data: derived })
+
+  // A failed notification or webhook must not hold up indexing
+  await notifyBookingChange(booking, booking, derived)
+    .catch(e => console.error(`[indexer] notifying booking ${booking.id} failed`, e))
+  await emitBookingWebhooks(booking.id, booking)
+    .catch(e => console.error(`[indexer] webhooks for booking ${booking.id} failed`, e))
+}
+
+// ── Sync entry points ────────────────────────────────────────────────────────
+
+export interface SyncResult {
+  fromBlock:  bigint
+  toBlock:    bigint
+  synced:     number
+  rolledBack: bigint | null   // fork point when a reorg was handled, else null
+}
+
+function cursorKey() {
+  return { chainId_contractAddr: { chainId: CHAIN_ID, contractAddr: ESCROW_ADDRESS } }
+}
+
+async function blockHash(client: PublicClient, blockNumber: bigint): Promise<string | null> {
+  if (blockNumber < BigInt(0)) return null
+  const block = await client.getBlock({ blockNumber })
+  return block.hash
+}
+
+/**
+ * Delete every ChainEvent above `forkPoint` and re-derive the bookings they
+ * had touched, so a later scan can replay whatever is canonical now.
+ */
+async function rollbackAbove(forkPoint: bigint): Promise<void> {
+  const where = {
+    chainId:      CHAIN_ID,
+    contractAddr: ESCROW_ADDRESS,
+    blockNumber:  { gt: forkPoint },
+  }
+  const orphaned: { bookingIdHex: string | null }[] =
+    await prisma.chainEvent.findMany({ where, select: { bookingIdHex: true } })
+
+  await prisma.chainEvent.deleteMany({ where })
+  for (const id of new Set(orphaned.map(e => e.bookingIdHex))) {
+    if (id) await applyChainEvents(id)
+  }
+}
+
+/**
+ * Find the newest block we can still trust after a reorg: the highest
+ * recorded event block whose stored hash is still canonical, bounded below by
+ * MAX_REORG_DEPTH so an event-free stretch never forces a rescan from genesis.
+ */
+async function findForkPoint(client: PublicClient, lastBlock: bigint): Promise<bigint> {
+  const floor = lastBlock - MAX_REORG_DEPTH > START_BLOCK - BigInt(1)
+    ? lastBlock - MAX_REORG_DEPTH
+    : START_BLOCK - BigInt(1)
+
+  const recent: { blockNumber: bigint; blockHash: string | null }[] = await prisma.chainEvent.findMany({
+    where:    { chainId: CHAIN_ID, contractAddr: ESCROW_ADDRESS, blockNumber: { gt: floor, lte: lastBlock } },
+    orderBy:  { blockNumber: 'desc' },
+    distinct: ['blockNumber'],
+    select:   { blockNumber: true, blockHash: true },
+  })
+
+  for (const ev of recent) {
+    if (ev.blockHash && ev.blockHash === await blockHash(client, ev.blockNumber)) return ev.blockNumber
+  }
+  return floor
+}
+
+/**
+ * Fetch escrow logs in [fromBlock, toBlock] (batched), record them and
+ * re-derive every touched booking. Stored events in the range that the node
+ * no longer returns (e.g. ingested from a hint, then reorged out) are dropped.
+ * Advances the cursor after each batch. Returns the number of logs recorded.
+ */
+export async function syncEscrowRange(
+  client:    PublicClient,
+  fromBlock: bigint,
+  toBlock:   bigint
+): Promise<number> {
+  let synced = 0
+
+  for (let start = fromBlock; start <= toBlock; start += LOG_BATCH) {
+    const end  = start + LOG_BATCH - BigInt(1) < toBlock ? start + LOG_BATCH - BigInt(1) : toBlock
+    const logs = await client.getLogs({ address: ESCROW_ADDRESS, fromBlock: start, toBlock: end })
+
+    const touched = await recordEscrowLogs(logs)
+
+    const seen  = new Set(logs.map(l => `${l.transactionHash}:${l.logIndex}`))
+    const stale = (await prisma.chainEvent.findMany({
+      where: { chainId: CHAIN_ID, contractAddr: ESCROW_ADDRESS, blockNumber: { gte: start, lte: end } },
+    }) as (ChainEventRow & { id: bigint; bookingIdHex: string | null })[])
+      .filter(e => !seen.has(`${e.txHash}:${e.logIndex}`))
+    if (stale.length) {
+      await prisma.chainEvent.deleteMany({ where: { id: { in: stale.map(e => e.id) } } })
+      for (const e of stale) if (e.bookingIdHex) touched.add(e.bookingIdHex)
+    }
+
+    for (const bookingIdHex of touched) await applyChainEvents(bookingIdHex)
+
+    await prisma.syncCursor.update({
+      where: cursorKey(),
+      data:  { lastBlock: end, lastBlockHash: await blockHash(client, end) },
+    })
+    synced += logs.length
+  }
+
+  return synced
+}
+
+/**
+ * One incremental sync pass: check the cursor block for a reorg (rolling back
+ * to the fork point if needed), then scan up to the confirmed head.
+ */
+export async function syncEscrow(client: PublicClient): Promise<SyncResult> {
+  const cursor = await prisma.syncCursor.upsert({
+    where:  cursorKey(),
+    create: { chainId: CHAIN_ID, contractAddr: ESCROW_ADDRESS, lastBlock: START_BLOCK - BigInt(1) },
+    update: {},
+  })
+
+  let lastBlock: bigint     = BigInt(cursor.lastBlock)
+  let rolledBack: bigint | null = null
+
+  if (cursor.lastBlockHash && cursor.lastBlockHash !== await blockHash(client, lastBlock)) {
+    rolledBack = await findForkPoint(client, lastBlock)
+    console.warn(`[indexer] reorg detected at block ${lastBlock}, rolling back to ${rolledBack}`)
+    await rollbackAbove(rolledBack)
+    await prisma.syncCursor.update({
+      where: cursorKey(),
+      data:  { lastBlock: rolledBack, lastBlockHash: await blockHash(client, rolledBack) },
+    })
+    lastBlock = rolledBack
+  }
+
+  const fromBlock = lastBlock + BigInt(1)
+  const toBlock   = (await client.getBlockNumber()) - CONFIRMATIONS
+  if (fromBlock > toBlock) return { fromBlock, toBlock, synced: 0, rolledBack }
+
+  const synced = await syncEscrowRange(client, fromBlock, toBlock)
+  return { fromBlock, toBlock, synced, rolledBack }
+}
+
+/**
+ * Treat a client-reported tx hash as a hint: fetch its receipt from the RPC
+ * and ingest any escrow events it contains. Returns false when the receipt is
+ * not available yet, has fewer than CONFIRMATIONS confirmations, or the tx
+ * reverted — the scheduled sync will catch up.
+ */
+export async function verifyTxHint(client: PublicClient, txHash: `0x${string}`): Promise<boolean> {
+  const receipt = await client.getTransactionReceipt({ hash: txHash }).catch(() => null)
+  if (!receipt || receipt.status !== 'success') return false
+  if (receipt.blockNumber + CONFIRMATIONS > await client.getBlockNumber()) return false
+
+  const touched = await recordEscrowLogs(receipt.logs)
+  for (const bookingIdHex of touched) await applyChainEvents(bookingIdHex)
+  return touched.size > 0
+}
@@ -0,0 +1,172 @@
+/**
+ * Listing moderation (server-side only).
+ *
+ * New walls start PENDING_REVIEW and only an admin moves them on:
+ *
+ *   PENDING_REVIEW ──approve──▶ ACTIVE ──suspend──▶ SUSPENDED ──approve──▶ ACTIVE
+ *         │                       │
+ *         │                       └──owner edits listing content (resubmit)──▶ PENDING_REVIEW
+ *         └──reject──▶ REJECTED ──owner edits (resubmit)──▶ PENDING_REVIEW
+ *
+ * Every change is written to ModerationAction and the owner is notified.
+ * Approval also runs the saved-search match and emits `wall.approved`.
+ */
+
+import type { Prisma, Wall as WallRow } from '@prisma/client'
+import type { WallView }    from '@/types'
+import { prisma }           from '@/lib/db'
+import { sameAddress, isAdminAddress } from '@/lib/auth'
+import { notify }           from '@/lib/notifications'
+import { matchNewWalls }    from '@/lib/savedSearches'
+import { emitWallApproved } from '@/lib/webhooks'
+
+export const MODERATION_ACTIONS = ['APPROVE', 'REJECT', 'SUSPEND'] as const
+export type ModerationActionType = (typeof MODERATION_ACTIONS)[number]
+
+type WallStatusValue = 'PENDING_REVIEW' | 'ACTIVE' | 'SUSPENDED' | 'REJECTED'
+
+const TRANSITIONS: Record<ModerationActionType, { from: WallStatusValue[]; to: WallStatusValue }> = {
+  APPROVE: { from: ['PENDING_REVIEW', 'SUSPENDED'], to: 'ACTIVE'    },
+  REJECT:  { from: ['PENDING_REVIEW'],              to: 'REJECTED'  },
+  SUSPEND: { from: ['ACTIVE'],                      to: 'SUSPENDED' },
+}
+
+export const MAX_REASON_LENGTH = 500
+
+/** Thrown when the action does not apply to the wall's current status */
+export class ModerationConflictError extends Error {}
+
+/** Validate a moderation request body; returns an error message or null */
+export function validateModeration(action: unknown, reason: unknown): string | null {
+  if (!MODERATION_ACTIONS.includes(action as ModerationActionType)) {
+    return `action must be one of ${MODERATION_ACTIONS.join(', ')}`
+  }
+  if (reason !== undefined && reason !== null && typeof reason !== 'string') return 'reason must be a string'
+  const text = typeof reason === 'string' ? reason.trim() : ''
+  if (action !== 'APPROVE' && !text) return 'Give the owner a reason'
+  if (text.length > MAX_REASON_LENGTH) return `reason must be at most ${MAX_REASON_LENGTH} characters`
+  return null
+}
+
+const OWNER_MESSAGES: Record<ModerationActionType, { kind: string; title: string; body: string }> = {
+  APPROVE: {
+    kind:  'WALL_APPROVED',
+    title: 'Your wall is live',
+    body:  'It now shows up in search and can be booked.',
+  },
+  REJECT: {
+    kind:  'WALL_REJECTED',
+    title: 'Your wall was not approved',
+    body:  'Edit the listing to resubmit it for review.',
+  },
+  SUSPEND: {
+    kind:  'WALL_SUSPENDED',
+    title: 'Your wall was suspended',
+    body:  'It is hidden from search and takes no new bookings. Existing bookings are not affected.',
+  },
+}
+
+/**
+ * Apply `action` to a wall as `actorId`, record it and tell the owner.
+ * Throws ModerationConflictError when the wall's status does not allow it.
+ */
+export async function moderateWall(
+  wallId:  string,
+  actorId: string,
+  action:  ModerationActionType,
+  reason?: string | null
+) {
+  const { from, to } = TRANSITIONS[action]
+  const note = reason?.trim() || null
+
+  const { wall, entry } = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const current = await tx.wall.findUnique({ where: { id: wallId } })
+    if (!current) throw new ModerationConflictError('Wall not found')
+    // Conditional update, so two admins acting at once can't both apply
+    const { count } = await tx.wall.updateMany({
+      where: { id: wallId, status: { in: from } },
+      data:  {
+        status:           to,
+        moderationReason: note,
+        reviewedAt:       new Date(),
+        ...(action === 'APPROVE' && { dimensionsLocked: true }),
+      },
+    })
+    if (count === 0) {
+      throw new ModerationConflictError(`Cannot ${action.toLowerCase()} a wall that is ${current.status.toLowerCase().replace('_', ' ')}`)
+    }
+    const entry = await tx.moderationAction.create({
+      data: { wallId, actorId, action, fromStatus: current.status, toStatus: to, reason: note },
+    })
+    return { wall: { ...current, status: to, moderationReason: note }, entry }
+  })
+
+  const message = OWNER_MESSAGES[action]
+  await notify(wall.ownerId, {
+    kind:      message.kind,
+    title:     `${message.title}: ${wall.title}`,
+    body:      note ? `${message.body}\n\nReason: ${note}` : message.body,
+    link:      `/walls/${wall.id}`,
+    dedupeKey: `moderation:${entry.id}`,
+    wallId:    wall.id,
+  }).catch(e => console.error('[moderation] notifying owner failed', e))
+
+  if (action === 'APPROVE') {
+    matchNewWalls().catch(e => console.error('[moderation] saved-search match', e))
+    emitWallApproved(wall.id, entry.id).catch(e => console.error('[moderation] webhooks', e))
+  }
+
+  return { wall, action: entry }
+}
+
+/**
+ * Send a wall back to the queue after its owner edited it: a rejected wall on
+ * any edit, a live one (`from` = 'ACTIVE') when what was approved changed.
+ * Returns true when the wall was resubmitted.
+ */
+export async function resubmitWall(
+  wallId:  string,
+  ownerId: string,
+  from:    'REJECTED' | 'ACTIVE' = 'REJECTED'
+): Promise<boolean> {
+  const { count } = await prisma.wall.updateMany({
+    where: { id: wallId, status: from },
+    data:  { status: 'PENDING_REVIEW' },
+  })
+  if (count === 0) return false
+  await prisma.moderationAction.create({
+    data: { wallId, actorId: ownerId, action: 'RESUBMIT', fromStatus: from, toStatus: 'PENDING_REVIEW' },
+  })
+  return true
+}
+
+// ── Visibility ───────────────────────────────────────────────────────────────
+
+type WallWithOwner = WallRow & { owner: { walletAddress: string } }
+
+/**
+ * What `address` may see of a wall: anyone sees an ACTIVE wall, but only its
+ * owner and admins see one under review, suspended or rejected, or the
+ * reason it was last moderated.
+ */
+export async function wallAccess(
+  wall:    { status: string; owner: { walletAddress: string } },
+  address: string | null | undefined
+): Promise<{ visible: boolean; moderation: boolean }> {
+  const privileged = sameAddress(wall.owner.walletAddress, address) || await isAdminAddress(address)
+  return { visible: privileged || wall.status === 'ACTIVE', moderation: privileged }
+}
+
+/** A wall for API responses and pages; moderation fields only when `moderation` */
+export function serializeWall(
+  { owner, moderationReason, reviewedAt, alertsMatchedAt: _, createdAt, updatedAt, ...wall }: WallWithOwner,
+  { moderation }: { moderation: boolean }
+): WallView {
+  return {
+    ...wall,
+    ownerAddress: owner.walletAddress,
+    createdAt:    createdAt.toISOString(),
+    updatedAt:    updatedAt.toISOString(),
+    ...(moderation && { moderationReason, reviewedAt: reviewedAt?.toISOString() ?? null }),
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Notification categories and per-user channel preferences. No server
+ * imports, so the settings UI can use it as well as lib/notifications.
+ */
+
+export const NOTIFICATION_CATEGORIES = ['booking', 'reminder', 'savedSearch', 'listing'] as const
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number]
+
+export const CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  booking:     'Booking updates',
+  reminder:    'Deadline reminders',
+  savedSearch: 'Saved-search matches',
+  listing:     'Listing reviews',
+}
+
+export interface ChannelPrefs {
+  inApp: boolean
+  email: boolean
+}
+
+export type NotificationPrefs = Record<NotificationCategory, ChannelPrefs>
+
+export const DEFAULT_NOTIFICATION_PREFS: NotificationPrefs = {
+  booking:     { inApp: true, email: true },
+  reminder:    { inApp: true, email: true },
+  savedSearch: { inApp: true, email: true },   // email also needs the search's digest switched on
+  listing:     { inApp: true, email: true },
+}
+
+/** Fill in defaults and coerce to booleans; unknown categories are dropped */
+export function normalizeNotificationPrefs(input: unknown): NotificationPrefs {
+  const given = (input && typeof input === 'object' ? input : {}) as Record<string, Partial<ChannelPrefs>>
+  return Object.fromEntries(NOTIFICATION_CATEGORIES.map(c => [c, {
+    inApp: typeof given[c]?.inApp === 'boolean' ? given[c].inApp! : DEFAULT_NOTIFICATION_PREFS[c].inApp,
+    email: typeof given[c]?.email === 'boolean' ? given[c].email! : DEFAULT_NOTIFICATION_PREFS[c].email,
+  }])) as NotificationPrefs
+}
+
+/** Parse User.notificationPrefsJson; null or malformed means defaults */
+export function parseNotificationPrefs(json: string | null | undefined): NotificationPrefs {
+  if (!json) return DEFAULT_NOTIFICATION_PREFS
+  try {
+    return normalizeNotificationPrefs(JSON.parse(json))
+  } catch {
+    return DEFAULT_NOTIFICATION_PREFS
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Notifications (server-side only).
+ *
+ * The chain indexer calls `notifyBookingChange` whenever it moves a booking to
+ * a new status, and the reminders cron (and the indexer worker) runs
+ * `sendDeadlineReminders` to warn about proof and dispute deadlines
+ * REMINDER_HOURS ahead. Saved-search matches
+ * (lib/savedSearches) and listing reviews (lib/moderation) use `notify` as well.
+ *
+ * Every notification has a dedupe key. Re-deriving the same event, say after
+ * a reorg or on the next sync, never notifies twice. Each user's preferences
+ * pick in-app and/or email per category; email goes out straight away through
+ * lib/email, except saved-search matches, which are batched into digests.
+ */
+
+import { Prisma }    from '@prisma/client'
+import { prisma }    from '@/lib/db'
+import { sendEmail } from '@/lib/email'
+import { parseNotificationPrefs, type NotificationCategory } from '@/lib/notificationPrefs'
+
+/** Hours before a deadline at which a reminder goes out */
+export const REMINDER_HOURS = [48, 6]
+
+const KIND_CATEGORY: Record<string, NotificationCategory> = {
+  BOOKING_FUNDED:     'booking',
+  MILESTONE_RELEASED: 'booking',
+  PROOF_SUBMITTED:    'booking',
+  PROOF_DISPUTED:     'booking',
+  DISPUTE_CONTESTED:  'booking',
+  BOOKING_SETTLED:    'booking',
+  DEADLINE_REMINDER:  'reminder',
+  SAVED_SEARCH_MATCH: 'savedSearch',
+  WALL_APPROVED:      'listing',
+  WALL_REJECTED:      'listing',
+  WALL_SUSPENDED:     'listing',
+}
+
+export interface NotificationInput {
+  kind:           string
+  title:          string
+  body:           string
+  link:           string
+  dedupeKey:      string
+  bookingId?:     string
+  savedSearchId?: string
+  wallId?:        string
+}
+
+const appUrl = () => process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+
+/**
+ * Notify one user as their preferences allow. Returns false when nothing was
+ * created, because the key was seen before or both channels are off.
+ */
+export async function notify(userId: string, n: NotificationInput): Promise<boolean> {
+  const user = await prisma.user.findUnique({ where: { id: userId } })
+  if (!user) return false
+
+  const category = KIND_CATEGORY[n.kind] ?? 'booking'
+  const prefs    = parseNotificationPrefs(user.notificationPrefsJson)[category]
+  // Saved-search email is sent in digests, not per notification
+  const emailTo  = prefs.email && category !== 'savedSearch' ? user.email : null
+  const digest   = prefs.email && category === 'savedSearch'
+  if (!prefs.inApp && !emailTo && !digest) return false
+
+  const existing = await prisma.notification.findUnique({ where: { dedupeKey: n.dedupeKey } })
+  if (existing) return false
+
+  let created
+  try {
+    created = await prisma.notification.create({ data: { userId, ...n, inApp: prefs.inApp } })
+  } catch (e) {
+    // P2002: a concurrent run won the dedupe key
+    if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2002') return false
+    throw e
+  }
+
+  if (emailTo) {
+    try {
+      await sendEmail({ to: emailTo, subject: n.title, text: `${n.body}\n\n${appUrl()}${n.link}` })
+      await prisma.notification.update({ where: { id: created.id }, data: { emailedAt: new Date() } })
+    } catch (e) {
+      console.error('[notifications] email failed for', n.dedupeKey, e)
+    }
+  }
+  return true
+}
+
+// ── Booking lifecycle ────────────────────────────────────────────────────────
+
+export interface BookingForNotify {
+  id:           string
+  advertiserId: string
+  installerId:  string | null
+  wall:         { title: string; ownerId: string }
+}
+
+export interface BookingTransition {
+  status:           string
+  currentMilestone: number
+  proofDeadlineAt:  Date | null
+  disputeDeadline:  Date | null
+  contestDeadline:  Date | null
+}
+
+const SETTLED_LABELS: Record<string, string> = {
+  APPROVED:  'approved and paid out',
+  REJECTED:  'rejected and refunded',
+  RESOLVED:  'resolved by the arbiter',
+  EXPIRED:   'closed after a missed deadline',
+  CANCELLED: 'cancelled and refunded',
+}
+
+const formatDeadline = (d: Date | null) => (d ? d.toUTCString().replace(':00 GMT', ' UTC') : 'the deadline')
+
+/** Notify the parties to a booking that the indexer moved from `prev` to `next` */
+export async function notifyBookingChange(
+  booking: BookingForNotify,
+  prev:    { status: string; currentMilestone: number },
+  next:    BookingTransition
+): Promise<void> {
+  if (prev.status === next.status && prev.currentMilestone === next.currentMilestone) return
+
+  const title      = booking.wall.title
+  const advertiser = [booking.advertiserId]
+  const supply     = Array.from(new Set([booking.wall.ownerId, booking.installerId].filter((id): id is string => !!id)))
+  const sends: [string[], Omit<NotificationInput, 'dedupeKey' | 'bookingId'>][] = []
+
+  switch (next.status) {
+    case 'FUNDED':
+      if (next.currentMilestone === 0) {
+        sends.push([supply, {
+          kind:  'BOOKING_FUNDED',
+          title: `Booking funded: ${title}`,
+          body:  `The escrow is funded. Install the artwork and submit proof by ${formatDeadline(next.proofDeadlineAt)}.`,
+          link:  booking.installerId ? `/installer/${booking.id}` : '/dashboard',
+        }])
+        sends.push([advertiser, {
+          kind:  'BOOKING_FUNDED',
+          title: `Payment confirmed: ${title}`,
+          body:  `Your payment is held in escrow until you approve the installation proof.`,
+          link:  '/dashboard',
+        }])
+      } else {
+        sends.push([supply, {
+          kind:  'MILESTONE_RELEASED',
+          title: `Milestone ${next.currentMilestone} paid: ${title}`,
+          body:  `Proof for the next milestone is due by ${formatDeadline(next.proofDeadlineAt)}.`,
+          link:  booking.installerId ? `/installer/${booking.id}` : '/dashboard',
+        }])
+      }
+      break
+
+    case 'PROOF_SUBMITTED':
+      sends.push([advertiser, {
+        kind:  'PROOF_SUBMITTED',
+        title: `Proof submitted: ${title}`,
+        body:  `Review the installation proof by ${formatDeadline(next.disputeDeadline)}. ` +
+               `After that the wall owner can claim the escrow without your approval.`,
+        link:  `/review/${booking.id}`,
+      }])
+      break
+
+    case 'DISPUTED':
+      sends.push([supply, {
+        kind:  'PROOF_DISPUTED',
+        title: `Proof disputed: ${title}`,
+        body:  `The advertiser disputed the proof. Contest it by ${formatDeadline(next.contestDeadline)} ` +
+               `to have an arbiter decide; otherwise the advertiser is refunded.`,
+        link:  '/dashboard',
+      }])
+      break
+
+    case 'CONTESTED':
+      sends.push([advertiser, {
+        kind:  'DISPUTE_CONTESTED',
+        title: `Dispute contested: ${title}`,
+        body:  'The wall owner contested your dispute. The arbiter will decide how the escrow is split.',
+        link:  '/dashboard',
+      }])
+      break
+
+    default:
+      if (!SETTLED_LABELS[next.status]) return
+      sends.push([[...advertiser, ...supply], {
+        kind:  'BOOKING_SETTLED',
+        title: `Booking ${SETTLED_LABELS[next.status]}: ${title}`,
+        body:  `The escrow for “${title}” has settled.`,
+        link:  '/dashboard',
+      }])
+  }
+
+  for (const [userIds, n] of sends) {
+    for (const userId of Array.from(new Set(userIds))) {
+      await notify(userId, {
+        ...n,
+        bookingId: booking.id,
+        dedupeKey: `booking:${booking.id}:${next.status}:${next.currentMilestone}:${userId}`,
+      })
+    }
+  }
+}
+
+// ── Deadline reminders ───────────────────────────────────────────────────────
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * Remind advertisers before the dispute window on submitted proof closes, and
+ * installers and wall owners before a proof deadline passes. Each deadline
+ * gets one reminder per REMINDER_HOURS threshold; when a booking first comes
+ * into view inside several thresholds at once, only the nearest is sent.
+ * Returns the number of notifications created.
+ */
+export async function sendDeadlineReminders(now = new Date()): Promise<number> {
+  const horizon  = new Date(now.getTime() + Math.max(...REMINDER_HOURS) * HOUR_MS)
+  const bookings = await prisma.booking.findMany({
+    where: {
+      OR: [
+        { status: 'PROOF_SUBMITTED', disputeDeadline: { gt: now, lte: horizon } },
+        { status: 'FUNDED',          proofDeadlineAt: { gt: now, lte: horizon } },
+      ],
+    },
+    include: { wall: { select: { title: true, ownerId: true } } },
+  })
+
+  let sent = 0
+  for (const b of bookings) {
+    const disputeWindow = b.status === 'PROOF_SUBMITTED'
+    const deadline = disputeWindow ? b.disputeDeadline : b.proofDeadlineAt
+    if (!deadline) continue   // excluded by the query; narrows the type
+    const hoursLeft = (deadline.getTime() - now.getTime()) / HOUR_MS
+    const threshold = [...REMINDER_HOURS].sort((x, y) => x - y).find(h => hoursLeft <= h)!
+    const left      = hoursLeft < 1 ? 'under an hour' : `about ${Math.round(hoursLeft)} hours`
+
+    const recipients: string[] = disputeWindow
+      ? [b.advertiserId]
+      : Array.from(new Set([b.installerId, b.wall.ownerId].filter((id): id is string => !!id)))
+    const n = disputeWindow
+      ? {
+          title: `Review window closes in ${left}: ${b.wall.title}`,
+          body:  `Approve or reject the installation proof before ${formatDeadline(deadline)}. ` +
+                 `After that anyone can release the escrow to the wall owner.`,
+          link:  `/review/${b.id}`,
+        }
+      : {
+          title: `Proof due in ${left}: ${b.wall.title}`,
+          body:  `Submit installation proof before ${formatDeadline(deadline)}, ` +
+                 `or the advertiser can reclaim the escrow.`,
+          link:  b.installerId ? `/installer/${b.id}` : '/dashboard',
+        }
+
+    for (const userId of recipients) {
+      const created = await notify(userId, {
+        ...n,
+        kind:      'DEADLINE_REMINDER',
+        bookingId: b.id,
+        dedupeKey: `reminder:${b.id}:${disputeWindow ? 'dispute' : 'proof'}:${deadline.getTime()}:${threshold}:${userId}`,
+      })
+      if (created) sent++
+    }
+  }
+
+  return sent
+}
@@ -1,4 +1,4 @@
-import { parseEther, formatEther } from 'viem'
+import { parseEther, formatEther, parseUnits, formatUnits } from 'viem'
 
 export const VISIBILITY_MULTIPLIERS: Record<number, { mult: number; label: string }> = {
   1: { mult: 0.70, label: 'Low — back alley, sparse foot traffic' },
@@ -8,9 +8,93 @@ export const VISIBILITY_MULTIPLIERS: Record<number, { mult: number; label: strin
   5: { mult: 1.80, label: 'Premium — CBD / transit hub' },
 }
 
+const BPS_DENOMINATOR = BigInt(10_000)
+
+export interface FeeBps {
+  platformFeeBps:  number   // read from the escrow contract, committed at funding
+  installerFeeBps: number   // platform setting read from the escrow contract, committed at funding
+}
+
+/** Amounts in the smallest unit of the payment currency, plus display strings */
+export interface PayoutSplit {
+  wallOwnerAmount: bigint
+  installerAmount: bigint
+  platformAmount:  bigint
+  wallOwner:       string
+  installer:       string
+  platform:        string
+}
+
+/** Stablecoin the booking is paid in, and the rate used to convert from BNB */
+export interface TokenQuote {
+  symbol:      string
+  decimals:    number   // read from the token contract — 18 for Binance-Peg USDT/USDC
+  bnbUsdPrice: number
+}
+
+function formatAmount(amount: bigint, decimals: number): string {
+  return Number(formatUnits(amount, decimals)).toFixed(6)
+}
+
+/**
+ * Split an escrowed amount the way PhysicalWallEscrow._release does on
+ * approval: fees round down, the wall owner gets the remainder.
+ */
+export function splitPayout(total: bigint, fees: FeeBps, decimals = 18): PayoutSplit {
+  const installerAmount = (total * BigInt(fees.installerFeeBps)) / BPS_DENOMINATOR
+  const platformAmount  = (total * BigInt(fees.platformFeeBps))  / BPS_DENOMINATOR
+  const wallOwnerAmount = total - installerAmount - platformAmount
+  return {
+    wallOwnerAmount,
+    installerAmount,
+    platformAmount,
+    wallOwner: formatAmount(wallOwnerAmount, decimals),
+    installer: formatAmount(installerAmount, decimals),
+    platform:  formatAmount(platformAmount,  decimals),
+  }
+}
+
+/**
+ * Convert a BNB amount (wei) into a $1 stablecoin's smallest unit at
+ * `bnbUsdPrice`, rounding down. The price is fixed to 8 decimals first.
+ */
+export function bnbToToken(totalWei: bigint, bnbUsdPrice: number, decimals: number): bigint {
+  const PRICE_SCALE = BigInt(100_000_000)
+  const priceBig    = BigInt(Math.round(bnbUsdPrice * 100_000_000))
+  return (totalWei * priceBig * parseUnits('1', decimals)) / (parseEther('1') * PRICE_SCALE)
+}
+
+// Use BigInt arithmetic to avoid floating-point precision loss
+// Scale by 1e6 to handle 6 decimal places safely
+const SCALE = BigInt(1_000_000)
+
+/** Divisor for dailyRateScaled: the area and multiplier are each scaled by 1e6 */
+export const RATE_SCALE = SCALE * SCALE
+
+/**
+ * One day of a wall in wei, scaled by RATE_SCALE and not yet rounded:
+ * price × (area × 1e6) × (visibility mult × 1e6). Divide only once the days
+ * are summed so totals round the same way however they are broken down.
+ */
+export function dailyRateScaled(areaSqft: number, pricePerSqftDayBnb: string, visibilityTier: number): bigint {
+  const mult     = VISIBILITY_MULTIPLIERS[visibilityTier]?.mult ?? 1.0
+  const priceWei = parseEther(pricePerSqftDayBnb)  // per sqft per day in wei
+  const areaBig  = BigInt(Math.round(areaSqft * 1_000_000))
+  const multBig  = BigInt(Math.round(mult * 1_000_000))
+  return priceWei * areaBig * multBig
+}
+
+/** The 6-decimal BNB string stored as Booking.totalBnb */
+export function formatTotalBnb(totalWei: bigint): string {
+  return Number(formatEther(totalWei)).toFixed(6)
+}
+
 /**
  * Calculate total booking cost.
- * Returns both a human-readable string and the bigint wei value.
+ * Returns both a human-readable string and the bigint wei value, plus the
+ * wall owner / installer / platform split paid out on approval. With a
+ * `token` quote, `token` holds the stablecoin amount (in its own decimals)
+ * and the split is denominated in that token.
  *
  * Formula: areaSqft × pricePerSqftDay(BNB) × visibilityMult × days
  */
@@ -18,34 +102,40 @@ export function calculatePrice(
   areaSqft: number,
   pricePerSqftDayBnb: string, // e.g. "0.000001"
   visibilityTier: number,
-  days: number
-): { totalBnb: string; totalWei: bigint; breakdown: string } {
+  days: number,
+  fees: FeeBps = { platformFeeBps: 0, installerFeeBps: 0 },
+  token?: TokenQuote
+): {
+  totalBnb:  string
+  totalWei:  bigint
+  breakdown: string
+  split:     PayoutSplit
+  token:     { amount: bigint; total: string } | null
+} {
   const mult = VISIBILITY_MULTIPLIERS[visibilityTier]?.mult ?? 1.0
 
-  // Use BigInt arithmetic to avoid floating-point precision loss
-  // Scale by 1e6 to handle 6 decimal places safely
-  const SCALE = BigInt(1_000_000)
-
-  const priceWei = parseEther(pricePerSqftDayBnb)  // per sqft per day in wei
-
-  // areaSqft * 1e6 (integer)
-  const areaBig = BigInt(Math.round(areaSqft * 1_000_000))
-  // mult * 1e6 (integer)
-  const multBig = BigInt(Math.round(mult * 1_000_000))
-  // days (integer)
-  const daysBig = BigInt(days)
-
   // total = price × area × mult × days / (SCALE × SCALE)
-  const totalWei =
-    (priceWei * areaBig * multBig * daysBig) / (SCALE * SCALE)
+  const totalWei = (dailyRateScaled(areaSqft, pricePerSqftDayBnb, visibilityTier) * BigInt(days)) / RATE_SCALE
 
-  const totalBnb = Number(formatEther(totalWei)).toFixed(6)
+  const totalBnb = formatTotalBnb(totalWei)
 
   const breakdown =
     `${areaSqft} sqft × ${pricePerSqftDayBnb} BNB/sqft/day × ` +
     `${mult}x visibility × ${days} days = ${totalBnb} BNB`
 
-  return { totalBnb, totalWei, breakdown }
+  if (!token) {
+    return { totalBnb, totalWei, breakdown, split: splitPayout(totalWei, fees), token: null }
+  }
+
+  const amount = bnbToToken(totalWei, token.bnbUsdPrice, token.decimals)
+  const total  = formatAmount(amount, token.decimals)
+  return {
+    totalBnb,
+    totalWei,
+    breakdown: `${breakdown} ≈ ${total} ${token.symbol} @ ${token.bnbUsdPrice} USD/BNB`,
+    split:     splitPayout(amount, fees, token.decimals),
+    token:     { amount, total },
+  }
 }
 
 /**
@@ -56,6 +146,13 @@ export function calculateDays(startDate: Date, endDate: Date): number {
   return Math.max(1, Math.round((endDate.getTime() - startDate.getTime()) / msPerDay))
 }
 
+/**
+ * Format basis points as a percentage, e.g. 250 → "2.5%".
+ */
+export function formatBps(bps: number): string {
+  return `${bps / 100}%`
+}
+
 /**
  * Format a BNB amount for display.
  */
@@ -0,0 +1,214 @@
+/**
+ * Owner-defined pricing rules, evaluated per day across a booking. Shared by
+ * /api/quote, POST /api/bookings (which snapshots the applied rules onto the
+ * booking) and the dashboard editor.
+ *
+ * Multipliers and discounts are basis points (10000 = 1×) so quotes stay in
+ * exact bigint arithmetic. Days are YYYY-MM-DD in UTC, end exclusive.
+ */
+
+import { dailyRateScaled, formatTotalBnb, RATE_SCALE } from './pricing'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const BPS    = BigInt(10_000)
+
+export const MAX_MULTIPLIER_BPS = 50_000   // 5×
+export const MAX_DISCOUNT_BPS   = 9_000    // 90% off
+export const MAX_SEASONS        = 20
+export const MAX_LENGTH_TIERS   = 10
+
+/** Recurring every year; `end` is exclusive and may wrap past New Year */
+export interface SeasonRule {
+  label:         string
+  start:         string   // MM-DD
+  end:           string   // MM-DD
+  multiplierBps: number
+}
+
+/** Applies to the whole booking once it runs at least `minDays` */
+export interface LengthDiscount {
+  minDays:     number
+  discountBps: number
+}
+
+/** Applies to every day when the campaign starts within `withinDays` of booking */
+export interface LastMinuteRule {
+  withinDays:    number
+  multiplierBps: number
+}
+
+export interface PricingRules {
+  seasons:              SeasonRule[]
+  weekendMultiplierBps: number | null   // Saturdays and Sundays
+  lengthDiscounts:      LengthDiscount[]
+  lastMinute:           LastMinuteRule | null
+}
+
+export const EMPTY_PRICING_RULES: PricingRules = {
+  seasons:              [],
+  weekendMultiplierBps: null,
+  lengthDiscounts:      [],
+  lastMinute:           null,
+}
+
+export interface QuoteLineItem {
+  date:          string
+  multiplierBps: number     // combined multiplier for the day
+  labels:        string[]   // rules that applied
+  amountWei:     bigint     // rounded down; line items may sum a few wei short of the subtotal
+}
+
+export interface PriceQuote {
+  days:        number
+  lineItems:   QuoteLineItem[]
+  subtotalWei: bigint
+  discount:    (LengthDiscount & { amountWei: bigint }) | null
+  totalWei:    bigint
+  totalBnb:    string
+  snapshot:    string | null   // Booking.pricingRulesJson; null when the wall has no rules
+}
+
+const toDay   = (d: Date) => d.toISOString().slice(0, 10)
+const utcDate = (day: string) => new Date(`${day}T00:00:00Z`)
+const MONTH_DAY = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/
+
+/** Parse Wall.pricingRulesJson; null or malformed JSON means no rules */
+export function parsePricingRules(json: string | null | undefined): PricingRules {
+  if (!json) return EMPTY_PRICING_RULES
+  try {
+    return normalizePricingRules(JSON.parse(json))
+  } catch {
+    return EMPTY_PRICING_RULES
+  }
+}
+
+/** Fixed key order and sorted tiers, so the stored JSON is canonical */
+export function normalizePricingRules(r: Partial<PricingRules>): PricingRules {
+  return {
+    seasons: (r.seasons ?? []).map(s => ({
+      label:         String(s.label ?? '').trim(),
+      start:         s.start,
+      end:           s.end,
+      multiplierBps: Number(s.multiplierBps),
+    })),
+    weekendMultiplierBps: r.weekendMultiplierBps == null ? null : Number(r.weekendMultiplierBps),
+    lengthDiscounts: (r.lengthDiscounts ?? [])
+      .map(t => ({ minDays: Number(t.minDays), discountBps: Number(t.discountBps) }))
+      .sort((a, b) => a.minDays - b.minDays),
+    lastMinute: r.lastMinute
+      ? { withinDays: Number(r.lastMinute.withinDays), multiplierBps: Number(r.lastMinute.multiplierBps) }
+      : null,
+  }
+}
+
+export function hasPricingRules(r: PricingRules): boolean {
+  return r.seasons.length > 0 || r.weekendMultiplierBps !== null ||
+    r.lengthDiscounts.length > 0 || r.lastMinute !== null
+}
+
+const validMultiplier = (bps: number) => Number.isInteger(bps) && bps > 0 && bps <= MAX_MULTIPLIER_BPS
+
+/** Validate rules submitted by the wall owner. Returns an error message or null. */
+export function validatePricingRules(r: PricingRules): string | null {
+  if (r.seasons.length > MAX_SEASONS) return `At most ${MAX_SEASONS} seasons`
+  for (const s of r.seasons) {
+    if (!MONTH_DAY.test(s.start) || !MONTH_DAY.test(s.end) || s.start === s.end) {
+      return 'Each season needs distinct MM-DD start and end dates'
+    }
+    if (!validMultiplier(s.multiplierBps)) return `Season multipliers must be above 0 and at most ${MAX_MULTIPLIER_BPS / 10_000}×`
+  }
+  if (r.weekendMultiplierBps !== null && !validMultiplier(r.weekendMultiplierBps)) {
+    return `The weekend multiplier must be above 0 and at most ${MAX_MULTIPLIER_BPS / 10_000}×`
+  }
+  if (r.lengthDiscounts.length > MAX_LENGTH_TIERS) return `At most ${MAX_LENGTH_TIERS} length discounts`
+  for (const [i, t] of r.lengthDiscounts.entries()) {
+    if (!Number.isInteger(t.minDays) || t.minDays < 2) return 'Length discounts start from 2 days'
+    if (!Number.isInteger(t.discountBps) || t.discountBps < 1 || t.discountBps > MAX_DISCOUNT_BPS) {
+      return `Length discounts must be 0.01–${MAX_DISCOUNT_BPS / 100}%`
+    }
+    if (i > 0 && r.lengthDiscounts[i - 1].minDays === t.minDays) return 'Two length discounts share the same minimum'
+  }
+  if (r.lastMinute) {
+    const { withinDays, multiplierBps } = r.lastMinute
+    if (!Number.isInteger(withinDays) || withinDays < 1 || withinDays > 90) return 'Last-minute window must be 1–90 days'
+    if (!validMultiplier(multiplierBps)) return `The last-minute multiplier must be above 0 and at most ${MAX_MULTIPLIER_BPS / 10_000}×`
+  }
+  return null
+}
+
+function inSeason(s: SeasonRule, day: string): boolean {
+  const md = day.slice(5)
+  return s.start < s.end
+    ? s.start <= md && md < s.end
+    : md >= s.start || md < s.end   // wraps past New Year
+}
+
+/**
+ * Price [start, end) on a wall day by day. Each day is the base rate times
+ * every matching season, the weekend multiplier on Saturdays and Sundays and
+ * the last-minute multiplier; the best length discount then comes off the
+ * subtotal. With no rules the total equals calculatePrice's.
+ */
+export function quoteBooking(
+  wall:  { areaSqft: number; pricePerSqftDay: string; visibilityTier: number },
+  rules: PricingRules,
+  start: string,
+  end:   string,
+  today: Date = new Date()
+): PriceQuote {
+  const base     = dailyRateScaled(wall.areaSqft, wall.pricePerSqftDay, wall.visibilityTier)
+  const quotedOn = toDay(today)
+  const leadDays = Math.round((utcDate(start).getTime() - utcDate(quotedOn).getTime()) / DAY_MS)
+  const lastMinute = rules.lastMinute && leadDays < rules.lastMinute.withinDays ? rules.lastMinute : null
+
+  const lineItems: QuoteLineItem[] = []
+  let scaledSum = BigInt(0)
+  for (let t = utcDate(start).getTime(); t < utcDate(end).getTime(); t += DAY_MS) {
+    const date    = toDay(new Date(t))
+    const weekday = new Date(t).getUTCDay()
+    let   mult    = BPS
+    const labels: string[] = []
+
+    for (const s of rules.seasons.filter(s => inSeason(s, date))) {
+      mult = (mult * BigInt(s.multiplierBps)) / BPS
+      labels.push(s.label || 'Season')
+    }
+    if (rules.weekendMultiplierBps !== null && (weekday === 0 || weekday === 6)) {
+      mult = (mult * BigInt(rules.weekendMultiplierBps)) / BPS
+      labels.push('Weekend')
+    }
+    if (lastMinute) {
+      mult = (mult * BigInt(lastMinute.multiplierBps)) / BPS
+      labels.push('Last minute')
+    }
+
+    scaledSum += base * mult
+    lineItems.push({
+      date,
+      multiplierBps: Number(mult),
+      labels,
+      amountWei:     (base * mult) / (RATE_SCALE * BPS),
+    })
+  }
+
+  const subtotalWei = scaledSum / (RATE_SCALE * BPS)
+  const tier        = [...rules.lengthDiscounts].reverse().find(t => lineItems.length >= t.minDays) ?? null
+  const discountWei = tier ? (subtotalWei * BigInt(tier.discountBps)) / BPS : BigInt(0)
+  const totalWei    = subtotalWei - discountWei
+
+  return {
+    days:      lineItems.length,
+    lineItems,
+    subtotalWei,
+    discount:  tier && { ...tier, amountWei: discountWei },
+    totalWei,
+    totalBnb:  formatTotalBnb(totalWei),
+    // The quote date matters for last-minute pricing, so it is part of the snapshot
+    snapshot:  hasPricingRules(rules) ? JSON.stringify({ rules, quotedOn }) : null,
+  }
+}
+
+/** Format a multiplier in basis points, e.g. 12500 → "1.25×" */
+export function formatMultiplier(bps: number): string {
+  return `${bps / 10_000}×`
+}
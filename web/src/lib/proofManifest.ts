@@ -0,0 +1,238 @@
+/**
+ * Proof manifest, version 1 (client-safe).
+ *
+ * The installer uploads one manifest per milestone and commits its SHA-256
+ * on-chain with `submitProof`. The manifest is hashed in its RFC 8785
+ * canonical form, so anyone holding it can recompute the committed hash
+ * whatever order its keys were written in.
+ *
+ * The installer signs an EIP-712 ProofAttestation (PROOF_TYPES in
+ * lib/contract) over the manifest without its `signature` field: the hash of
+ * that unsigned body, the media hashes, GPS and timestamp. The signature is
+ * then added and the whole document is what gets hashed for the chain. It is
+ * kept on the Proof row too, so an edited row can be told from what the
+ * installer attested.
+ */
+
+import { z }                from 'zod'
+import { CID }              from 'multiformats/cid'
+import { verifyTypedData }  from 'viem'
+import { PROOF_TYPES }      from '@/lib/contract'
+import { canonicalize }     from '@/lib/canonicalJson'
+import { sha256Hex }        from '@/lib/ipfs'
+import { contentHashOfCid } from '@/lib/cid'
+
+export const PROOF_MANIFEST_VERSION = 1
+export const MAX_PROOF_MEDIA        = 40
+
+const bytes32 = z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'must be 32 bytes of 0x hex')
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'must be an address')
+const hex     = z.string().regex(/^0x[0-9a-fA-F]+$/, 'must be 0x hex')
+const isoDate = z.string().datetime({ offset: true })
+const cid     = z.string().refine(v => {
+  try {
+    CID.parse(v)
+    return true
+  } catch {
+    return false
+  }
+}, 'must be a CID')
+
+export const ProofMediaSchema = z.object({
+  role:       z.enum(['before', 'after', 'video']),
+  cid,
+  sha256:     bytes32,                 // of the file's bytes
+  mimeType:   z.string().max(100),
+  size:       z.number().int().nonnegative(),
+  capturedAt: isoDate.nullable(),      // the file's own timestamp, when the device gives one
+}).strict()
+
+export const ProofManifestV1Schema = z.object({
+  version:        z.literal(PROOF_MANIFEST_VERSION),
+  bookingId:      z.string().min(1).max(64),
+  chainBookingId: bytes32,
+  milestone:      z.number().int().min(0).max(255),
+  chainId:        z.number().int().positive(),
+  contract:       address,
+  installer:      address,
+  media:          z.array(ProofMediaSchema).min(2).max(MAX_PROOF_MEDIA),
+  gps: z.object({
+    lat:        z.number().min(-90).max(90),
+    lng:        z.number().min(-180).max(180),
+    accuracyM:  z.number().nonnegative().nullable(),
+    capturedAt: isoDate.nullable(),
+  }).strict().nullable(),
+  device: z.object({
+    userAgent: z.string().max(512),
+    platform:  z.string().max(100).nullable(),
+    timezone:  z.string().max(100).nullable(),
+  }).strict(),
+  submittedAt: isoDate,
+  signature: z.object({
+    scheme: z.literal('eip712'),   // ProofAttestation, see proofAttestation()
+    signer: address,
+    value:  hex,
+  }).strict(),
+}).strict().superRefine((m, ctx) => {
+  const count = (role: string) => m.media.filter(x => x.role === role).length
+  if (count('before') === 0 || count('after') === 0) {
+    ctx.addIssue({ code: 'custom', path: ['media'], message: 'needs at least one before and one after photo' })
+  }
+  if (count('video') > 1) {
+    ctx.addIssue({ code: 'custom', path: ['media'], message: 'at most one video' })
+  }
+})
+
+export type ProofMedia               = z.infer<typeof ProofMediaSchema>
+export type ProofManifestV1          = z.infer<typeof ProofManifestV1Schema>
+export type UnsignedProofManifestV1  = Omit<ProofManifestV1, 'signature'>
+
+/** Parse an untrusted manifest; returns it, or the first problem found */
+export function parseProofManifest(input: unknown): { manifest: ProofManifestV1 } | { error: string } {
+  const result = ProofManifestV1Schema.safeParse(input)
+  if (result.success) return { manifest: result.data }
+  const issue = result.error.issues[0]
+  return { error: `manifest${issue.path.map(p => (typeof p === 'number' ? `[${p}]` : `.${p}`)).join('')} ${issue.message}` }
+}
+
+/** 0x SHA-256 of the canonical manifest — the proofContentHash committed on-chain */
+export function manifestContentHash(manifest: ProofManifestV1): Promise<string> {
+  return sha256Hex(canonicalize(manifest))
+}
+
+/** 0x SHA-256 of the canonical manifest without its signature — what the installer attests to */
+export function unsignedContentHash(manifest: UnsignedProofManifestV1 | ProofManifestV1): Promise<string> {
+  const body: Partial<ProofManifestV1> = { ...manifest }
+  delete body.signature
+  return sha256Hex(canonicalize(body))
+}
+
+const toE7 = (deg: number) => Math.round(deg * 1e7)
+
+/** The EIP-712 typed data the installer signs for `manifest` */
+export async function proofAttestation(manifest: UnsignedProofManifestV1 | ProofManifestV1) {
+  return {
+    domain: {
+      name:              'PhysicalWallEscrow',
+      version:           '1',
+      chainId:           manifest.chainId,
+      verifyingContract: manifest.contract as `0x${string}`,
+    },
+    types:       PROOF_TYPES,
+    primaryType: 'ProofAttestation' as const,
+    message: {
+      bookingId:   manifest.chainBookingId as `0x${string}`,
+      milestone:   manifest.milestone,
+      contentHash: (await unsignedContentHash(manifest)) as `0x${string}`,
+      mediaHashes: manifest.media.map(m => m.sha256 as `0x${string}`),
+      hasGps:      manifest.gps !== null,
+      gpsLatE7:    manifest.gps ? toE7(manifest.gps.lat) : 0,
+      gpsLngE7:    manifest.gps ? toE7(manifest.gps.lng) : 0,
+      timestamp:   BigInt(Math.floor(Date.parse(manifest.submittedAt) / 1000)),
+    },
+  }
+}
+
+/** Whether the manifest's signature is its signer's attestation of it */
+export async function verifyManifestSignature(manifest: ProofManifestV1): Promise<boolean> {
+  try {
+    return await verifyTypedData({
+      ...(await proofAttestation(manifest)),
+      address:   manifest.signature.signer as `0x${string}`,
+      signature: manifest.signature.value as `0x${string}`,
+    })
+  } catch {
+    return false   // malformed signature
+  }
+}
+
+/** The manifest's media split the way Proof rows store it */
+export function manifestMediaCids(manifest: ProofManifestV1) {
+  const of = (role: ProofMedia['role']) => manifest.media.filter(m => m.role === role).map(m => m.cid)
+  return {
+    beforePhotoCids: of('before'),
+    afterPhotoCids:  of('after'),
+    videoCid:        of('video')[0] ?? null,
+  }
+}
+
+/**
+ * Check a parsed manifest belongs to the proof being submitted; returns an
+ * error message or null. Media small enough to be a single block must have a
+ * CID that encodes its declared SHA-256.
+ */
+export function checkManifestBinding(
+  manifest: ProofManifestV1,
+  expected: {
+    bookingId:      string
+    chainBookingId: string | null
+    milestone:      number
+    chainId:        number
+    contract:       string
+    installer:      string
+  }
+): string | null {
+  const same = (a: string | null, b: string | null) => !!a && !!b && a.toLowerCase() === b.toLowerCase()
+
+  if (manifest.bookingId !== expected.bookingId)               return 'manifest is for another booking'
+  if (!same(manifest.chainBookingId, expected.chainBookingId)) return 'manifest chainBookingId does not match the booking'
+  if (manifest.milestone !== expected.milestone)               return `manifest is for milestone ${manifest.milestone}, expected ${expected.milestone}`
+  if (manifest.chainId !== expected.chainId)                   return 'manifest chainId does not match the booking'
+  if (!same(manifest.contract, expected.contract))             return 'manifest contract is not the escrow'
+  if (!same(manifest.installer, expected.installer))           return 'manifest installer is not the signed-in wallet'
+  if (!same(manifest.signature.signer, manifest.installer))    return 'manifest must be signed by its installer'
+
+  for (const m of manifest.media) {
+    const digest = contentHashOfCid(m.cid)
+    if (digest && digest.toLowerCase() !== m.sha256.toLowerCase()) return `media ${m.cid} does not match its sha256`
+  }
+  return null
+}
+
+/**
+ * Check a stored Proof row against the manifest bytes it points to: the
+ * manifest must be attested by the booking's installer, and the row's
+ * signature, media and GPS must be the ones in it. Returns an error message
+ * or null.
+ */
+export async function verifyProofRecord(
+  manifestBytes: Uint8Array,
+  proof: {
+    installerSignature: string | null
+    beforePhotoCids:    string[]
+    afterPhotoCids:     string[]
+    videoCid:           string | null
+    gpsLat:             number | null
+    gpsLng:             number | null
+  },
+  installerAddress: string
+): Promise<string | null> {
+  let parsed: ReturnType<typeof parseProofManifest>
+  try {
+    parsed = parseProofManifest(JSON.parse(new TextDecoder().decode(manifestBytes)))
+  } catch {
+    return 'The manifest is not JSON'
+  }
+  if ('error' in parsed) return `Not a v${PROOF_MANIFEST_VERSION} manifest: ${parsed.error}`
+  const { manifest } = parsed
+
+  if (manifest.signature.signer.toLowerCase() !== installerAddress.toLowerCase()) {
+    return 'The manifest was not signed by the booking\'s installer'
+  }
+  if (!(await verifyManifestSignature(manifest))) return 'The installer signature is invalid'
+  if (proof.installerSignature?.toLowerCase() !== manifest.signature.value.toLowerCase()) {
+    return 'The stored signature differs from the manifest'
+  }
+
+  const media = manifestMediaCids(manifest)
+  const sameList = (a: string[], b: string[]) => a.length === b.length && a.every((x, i) => x === b[i])
+  if (!sameList(proof.beforePhotoCids, media.beforePhotoCids) ||
+      !sameList(proof.afterPhotoCids, media.afterPhotoCids) ||
+      (proof.videoCid ?? null) !== media.videoCid) {
+    return 'The stored media differs from the manifest'
+  }
+  if ((proof.gpsLat ?? null) !== (manifest.gps?.lat ?? null) || (proof.gpsLng ?? null) !== (manifest.gps?.lng ?? null)) {
+    return 'The stored GPS differs from the manifest'
+  }
+  return null
+}
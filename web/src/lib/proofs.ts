@@ -0,0 +1,24 @@
+/**
+ * Proof rows as returned by the API. A booking has one Proof per milestone;
+ * `proof` on a serialized booking is the one the UI acts on — the current
+ * milestone's if submitted, otherwise the most recent.
+ */
+
+import type { Proof } from '@prisma/client'
+
+export function serializeProof(p: Proof) {
+  return {
+    ...p,
+    submittedAt: p.submittedAt.toISOString(),
+    decidedAt:   p.decidedAt?.toISOString() || null,
+    contestedAt: p.contestedAt?.toISOString() || null,
+  }
+}
+
+export function serializeProofs(proofs: Proof[], currentMilestone: number) {
+  const all = [...proofs].sort((a, b) => a.milestone - b.milestone).map(serializeProof)
+  return {
+    proofs: all,
+    proof:  all.find(p => p.milestone === currentMilestone) ?? all[all.length - 1] ?? null,
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Signed price quotes (server-side only).
+ *
+ * A quote fixes the booking, its advertiser and wall owner, the wall, dates,
+ * currency and exact amount to escrow until `expiresAt`, signed as an EIP-712
+ * PriceQuote with QUOTE_SIGNER_PRIVATE_KEY, so only that advertiser can spend
+ * it and only on that booking.
+ * When that key's address is set as the escrow's quoteSigner, the contract
+ * only accepts funding through fundBookingWithQuote at the quoted amount.
+ * Without the key, quotes are returned unsigned and funding is unchecked.
+ */
+
+import { keccak256, toHex, parseEther, zeroAddress } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { ESCROW_ABI, ESCROW_ADDRESS, ERC20_ABI, ESCROW_DOMAIN, QUOTE_TYPES } from './contract'
+import { getPublicClient }     from './chain'
+import { findPaymentToken, fetchBnbUsdPrice } from './tokens'
+import { bnbToToken }          from './pricing'
+import { deriveBookingId }     from './bookingId'
+
+export const QUOTE_TTL_MIN = Number(process.env.QUOTE_TTL_MINUTES || 15)
+
+const QUOTE_SIGNER_KEY = process.env.QUOTE_SIGNER_PRIVATE_KEY as `0x${string}` | undefined
+
+/** JSON form of the contract's PriceQuote plus its signature; integers are decimal strings */
+export interface SignedQuote {
+  bookingId:  `0x${string}`  // on-chain bookingId (lib/bookingId)
+  advertiser: `0x${string}`
+  wallOwner:  `0x${string}`
+  wallId:    `0x${string}`   // keccak256 of the off-chain wall id
+  startDate: string          // unix seconds
+  endDate:   string
+  token:     `0x${string}`   // zero address = BNB
+  amount:    string          // smallest unit of the currency
+  expiresAt: string          // unix seconds
+  signature: `0x${string}`
+}
+
+// Thrown for a currency the escrow can't take; routes answer 400
+export class QuoteError extends Error {}
+
+/**
+ * Amount to escrow for a BNB-denominated total in `currency`. Stablecoins are
+ * converted at the live BNB/USD rate and must be whitelisted on the escrow.
+ */
+export async function priceIn(
+  totalBnb: string,
+  currency: string
+): Promise<{ token: `0x${string}` | null; amount: bigint }> {
+  const token = findPaymentToken(currency)
+  if (!token) throw new QuoteError(`Unsupported payment currency ${currency}`)
+  if (!token.address) return { token: null, amount: parseEther(totalBnb) }
+
+  const client = getPublicClient()
+  const [allowed, decimals] = await Promise.all([
+    client.readContract({ address: ESCROW_ADDRESS, abi: ESCROW_ABI, functionName: 'allowedTokens', args: [token.address] }),
+    client.readContract({ address: token.address,  abi: ERC20_ABI,  functionName: 'decimals' }),
+  ])
+  if (!allowed) throw new QuoteError(`${token.symbol} is not accepted by the escrow`)
+
+  const amount = bnbToToken(parseEther(totalBnb), await fetchBnbUsdPrice(), decimals)
+  return { token: token.address.toLowerCase() as `0x${string}`, amount }
+}
+
+/** Sign a quote valid for QUOTE_TTL_MIN; null when no quote signer is configured */
+export async function signPriceQuote(q: {
+  bookingId:  `0x${string}`
+  advertiser: `0x${string}`
+  wallOwner:  `0x${string}`
+  wallId:    string
+  startDate: Date
+  endDate:   Date
+  token:     `0x${string}` | null
+  amount:    bigint
+}): Promise<SignedQuote | null> {
+  if (!QUOTE_SIGNER_KEY) return null
+
+  const message = {
+    bookingId:  q.bookingId,
+    advertiser: q.advertiser,
+    wallOwner:  q.wallOwner,
+    wallId:    keccak256(toHex(q.wallId)),
+    startDate: BigInt(Math.floor(q.startDate.getTime() / 1000)),
+    endDate:   BigInt(Math.floor(q.endDate.getTime() / 1000)),
+    token:     q.token ?? zeroAddress,
+    amount:    q.amount,
+    expiresAt: BigInt(Math.floor(Date.now() / 1000) + QUOTE_TTL_MIN * 60),
+  }
+  const signature = await privateKeyToAccount(QUOTE_SIGNER_KEY).signTypedData({
+    domain:      ESCROW_DOMAIN,
+    types:       QUOTE_TYPES,
+    primaryType: 'PriceQuote',
+    message,
+  })
+
+  return {
+    ...message,
+    startDate: message.startDate.toString(),
+    endDate:   message.endDate.toString(),
+    amount:    message.amount.toString(),
+    expiresAt: message.expiresAt.toString(),
+    signature,
+  }
+}
+
+/**
+ * Sign the quote for funding `booking` with `amount` of `token`. It is bound
+ * to the id the advertiser's wallet derives when funding, so the quote can't
+ * be spent on another booking or by another wallet.
+ */
+export function signBookingQuote(
+  booking: {
+    wallId:     string
+    createdAt:  Date
+    startDate:  Date
+    endDate:    Date
+    advertiser: { walletAddress: string }
+    wall:       { owner: { walletAddress: string } }
+  },
+  token:  `0x${string}` | null,
+  amount: bigint
+): Promise<SignedQuote | null> {
+  const advertiser = booking.advertiser.walletAddress as `0x${string}`
+  return signPriceQuote({
+    bookingId:  deriveBookingId(advertiser, booking.wallId, booking.createdAt.getTime()),
+    advertiser,
+    wallOwner:  booking.wall.owner.walletAddress as `0x${string}`,
+    wallId:     booking.wallId,
+    startDate:  booking.startDate,
+    endDate:    booking.endDate,
+    token,
+    amount,
+  })
+}
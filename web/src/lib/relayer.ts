@@ -0,0 +1,259 @@
+/**
+ * Gasless escrow calls through the ERC-2771 forwarder (server-side only).
+ *
+ * An installer or advertiser signs an EIP-712 ForwardRequest for one escrow
+ * call; the platform relayer (RELAYER_PRIVATE_KEY) submits it to
+ * WallMarkForwarder and pays the gas. The escrow trusts the forwarder, so the
+ * call acts for the signer exactly as if they had sent it themselves.
+ *
+ * Only proof submission and settlement calls are relayed, never anything that
+ * moves the relayer's own BNB into the escrow. Each signer gets
+ * RELAYER_RATE_LIMIT_PER_HOUR relays, and the relayer stops once the gas it
+ * spent in the last 24 hours reaches RELAYER_DAILY_BUDGET_BNB.
+ */
+
+import {
+  decodeFunctionData, parseEther, verifyTypedData, zeroAddress, BaseError, WaitForTransactionReceiptTimeoutError,
+} from 'viem'
+import { privateKeyToAccount }              from 'viem/accounts'
+import type { Prisma }                      from '@prisma/client'
+import { prisma }                           from './db'
+import { getPublicClient, getWalletClient } from './chain'
+import {
+  ESCROW_ABI, ESCROW_ADDRESS, FORWARDER_ABI, FORWARDER_ADDRESS, FORWARDER_DOMAIN, FORWARD_REQUEST_TYPES,
+} from './contract'
+
+const RELAYER_KEY      = process.env.RELAYER_PRIVATE_KEY as `0x${string}` | undefined
+const RATE_PER_HOUR    = Number(process.env.RELAYER_RATE_LIMIT_PER_HOUR || 10)
+const DAILY_BUDGET_WEI = parseEther(process.env.RELAYER_DAILY_BUDGET_BNB || '0.05')
+const MAX_GAS          = BigInt(process.env.RELAYER_MAX_GAS || 500_000)
+const RECEIPT_TIMEOUT_MS = Number(process.env.RELAYER_RECEIPT_TIMEOUT_SEC || 30) * 1000
+
+/** Escrow functions the relayer pays for */
+export const RELAYABLE_FUNCTIONS = [
+  'submitProof',
+  'approveProof',
+  'rejectProof',
+  'claimAfterTimeout',
+  'contestDispute',
+  'finalizeDispute',
+  'resolveAfterTimeout',
+  'reclaimExpiredBooking',
+] as const
+
+export type RelayableFunction = (typeof RELAYABLE_FUNCTIONS)[number]
+
+/** JSON form of the forwarder's ForwardRequest; integers are decimal strings */
+export interface ForwardRequestJson {
+  from:     `0x${string}`
+  to:       `0x${string}`
+  value:    string
+  gas:      string
+  nonce:    string
+  deadline: string   // unix seconds
+  data:     `0x${string}`
+}
+
+export interface RelayResult {
+  txHash:       `0x${string}`
+  status:       'PENDING' | 'CONFIRMED' | 'REVERTED'   // PENDING: sent, not mined within the receipt timeout
+  functionName: string
+}
+
+// The request is not one the relayer will pay for; routes answer 400
+export class RelayerError extends Error {}
+
+// The signer or the platform is out of relays for now; routes answer 429
+export class RelayLimitError extends RelayerError {}
+
+/** Whether a relayer key and forwarder are configured */
+export function relayerEnabled(): boolean {
+  return !!RELAYER_KEY && FORWARDER_ADDRESS !== zeroAddress
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+function toRequest(json: ForwardRequestJson) {
+  try {
+    return {
+      from:     json.from,
+      to:       json.to,
+      value:    BigInt(json.value),
+      gas:      BigInt(json.gas),
+      nonce:    BigInt(json.nonce),
+      deadline: Number(json.deadline),
+      data:     json.data,
+    }
+  } catch {
+    throw new RelayerError('value, gas, nonce and deadline must be integers')
+  }
+}
+
+/**
+ * Check a signed request against the relay policy, then submit it and wait up
+ * to RELAYER_RECEIPT_TIMEOUT_SEC for the receipt. A transaction still unmined
+ * by then comes back PENDING and is settled by settlePendingRelays().
+ * `sessionAddress` must be the request's signer.
+ */
+export async function relay(
+  json:           ForwardRequestJson,
+  signature:      `0x${string}`,
+  sessionAddress: string
+): Promise<RelayResult> {
+  if (!relayerEnabled()) throw new Error('Relayer not configured')
+  const req = toRequest(json)
+
+  if (req.from.toLowerCase() !== sessionAddress.toLowerCase()) {
+    throw new RelayerError('The request must be signed by the signed-in wallet')
+  }
+  if (req.to.toLowerCase() !== ESCROW_ADDRESS.toLowerCase()) throw new RelayerError('Only escrow calls are relayed')
+  if (req.value !== 0n)                                      throw new RelayerError('Relayed calls cannot send BNB')
+  if (req.gas <= 0n || req.gas > MAX_GAS)                    throw new RelayerError(`gas must be between 1 and ${MAX_GAS}`)
+  if (req.deadline <= Math.floor(Date.now() / 1000))         throw new RelayerError('The request has expired')
+
+  let call: ReturnType<typeof decodeFunctionData<typeof ESCROW_ABI>>
+  try {
+    call = decodeFunctionData({ abi: ESCROW_ABI, data: req.data })
+  } catch {
+    throw new RelayerError('data is not an escrow call')
+  }
+  if (!(RELAYABLE_FUNCTIONS as readonly string[]).includes(call.functionName)) {
+    throw new RelayerError(`${call.functionName} is not relayed`)
+  }
+
+  const signed = await verifyTypedData({
+    domain:      FORWARDER_DOMAIN,
+    types:       FORWARD_REQUEST_TYPES,
+    primaryType: 'ForwardRequest',
+    message:     req,
+    address:     req.from,
+    signature,
+  }).catch(() => false)
+  if (!signed) throw new RelayerError('Invalid request signature')
+
+  const account = privateKeyToAccount(RELAYER_KEY!)
+  const client  = getPublicClient()
+
+  // Estimating surfaces the escrow's revert (wrong state, stale nonce…)
+  // before any gas is spent or budget reserved
+  const execute = {
+    account,
+    address:      FORWARDER_ADDRESS,
+    abi:          FORWARDER_ABI,
+    functionName: 'execute',
+    args:         [req, signature],
+  } as const
+  let gas: bigint
+  try {
+    gas = await client.estimateContractGas(execute)
+  } catch (e) {
+    throw new RelayerError(`The call would revert: ${e instanceof BaseError ? e.shortMessage : 'simulation failed'}`)
+  }
+  const gasPrice = await client.getGasPrice()
+  const estimatedCost = gas * gasPrice
+
+  const from         = req.from.toLowerCase()
+  const bookingIdHex = (call.args?.[0] as string | undefined) ?? null
+  const row = await reserve(from, call.functionName, bookingIdHex, estimatedCost)
+
+  let txHash: `0x${string}`
+  try {
+    txHash = await getWalletClient(account).writeContract({ ...execute, gas, gasPrice })
+  } catch (e) {
+    await prisma.relayedTransaction.update({
+      where: { id: row.id },
+      data:  { status: 'FAILED', gasCostWei: 0n, error: e instanceof Error ? e.message.slice(0, 1000) : String(e) },
+    })
+    throw e
+  }
+
+  await prisma.relayedTransaction.update({ where: { id: row.id }, data: { txHash } })
+
+  // The row keeps its reserved estimate until the receipt settles it
+  let receipt: Awaited<ReturnType<typeof client.waitForTransactionReceipt>>
+  try {
+    receipt = await client.waitForTransactionReceipt({ hash: txHash, timeout: RECEIPT_TIMEOUT_MS })
+  } catch (e) {
+    if (e instanceof WaitForTransactionReceiptTimeoutError) {
+      return { txHash, status: 'PENDING', functionName: call.functionName }
+    }
+    throw e
+  }
+  const status = await settle(row.id, receipt)
+
+  return { txHash, status, functionName: call.functionName }
+}
+
+/**
+ * Record a relay and its estimated cost, checking the signer's hourly limit
+ * and the daily budget in the same serializable transaction so concurrent
+ * relays cannot both fit under a limit only one of them has room for.
+ */
+async function reserve(from: string, functionName: string, bookingIdHex: string | null, estimatedCost: bigint) {
+  try {
+    return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const recent = await tx.relayedTransaction.count({
+        where: { fromAddress: from, createdAt: { gte: new Date(Date.now() - HOUR_MS) } },
+      })
+      if (recent >= RATE_PER_HOUR) throw new RelayLimitError(`At most ${RATE_PER_HOUR} relayed transactions per hour`)
+
+      const spent = await tx.relayedTransaction.aggregate({
+        where: { createdAt: { gte: new Date(Date.now() - 24 * HOUR_MS) } },
+        _sum:  { gasCostWei: true },
+      })
+      if (BigInt(spent._sum.gasCostWei ?? 0) + estimatedCost > DAILY_BUDGET_WEI) {
+        throw new RelayLimitError('The platform gas budget for today is used up; send the transaction from your wallet')
+      }
+
+      return tx.relayedTransaction.create({
+        data: { fromAddress: from, functionName, bookingIdHex, gasCostWei: estimatedCost },
+      })
+    }, { isolationLevel: 'Serializable' })
+  } catch (e) {
+    // P2034: a concurrent relay won the serializable transaction
+    if ((e as { code?: string })?.code === 'P2034') {
+      throw new RelayLimitError('Another relay is being reserved; try again in a moment')
+    }
+    throw e
+  }
+}
+
+/** Replace a relay's reserved estimate with what its receipt actually cost */
+async function settle(
+  id:      string,
+  receipt: { status: 'success' | 'reverted'; gasUsed: bigint; effectiveGasPrice: bigint }
+): Promise<'CONFIRMED' | 'REVERTED'> {
+  const status = receipt.status === 'success' ? 'CONFIRMED' : 'REVERTED'
+  await prisma.relayedTransaction.update({
+    where: { id },
+    data: {
+      status,
+      gasUsed:    receipt.gasUsed,
+      gasCostWei: receipt.gasUsed * receipt.effectiveGasPrice,
+    },
+  })
+  return status
+}
+
+/**
+ * Settle relays that were sent but not mined before relay() stopped waiting.
+ * Called from the chain sync cron; returns how many were settled.
+ */
+export async function settlePendingRelays(): Promise<number> {
+  const client  = getPublicClient()
+  const pending = await prisma.relayedTransaction.findMany({
+    where: { status: 'PENDING', txHash: { not: null } },
+  })
+
+  let settled = 0
+  for (const row of pending) {
+    if (!row.txHash) continue
+    const receipt = await client
+      .getTransactionReceipt({ hash: row.txHash as `0x${string}` })
+      .catch(() => null)   // not mined yet
+    if (!receipt) continue
+    await settle(row.id, receipt)
+    settled++
+  }
+  return settled
+}
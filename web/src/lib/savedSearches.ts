@@ -0,0 +1,147 @@
+/**
+ * Saved searches and new-listing alerts (server-side only).
+ *
+ * A saved search is the query string of a /api/walls/search request, minus
+ * paging and sort. When a wall goes ACTIVE, `matchNewWalls` runs every search
+ * saved before the wall was listed against it, using the search's own SQL
+ * filters, and notifies the search's owner of each match. `sendSavedSearchDigests`
+ * then emails unsent matches to users who opted in, at most once per
+ * DIGEST_INTERVAL_HOURS.
+ */
+
+import { prisma }    from '@/lib/db'
+import { sendEmail } from '@/lib/email'
+import { notify }    from '@/lib/notifications'
+import { parseNotificationPrefs }   from '@/lib/notificationPrefs'
+import { parseWallSearch, filterSql, distanceSql } from '@/lib/search'
+
+export const SAVED_SEARCH_MATCH    = 'SAVED_SEARCH_MATCH'
+export const MAX_SAVED_SEARCHES    = 20
+export const DIGEST_INTERVAL_HOURS = Number(process.env.DIGEST_INTERVAL_HOURS || 24)
+
+const NON_FILTER_PARAMS = ['cursor', 'limit', 'sort']
+
+/** Validate a search query string for saving and strip paging and sort */
+export function normalizeSavedQuery(query: string): { query: string } | { error: string } {
+  const params = new URLSearchParams(query)
+  for (const key of NON_FILTER_PARAMS) params.delete(key)
+  const parsed = parseWallSearch(params)
+  if ('error' in parsed) return parsed
+  params.sort()
+  return { query: params.toString() }
+}
+
+async function wallMatches(query: string, wallId: string): Promise<boolean> {
+  const parsed = parseWallSearch(new URLSearchParams(query))
+  if ('error' in parsed) return false
+
+  const params: unknown[] = []
+  const p = (v: unknown) => { params.push(v); return `$${params.length}` }
+  const where = filterSql(parsed.search, p)
+  const { near, radiusKm } = parsed.search
+  if (near && radiusKm !== undefined) where.push(`${distanceSql(near, p)} <= ${p(radiusKm)}`)
+  where.push(`w."id" = ${p(wallId)}`)
+
+  const rows: unknown[] = await prisma.$queryRawUnsafe(
+    `SELECT 1 FROM "Wall" w WHERE ${where.join(' AND ')}`,
+    ...params
+  )
+  return rows.length > 0
+}
+
+/**
+ * Alert saved searches about ACTIVE walls not matched yet. Safe to run
+ * concurrently or repeatedly: each search and wall pair notifies once.
+ */
+export async function matchNewWalls(batch = 50): Promise<{ walls: number; notified: number }> {
+  const walls = await prisma.wall.findMany({
+    where:   { status: 'ACTIVE', alertsMatchedAt: null },
+    orderBy: { createdAt: 'asc' },
+    take:    batch,
+  })
+
+  let notified = 0
+  for (const wall of walls) {
+    // Only searches that predate the listing; an owner isn't alerted about their own wall
+    const searches = await prisma.savedSearch.findMany({
+      where: { createdAt: { lt: wall.createdAt }, userId: { not: wall.ownerId } },
+    })
+
+    for (const search of searches) {
+      if (!(await wallMatches(search.query, wall.id))) continue
+      const created = await notify(search.userId, {
+        kind:          SAVED_SEARCH_MATCH,
+        title:         `New wall for “${search.name}”`,
+        body:          `${wall.title} — ${wall.city}, ${wall.pricePerSqftDay} BNB / sqft / day`,
+        link:          `/walls/${wall.id}`,
+        dedupeKey:     `saved-search:${search.id}:${wall.id}`,
+        savedSearchId: search.id,
+        wallId:        wall.id,
+      })
+      if (created) notified++
+    }
+
+    await prisma.wall.update({ where: { id: wall.id }, data: { alertsMatchedAt: new Date() } })
+  }
+
+  return { walls: walls.length, notified }
+}
+
+/** Email each opted-in user their unsent matches; returns the number of digests sent */
+export async function sendSavedSearchDigests(now = new Date()): Promise<number> {
+  const cutoff  = new Date(now.getTime() - DIGEST_INTERVAL_HOURS * 60 * 60 * 1000)
+  const pending = await prisma.notification.findMany({
+    where: {
+      kind:        SAVED_SEARCH_MATCH,
+      emailedAt:   null,
+      savedSearch: { emailDigest: true },
+      user: {
+        email: { not: null },
+        OR:    [{ digestSentAt: null }, { digestSentAt: { lt: cutoff } }],
+      },
+    },
+    include: { user: true },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const byUser = new Map<string, typeof pending>()
+  for (const n of pending) {
+    if (!parseNotificationPrefs(n.user.notificationPrefsJson).savedSearch.email) continue
+    byUser.set(n.userId, [...(byUser.get(n.userId) ?? []), n])
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  let sent = 0
+  for (const [userId, items] of Array.from(byUser)) {
+    // The query only picks users with an email; this keeps the type honest
+    const email = items[0].user.email
+    if (!email) continue
+
+    try {
+      await sendEmail({
+        to:      email,
+        subject: items.length === 1 ? items[0].title : `${items.length} new walls match your saved searches`,
+        text: [
+          'New walls matching your saved searches:',
+          '',
+          ...items.map((n: typeof items[0]) => `• ${n.title}\n  ${n.body}\n  ${appUrl}${n.link}`),
+          '',
+          `Manage alerts: ${appUrl}/dashboard`,
+        ].join('\n'),
+      })
+    } catch (e) {
+      console.error('[savedSearches] digest failed for', userId, e)
+      continue
+    }
+
+    await prisma.$transaction([
+      prisma.notification.updateMany({
+        where: { id: { in: items.map((n: typeof items[0]) => n.id) } },
+        data:  { emailedAt: now },
+      }),
+      prisma.user.update({ where: { id: userId }, data: { digestSentAt: now } }),
+    ])
+    sent++
+  }
+  return sent
+}
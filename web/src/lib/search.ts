@@ -0,0 +1,273 @@
+/**
+ * Wall search (server-side only) behind GET /api/walls/search.
+ *
+ * Runs as one parameterised SQL query so price (stored as a decimal string),
+ * full-text relevance, great-circle distance and average rating can be
+ * filtered and sorted in the database. Pagination is keyset-based: the cursor
+ * is the last row's (sort key, id), so pages stay stable while walls are added.
+ */
+
+import type { Prisma, Wall }  from '@prisma/client'
+import { prisma }             from '@/lib/db'
+import { OCCUPYING_STATUSES } from '@/lib/availability'
+
+export const SEARCH_SORTS = ['price_asc', 'price_desc', 'distance', 'newest', 'rating'] as const
+export type SearchSort = (typeof SEARCH_SORTS)[number]
+
+export const DEFAULT_SEARCH_LIMIT = 50
+export const MAX_SEARCH_LIMIT     = 200
+export const MAX_RADIUS_KM        = 500
+
+export interface WallSearch {
+  bbox?:      [number, number, number, number]   // minLng, minLat, maxLng, maxLat
+  near?:      { lat: number; lng: number }       // radius centre and distance origin
+  radiusKm?:  number
+  q?:         string
+  minArea?:   number
+  maxArea?:   number
+  minPrice?:  number                             // BNB per sqft per day
+  maxPrice?:  number
+  tiers?:     number[]
+  available?: { from: Date; to: Date }           // free for the whole [from, to)
+  sort:       SearchSort
+  cursor?:    string
+  limit:      number
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/
+
+function num(v: string | null): number | undefined | null {
+  if (v === null || v === '') return undefined
+  const n = Number(v)
+  return Number.isFinite(n) ? n : null
+}
+
+/** Parse and validate search params. Returns the search or an error message. */
+export function parseWallSearch(params: URLSearchParams): { search: WallSearch } | { error: string } {
+  const search: WallSearch = { sort: 'newest', limit: DEFAULT_SEARCH_LIMIT }
+
+  const bbox = params.get('bbox')
+  if (bbox) {
+    const parts = bbox.split(',').map(Number)
+    if (parts.length !== 4 || parts.some(n => !Number.isFinite(n)) || parts[1] > parts[3]) {
+      return { error: 'bbox must be minLng,minLat,maxLng,maxLat' }
+    }
+    search.bbox = parts as WallSearch['bbox']
+  }
+
+  const lat = num(params.get('lat'))
+  const lng = num(params.get('lng'))
+  if (lat === null || lng === null || (lat === undefined) !== (lng === undefined)) {
+    return { error: 'lat and lng must be given together as numbers' }
+  }
+  if (lat !== undefined && lng !== undefined) search.near = { lat, lng }
+
+  const radiusKm = num(params.get('radiusKm'))
+  if (radiusKm !== undefined) {
+    if (radiusKm === null || radiusKm <= 0 || radiusKm > MAX_RADIUS_KM) {
+      return { error: `radiusKm must be above 0 and at most ${MAX_RADIUS_KM}` }
+    }
+    if (!search.near) return { error: 'radiusKm needs lat and lng' }
+    search.radiusKm = radiusKm
+  }
+
+  for (const key of ['minArea', 'maxArea', 'minPrice', 'maxPrice'] as const) {
+    const v = num(params.get(key))
+    if (v === null || (v !== undefined && v < 0)) return { error: `${key} must be a non-negative number` }
+    search[key] = v
+  }
+
+  const tiers = params.get('tiers')
+  if (tiers) {
+    search.tiers = tiers.split(',').map(Number)
+    if (search.tiers.some(t => !Number.isInteger(t) || t < 1 || t > 5)) {
+      return { error: 'tiers must be a comma-separated list of 1–5' }
+    }
+  }
+
+  const from = params.get('availableFrom')
+  const to   = params.get('availableTo')
+  if (from || to) {
+    if (!from || !to || !DAY.test(from) || !DAY.test(to) || to <= from) {
+      return { error: 'availableFrom and availableTo must be YYYY-MM-DD with availableTo after availableFrom' }
+    }
+    search.available = { from: new Date(from), to: new Date(to) }
+  }
+
+  const q = params.get('q')?.trim()
+  if (q) search.q = q
+
+  const sort = params.get('sort')
+  if (sort) {
+    if (!SEARCH_SORTS.includes(sort as SearchSort)) return { error: `sort must be one of ${SEARCH_SORTS.join(', ')}` }
+    search.sort = sort as SearchSort
+  }
+  if (search.sort === 'distance' && !search.near && !search.bbox) {
+    return { error: 'Sorting by distance needs lat/lng or a bbox' }
+  }
+
+  const limit = num(params.get('limit'))
+  if (limit !== undefined) {
+    if (limit === null || !Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      return { error: `limit must be 1–${MAX_SEARCH_LIMIT}` }
+    }
+    search.limit = limit
+  }
+
+  const cursor = params.get('cursor')
+  if (cursor) search.cursor = cursor
+
+  return { search }
+}
+
+// Prefix match on every word: "brook mura" → 'brook':* & 'mura':*
+function toTsQuery(q: string): string | null {
+  const words = q.toLowerCase().match(/[\p{L}\p{N}]+/gu)
+  return words ? words.map(w => `${w}:*`).join(' & ') : null
+}
+
+// Sort key per sort, its SQL type for the cursor, and the direction
+const SORTS: Record<SearchSort, { key: string; type: string; dir: 'ASC' | 'DESC' }> = {
+  price_asc:  { key: '"price"',                 type: 'numeric',   dir: 'ASC'  },
+  price_desc: { key: '"price"',                 type: 'numeric',   dir: 'DESC' },
+  distance:   { key: '"distanceKm"',            type: 'float8',    dir: 'ASC'  },
+  newest:     { key: '"createdAt"',             type: 'timestamp', dir: 'DESC' },
+  rating:     { key: 'COALESCE("rating", 0)',   type: 'float8',    dir: 'DESC' },
+}
+
+function encodeCursor(value: unknown, id: string): string {
+  const v = value instanceof Date ? value.toISOString() : String(value)
+  return Buffer.from(JSON.stringify([v, id])).toString('base64url')
+}
+
+function decodeCursor(cursor: string): [string, string] | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+    return Array.isArray(parsed) && parsed.length === 2 ? [String(parsed[0]), String(parsed[1])] : null
+  } catch {
+    return null
+  }
+}
+
+export class InvalidCursorError extends Error {}
+
+/**
+ * WHERE clauses (over `w`, the Wall row) for every filter in `s` except the
+ * radius. `p` binds a value and returns its placeholder. Shared with the
+ * map-tile clustering in lib/clusters.ts.
+ */
+export function filterSql(s: Omit<WallSearch, 'sort' | 'limit'>, p: (v: unknown) => string): string[] {
+  const where: string[] = [`w."status" = 'ACTIVE'`]
+  if (s.bbox) {
+    const [minLng, minLat, maxLng, maxLat] = s.bbox
+    where.push(`w."latitude" BETWEEN ${p(minLat)} AND ${p(maxLat)}`)
+    // A viewport across the antimeridian has minLng > maxLng
+    where.push(minLng <= maxLng
+      ? `w."longitude" BETWEEN ${p(minLng)} AND ${p(maxLng)}`
+      : `(w."longitude" >= ${p(minLng)} OR w."longitude" <= ${p(maxLng)})`)
+  }
+  if (s.minArea  !== undefined) where.push(`w."areaSqft" >= ${p(s.minArea)}`)
+  if (s.maxArea  !== undefined) where.push(`w."areaSqft" <= ${p(s.maxArea)}`)
+  if (s.minPrice !== undefined) where.push(`w."pricePerSqftDay"::numeric >= ${p(s.minPrice)}`)
+  if (s.maxPrice !== undefined) where.push(`w."pricePerSqftDay"::numeric <= ${p(s.maxPrice)}`)
+  if (s.tiers?.length)          where.push(`w."visibilityTier" = ANY(${p(s.tiers)}::int[])`)
+
+  const tsQuery = s.q && toTsQuery(s.q)
+  if (tsQuery) {
+    where.push(`to_tsvector('simple',
+      w."title" || ' ' || coalesce(w."description", '') || ' ' || w."addressText" || ' ' || w."city"
+    ) @@ to_tsquery('simple', ${p(tsQuery)})`)
+  }
+
+  if (s.available) {
+    const from = p(s.available.from)
+    const to   = p(s.available.to)
+    where.push(`NOT EXISTS (
+      SELECT 1 FROM "Booking" b
+      WHERE b."wallId" = w."id" AND b."startDate" < ${to} AND b."endDate" > ${from}
+        AND (b."status"::text = ANY(${p([...OCCUPYING_STATUSES])}::text[])
+             OR (b."status" = 'PENDING_PAYMENT' AND b."reservedUntil" > now()))
+    )`)
+    where.push(`NOT EXISTS (
+      SELECT 1 FROM "WallBlackout" x
+      WHERE x."wallId" = w."id" AND x."startDate" < ${to} AND x."endDate" > ${from}
+    )`)
+  }
+  return where
+}
+
+/** Great-circle distance in km from `origin` to the wall `w` (haversine) */
+export function distanceSql(origin: { lat: number; lng: number }, p: (v: unknown) => string): string {
+  return `6371 * 2 * asin(sqrt(
+         power(sin(radians(w."latitude" - ${p(origin.lat)}) / 2), 2) +
+         cos(radians(${p(origin.lat)})) * cos(radians(w."latitude")) *
+         power(sin(radians(w."longitude" - ${p(origin.lng)}) / 2), 2)))`
+}
+
+/** A searchWalls row: the wall plus the columns the query computes */
+interface SearchRow extends Wall {
+  ownerAddress: string
+  price:        Prisma.Decimal   // pricePerSqftDay as numeric, for sorting and the cursor
+  distanceKm:   number | null
+  rating:       number | null
+}
+
+export type SearchedWall = Omit<SearchRow, 'price'>
+
+/**
+ * Active walls matching `s`, one page at a time. Each row carries the owner
+ * address, `distanceKm` (null without an origin) and the average `rating`.
+ */
+export async function searchWalls(s: WallSearch): Promise<{ walls: SearchedWall[]; nextCursor: string | null }> {
+  const params: unknown[] = []
+  const p = (v: unknown) => { params.push(v); return `$${params.length}` }
+
+  // Distance origin: the explicit point, else the middle of the viewport
+  const origin = s.near ?? (s.bbox && {
+    lat: (s.bbox[1] + s.bbox[3]) / 2,
+    lng: s.bbox[0] <= s.bbox[2] ? (s.bbox[0] + s.bbox[2]) / 2 : (((s.bbox[0] + s.bbox[2] + 360) / 2 + 180) % 360) - 180,
+  })
+  const distance = origin ? distanceSql(origin, p) : 'NULL::float8'
+
+  const where = filterSql(s, p)
+
+  const sort  = SORTS[s.sort]
+  const outer: string[] = []
+  if (s.radiusKm !== undefined) outer.push(`"distanceKm" <= ${p(s.radiusKm)}`)
+  if (s.cursor) {
+    const cursor = decodeCursor(s.cursor)
+    if (!cursor) throw new InvalidCursorError('Invalid cursor')
+    outer.push(`(${sort.key}, "id") ${sort.dir === 'ASC' ? '>' : '<'} (${p(cursor[0])}::${sort.type}, ${p(cursor[1])})`)
+  }
+
+  const rows = await prisma.$queryRawUnsafe<SearchRow[]>(`
+    SELECT * FROM (
+      SELECT w.*,
+             u."walletAddress"               AS "ownerAddress",
+             w."pricePerSqftDay"::numeric     AS "price",
+             ${distance}                      AS "distanceKm",
+             (SELECT AVG(r."rating")::float8 FROM "Booking" r
+               WHERE r."wallId" = w."id" AND r."rating" IS NOT NULL) AS "rating"
+      FROM "Wall" w
+      JOIN "User" u ON u."id" = w."ownerId"
+      WHERE ${where.join('\n        AND ')}
+    ) c
+    ${outer.length ? `WHERE ${outer.join(' AND ')}` : ''}
+    ORDER BY ${sort.key} ${sort.dir}, "id" ${sort.dir}
+    LIMIT ${p(s.limit + 1)}
+  `, ...params)
+
+  const page = rows.slice(0, s.limit)
+  const last = page[page.length - 1]
+  const lastKey = last && (
+    s.sort === 'price_asc' || s.sort === 'price_desc' ? last.price
+    : s.sort === 'distance' ? last.distanceKm
+    : s.sort === 'newest'   ? last.createdAt
+    : last.rating ?? 0
+  )
+
+  return {
+    walls:      page.map(({ price: _price, ...w }) => w),
+    nextCursor: rows.length > s.limit ? encodeCursor(lastKey, last.id) : null,
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Content-addressed storage (server-side only).
+ *
+ * Every upload goes through a StorageProvider, picked by STORAGE_PROVIDER:
+ *   • pinata → Pinata pinning API (PINATA_JWT)
+ *   • kubo   → a Kubo / go-ipfs node's RPC API (KUBO_API_URL, default http://127.0.0.1:5001)
+ *   • w3s    → a web3.storage-style upload API: POST raw bytes, get { cid } back
+ *              (W3S_API_URL, W3S_TOKEN)
+ *   • fs     → files under STORAGE_DIR (default .storage/), for offline development
+ *   • memory → a process-local map, for tests and throwaway runs
+ * Without STORAGE_PROVIDER, pinata is used when PINATA_JWT is set and fs
+ * otherwise; production refuses that fallback and needs one of them configured.
+ *
+ * The local stores address content by CIDv1 (raw codec, sha2-256), the CID
+ * IPFS gives a single-block file. `/ipfs/[cid]` serves their content, so with
+ * NEXT_PUBLIC_IPFS_GATEWAY pointing at the app itself no network is needed.
+ *
+ * Remote providers are not taken on trust: the CID is computed here before
+ * upload and a provider answering with a different one fails the upload.
+ */
+
+import { promises as fs } from 'fs'
+import path               from 'path'
+import { CID }            from 'multiformats/cid'
+import { sha256 }         from 'multiformats/hashes/sha2'
+import { ipfsUrl }        from '@/lib/ipfs'
+import { rawCid, expectedCid, sameCid } from '@/lib/cid'
+import { canonicalBytes }  from '@/lib/canonicalJson'
+
+export interface PutOptions {
+  name:        string   // label for the pin / file listing
+  contentType: string
+}
+
+export interface StoredObject {
+  bytes:       Uint8Array
+  contentType: string
+}
+
+export interface StorageProvider {
+  name: string
+  /** Store bytes; resolves to their CID */
+  put(bytes: Uint8Array, opts: PutOptions): Promise<string>
+  /** Read content back, or null when this provider can't or doesn't have it */
+  get(cid: string): Promise<StoredObject | null>
+  /** Public URL for a CID */
+  gatewayUrl(cid: string): string
+}
+
+export class StorageError extends Error {}
+
+/** A provider returned a CID other than the one computed for the bytes sent */
+export class CidMismatchError extends StorageError {}
+
+async function failed(res: Response, what: string): Promise<never> {
+  throw new StorageError(`${what} failed: ${res.status} ${(await res.text().catch(() => '')).slice(0, 300)}`)
+}
+
+const blob = (bytes: Uint8Array, contentType: string) => new Blob([new Uint8Array(bytes)], { type: contentType })
+
+// ── Pinata ───────────────────────────────────────────────────────────────────
+
+export function pinataProvider(jwt: string): StorageProvider {
+  return {
+    name: 'pinata',
+    async put(bytes, { name, contentType }) {
+      const form = new FormData()
+      form.append('file', blob(bytes, contentType), name)
+      form.append('pinataOptions', JSON.stringify({ cidVersion: 1 }))
+      form.append('pinataMetadata', JSON.stringify({ name }))
+
+      const res = await fetch('https://api.pinata.cloud/pinning/pinFileToIPFS', {
+        method:  'POST',
+        headers: { Authorization: `Bearer ${jwt}` },
+        body:    form,
+      })
+      if (!res.ok) await failed(res, 'Pinata upload')
+      return (await res.json()).IpfsHash as string
+    },
+    async get() {
+      return null   // read through the public gateway
+    },
+    gatewayUrl: ipfsUrl,
+  }
+}
+
+// ── Kubo (local IPFS node) ───────────────────────────────────────────────────
+
+export function kuboProvider(apiUrl: string, gateway?: string): StorageProvider {
+  const api = apiUrl.replace(/\/$/, '')
+  return {
+    name: 'kubo',
+    async put(bytes, { name, contentType }) {
+      const form = new FormData()
+      form.append('file', blob(bytes, contentType), name)
+      const res = await fetch(`${api}/api/v0/add?cid-version=1&pin=true`, { method: 'POST', body: form })
+      if (!res.ok) await failed(res, 'Kubo add')
+      return (await res.json()).Hash as string
+    },
+    async get(cid) {
+      const res = await fetch(`${api}/api/v0/cat?arg=${encodeURIComponent(cid)}`, { method: 'POST' })
+      if (!res.ok) return null
+      return { bytes: new Uint8Array(await res.arrayBuffer()), contentType: 'application/octet-stream' }
+    },
+    gatewayUrl: cid => (gateway ? `${gateway.replace(/\/$/, '')}/ipfs/${cid}` : ipfsUrl(cid)),
+  }
+}
+
+// ── web3.storage-style upload APIs ───────────────────────────────────────────
+
+export function w3sProvider(apiUrl: string, token: string): StorageProvider {
+  const api = apiUrl.replace(/\/$/, '')
+  return {
+    name: 'w3s',
+    async put(bytes, { name, contentType }) {
+      const res = await fetch(`${api}/upload`, {
+        method:  'POST',
+        headers: {
+          Authorization:  `Bearer ${token}`,
+          'Content-Type': contentType,
+          'X-Name':       encodeURIComponent(name),
+        },
+        body: new Uint8Array(bytes),
+      })
+      if (!res.ok) await failed(res, 'Upload')
+      return (await res.json()).cid as string
+    },
+    async get() {
+      return null
+    },
+    gatewayUrl: ipfsUrl,
+  }
+}
+
+// ── Local content-addressed stores ───────────────────────────────────────────
+
+export function fsProvider(dir: string): StorageProvider {
+  const root   = path.resolve(dir)
+  const fileOf = (cid: string) => path.join(root, CID.parse(cid).toString())
+  return {
+    name: 'fs',
+    async put(bytes, { contentType }) {
+      const cid = await rawCid(bytes)
+      await fs.mkdir(root, { recursive: true })
+      await fs.writeFile(fileOf(cid), bytes)
+      await fs.writeFile(`${fileOf(cid)}.type`, contentType)
+      return cid
+    },
+    async get(cid) {
+      try {
+        const bytes       = new Uint8Array(await fs.readFile(fileOf(cid)))
+        const contentType = await fs.readFile(`${fileOf(cid)}.type`, 'utf8').catch(() => 'application/octet-stream')
+        return { bytes, contentType }
+      } catch {
+        return null   // unknown or malformed CID
+      }
+    },
+    gatewayUrl: ipfsUrl,
+  }
+}
+
+// Kept on globalThis so every route bundle in `next dev` shares one store
+const globalForStorage = globalThis as unknown as { memoryStore?: Map<string, StoredObject> }
+
+export function memoryProvider(store = globalForStorage.memoryStore ??= new Map()): StorageProvider {
+  return {
+    name: 'memory',
+    async put(bytes, { contentType }) {
+      const cid = await rawCid(bytes)
+      store.set(cid, { bytes: new Uint8Array(bytes), contentType })
+      return cid
+    },
+    async get(cid) {
+      return store.get(cid) ?? null
+    },
+    gatewayUrl: ipfsUrl,
+  }
+}
+
+// ── Verification ─────────────────────────────────────────────────────────────
+
+/**
+ * Wrap a remote provider so every put is checked against the locally computed
+ * CID. Files over one block come back as a UnixFS root we can't recompute;
+ * those only have to be a well-formed CIDv1 over sha2-256.
+ */
+export function verifying(inner: StorageProvider): StorageProvider {
+  return {
+    ...inner,
+    async put(bytes, opts) {
+      const expected = await expectedCid(bytes)
+      const cid      = await inner.put(bytes, opts)
+      if (expected ? !sameCid(cid, expected) : !isSha256CidV1(cid)) {
+        throw new CidMismatchError(`${inner.name} returned ${cid}, expected ${expected ?? 'a sha2-256 CIDv1'}`)
+      }
+      return expected ?? cid
+    },
+  }
+}
+
+function isSha256CidV1(cid: string): boolean {
+  try {
+    const parsed = CID.parse(cid)
+    return parsed.version === 1 && parsed.multihash.code === sha256.code
+  } catch {
+    return false
+  }
+}
+
+// ── Selection ────────────────────────────────────────────────────────────────
+
+let provider: StorageProvider | null = null
+
+function createProvider(): StorageProvider {
+  if (!process.env.STORAGE_PROVIDER && !process.env.PINATA_JWT && process.env.NODE_ENV === 'production') {
+    throw new StorageError('Set STORAGE_PROVIDER or PINATA_JWT; the local fs store is not used implicitly in production')
+  }
+  const kind = process.env.STORAGE_PROVIDER || (process.env.PINATA_JWT ? 'pinata' : 'fs')
+  switch (kind) {
+    case 'pinata':
+      if (!process.env.PINATA_JWT) throw new StorageError('PINATA_JWT not configured')
+      return verifying(pinataProvider(process.env.PINATA_JWT))
+    case 'kubo':
+      return verifying(kuboProvider(process.env.KUBO_API_URL || 'http://127.0.0.1:5001', process.env.KUBO_GATEWAY_URL))
+    case 'w3s':
+      if (!process.env.W3S_API_URL || !process.env.W3S_TOKEN) throw new StorageError('W3S_API_URL and W3S_TOKEN must be set')
+      return verifying(w3sProvider(process.env.W3S_API_URL, process.env.W3S_TOKEN))
+    case 'fs':
+      return fsProvider(process.env.STORAGE_DIR || '.storage')
+    case 'memory':
+      return memoryProvider()
+    default:
+      throw new StorageError(`Unknown STORAGE_PROVIDER "${kind}"`)
+  }
+}
+
+export function getStorage(): StorageProvider {
+  return (provider ??= createProvider())
+}
+
+/** Store a JSON document in its RFC 8785 canonical form, so equal documents share a CID */
+export async function putJson(data: unknown, name: string): Promise<{ cid: string; bytes: Uint8Array }> {
+  const bytes = canonicalBytes(data)
+  const cid   = await getStorage().put(bytes, { name, contentType: 'application/json' })
+  return { cid, bytes }
+}
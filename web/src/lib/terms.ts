@@ -0,0 +1,95 @@
+/**
+ * Per-booking escrow terms passed to fundBookingWithTerms().
+ * Bounds mirror the MIN_/MAX_ constants in PhysicalWallEscrow.sol.
+ */
+
+const DAY = 24 * 60 * 60
+
+export const DEFAULT_PROOF_DEADLINE_SEC = 14 * DAY
+export const DEFAULT_DISPUTE_WINDOW_SEC =  7 * DAY
+
+export const MIN_PROOF_DEADLINE_SEC =   1 * DAY
+export const MAX_PROOF_DEADLINE_SEC = 180 * DAY
+export const MIN_DISPUTE_WINDOW_SEC =   1 * DAY
+export const MAX_DISPUTE_WINDOW_SEC =  30 * DAY
+
+export const MAX_INSTALLER_FEE_BPS = 5_000   // 50% of the escrow
+
+export const MAX_MILESTONES = 12
+
+/** Days after the campaign start the installer still has to get proof on-chain */
+export const INSTALL_GRACE_SEC = 3 * DAY
+
+export interface BookingTerms {
+  proofDeadlineSec: number   // seconds from funding for the installer to submit proof
+  disputeWindowSec: number   // seconds after proof for the advertiser to reject
+  installerFeeBps:  number   // share of the escrow paid to the installer on approval
+  milestoneCount:   number   // proofs the payout is split into (1 = single payout)
+  milestoneIntervalSec: number // seconds between milestone proof deadlines (0 if single)
+}
+
+function clamp(v: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, v))
+}
+
+/**
+ * Derive terms from the campaign start date: the installer has until
+ * INSTALL_GRACE_SEC past the start (measured from `now`, i.e. roughly the
+ * funding time), clamped to the contract bounds.
+ */
+export function deriveBookingTerms(startDate: string | Date, now: number = Date.now()): BookingTerms {
+  const untilStart = Math.ceil((new Date(startDate).getTime() - now) / 1000)
+  return {
+    proofDeadlineSec: clamp(untilStart + INSTALL_GRACE_SEC, MIN_PROOF_DEADLINE_SEC, MAX_PROOF_DEADLINE_SEC),
+    disputeWindowSec: DEFAULT_DISPUTE_WINDOW_SEC,
+    installerFeeBps:  0,
+    milestoneCount:   1,
+    milestoneIntervalSec: 0,
+  }
+}
+
+/**
+ * Spread `count` milestones over the campaign: the first is the installation
+ * (due with the proof deadline), the last falls due as long after it as the
+ * campaign runs — i.e. the removal — and any others are evenly spaced between.
+ */
+export function deriveMilestones(
+  startDate: string | Date,
+  endDate:   string | Date,
+  count:     number
+): Pick<BookingTerms, 'milestoneCount' | 'milestoneIntervalSec'> {
+  if (count <= 1) return { milestoneCount: 1, milestoneIntervalSec: 0 }
+  const campaignSec = Math.ceil((new Date(endDate).getTime() - new Date(startDate).getTime()) / 1000)
+  return { milestoneCount: count, milestoneIntervalSec: Math.ceil(campaignSec / (count - 1)) }
+}
+
+/** Human name of milestone `index` (0-based) in a booking with `count` milestones. */
+export function milestoneLabel(index: number, count: number): string {
+  if (count <= 1)          return 'Installation'
+  if (index === 0)         return 'Installation'
+  if (index === count - 1) return 'Removal'
+  return count === 3 ? 'Mid-campaign check' : `Check ${index}`
+}
+
+/** Returns an error message if terms fall outside the contract bounds, else null. */
+export function validateBookingTerms(terms: BookingTerms): string | null {
+  const { proofDeadlineSec: p, disputeWindowSec: d, installerFeeBps: f, milestoneCount: n, milestoneIntervalSec: i } = terms
+  if (!Number.isInteger(p) || p < MIN_PROOF_DEADLINE_SEC || p > MAX_PROOF_DEADLINE_SEC) {
+    return `proofDeadlineSec must be between ${MIN_PROOF_DEADLINE_SEC} and ${MAX_PROOF_DEADLINE_SEC}`
+  }
+  if (!Number.isInteger(d) || d < MIN_DISPUTE_WINDOW_SEC || d > MAX_DISPUTE_WINDOW_SEC) {
+    return `disputeWindowSec must be between ${MIN_DISPUTE_WINDOW_SEC} and ${MAX_DISPUTE_WINDOW_SEC}`
+  }
+  if (!Number.isInteger(f) || f < 0 || f > MAX_INSTALLER_FEE_BPS) {
+    return `installerFeeBps must be between 0 and ${MAX_INSTALLER_FEE_BPS}`
+  }
+  if (!Number.isInteger(n) || n < 1 || n > MAX_MILESTONES) {
+    return `milestoneCount must be between 1 and ${MAX_MILESTONES}`
+  }
+  if (n === 1 ? i !== 0 : !Number.isInteger(i) || i <= d || i > MAX_PROOF_DEADLINE_SEC) {
+    return n === 1
+      ? 'milestoneIntervalSec must be 0 for a single milestone'
+      : `milestoneIntervalSec must be longer than the dispute window and at most ${MAX_PROOF_DEADLINE_SEC}`
+  }
+  return null
+}
@@ -0,0 +1,56 @@
+/**
+ * Slippy-map tile maths (Web Mercator, z/x/y as used by OSM and Leaflet).
+ * Shared by the clustering endpoint and the map, which fetches the tiles
+ * covering its viewport.
+ */
+
+export const MAX_TILE_ZOOM = 20
+
+/** Tile column for a longitude at zoom z */
+export function lngToTileX(lng: number, z: number): number {
+  const n = 2 ** z
+  return Math.min(n - 1, Math.max(0, Math.floor(((lng + 180) / 360) * n)))
+}
+
+/** Tile row for a latitude at zoom z; rows count down from the north */
+export function latToTileY(lat: number, z: number): number {
+  const n   = 2 ** z
+  const rad = (Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI) / 180
+  const y   = ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * n
+  return Math.min(n - 1, Math.max(0, Math.floor(y)))
+}
+
+const tileYToLat = (y: number, z: number) =>
+  (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / 2 ** z))) * 180) / Math.PI
+
+/** [west, south, east, north] of tile z/x/y in degrees */
+export function tileBounds(z: number, x: number, y: number): [number, number, number, number] {
+  const n = 2 ** z
+  return [(x / n) * 360 - 180, tileYToLat(y + 1, z), ((x + 1) / n) * 360 - 180, tileYToLat(y, z)]
+}
+
+export function isValidTile(z: number, x: number, y: number): boolean {
+  return [z, x, y].every(Number.isInteger) &&
+    z >= 0 && z <= MAX_TILE_ZOOM && x >= 0 && y >= 0 && x < 2 ** z && y < 2 ** z
+}
+
+/**
+ * Tiles at zoom z covering a [minLng, minLat, maxLng, maxLat] box, or null
+ * when there are more than `max` (zoomed too far out for the box).
+ */
+export function tilesCovering(
+  bbox: [number, number, number, number],
+  z:    number,
+  max = 64
+): { z: number; x: number; y: number }[] | null {
+  const [minLng, minLat, maxLng, maxLat] = bbox
+  const x0 = lngToTileX(minLng, z), x1 = lngToTileX(maxLng, z)
+  const y0 = latToTileY(maxLat, z), y1 = latToTileY(minLat, z)
+  if ((x1 - x0 + 1) * (y1 - y0 + 1) > max) return null
+
+  const tiles = []
+  for (let x = x0; x <= x1; x++) {
+    for (let y = y0; y <= y1; y++) tiles.push({ z, x, y })
+  }
+  return tiles
+}
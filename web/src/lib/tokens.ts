@@ -0,0 +1,52 @@
+import { CHAIN_ID } from './contract'
+
+/**
+ * Currencies an advertiser can fund a booking in. BNB is native; the
+ * stablecoins must also be whitelisted on the escrow (setTokenAllowed).
+ * Wall prices stay BNB-denominated and are converted at the BNB/USD rate
+ * when the advertiser picks a stablecoin (stablecoins are treated as $1).
+ */
+
+export type PaymentCurrency = 'BNB' | 'USDT' | 'USDC'
+
+export interface PaymentToken {
+  symbol:  PaymentCurrency
+  address: `0x${string}` | null   // null = native BNB
+}
+
+// Binance-Peg stablecoins on BSC mainnet; override per network via env
+const MAINNET_TOKENS: Partial<Record<PaymentCurrency, `0x${string}`>> = {
+  USDT: '0x55d398326f99059fF775485246999027B3197955',
+  USDC: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d',
+}
+
+function tokenAddress(symbol: PaymentCurrency, fromEnv: string | undefined): `0x${string}` | null {
+  if (fromEnv) return fromEnv as `0x${string}`
+  return CHAIN_ID === 56 ? MAINNET_TOKENS[symbol] ?? null : null
+}
+
+export const PAYMENT_TOKENS: PaymentToken[] = [
+  { symbol: 'BNB',  address: null },
+  { symbol: 'USDT', address: tokenAddress('USDT', process.env.NEXT_PUBLIC_USDT_ADDRESS) },
+  { symbol: 'USDC', address: tokenAddress('USDC', process.env.NEXT_PUBLIC_USDC_ADDRESS) },
+].filter((t): t is PaymentToken => t.symbol === 'BNB' || t.address !== null)
+
+export function findPaymentToken(symbol: string): PaymentToken | null {
+  return PAYMENT_TOKENS.find(t => t.symbol === symbol) ?? null
+}
+
+/** Symbol for a booking's stored paymentToken address (null → BNB). */
+export function paymentSymbol(address: string | null): string {
+  if (!address) return 'BNB'
+  return PAYMENT_TOKENS.find(t => t.address?.toLowerCase() === address.toLowerCase())?.symbol ?? 'TOKEN'
+}
+
+/** Spot BNB/USD from Binance — same source as the useBnbPrice hook. */
+export async function fetchBnbUsdPrice(): Promise<number> {
+  const res  = await fetch('https://api.binance.com/api/v3/ticker/price?symbol=BNBUSDT', { cache: 'no-store' })
+  if (!res.ok) throw new Error(`BNB price request failed (${res.status})`)
+  const data = await res.json()
+  const price = parseFloat(data.price)
+  if (!Number.isFinite(price) || price <= 0) throw new Error('Invalid BNB price')
+  return price
+}
@@ -0,0 +1,350 @@
+/**
+ * Outbound webhooks (server-side only).
+ *
+ * Users register endpoints and pick event types. Emitting an event writes one
+ * WebhookDelivery per subscribed endpoint, keyed by a stable event id, so the
+ * indexer re-deriving a booking after a reorg does not send it twice. Sending
+ * happens later, from `deliverDueWebhooks` (the chain sync, the indexer worker
+ * and GET /api/webhooks/run), which retries failures with exponential backoff.
+ *
+ * Every request carries `WallMark-Signature: t=<unix seconds>,v1=<hex>`, the
+ * HMAC-SHA256 of `${t}.${body}` under the endpoint's secret.
+ *
+ * Endpoint hosts must resolve to public addresses, checked when the URL is
+ * saved and again before each delivery. Only the response status is kept, so
+ * the delivery log can't be used to read internal services.
+ */
+
+import { createHmac, randomBytes } from 'crypto'
+import { lookup }                  from 'dns/promises'
+import { BlockList, isIP }         from 'net'
+import { prisma }                  from '@/lib/db'
+
+export const WEBHOOK_EVENTS = [
+  'booking.created', 'booking.funded', 'proof.submitted', 'booking.settled', 'wall.approved',
+] as const
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number]
+
+export const MAX_WEBHOOK_ENDPOINTS = 10
+/** Attempts before a delivery is marked FAILED; the gaps double from RETRY_BASE_SEC */
+export const MAX_ATTEMPTS   = 8
+export const RETRY_BASE_SEC = 60
+
+const REQUEST_TIMEOUT_MS = 10_000
+// A claimed delivery is left alone by other runners for this long
+const CLAIM_LEASE_MS     = 2 * 60 * 1000
+
+const SETTLED_STATUSES = ['APPROVED', 'REJECTED', 'RESOLVED', 'EXPIRED', 'CANCELLED']
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`
+}
+
+// Loopback, private, link-local, CGNAT, ULA and multicast ranges
+const BLOCKED = new BlockList()
+for (const [net, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3],
+] as const) BLOCKED.addSubnet(net, prefix, 'ipv4')
+for (const [net, prefix] of [
+  ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) BLOCKED.addSubnet(net, prefix, 'ipv6')
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]']
+
+function isPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1]
+  if (mapped) return isPublicAddress(mapped)
+  const family = isIP(address)
+  return family !== 0 && !BLOCKED.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Resolve the URL's host and refuse it unless every address is public.
+ * Local receivers are allowed during development. Returns an error message or null.
+ */
+async function checkWebhookHost(parsed: URL): Promise<string | null> {
+  if (LOCAL_HOSTS.includes(parsed.hostname) && process.env.NODE_ENV !== 'production') return null
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '')
+  let addresses: { address: string }[]
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true })
+  } catch {
+    return `url host ${host} does not resolve`
+  }
+  if (addresses.length === 0 || !addresses.every(a => isPublicAddress(a.address))) {
+    return 'url must point at a public address'
+  }
+  return null
+}
+
+/** Validate an endpoint URL and resolve its host; returns an error message or null */
+export async function validateWebhookUrl(url: unknown): Promise<string | null> {
+  if (typeof url !== 'string' || !url) return 'url is required'
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return 'url is not a valid URL'
+  }
+  // Plain HTTP only for local receivers during development
+  const local = LOCAL_HOSTS.includes(parsed.hostname)
+  if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && local && process.env.NODE_ENV !== 'production')) {
+    return 'url must use https'
+  }
+  if (parsed.username || parsed.password) return 'url must not contain credentials'
+  return checkWebhookHost(parsed)
+}
+
+/** Validate a subscription list; returns an error message or null */
+export function validateWebhookEvents(events: unknown): string | null {
+  if (!Array.isArray(events) || events.length === 0) return 'Subscribe to at least one event'
+  const unknown = events.find(e => !WEBHOOK_EVENTS.includes(e))
+  return unknown === undefined ? null : `Unknown event ${JSON.stringify(unknown)}`
+}
+
+/** An endpoint for API responses: the secret is only returned on creation */
+export function serializeEndpoint<T extends { secret: string }>({ secret, ...endpoint }: T) {
+  return { ...endpoint, secretHint: `…${secret.slice(-4)}` }
+}
+
+/** A delivery for API responses, without any response body stored before they were dropped */
+export function serializeDelivery<T extends { responseBody?: string | null }>({ responseBody: _, ...delivery }: T) {
+  return delivery
+}
+
+/** The WallMark-Signature header value for `body` sent at unix time `t` */
+export function signWebhook(secret: string, body: string, t: number): string {
+  return `t=${t},v1=${createHmac('sha256', secret).update(`${t}.${body}`).digest('hex')}`
+}
+
+// ── Emitting ─────────────────────────────────────────────────────────────────
+
+/**
+ * Queue `type` for every active endpoint of `userIds` subscribed to it.
+ * Returns the number of deliveries queued; 0 when the event was queued before.
+ */
+export async function emitWebhookEvent(
+  type:    WebhookEventType,
+  eventId: string,
+  userIds: string[],
+  data:    Record<string, unknown>
+): Promise<number> {
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    where:  { userId: { in: Array.from(new Set(userIds)) }, active: true, events: { has: type } },
+    select: { id: true },
+  })
+  if (endpoints.length === 0) return 0
+
+  const payload = JSON.stringify({ id: eventId, type, createdAt: new Date().toISOString(), data })
+  const now     = new Date()
+  const { count } = await prisma.webhookDelivery.createMany({
+    data: endpoints.map((e: { id: string }) => ({
+      endpointId: e.id, eventId, eventType: type, payload, nextAttemptAt: now,
+    })),
+    skipDuplicates: true,
+  })
+  return count
+}
+
+const iso = (d: Date | null) => (d ? d.toISOString() : null)
+
+async function loadBooking(bookingId: string) {
+  return prisma.booking.findUnique({
+    where:   { id: bookingId },
+    include: {
+      advertiser: { select: { walletAddress: true } },
+      installer:  { select: { walletAddress: true } },
+      wall:       { include: { owner: { select: { walletAddress: true } } } },
+    },
+  })
+}
+
+function bookingData(b: NonNullable<Awaited<ReturnType<typeof loadBooking>>>) {
+  return {
+    booking: {
+      id:                b.id,
+      chainBookingId:    b.chainBookingId,
+      chainId:           b.chainId,
+      status:            b.status,
+      currentMilestone:  b.currentMilestone,
+      milestoneCount:    b.milestoneCount,
+      startDate:         iso(b.startDate),
+      endDate:           iso(b.endDate),
+      totalBnb:          b.totalBnb,
+      paymentToken:      b.paymentToken,
+      paymentAmount:     b.paymentAmount,
+      advertiserAddress: b.advertiser.walletAddress,
+      installerAddress:  b.installer?.walletAddress ?? null,
+      proofDeadlineAt:   iso(b.proofDeadlineAt),
+      disputeDeadline:   iso(b.disputeDeadline),
+      txHashFund:        b.txHashFund,
+      txHashProof:       b.txHashProof,
+      txHashSettle:      b.txHashSettle,
+    },
+    wall: {
+      id:           b.wall.id,
+      title:        b.wall.title,
+      city:         b.wall.city,
+      ownerAddress: b.wall.owner.walletAddress,
+    },
+  }
+}
+
+/**
+ * Emit the webhook events for a booking whose status went from `prev` to its
+ * current stored state. `prev` is null when the booking was just created.
+ */
+export async function emitBookingWebhooks(
+  bookingId: string,
+  prev:      { status: string; currentMilestone: number } | null
+): Promise<void> {
+  const b = await loadBooking(bookingId)
+  if (!b) return
+  if (prev && prev.status === b.status && prev.currentMilestone === b.currentMilestone) return
+
+  const parties = [b.advertiserId, b.wall.ownerId, b.installerId].filter((id): id is string => !!id)
+  const data    = bookingData(b)
+
+  if (!prev) {
+    await emitWebhookEvent('booking.created', `booking.created:${b.id}`, parties, data)
+  } else if (b.status === 'FUNDED' && b.currentMilestone === 0) {
+    await emitWebhookEvent('booking.funded', `booking.funded:${b.id}`, parties, data)
+  } else if (b.status === 'PROOF_SUBMITTED') {
+    await emitWebhookEvent('proof.submitted', `proof.submitted:${b.id}:${b.currentMilestone}`, parties, data)
+  } else if (SETTLED_STATUSES.includes(b.status)) {
+    await emitWebhookEvent('booking.settled', `booking.settled:${b.id}:${b.status}`, parties, data)
+  }
+}
+
+/**
+ * Emit wall.approved to the owner's endpoints. `approvalId` is the
+ * ModerationAction, so a wall reinstated after a suspension is sent again.
+ */
+export async function emitWallApproved(wallId: string, approvalId: string): Promise<void> {
+  const wall = await prisma.wall.findUnique({
+    where:   { id: wallId },
+    include: { owner: { select: { walletAddress: true } } },
+  })
+  if (!wall || wall.status !== 'ACTIVE') return
+
+  await emitWebhookEvent('wall.approved', `wall.approved:${wall.id}:${approvalId}`, [wall.ownerId], {
+    wall: {
+      id:              wall.id,
+      title:           wall.title,
+      addressText:     wall.addressText,
+      city:            wall.city,
+      country:         wall.country,
+      latitude:        wall.latitude,
+      longitude:       wall.longitude,
+      areaSqft:        wall.areaSqft,
+      pricePerSqftDay: wall.pricePerSqftDay,
+      visibilityTier:  wall.visibilityTier,
+      ownerAddress:    wall.owner.walletAddress,
+    },
+  })
+}
+
+// ── Delivering ───────────────────────────────────────────────────────────────
+
+/** Delay before retry number `attempts` (1-based count of attempts made so far) */
+export function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_SEC * 1000 * 2 ** (attempts - 1)
+}
+
+interface DeliveryRow {
+  id:        string
+  eventId:   string
+  eventType: string
+  payload:   string
+  attempts:  number
+  endpoint:  { url: string; secret: string; active: boolean }
+}
+
+// POST once and record the outcome on the delivery
+async function attempt(d: DeliveryRow): Promise<boolean> {
+  const t        = Math.floor(Date.now() / 1000)
+  const attempts = d.attempts + 1
+  let responseStatus: number | null = null
+  let error:          string | null = null
+
+  try {
+    // Resolved again here: the host may have been repointed since it was saved
+    const blocked = await checkWebhookHost(new URL(d.endpoint.url))
+    if (blocked) throw new Error(blocked)
+
+    const res = await fetch(d.endpoint.url, {
+      method:   'POST',
+      redirect: 'manual',
+      signal:   AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      headers:  {
+        'Content-Type':       'application/json',
+        'User-Agent':         'WallMark-Webhooks/1',
+        'WallMark-Event':     d.eventType,
+        'WallMark-Delivery':  d.id,
+        'WallMark-Signature': signWebhook(d.endpoint.secret, d.payload, t),
+      },
+      body: d.payload,
+    })
+    responseStatus = res.status
+    await res.body?.cancel()
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e)
+  }
+
+  const ok   = responseStatus !== null && responseStatus >= 200 && responseStatus < 300
+  const done = ok || attempts >= MAX_ATTEMPTS
+  await prisma.webhookDelivery.update({
+    where: { id: d.id },
+    data:  {
+      attempts,
+      status:        ok ? 'SUCCEEDED' : done ? 'FAILED' : 'PENDING',
+      nextAttemptAt: done ? null : new Date(Date.now() + retryDelayMs(attempts)),
+      lastAttemptAt: new Date(),
+      deliveredAt:   ok ? new Date() : null,
+      responseStatus,
+      error,
+    },
+  })
+  return ok
+}
+
+/**
+ * Send every pending delivery that is due. Each one is claimed first, so
+ * concurrent runners never POST the same attempt twice.
+ */
+export async function deliverDueWebhooks(limit = 50): Promise<{ sent: number; failed: number }> {
+  const now = new Date()
+  const due = await prisma.webhookDelivery.findMany({
+    where:   { status: 'PENDING', nextAttemptAt: { not: null, lte: now }, endpoint: { active: true } },
+    include: { endpoint: { select: { url: true, secret: true, active: true } } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take:    limit,
+  })
+
+  let sent = 0
+  let failed = 0
+  for (const d of due) {
+    if (!d.nextAttemptAt) continue   // excluded by the query; narrows the type
+    const { count } = await prisma.webhookDelivery.updateMany({
+      where: { id: d.id, status: 'PENDING', nextAttemptAt: d.nextAttemptAt },
+      data:  { nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS) },
+    })
+    if (count === 0) continue
+
+    if (await attempt(d)) sent++
+    else failed++
+  }
+  return { sent, failed }
+}
+
+/** Send a delivery again now and restart its retry schedule; resolves to the outcome */
+export async function redeliverWebhook(deliveryId: string): Promise<boolean> {
+  const d = await prisma.webhookDelivery.update({
+    where:   { id: deliveryId },
+    data:    { status: 'PENDING', attempts: 0, nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS) },
+    include: { endpoint: { select: { url: true, secret: true, active: true } } },
+  })
+  return attempt(d)
+}
@@ -1,6 +1,6 @@
 // Domain types shared across the app
 
-export type WallStatus   = 'PENDING_REVIEW' | 'ACTIVE' | 'SUSPENDED'
+export type WallStatus   = 'PENDING_REVIEW' | 'ACTIVE' | 'SUSPENDED' | 'REJECTED'
 export type BookingStatus =
   | 'PENDING_PAYMENT'
   | 'FUNDED'
@@ -8,6 +8,10 @@ export type BookingStatus =
   | 'APPROVED'
   | 'REJECTED'
   | 'EXPIRED'
+  | 'DISPUTED'
+  | 'CONTESTED'
+  | 'RESOLVED'
+  | 'CANCELLED'
 
 export interface Wall {
   id:               string
@@ -29,12 +33,24 @@ export interface Wall {
   cvConfidence:     number | null
   pricePerSqftDay:  string
   visibilityTier:   number
+  pricingRulesJson: string | null  // JSON PricingRules; null = flat rate
+  minBookingDays:   number | null
+  maxBookingDays:   number | null
+  leadTimeDays:     number
+  startWeekdays:    number[]       // 0 = Sunday … 6 = Saturday; empty = any
+  fullMonthsOnly:   boolean
   photoCids:        string[]
   status:           WallStatus
+  moderationReason: string | null  // why it was last rejected or suspended
+  reviewedAt:       string | null
   createdAt:        string
   updatedAt:        string
 }
 
+/** A wall as shown to someone who may not see its moderation history */
+export type WallView = Omit<Wall, 'moderationReason' | 'reviewedAt'>
+  & Partial<Pick<Wall, 'moderationReason' | 'reviewedAt'>>
+
 export interface Booking {
   id:              string
   advertiserId:    string
@@ -49,18 +65,35 @@ export interface Booking {
   pricePerSqftDay: string
   visibilityMult:  number
   totalBnb:        string
+  pricingRulesJson: string | null  // applied pricing rules + quote date (lib/pricingRules)
+  paymentToken:    string | null
+  paymentAmount:   string | null
   chainBookingId:  string | null
   metadataHash:    string | null
   txHashFund:      string | null
   txHashProof:     string | null
   txHashSettle:    string | null
   chainId:         number
+  proofDeadlineSec: number | null
+  disputeWindowSec: number | null
+  installerFeeBps: number
+  platformFeeBps:  number | null
+  milestoneCount:  number
+  milestoneIntervalSec: number
+  currentMilestone: number
   status:          BookingStatus
+  proofDeadlineAt: string | null
   disputeDeadline: string | null
+  contestDeadline: string | null
+  resolutionShareBps: number | null
+  cancelDeadline:  string | null
+  cancelAdvertiserSig: string | null
+  cancelWallOwnerSig:  string | null
   artworkCid:      string | null
   previewCid:      string | null
   warpMatrix:      string | null
-  proof:           Proof | null
+  proofs:          Proof[]
+  proof:           Proof | null   // current milestone's proof, else the latest one
   createdAt:       string
   updatedAt:       string
 }
@@ -68,6 +101,7 @@ export interface Booking {
 export interface Proof {
   id:                 string
   bookingId:          string
+  milestone:          number
   installerId:        string
   installerAddress:   string
   beforePhotoCids:    string[]
@@ -78,11 +112,15 @@ export interface Proof {
   gpsAccuracyM:       number | null
   proofPackageCid:    string
   proofContentHash:   string
+  installerSignature: string | null
   submittedAt:        string
   decision:           string | null
   rejectionReason:    string | null
   rejectionReasonHash: string | null
   decidedAt:          string | null
+  contestReason:      string | null
+  contestReasonHash:  string | null
+  contestedAt:        string | null
 }
 
 export interface User {
@@ -102,6 +140,10 @@ export const STATUS_LABELS: Record<BookingStatus, string> = {
   APPROVED:        'Approved',
   REJECTED:        'Rejected',
   EXPIRED:         'Expired',
+  DISPUTED:        'Disputed',
+  CONTESTED:       'In Arbitration',
+  RESOLVED:        'Resolved',
+  CANCELLED:       'Cancelled',
 }
 
 export const STATUS_COLORS: Record<BookingStatus, string> = {
@@ -111,4 +153,8 @@ export const STATUS_COLORS: Record<BookingStatus, string> = {
   APPROVED:        'text-emerald-400 bg-emerald-400/10',
   REJECTED:        'text-red-400 bg-red-400/10',
   EXPIRED:         'text-gray-400 bg-gray-400/10',
+  DISPUTED:        'text-orange-400 bg-orange-400/10',
+  CONTESTED:       'text-orange-400 bg-orange-400/10',
+  RESOLVED:        'text-cyan-400 bg-cyan-400/10',
+  CANCELLED:       'text-gray-400 bg-gray-400/10',
 }